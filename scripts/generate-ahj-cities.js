@@ -126,6 +126,18 @@ function normalizeName(name) {
     .replace(/\s+/g, ''); // Remove spaces
 }
 
+// Match key for a city in a state; cities with the same name in different
+// states get different keys. The state is the two-letter code, as in the
+// boundary repo's directory names.
+function cityStateKey(city, state) {
+  return `${normalizeName(city)}|${(state || '').toLowerCase().replace(/[^a-z]/g, '')}`;
+}
+
+// State code of a boundary file (files are stored as cities/<state>/<city>.json)
+function getStateCode(file) {
+  return path.basename(path.dirname(file)).toLowerCase();
+}
+
 // Main function to generate city boundaries for AHJs
 async function generateAHJCityBoundaries() {
   console.log('Starting to generate city boundaries for AHJs...');
@@ -143,17 +155,22 @@ async function generateAHJCityBoundaries() {
   
   console.log(`Found ${ahjs.length} AHJs in the database`);
   
-  // Extract city names from AHJs
+  // Extract city and state names from AHJs
   const ahjCities = new Set();
+  const ahjsByCity = new Map();
   ahjs.forEach(ahj => {
-    // The AHJ name often contains the city name
+    // The AHJ name often contains the city name, followed by the state ("Mesa, AZ")
     const ahjName = ahj.name;
     
     // Extract potential city name from AHJ name
     // This is a simple approach - you might need to refine this based on your data
-    const cityMatch = ahjName.match(/^([^,]+)/);
-    if (cityMatch && cityMatch[1]) {
-      ahjCities.add(cityMatch[1].trim());
+    const parts = ahjName.split(',').map(part => part.trim());
+    const suffix = parts.length > 1 ? parts[parts.length - 1] : '';
+    if (parts[0]) {
+      const city = parts[0];
+      const state = ahj.state || (/^[A-Za-z]{2}$/.test(suffix) ? suffix : '');
+      ahjCities.add(city);
+      ahjsByCity.set(cityStateKey(city, state), ahj);
     }
   });
   
@@ -167,11 +184,12 @@ async function generateAHJCityBoundaries() {
   const files = glob.sync(pattern);
   console.log(`Found ${files.length} city boundary files`);
   
-  // Normalize AHJ city names for comparison
-  const normalizedAHJCities = Array.from(ahjCities).map(city => ({
-    original: city,
-    normalized: normalizeName(city)
-  }));
+  // Find the AHJ for a boundary file by its city and state
+  // AHJs whose state isn't known can only be matched on the city name
+  const findAhjForFile = file => {
+    const city = path.basename(file, '.json');
+    return ahjsByCity.get(cityStateKey(city, getStateCode(file))) || ahjsByCity.get(cityStateKey(city, ''));
+  };
   
   // Filter and sort files to prioritize AHJ cities, then major cities, then priority states
   const matchedFiles = [];
@@ -183,11 +201,8 @@ async function generateAHJCityBoundaries() {
     const fileName = path.basename(file, '.json');
     const stateName = file.split('/').slice(-2)[0].toLowerCase();
     
-    // Check if this file matches an AHJ city
-    const isAHJCity = normalizedAHJCities.some(city => 
-      normalizeName(fileName).includes(city.normalized) || 
-      city.normalized.includes(normalizeName(fileName))
-    );
+    // Check if this file matches an AHJ city in the same state
+    const isAHJCity = !!findAhjForFile(file);
     
     if (isAHJCity) {
       matchedFiles.push(file);
@@ -228,6 +243,20 @@ async function generateAHJCityBoundaries() {
     try {
       const data = JSON.parse(fs.readFileSync(file, 'utf8'));
       
+      // Tag the boundary with its AHJ so the map can match it by id
+      const ahj = findAhjForFile(file);
+      const tagFeature = feature => {
+        feature.properties = { ...feature.properties, state_code: getStateCode(file) };
+        if (ahj) {
+          feature.properties = {
+            ...feature.properties,
+            ahj_id: String(ahj.ahj_item_id || ahj.id),
+            ahj_name: ahj.name
+          };
+        }
+        return feature;
+      };
+      
       // Handle different GeoJSON structures
       if (data.type === 'FeatureCollection') {
         data.features.forEach(feature => {
@@ -235,14 +264,14 @@ async function generateAHJCityBoundaries() {
           if (feature.geometry && feature.geometry.coordinates) {
             feature.geometry.coordinates = simplifyPolygon(feature.geometry.coordinates);
           }
-          combinedGeoJSON.features.push(feature);
+          combinedGeoJSON.features.push(tagFeature(feature));
         });
       } else if (data.type === 'Feature') {
         // Simplify the geometry to reduce file size
         if (data.geometry && data.geometry.coordinates) {
           data.geometry.coordinates = simplifyPolygon(data.geometry.coordinates);
         }
-        combinedGeoJSON.features.push(data);
+        combinedGeoJSON.features.push(tagFeature(data));
       }
       
       processedCount++;
@@ -263,6 +292,12 @@ async function generateAHJCityBoundaries() {
     try {
       const data = JSON.parse(fs.readFileSync(file, 'utf8'));
       
+      // Record the state so the map can tell same-named cities apart
+      const tagFeature = feature => {
+        feature.properties = { ...feature.properties, state_code: getStateCode(file) };
+        return feature;
+      };
+      
       // Handle different GeoJSON structures
       if (data.type === 'FeatureCollection') {
         data.features.forEach(feature => {
@@ -270,14 +305,14 @@ async function generateAHJCityBoundaries() {
           if (feature.geometry && feature.geometry.coordinates) {
             feature.geometry.coordinates = simplifyPolygon(feature.geometry.coordinates);
           }
-          combinedGeoJSON.features.push(feature);
+          combinedGeoJSON.features.push(tagFeature(feature));
         });
       } else if (data.type === 'Feature') {
         // Simplify the geometry to reduce file size
         if (data.geometry && data.geometry.coordinates) {
           data.geometry.coordinates = simplifyPolygon(data.geometry.coordinates);
         }
-        combinedGeoJSON.features.push(data);
+        combinedGeoJSON.features.push(tagFeature(data));
       }
       
       processedCount++;
@@ -0,0 +1,241 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { FiSearch } from 'react-icons/fi';
+import Header from '@/components/Header';
+import ClassificationEditor from '@/components/ClassificationEditor';
+import ClassificationHistory from '@/components/ClassificationHistory';
+import ClassificationSuggestionCard from '@/components/ClassificationSuggestionCard';
+import { useAuth } from '@/utils/AuthContext';
+import { useData } from '@/contexts/DataContext';
+import { EntityKind, normalizeEntities } from '@/utils/projectNormalization';
+import { getClassificationBadgeClass, formatClassification } from '@/utils/classificationColors';
+import { getEntityDetailPath } from '@/utils/entityDetailApi';
+import { isSuggestedChange } from '@/utils/classificationSuggestions';
+import { EntityStats, fetchEntityStats } from '@/utils/projectAggregatesApi';
+
+// Entity types that can be edited, in tab order
+const ENTITY_TABS: { type: EntityKind; label: string; singular: string }[] = [
+  { type: 'ahj', label: 'AHJs', singular: 'AHJ' },
+  { type: 'utility', label: 'Utilities', singular: 'Utility' },
+  { type: 'financier', label: 'Financiers', singular: 'Financier' }
+];
+
+/**
+ * Admin screen for correcting AHJ, utility and financier classifications
+ * Every change requires a reason and is recorded in the entity's change log.
+ */
+export default function ClassificationAdminPage() {
+  const router = useRouter();
+  const { user, isAdmin, isLoading: authLoading } = useAuth();
+  const { rawProjects, rawAhjs, rawUtilities, rawFinanciers, refreshData } = useData();
+
+  const [entityType, setEntityType] = useState<EntityKind>('ahj');
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Bumped after each save so the change log reloads
+  const [historyKey, setHistoryKey] = useState(0);
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, authLoading, router]);
+
+  // Data is normally loaded by the home page; load it when this page is opened directly
+  useEffect(() => {
+    if (user && rawProjects.length === 0) {
+      refreshData();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user]);
+
+  // Classes suggested by the outcomes of every project, keyed by entity ID
+  const [allSuggestions, setAllSuggestions] = useState<EntityStats['suggestions'] | null>(null);
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    let cancelled = false;
+    fetchEntityStats()
+      .then(stats => {
+        if (!cancelled) setAllSuggestions(stats.suggestions);
+      })
+      .catch(err => console.error('[ClassificationAdmin] Failed to load suggestions:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAdmin]);
+
+  const suggestions = useMemo(
+    () => new Map(Object.entries(allSuggestions?.[entityType] || {})),
+    [allSuggestions, entityType]
+  );
+
+  const entities = useMemo(() => {
+    const rows = entityType === 'ahj' ? rawAhjs : entityType === 'utility' ? rawUtilities : rawFinanciers;
+    const term = search.trim().toLowerCase();
+
+    return normalizeEntities(rows, entityType)
+      .filter(entity => !term || entity.name.toLowerCase().includes(term))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [entityType, rawAhjs, rawUtilities, rawFinanciers, search]);
+
+  const selectedEntity = entities.find(entity => entity.id === selectedId) || null;
+  const selectedSuggestion = selectedEntity ? suggestions.get(selectedEntity.id) || null : null;
+
+  const handleTabChange = (type: EntityKind) => {
+    setEntityType(type);
+    setSelectedId(null);
+  };
+
+  const handleSaved = async () => {
+    setHistoryKey(key => key + 1);
+    // Reload entities so the new class shows everywhere
+    await refreshData();
+  };
+
+  if (authLoading) {
+    return (
+      <div className="flex justify-center items-center h-screen bg-[#121212]">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-white"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-screen bg-[#121212] text-white">
+      <Header activePage="admin" />
+
+      {!isAdmin ? (
+        <div className="p-6 text-gray-400">Only admins can edit classifications.</div>
+      ) : (
+        <main className="flex flex-1 overflow-hidden">
+          {/* Entity list */}
+          <div className="w-[360px] flex flex-col border-r border-gray-800 bg-gray-900">
+            <div className="flex border-b border-gray-800">
+              {ENTITY_TABS.map(tab => (
+                <button
+                  key={tab.type}
+                  onClick={() => handleTabChange(tab.type)}
+                  className={`flex-1 py-3 text-sm font-medium ${
+                    entityType === tab.type ? 'text-white border-b-2 border-blue-500' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="p-3 border-b border-gray-800">
+              <div className="flex items-center bg-gray-800 border border-gray-700 rounded px-2">
+                <FiSearch className="text-gray-400" />
+                <input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search by name"
+                  className="flex-1 bg-transparent px-2 py-1.5 text-sm text-white focus:outline-none"
+                />
+              </div>
+            </div>
+
+            <ul className="flex-1 overflow-y-auto">
+              {entities.map(entity => {
+                // Flag entities whose outcomes point to another class
+                const suggestion = suggestions.get(entity.id);
+                const suggestsChange = suggestion && isSuggestedChange(suggestion, entity.classification);
+
+                return (
+                  <li key={entity.id}>
+                    <button
+                      onClick={() => setSelectedId(entity.id)}
+                      className={`w-full flex items-center px-4 py-2 text-left text-sm hover:bg-gray-800 ${
+                        entity.id === selectedId ? 'bg-gray-800' : ''
+                      }`}
+                    >
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium mr-3 ${getClassificationBadgeClass(entity.classification)}`}>
+                        {formatClassification(entity.classification)}
+                      </span>
+                      <span className="flex-1 truncate">{entity.name}</span>
+                      {suggestsChange && (
+                        <span
+                          className="ml-2 text-xs text-yellow-400"
+                          title={`Suggested class ${suggestion.classification} (${Math.round(suggestion.confidence * 100)}% confidence)`}
+                        >
+                          → {suggestion.classification}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                );
+              })}
+              {entities.length === 0 && (
+                <li className="p-4 text-sm text-gray-500">No matches</li>
+              )}
+            </ul>
+          </div>
+
+          {/* Selected entity: editor and change log */}
+          <div className="flex-1 overflow-y-auto p-6">
+            {!selectedEntity ? (
+              <div className="text-gray-400">Select an entity to edit its classification.</div>
+            ) : (
+              <div className="max-w-2xl space-y-6">
+                <div>
+                  <div className="text-xs uppercase text-gray-400">
+                    {ENTITY_TABS.find(tab => tab.type === entityType)?.singular}
+                  </div>
+                  <div className="flex items-center mt-1">
+                    <h2 className="text-2xl font-semibold mr-3">{selectedEntity.name}</h2>
+                    <span className={`px-2 py-0.5 rounded text-sm font-medium ${getClassificationBadgeClass(selectedEntity.classification)}`}>
+                      {formatClassification(selectedEntity.classification)}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Podio ID {selectedEntity.id} ·{' '}
+                    <Link href={getEntityDetailPath(entityType, selectedEntity.id)} className="text-blue-400 hover:text-blue-300">
+                      View details
+                    </Link>
+                  </div>
+                </div>
+
+                <section>
+                  <h3 className="text-lg font-semibold mb-3">Suggested from project outcomes</h3>
+                  <ClassificationSuggestionCard
+                    entityType={entityType}
+                    entityId={selectedEntity.id}
+                    currentClassification={selectedEntity.classification}
+                    suggestion={selectedSuggestion}
+                    onAccepted={handleSaved}
+                  />
+                </section>
+
+                <section>
+                  <h3 className="text-lg font-semibold mb-3">Change classification</h3>
+                  <ClassificationEditor
+                    entityType={entityType}
+                    entityId={selectedEntity.id}
+                    currentClassification={selectedEntity.classification}
+                    onSaved={handleSaved}
+                  />
+                </section>
+
+                <section>
+                  <h3 className="text-lg font-semibold mb-3">Change log</h3>
+                  <ClassificationHistory
+                    entityType={entityType}
+                    entityId={selectedEntity.id}
+                    refreshKey={historyKey}
+                  />
+                </section>
+              </div>
+            )}
+          </div>
+        </main>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import EntityDetailView from '@/components/EntityDetailView';
+
+/**
+ * AHJ detail page
+ */
+export default function AhjDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  return <EntityDetailView entityType="ahj" id={decodeURIComponent(id)} />;
+}
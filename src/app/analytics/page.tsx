@@ -0,0 +1,219 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Header from '@/components/Header';
+import ImprovedFilterPanel from '@/components/ImprovedFilterPanel';
+import {
+  ClassOutcomeChart,
+  CombinationTable,
+  EntityRankingList,
+  MonthlyOutcomeChart
+} from '@/components/AnalyticsCharts';
+import { useAuth } from '@/utils/AuthContext';
+import { useData } from '@/contexts/DataContext';
+import { EntityKind } from '@/utils/projectNormalization';
+import { MIN_RANKED_PROJECTS, ProjectAnalytics } from '@/utils/projectAnalytics';
+import { fetchProjectAnalytics } from '@/utils/projectAggregatesApi';
+import { hasUrlState, parseUrlState } from '@/utils/urlState';
+
+// Entity types in display order
+const ENTITY_SECTIONS: { type: EntityKind; label: string; plural: string }[] = [
+  { type: 'ahj', label: 'AHJ', plural: 'AHJs' },
+  { type: 'utility', label: 'Utility', plural: 'Utilities' },
+  { type: 'financier', label: 'Financier', plural: 'Financiers' }
+];
+
+// Class combinations listed in the table
+const COMBINATION_LIMIT = 15;
+
+/**
+ * Install outcomes by classification for the filtered projects
+ * Uses the same filters as the home page list and map, and can change them.
+ */
+export default function AnalyticsPage() {
+  const router = useRouter();
+  const { user, isLoading: authLoading } = useAuth();
+  const {
+    rawProjects,
+    isLoading,
+    error,
+    filters,
+    addFilter,
+    removeFilter,
+    updateFilter,
+    clearFilters,
+    searchTerms,
+    handleSearch,
+    showOnlyMyProjects,
+    toggleShowOnlyMyProjects,
+    applyFilterState,
+    fetchAllData
+  } = useData();
+  const urlStateApplied = useRef(false);
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, authLoading, router]);
+
+  // Data is normally loaded by the home page; load it when this page is opened directly
+  useEffect(() => {
+    if (user && rawProjects.length === 0) {
+      fetchAllData();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user]);
+
+  // A link with filters in the URL applies them once
+  useEffect(() => {
+    if (urlStateApplied.current) return;
+    urlStateApplied.current = true;
+    const params = new URLSearchParams(window.location.search);
+    if (hasUrlState(params)) {
+      applyFilterState(parseUrlState(params));
+    }
+  }, [applyFilterState]);
+
+  // Analytics cover every matching project, so they are built on the server
+  const [analytics, setAnalytics] = useState<ProjectAnalytics | null>(null);
+  const [analyticsError, setAnalyticsError] = useState<string | null>(null);
+  const filterKey = JSON.stringify(filters.filters);
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    fetchProjectAnalytics(filters.filters)
+      .then(result => {
+        if (cancelled) return;
+        setAnalytics(result);
+        setAnalyticsError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('[Analytics] Failed to load analytics:', err);
+        setAnalyticsError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, filterKey]);
+
+  const activeFilterCount = filters.filters.length;
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="flex justify-center items-center h-screen bg-[#121212]">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-white"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-screen bg-[#121212] text-white">
+      <Header activePage="analytics" />
+
+      <main className="flex flex-1 overflow-hidden">
+        <div className="w-[340px] border-r border-gray-800 bg-gray-900 overflow-y-auto">
+          <ImprovedFilterPanel
+            filters={filters}
+            addFilter={addFilter}
+            removeFilter={removeFilter}
+            updateFilter={updateFilter}
+            clearFilters={clearFilters}
+            onSearch={handleSearch}
+            searchTerms={searchTerms}
+            showOnlyMyProjects={showOnlyMyProjects}
+            toggleShowOnlyMyProjects={toggleShowOnlyMyProjects}
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-8">
+          {(error || analyticsError) && <div className="text-red-400">{error || analyticsError}</div>}
+
+          {!analytics ? (
+            !analyticsError && <div className="text-gray-400">Loading analytics...</div>
+          ) : (
+            <>
+              {/* Summary */}
+              <section>
+                <h1 className="text-2xl font-semibold">Install outcomes</h1>
+                <p className="text-sm text-gray-400 mt-1">
+                  {activeFilterCount > 0
+                    ? `${activeFilterCount} active filter${activeFilterCount === 1 ? '' : 's'} applied`
+                    : 'All projects'}
+                </p>
+                <div className="grid grid-cols-3 gap-4 mt-4 max-w-2xl">
+                  <div className="bg-gray-900 rounded-lg p-4">
+                    <div className="text-xs uppercase text-gray-400">Projects</div>
+                    <div className="text-2xl font-semibold mt-1">{analytics.overall.total}</div>
+                  </div>
+                  <div className="bg-gray-900 rounded-lg p-4">
+                    <div className="text-xs uppercase text-gray-400">45-day qualified</div>
+                    <div className="text-2xl font-semibold mt-1">{analytics.overall.qualified}</div>
+                  </div>
+                  <div className="bg-gray-900 rounded-lg p-4">
+                    <div className="text-xs uppercase text-gray-400">45-day rate</div>
+                    <div className="text-2xl font-semibold mt-1">{Math.round(analytics.overall.rate * 100)}%</div>
+                  </div>
+                </div>
+              </section>
+
+              {/* By class */}
+              <section>
+                <h2 className="text-lg font-semibold mb-1">Projects by class</h2>
+                <p className="text-xs text-gray-500 mb-3">Bar length is the project count; green is the qualified share</p>
+                <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+                  {ENTITY_SECTIONS.map(section => (
+                    <div key={section.type} className="bg-gray-900 rounded-lg p-4">
+                      <h3 className="text-sm font-semibold text-gray-300 mb-3">{section.label} class</h3>
+                      <ClassOutcomeChart rows={analytics.byClass[section.type]} />
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              {/* Over time */}
+              <section>
+                <h2 className="text-lg font-semibold mb-3">Contracts signed per month</h2>
+                <MonthlyOutcomeChart months={analytics.byMonth} />
+              </section>
+
+              {/* Combinations */}
+              <section>
+                <h2 className="text-lg font-semibold mb-3">Class combinations</h2>
+                <div className="max-w-3xl">
+                  <CombinationTable rows={analytics.combinations.slice(0, COMBINATION_LIMIT)} />
+                </div>
+              </section>
+
+              {/* Rankings */}
+              <section>
+                <h2 className="text-lg font-semibold mb-1">Highest and lowest 45-day rates</h2>
+                <p className="text-xs text-gray-500 mb-3">Entities with at least {MIN_RANKED_PROJECTS} projects</p>
+                <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+                  {ENTITY_SECTIONS.map(section => (
+                    <div key={section.type} className="bg-gray-900 rounded-lg p-4 space-y-4">
+                      <div>
+                        <h3 className="text-sm font-semibold text-green-400 mb-2">Top {section.plural}</h3>
+                        <EntityRankingList entityType={section.type} entities={analytics.rankings[section.type].top} />
+                      </div>
+                      <div>
+                        <h3 className="text-sm font-semibold text-orange-400 mb-2">Bottom {section.plural}</h3>
+                        <EntityRankingList entityType={section.type} entities={analytics.rankings[section.type].bottom} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
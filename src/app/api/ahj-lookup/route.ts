@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { geocodeAddress, lookupAhjAtPoint } from '@/server/ahjLookup';
+import { getRequestViewer } from '@/server/requestAuth';
+import { parseGeoPoint } from '@/utils/geo';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/ahj-lookup
+ *
+ * Finds the AHJ for `address=...` (geocoded) or `point=lat,lng` (a dropped pin),
+ * returning the AHJ, its classification and historical project counts.
+ */
+export async function GET(request: Request) {
+  try {
+    const viewer = await getRequestViewer(request);
+    if (!viewer) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const address = (searchParams.get('address') || '').trim();
+    const point = parseGeoPoint(searchParams.get('point'));
+
+    if (point) {
+      return NextResponse.json(await lookupAhjAtPoint(point));
+    }
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'An address or point parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const geocoded = await geocodeAddress(address);
+    if (!geocoded) {
+      return NextResponse.json({ error: `No location found for "${address}"` }, { status: 404 });
+    }
+
+    const result = await lookupAhjAtPoint(geocoded.location);
+    return NextResponse.json({ ...result, placeName: geocoded.placeName });
+  } catch (error) {
+    console.error('Error looking up AHJ:', error);
+    return NextResponse.json({ error: 'Failed to look up AHJ' }, { status: 500 });
+  }
+}
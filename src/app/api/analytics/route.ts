@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getProjectAnalytics } from '@/server/projectAggregates';
+import { parseProjectQueryParams } from '@/server/projectQueries';
+import { getRequestViewer } from '@/server/requestAuth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/analytics
+ *
+ * Returns install outcomes by classification for every project matching the
+ * filters, masked for the signed-in user. Accepts the /api/projects filter
+ * parameters plus `filters`, the encoded filter list (see
+ * encodeFilterExpression), which the other parameters only narrow.
+ */
+export async function GET(request: Request) {
+  try {
+    const viewer = await getRequestViewer(request);
+    if (!viewer) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const params = parseProjectQueryParams(new URL(request.url).searchParams);
+    const analytics = await getProjectAnalytics(params, viewer);
+
+    return NextResponse.json(analytics);
+  } catch (error) {
+    console.error('Error building analytics:', error);
+    return NextResponse.json({ error: 'Failed to build analytics' }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { changeClassification, fetchClassificationHistory } from '@/server/classificationChanges';
+import { getRequestViewer } from '@/server/requestAuth';
+import { EDITABLE_CLASSIFICATIONS, EditableClassification } from '@/utils/classificationApi';
+import { isAdminViewer } from '@/utils/projectMasking';
+import { isEntityKind } from '@/utils/projectNormalization';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/classifications?entityType=ahj|utility|financier&entityId=...
+ *
+ * Returns the classification change log for an entity, newest first.
+ */
+export async function GET(request: Request) {
+  try {
+    const viewer = await getRequestViewer(request);
+    if (!viewer) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const entityType = searchParams.get('entityType');
+    const entityId = (searchParams.get('entityId') || '').trim();
+
+    if (!isEntityKind(entityType) || !entityId) {
+      return NextResponse.json(
+        { error: 'A valid entityType and entityId are required' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ history: await fetchClassificationHistory(entityType, entityId) });
+  } catch (error) {
+    console.error('Error fetching classification history:', error);
+    return NextResponse.json({ error: 'Failed to fetch classification history' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/classifications
+ *
+ * Changes an entity's classification. Admins only; a reason is required.
+ * Body: { entityType, entityId, classification, reason }
+ */
+export async function POST(request: Request) {
+  try {
+    const viewer = await getRequestViewer(request);
+    if (!viewer) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!isAdminViewer(viewer)) {
+      return NextResponse.json({ error: 'Only admins can change classifications' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const entityType = body.entityType;
+    const entityId = typeof body.entityId === 'string' ? body.entityId.trim() : '';
+    const classification = body.classification as EditableClassification;
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    if (!isEntityKind(entityType) || !entityId) {
+      return NextResponse.json(
+        { error: 'A valid entityType and entityId are required' },
+        { status: 400 }
+      );
+    }
+    if (!EDITABLE_CLASSIFICATIONS.includes(classification)) {
+      return NextResponse.json(
+        { error: `Classification must be one of ${EDITABLE_CLASSIFICATIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!reason) {
+      return NextResponse.json({ error: 'A reason is required' }, { status: 400 });
+    }
+
+    const change = await changeClassification({ entityType, entityId, classification, reason }, viewer);
+    if (!change) {
+      return NextResponse.json({ error: `No ${entityType} found with id ${entityId}` }, { status: 404 });
+    }
+
+    return NextResponse.json({ change });
+  } catch (error) {
+    console.error('Error changing classification:', error);
+    return NextResponse.json({ error: 'Failed to change classification' }, { status: 500 });
+  }
+}
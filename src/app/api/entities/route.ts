@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { processAhjs, processUtilities, supabase } from '@/server/ServerDataService';
+import { getRequestViewer } from '@/server/requestAuth';
+import { isInMapArea, parseMapArea } from '@/utils/geo';
+import { NormalizedEntity } from '@/utils/projectNormalization';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/entities
+ *
+ * Returns the AHJ and utility pins inside a map area, given either
+ * `bbox=west,south,east,north` or `near=lat,lng&radius=miles`.
+ * Entity tables are small, so they are filtered in memory after normalization.
+ */
+export async function GET(request: Request) {
+  try {
+    const viewer = await getRequestViewer(request);
+    if (!viewer) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const area = parseMapArea(new URL(request.url).searchParams);
+    if (!area) {
+      return NextResponse.json(
+        { error: 'A bbox or near/radius parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const [ahjResult, utilityResult] = await Promise.all([
+      supabase.from('ahj').select('*'),
+      supabase.from('utility').select('*')
+    ]);
+
+    if (ahjResult.error || utilityResult.error) {
+      const error = ahjResult.error || utilityResult.error;
+      return NextResponse.json({ error: error?.message }, { status: 500 });
+    }
+
+    // Only entities with valid coordinates can be placed on the map
+    const inArea = (entity: NormalizedEntity) =>
+      entity.coordStatus === 'valid' &&
+      isInMapArea({ latitude: entity.latitude!, longitude: entity.longitude! }, area);
+
+    return NextResponse.json({
+      ahjs: processAhjs(ahjResult.data || []).filter(inArea),
+      utilities: processUtilities(utilityResult.data || []).filter(inArea)
+    });
+  } catch (error) {
+    console.error('Error fetching entity pins:', error);
+    return NextResponse.json({ error: 'Failed to fetch entity pins' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getEntityDetail } from '@/server/entityDetail';
+import { getRequestViewer } from '@/server/requestAuth';
+import { isEntityKind } from '@/utils/projectNormalization';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/entity-detail?type=ahj|utility|financier&id=...
+ *
+ * Returns an entity with its related entities, project breakdowns, 45-day
+ * qualification by month and visible installs, masked for the signed-in user.
+ */
+export async function GET(request: Request) {
+  try {
+    const viewer = await getRequestViewer(request);
+    if (!viewer) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const entityType = searchParams.get('type');
+    const id = (searchParams.get('id') || '').trim();
+
+    if (!isEntityKind(entityType) || !id) {
+      return NextResponse.json({ error: 'A valid type and id are required' }, { status: 400 });
+    }
+
+    const detail = await getEntityDetail(entityType, id, viewer);
+    if (!detail) {
+      return NextResponse.json({ error: `No ${entityType} found with id ${id}` }, { status: 404 });
+    }
+
+    return NextResponse.json(detail);
+  } catch (error) {
+    console.error('Error fetching entity detail:', error);
+    return NextResponse.json({ error: 'Failed to fetch entity detail' }, { status: 500 });
+  }
+}
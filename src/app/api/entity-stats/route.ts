@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getEntityStats } from '@/server/projectAggregates';
+import { getRequestViewer } from '@/server/requestAuth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/entity-stats
+ *
+ * Returns the days from contract to each milestone for every AHJ, utility and
+ * financier, and for admins their suggested classes, built from every project
+ * visible to the signed-in user.
+ */
+export async function GET(request: Request) {
+  try {
+    const viewer = await getRequestViewer(request);
+    if (!viewer) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    return NextResponse.json(await getEntityStats(viewer));
+  } catch (error) {
+    console.error('Error building entity stats:', error);
+    return NextResponse.json({ error: 'Failed to build entity stats' }, { status: 500 });
+  }
+}
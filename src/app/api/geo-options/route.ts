@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getGeoOptions } from '@/server/projectAggregates';
+import { getRequestViewer } from '@/server/requestAuth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/geo-options
+ *
+ * Returns the state, county, city and zip values of every project visible to
+ * the signed-in user, with their project counts, for the location filters.
+ */
+export async function GET(request: Request) {
+  try {
+    const viewer = await getRequestViewer(request);
+    if (!viewer) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    return NextResponse.json(await getGeoOptions(viewer));
+  } catch (error) {
+    console.error('Error building location options:', error);
+    return NextResponse.json({ error: 'Failed to build location options' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import {
+  detectClassificationChanges,
+  fetchRepNotifications,
+  markRepNotificationsRead
+} from '@/server/classificationNotifications';
+import { getRequestViewer } from '@/server/requestAuth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/notifications
+ *
+ * Checks for classification changes since the last data refresh, then returns
+ * the signed-in rep's most recent notifications. Users without a rep ID have none.
+ */
+export async function GET(request: Request) {
+  try {
+    const viewer = await getRequestViewer(request);
+    if (!viewer) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    await detectClassificationChanges();
+
+    if (!viewer.rep_id) {
+      return NextResponse.json({ notifications: [] });
+    }
+
+    return NextResponse.json({ notifications: await fetchRepNotifications(viewer.rep_id) });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json({ error: 'Failed to fetch notifications' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/notifications
+ *
+ * Marks the signed-in rep's notifications as read.
+ * Body: { ids?: string[] } - every unread notification when ids is omitted
+ */
+export async function POST(request: Request) {
+  try {
+    const viewer = await getRequestViewer(request);
+    if (!viewer) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!viewer.rep_id) {
+      return NextResponse.json({ success: true });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const ids = Array.isArray(body.ids)
+      ? body.ids.filter((id: unknown): id is string => typeof id === 'string')
+      : undefined;
+
+    await markRepNotificationsRead(viewer.rep_id, ids);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    return NextResponse.json({ error: 'Failed to mark notifications read' }, { status: 500 });
+  }
+}
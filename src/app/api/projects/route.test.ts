@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProjectViewer } from '@/utils/projectMasking';
+
+// Rows returned by the fake project_index query
+let rows: Record<string, unknown>[] = [];
+let viewer: ProjectViewer | null = null;
+// Filters applied to the fake queries, as [method, ...args]
+let filterCalls: unknown[][] = [];
+
+/**
+ * Chainable stand-in for a Supabase query builder: every filter returns the
+ * builder, and awaiting it resolves to the current rows
+ */
+const createQuery = () => {
+  const query: Record<string, unknown> = {};
+  ['select', 'order', 'limit', 'range'].forEach(method => {
+    query[method] = () => query;
+  });
+  ['eq', 'gte', 'lte', 'or', 'filter', 'in'].forEach(method => {
+    query[method] = (...args: unknown[]) => {
+      filterCalls.push([method, ...args]);
+      return query;
+    };
+  });
+  query.then = (resolve: (value: unknown) => unknown) =>
+    resolve({ data: rows, count: rows.length, error: null });
+  return query;
+};
+
+vi.mock('@/server/ServerDataService', () => ({
+  supabase: { from: () => createQuery() }
+}));
+
+vi.mock('@/server/requestAuth', () => ({
+  getRequestViewer: async () => viewer
+}));
+
+const { GET } = await import('./route');
+
+const RESTRICTED_FIELDS = {
+  address: '123 Main St, Mesa, AZ 85201',
+  status: 'Site survey scheduled',
+  customer_name: 'Jane Customer',
+  rep_id: 'rep-other'
+};
+
+// Podio fields that are only ever read on the server
+const PAYLOAD_FIELDS = {
+  address: '123 Main St',
+  customer_name: 'Jane Customer',
+  customer_phone: '480-555-0123',
+  customer_email: 'jane@example.com',
+  latitude: '33.4152',
+  longitude: '-111.8315'
+};
+
+const indexRow = (overrides: Record<string, unknown> = {}) => ({
+  project_id: 'p-1',
+  ...RESTRICTED_FIELDS,
+  latitude: 33.4152,
+  longitude: -111.8315,
+  city: 'Mesa',
+  state: 'AZ',
+  zip: '85201',
+  milestone: 'Site Survey',
+  ahj_item_id: 'ahj-1',
+  ahj_name: 'Mesa',
+  ahj_classification: 'A',
+  utility_name: 'SRP',
+  financier_name: 'Sunrun',
+  raw_payload: { raw_payload: PAYLOAD_FIELDS },
+  ...overrides
+});
+
+const request = (search = '') => new Request(`http://localhost/api/projects${search}`, {
+  headers: { Authorization: 'Bearer token' }
+});
+
+describe('GET /api/projects', () => {
+  beforeEach(() => {
+    rows = [indexRow()];
+    viewer = { id: 'user-1', rep_id: 'rep-me', role: 'rep' };
+    filterCalls = [];
+  });
+
+  it('requires a signed-in user', async () => {
+    viewer = null;
+    const response = await GET(request());
+    expect(response.status).toBe(401);
+  });
+
+  it('never sends restricted fields of masked projects to a rep', async () => {
+    const response = await GET(request());
+    const body = await response.json();
+    const [project] = body.projects;
+
+    expect(response.status).toBe(200);
+    expect(project.isMasked).toBe(true);
+    expect(project).not.toHaveProperty('latitude');
+    expect(project).not.toHaveProperty('longitude');
+    expect(project).not.toHaveProperty('customer_name');
+    expect(project.rep_id).toBeNull();
+    expect(project).not.toHaveProperty('raw_payload');
+
+    const payload = JSON.stringify(body);
+    [...Object.values(RESTRICTED_FIELDS), ...Object.values(PAYLOAD_FIELDS)].forEach(value => {
+      expect(payload).not.toContain(value);
+    });
+    expect(payload).not.toContain('33.4152');
+    expect(payload).not.toContain('-111.8315');
+  });
+
+  it('sends the full project to its own rep', async () => {
+    rows = [indexRow({ rep_id: 'rep-me' })];
+    const body = await (await GET(request())).json();
+
+    expect(body.projects[0]).toMatchObject({ isMasked: false, address: RESTRICTED_FIELDS.address, latitude: 33.4152 });
+  });
+
+  it('fetches a single project by id', async () => {
+    const response = await GET(request('?id=p-1&limit=1'));
+
+    expect(response.status).toBe(200);
+    expect(filterCalls).toContainEqual(['eq', 'project_id', 'p-1']);
+  });
+});
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { parseProjectQueryParams, queryProjects } from '@/server/projectQueries';
+import { getRequestViewer } from '@/server/requestAuth';
+
+// Project payloads depend on the signed-in user, so they must never be cached
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/projects
+ *
+ * Returns one page of the projects visible to the signed-in user.
+ * Accepts the FilterParams fields (search, ahj, utility, financier, classification,
+ * entityType, qualified45Day, myProjects, contractDate, state, county, city, zip,
+ * sortField, sortDirection; location fields may be repeated) plus `cursor`
+ * and `limit` for pagination, `id` to fetch a single project, and either
+ * `bbox=west,south,east,north` or `near=lat,lng&radius=miles` to limit results
+ * to a map area. Filtering and sorting run in SQL, and restricted
+ * projects are masked on the server so their address, coordinates, customer name
+ * and rep ID are never included in the response.
+ *
+ * Response: { projects, nextCursor, total, totals } where `totals` holds the
+ * project counts per AHJ/utility/financier classification for the current filters.
+ */
+export async function GET(request: Request) {
+  try {
+    const viewer = await getRequestViewer(request);
+    if (!viewer) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const params = parseProjectQueryParams(new URL(request.url).searchParams);
+    const page = await queryProjects(params, viewer);
+
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('Error fetching projects:', error);
+    return NextResponse.json({ error: 'Failed to fetch projects' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { supabase } from '@/server/ServerDataService';
+import { getRequestViewer } from '@/server/requestAuth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/sales-rep-projects?salesRepId=...
+ *
+ * Returns `{ hasProjects }`: whether any project is assigned to a sales rep ID.
+ * Runs with the service role, since row level security on podio_data hides
+ * early-stage projects from reps who haven't been linked to them yet. Only the
+ * yes/no answer is returned, never the projects themselves.
+ */
+export async function GET(request: Request) {
+  try {
+    const viewer = await getRequestViewer(request);
+    if (!viewer) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const salesRepId = (new URL(request.url).searchParams.get('salesRepId') || '').trim();
+    if (!salesRepId) {
+      return NextResponse.json({ error: 'A salesRepId is required' }, { status: 400 });
+    }
+
+    const { count, error } = await supabase
+      .from('podio_data')
+      .select('project_id', { count: 'exact', head: true })
+      .eq('sales_rep_id', salesRepId);
+
+    if (error) {
+      throw new Error(`Error checking sales rep projects: ${error.message}`);
+    }
+
+    return NextResponse.json({ hasProjects: (count || 0) > 0 });
+  } catch (error) {
+    console.error('Error checking sales rep projects:', error);
+    return NextResponse.json({ error: 'Failed to check sales rep ID' }, { status: 500 });
+  }
+}
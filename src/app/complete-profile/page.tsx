@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/utils/AuthContext';
 import { supabase } from '@/utils/supabaseClient';
+import { getAuthHeaders } from '@/utils/projectsApi';
 
 export default function CompleteProfilePage() {
   const [salesRepId, setSalesRepId] = useState('');
@@ -52,19 +53,20 @@ export default function CompleteProfilePage() {
     }
 
     try {
-      // First, check if the sales rep ID exists in podio_data
-      const { data: repExists, error: checkError } = await supabase
-        .from('podio_data')
-        .select('sales_rep_id')
-        .eq('sales_rep_id', salesRepId)
-        .limit(1);
-
-      if (checkError) {
-        throw checkError;
+      // First, check if the sales rep ID has projects in podio_data
+      // (checked on the server, since row level security hides most projects here)
+      const response = await fetch(
+        `/api/sales-rep-projects?${new URLSearchParams({ salesRepId: salesRepId.trim() }).toString()}`,
+        { headers: await getAuthHeaders(), cache: 'no-store' }
+      );
+      const repCheck = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(repCheck.error || `Request failed with status ${response.status}`);
       }
 
       // If no projects found with this sales rep ID, check if it's a valid format
-      if (!repExists || repExists.length === 0) {
+      if (!repCheck.hasProjects) {
         // This is a simplified validation - you might want to add more specific rules
         if (salesRepId.length < 3) {
           setError('Invalid Sales Rep ID format. Please check and try again.');
@@ -0,0 +1,12 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import EntityDetailView from '@/components/EntityDetailView';
+
+/**
+ * Financier detail page
+ */
+export default function FinancierDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  return <EntityDetailView entityType="financier" id={decodeURIComponent(id)} />;
+}
@@ -3,6 +3,7 @@ import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { AuthProviderWrapper } from "@/utils/AuthContext";
 import { DataProvider } from "@/contexts/DataContext";
+import { KnockPlanProvider } from "@/contexts/KnockPlanContext";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -31,7 +32,9 @@ export default function RootLayout({
       >
         <AuthProviderWrapper>
           <DataProvider>
-            {children}
+            <KnockPlanProvider>
+              {children}
+            </KnockPlanProvider>
           </DataProvider>
         </AuthProviderWrapper>
       </body>
@@ -2,12 +2,21 @@
  * server-page.tsx
  * 
  * Server component that fetches data from Supabase and passes it to client components.
- * This component is the entry point for the application and handles all server-side
- * data fetching and processing.
+ * This component is the entry point for the application: it renders the entities and
+ * the first project page for the URL's filters, and the client loads further pages
+ * from its cursor.
  */
 
-import { getFilteredData } from '@/server/ServerDataService';
+import {
+  fetchEntityTables,
+  processAhjs,
+  processFinanciers,
+  processUtilities
+} from '@/server/ServerDataService';
+import { getProjectQueryForFilters, queryProjects } from '@/server/projectQueries';
 import { parseFilters } from '@/utils/parseFilters';
+import { parseUrlState } from '@/utils/urlState';
+import { PROJECT_PAGE_SIZE } from '@/utils/projectsApi';
 import ClientHomePage from '@/client-pages/ClientHomePage';
 import { cookies } from 'next/headers';
 import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
@@ -37,21 +46,28 @@ export default async function ServerPage({ searchParams }: { searchParams: any }
     }
   }
   
-  // Parse filters from URL parameters
+  // Parse filters and sort from URL parameters
   const filters = await parseFilters(searchParams);
+  const { sortOptions } = parseUrlState((await searchParams) || {});
   
   try {
-    // Fetch filtered data based on URL parameters
-    const data = await getFilteredData(filters, userProfile);
+    // Fetch the entities and the first project page, filtered, sorted and masked in SQL
+    const [page, entities] = await Promise.all([
+      queryProjects(getProjectQueryForFilters(filters, sortOptions, PROJECT_PAGE_SIZE), userProfile),
+      fetchEntityTables()
+    ]);
     
     // Create a serializable version of the data
     // This is necessary because the data might contain circular references
     const serializedData = {
-      projects: data.projects,
-      ahjs: data.ahjs,
-      utilities: data.utilities,
-      financiers: data.financiers,
+      projects: page.projects,
+      projectTotal: page.total ?? null,
+      nextCursor: page.nextCursor,
+      ahjs: processAhjs(entities.ahjs),
+      utilities: processUtilities(entities.utilities),
+      financiers: processFinanciers(entities.financiers),
       filters,
+      sortOptions,
       userProfile
     };
     
@@ -77,10 +93,13 @@ export default async function ServerPage({ searchParams }: { searchParams: any }
       <ClientHomePage 
         serverData={{
           projects: [],
+          projectTotal: null,
+          nextCursor: null,
           ahjs: [],
           utilities: [],
           financiers: [],
           filters: [],
+          sortOptions,
           error: 'Failed to load data from server',
           userProfile
         }} 
@@ -0,0 +1,12 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import EntityDetailView from '@/components/EntityDetailView';
+
+/**
+ * Utility detail page
+ */
+export default function UtilityDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  return <EntityDetailView entityType="utility" id={decodeURIComponent(id)} />;
+}
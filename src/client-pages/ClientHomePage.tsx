@@ -2,12 +2,16 @@
 
 import { useEffect, useState, useRef } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { FiList, FiMap } from 'react-icons/fi';
+import Link from 'next/link';
+import { FiList, FiMap, FiFlag, FiBarChart2 } from 'react-icons/fi';
 
 import { Project, ProjectFilter } from '@/utils/types';
 import { useAuth } from '@/utils/AuthContext';
 import { useData } from '@/contexts/DataContext';
-import { filtersToUrlParams } from '@/utils/parseFilters';
+import { useKnockPlans } from '@/contexts/KnockPlanContext';
+import { MapCamera, UrlState, hasUrlState, parseUrlState, serializeUrlState } from '@/utils/urlState';
+import { SavedViewState, fetchDefaultSavedView, fetchSavedView } from '@/utils/savedViews';
+import { fetchProject } from '@/utils/projectsApi';
 import { useMediaQuery } from '@/hooks';
 
 import MapView from '@/components/MapView';
@@ -16,14 +20,19 @@ import { default as EntityListView } from '@/components/EntityListView';
 import ImprovedFilterPanel from '@/components/ImprovedFilterPanel';
 import MobileHeader from '@/components/MobileHeader';
 import BottomNavbar from '@/components/BottomNavbar';
+import KnockPlanPanel from '@/components/KnockPlanPanel';
+import NotificationCenter from '@/components/NotificationCenter';
 
 // Define interface for server data props
 export interface ServerData {
   projects: Project[];
+  projectTotal?: number | null; // Projects matching the filters, across all pages
+  nextCursor?: string | null; // Cursor of the second project page
   ahjs: any[];
   utilities: any[];
   financiers: any[];
   filters: ProjectFilter[];
+  sortOptions?: { field: string; direction: 'asc' | 'desc' };
   userProfile?: any;
   error?: string;
 }
@@ -40,9 +49,20 @@ export default function ClientHomePage({ serverData }: ClientHomePageProps) {
   // Reference to track if we've hydrated the DataContext
   const hydrationComplete = useRef(false);
   
+  // A shared view link (?view=<id>) or state in the URL take precedence over the default view
+  // Read once, since the URL is rewritten as soon as the state changes
+  const initialViewId = useRef(searchParams.get('view'));
+  const hasInitialUrlFilters = useRef(hasUrlState(searchParams));
+  const [initialUrlState] = useState(() => parseUrlState(searchParams));
+  const savedViewLoaded = useRef(false);
+  const urlStateRestored = useRef(false);
+  
   // Access the DataContext
   const dataContext = useData();
   
+  // Knock plan panel toggle
+  const { isPanelOpen: isKnockPlanOpen, setPanelOpen: setKnockPlanOpen } = useKnockPlans();
+  
   // Check if we're on a mobile device
   const isMobile = useMediaQuery('(max-width: 768px)');
   
@@ -104,6 +124,12 @@ export default function ClientHomePage({ serverData }: ClientHomePageProps) {
   // State for selected project
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   
+  // Project ID last restored from the URL, so a late fetch for an earlier one is ignored
+  const restoredProjectIdRef = useRef<string | null>(null);
+  
+  // Last reported map camera, kept in the URL
+  const [mapCamera, setMapCamera] = useState<MapCamera | undefined>(initialUrlState.map);
+  
   // Use the userLocation directly from dataContext instead of maintaining local state
   const { userLocation, setUserLocation } = dataContext || {};
   
@@ -111,6 +137,7 @@ export default function ClientHomePage({ serverData }: ClientHomePageProps) {
   const { 
     // Data
     projects, 
+    rawProjects,
     ahjs, 
     utilities, 
     
@@ -122,6 +149,7 @@ export default function ClientHomePage({ serverData }: ClientHomePageProps) {
     filters, 
     addFilter, 
     removeFilter, 
+    updateFilter,
     clearFilters,
     
     // Search functionality
@@ -152,31 +180,123 @@ export default function ClientHomePage({ serverData }: ClientHomePageProps) {
     );
   };
   
-  // Handle filter changes - update URL
-  const updateUrlWithFilters = (filters: ProjectFilter[]) => {
-    const params = filtersToUrlParams(filters);
-    const url = new URL(window.location.href);
-    
-    // Clear existing params
-    url.search = '';
+  // The URL's filter part when it was last written; a change starts a new history entry
+  const lastUrlFilterKey = useRef(getUrlFilterKey(serializeUrlState(initialUrlState)));
+  
+  // Keep the URL in sync with the filters, view and map camera
+  // Declared before the restore below, so it waits for the restored state
+  useEffect(() => {
+    if (!urlStateRestored.current) return;
     
-    // Add new params
-    Object.entries(params).forEach(([key, value]) => {
-      if (value !== undefined) {
-        url.searchParams.set(key, value);
-      }
+    const params = serializeUrlState({
+      filters: filters.filters,
+      sortOptions: filters.sortOptions,
+      searchTerms,
+      showOnlyMyProjects,
+      viewMode,
+      entityViewMode,
+      selectedProjectId: selectedProject?.id,
+      map: mapCamera
     });
+    const search = `?${params.toString()}`;
+    if (search === window.location.search) return;
     
-    // Update URL without refreshing the page
-    window.history.pushState({}, '', url.toString());
+    // Filter changes can be undone with the back button; view and camera changes replace the entry
+    const filterKey = getUrlFilterKey(params);
+    const url = `${window.location.pathname}${search}`;
+    if (filterKey !== lastUrlFilterKey.current) {
+      window.history.pushState({}, '', url);
+    } else {
+      window.history.replaceState({}, '', url);
+    }
+    lastUrlFilterKey.current = filterKey;
+  }, [filters, searchTerms, showOnlyMyProjects, viewMode, entityViewMode, selectedProject, mapCamera]);
+  
+  // Apply state read from the URL
+  const applyUrlState = (state: UrlState) => {
+    dataContext.applyFilterState(state);
+    if (state.viewMode) setViewMode(state.viewMode);
+    if (state.entityViewMode) setEntityViewMode(state.entityViewMode);
+    restoreSelectedProject(state.selectedProjectId);
   };
   
-  // Update URL when filters change
+  // Select a project from the URL, fetching it when it isn't on a loaded page
+  const restoreSelectedProject = (projectId: string | undefined) => {
+    restoredProjectIdRef.current = projectId || null;
+    const loadedProject = projectId ? rawProjects.find(project => project.id === projectId) : undefined;
+    setSelectedProject(loadedProject || null);
+    if (!projectId || loadedProject) return;
+    
+    fetchProject(projectId)
+      .then(project => {
+        if (restoredProjectIdRef.current !== projectId) return;
+        // Keep any project picked while this one was loading
+        setSelectedProject(current => current || project);
+      })
+      .catch(error => console.error('[ClientHomePage] Failed to load the selected project:', error));
+  };
+  
+  // Once data is loaded, restore the state from the URL
   useEffect(() => {
-    if (dataContext?.filters?.filters) {
-      updateUrlWithFilters(dataContext.filters.filters);
+    if (dataLoading || urlStateRestored.current) return;
+    
+    if (hasInitialUrlFilters.current) {
+      applyUrlState(initialUrlState);
     }
-  }, [dataContext?.filters]);
+    urlStateRestored.current = true;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dataLoading]);
+  
+  // Follow the back and forward buttons through filter history
+  useEffect(() => {
+    const handlePopState = () => {
+      const params = new URLSearchParams(window.location.search);
+      lastUrlFilterKey.current = getUrlFilterKey(params);
+      applyUrlState(parseUrlState(params));
+    };
+    
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rawProjects]);
+
+  // Current filter and view state, stored when a view is saved
+  const savedViewState: SavedViewState = {
+    filters: filters.filters,
+    sortOptions: filters.sortOptions,
+    searchTerms,
+    showOnlyMyProjects,
+    viewMode,
+    entityViewMode
+  };
+  
+  // Restore a saved view's filters and view mode
+  const handleApplySavedView = (state: SavedViewState) => {
+    dataContext.applyFilterState(state);
+    if (state.viewMode) setViewMode(state.viewMode);
+    if (state.entityViewMode) setEntityViewMode(state.entityViewMode);
+  };
+  
+  // Once data is loaded, apply the shared view from the link, or else the user's default view
+  useEffect(() => {
+    if (!user || dataLoading || savedViewLoaded.current) return;
+    savedViewLoaded.current = true;
+    
+    const viewId = initialViewId.current;
+    if (!viewId && hasInitialUrlFilters.current) return;
+    
+    const loadView = viewId ? fetchSavedView(viewId) : fetchDefaultSavedView(user.id);
+    loadView
+      .then(view => {
+        if (view) {
+          handleApplySavedView(view.state);
+        } else if (viewId) {
+          console.warn(`[ClientHomePage] Saved view ${viewId} was not found or is not shared`);
+        }
+      })
+      .catch(error => console.error('[ClientHomePage] Failed to load saved view:', error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, dataLoading]);
 
   // Handle sorting
   const [sortField, setSortField] = useState<string>('address');
@@ -233,6 +353,7 @@ export default function ClientHomePage({ serverData }: ClientHomePageProps) {
                 filters={filters}
                 addFilter={addFilter}
                 removeFilter={removeFilter}
+                updateFilter={updateFilter}
                 clearFilters={clearFilters}
                 onSearch={handleSearch}
                 searchTerms={searchTerms}
@@ -241,6 +362,8 @@ export default function ClientHomePage({ serverData }: ClientHomePageProps) {
                 isCollapsed={isFilterPanelCollapsed}
                 onToggleCollapse={toggleFilterPanel}
                 isMobile={isMobile}
+                savedViewState={savedViewState}
+                onApplySavedView={handleApplySavedView}
               />
             </div>
           </div>
@@ -252,6 +375,7 @@ export default function ClientHomePage({ serverData }: ClientHomePageProps) {
             filters={filters}
             addFilter={addFilter}
             removeFilter={removeFilter}
+            updateFilter={updateFilter}
             clearFilters={clearFilters}
             onSearch={handleSearch}
             searchTerms={searchTerms}
@@ -260,6 +384,8 @@ export default function ClientHomePage({ serverData }: ClientHomePageProps) {
             isCollapsed={isFilterPanelCollapsed}
             onToggleCollapse={toggleFilterPanel}
             isMobile={isMobile}
+            savedViewState={savedViewState}
+            onApplySavedView={handleApplySavedView}
           />
         )}
         
@@ -285,6 +411,23 @@ export default function ClientHomePage({ serverData }: ClientHomePageProps) {
                 >
                   <FiMap className="inline mr-2" /> Map View
                 </button>
+                <Link
+                  href="/analytics"
+                  className="px-6 py-3 text-sm font-medium border-b-2 border-transparent text-gray-400 hover:text-gray-300"
+                >
+                  <FiBarChart2 className="inline mr-2" /> Analytics
+                </Link>
+                <button
+                  className={`ml-auto px-6 py-3 text-sm font-medium border-b-2 ${isKnockPlanOpen 
+                    ? 'border-blue-500 text-blue-500' 
+                    : 'border-transparent text-gray-400 hover:text-gray-300'}`}
+                  onClick={() => setKnockPlanOpen(!isKnockPlanOpen)}
+                >
+                  <FiFlag className="inline mr-2" /> Knock Plans
+                </button>
+                <div className="flex items-center ml-2">
+                  <NotificationCenter />
+                </div>
               </div>
             )}
             
@@ -298,6 +441,8 @@ export default function ClientHomePage({ serverData }: ClientHomePageProps) {
                 <MapView 
                   selectedProject={selectedProject}
                   onSelectProject={handleSelectProject}
+                  initialCamera={initialUrlState.map}
+                  onCameraChange={setMapCamera}
                 />
               </div>
               
@@ -402,6 +547,9 @@ export default function ClientHomePage({ serverData }: ClientHomePageProps) {
         </div>
       </main>
       
+      {/* Knock plan slide-over */}
+      <KnockPlanPanel />
+      
       {/* Bottom Navigation - only visible on mobile */}
       {isMobile && (
         <BottomNavbar 
@@ -412,3 +560,8 @@ export default function ClientHomePage({ serverData }: ClientHomePageProps) {
     </div>
   );
 }
+
+// The URL parameters that describe filters (as opposed to view and camera)
+function getUrlFilterKey(params: URLSearchParams): string {
+  return ['filters', 'sort', 'q', 'mine'].map(key => params.get(key) || '').join('|');
+}
@@ -1,17 +1,19 @@
 import React from 'react';
-import { FiX } from 'react-icons/fi';
+import { FiX, FiSlash } from 'react-icons/fi';
 import { getClassificationBadgeClass } from '@/utils/classificationColors';
 
 interface ActiveFilterChipProps {
   label: string;
   type: string;
   onRemove: () => void;
+  negated?: boolean; // The filter excludes matching projects
+  onToggleNegate?: () => void; // Switches the filter between include and exclude
 }
 
-const ActiveFilterChip: React.FC<ActiveFilterChipProps> = ({ label, type, onRemove }) => {
+const ActiveFilterChip: React.FC<ActiveFilterChipProps> = ({ label, type, onRemove, negated = false, onToggleNegate }) => {
   // Get the classification from the label if it's a classification filter
   const getClassification = () => {
-    if (type === 'ahj' || type === 'utility' || type === 'financier') {
+    if (type === 'ahj' || type === 'utility' || type === 'financier' || type === 'class') {
       // Extract the classification from the label (e.g., "AHJ A" -> "A")
       const match = label.match(/\s([A-C])$/);
       return match ? match[1] : null;
@@ -20,17 +22,28 @@ const ActiveFilterChip: React.FC<ActiveFilterChipProps> = ({ label, type, onRemo
   };
 
   const classification = getClassification();
-  
+
   return (
-    <div 
+    <div
       className={`inline-flex items-center px-2 py-1 rounded-full text-sm ${
-        classification 
+        classification
           ? getClassificationBadgeClass(classification)
           : 'bg-gray-700 text-white'
-      }`}
+      } ${negated ? 'ring-1 ring-red-500' : ''}`}
     >
-      <span>{label}</span>
-      <button 
+      {negated && <span className="mr-1 text-xs font-semibold text-red-300">NOT</span>}
+      <span className={negated ? 'line-through' : ''}>{label}</span>
+      {onToggleNegate && (
+        <button
+          onClick={onToggleNegate}
+          className={`ml-1 p-1 rounded-full hover:bg-gray-600 focus:outline-none ${negated ? 'text-red-300' : ''}`}
+          aria-label={negated ? `Include ${label}` : `Exclude ${label}`}
+          title={negated ? 'Include instead' : 'Exclude instead'}
+        >
+          <FiSlash size={12} />
+        </button>
+      )}
+      <button
         onClick={onRemove}
         className="ml-1 p-1 rounded-full hover:bg-gray-600 focus:outline-none"
         aria-label={`Remove ${label} filter`}
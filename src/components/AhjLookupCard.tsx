@@ -0,0 +1,155 @@
+import React, { useMemo } from 'react';
+import { FiMapPin, FiX } from 'react-icons/fi';
+import { AhjLookupResult } from '@/utils/ahjLookupApi';
+import { getClassificationBadgeClass, formatClassification } from '@/utils/classificationColors';
+import { normalizeEntities } from '@/utils/projectNormalization';
+import { useData } from '@/contexts/DataContext';
+
+// Maximum number of utility candidates to list
+const MAX_UTILITY_CANDIDATES = 5;
+
+// Better classifications are listed first
+const CLASSIFICATION_ORDER: Record<string, number> = { A: 0, B: 1, C: 2, U: 3 };
+
+interface AhjLookupCardProps {
+  result: AhjLookupResult;
+  onFilterByAhj?: (ahj: { id: string; name: string }) => void;
+  onAddToPlan?: (ahj: { id: string; name: string }) => void;
+  // Adds the surrounding map area to the knock plan
+  onAddAreaToPlan?: () => void;
+  onClose?: () => void;
+}
+
+/**
+ * Shows the result of an AHJ lookup: the matched AHJ and its class, historical
+ * project counts, and the utilities that have served projects in that AHJ
+ */
+const AhjLookupCard: React.FC<AhjLookupCardProps> = ({
+  result,
+  onFilterByAhj,
+  onAddToPlan,
+  onAddAreaToPlan,
+  onClose
+}) => {
+  const { rawUtilities } = useData();
+  const { ahj, projectCounts, utilityIds } = result;
+
+  // Utilities that have worked in this AHJ, best classification first
+  const utilityCandidates = useMemo(() => {
+    const relatedIds = new Set(utilityIds || []);
+    if (!ahj || relatedIds.size === 0) return [];
+
+    return normalizeEntities(rawUtilities, 'utility')
+      .filter(utility => relatedIds.has(utility.id))
+      .sort((a, b) =>
+        (CLASSIFICATION_ORDER[formatClassification(a.classification)] ?? 3) -
+        (CLASSIFICATION_ORDER[formatClassification(b.classification)] ?? 3) ||
+        a.name.localeCompare(b.name)
+      )
+      .slice(0, MAX_UTILITY_CANDIDATES);
+  }, [ahj, utilityIds, rawUtilities]);
+
+  const locationLabel = result.placeName ||
+    `${result.location.latitude.toFixed(5)}, ${result.location.longitude.toFixed(5)}`;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-md p-3 text-sm text-white shadow-lg">
+      <div className="flex items-start justify-between">
+        <div className="flex items-start text-gray-400">
+          <FiMapPin className="mr-2 mt-0.5 flex-shrink-0" />
+          <span>{locationLabel}</span>
+        </div>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="ml-2 text-gray-400 hover:text-white"
+            aria-label="Close AHJ lookup"
+          >
+            <FiX size={16} />
+          </button>
+        )}
+      </div>
+
+      {ahj ? (
+        <>
+          <div className="flex items-center mt-3">
+            <span className={`px-2 py-0.5 rounded text-xs mr-2 ${getClassificationBadgeClass(ahj.classification)}`}>
+              {formatClassification(ahj.classification)}
+            </span>
+            <span className="font-medium">{ahj.name}</span>
+          </div>
+          <div className="text-xs text-gray-400 mt-1">
+            {result.matchType === 'boundary'
+              ? 'Inside the AHJ city boundary'
+              : `No boundary match — nearest AHJ, ${ahj.distanceMiles} mi away`}
+          </div>
+
+          {projectCounts && (
+            <div className="grid grid-cols-3 gap-2 mt-3 text-center">
+              <div>
+                <div className="text-lg font-semibold">{projectCounts.total}</div>
+                <div className="text-xs text-gray-400">Projects</div>
+              </div>
+              <div>
+                <div className="text-lg font-semibold">{projectCounts.completed}</div>
+                <div className="text-xs text-gray-400">Completed</div>
+              </div>
+              <div>
+                <div className="text-lg font-semibold">{projectCounts.qualified45Day}</div>
+                <div className="text-xs text-gray-400">45-day</div>
+              </div>
+            </div>
+          )}
+
+          <div className="mt-3">
+            <div className="text-xs text-gray-400 mb-1">Likely utilities</div>
+            {utilityCandidates.length > 0 ? (
+              <ul className="space-y-1">
+                {utilityCandidates.map(utility => (
+                  <li key={utility.id} className="flex items-center">
+                    <span className={`px-1.5 rounded text-xs mr-2 ${getClassificationBadgeClass(utility.classification)}`}>
+                      {formatClassification(utility.classification)}
+                    </span>
+                    <span className="truncate">{utility.name}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-xs text-gray-500">No utilities on record for this AHJ</div>
+            )}
+          </div>
+
+          {onFilterByAhj && (
+            <button
+              onClick={() => onFilterByAhj({ id: ahj.id, name: ahj.name })}
+              className="mt-3 w-full px-3 py-1.5 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+            >
+              Filter by this AHJ
+            </button>
+          )}
+          {onAddToPlan && (
+            <button
+              onClick={() => onAddToPlan({ id: ahj.id, name: ahj.name })}
+              className="mt-2 w-full px-3 py-1.5 bg-gray-700 text-white rounded-md hover:bg-gray-600"
+            >
+              Add AHJ to knock plan
+            </button>
+          )}
+        </>
+      ) : (
+        <div className="mt-3 text-gray-400">No AHJ found for this location.</div>
+      )}
+      
+      {onAddAreaToPlan && (
+        <button
+          onClick={onAddAreaToPlan}
+          className="mt-2 w-full px-3 py-1.5 bg-gray-700 text-white rounded-md hover:bg-gray-600"
+        >
+          Add this area to knock plan
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AhjLookupCard;
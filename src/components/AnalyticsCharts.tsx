@@ -0,0 +1,144 @@
+import React from 'react';
+import Link from 'next/link';
+import { getClassificationBadgeClass } from '@/utils/classificationColors';
+import { getEntityDetailPath } from '@/utils/entityDetailApi';
+import { EntityKind } from '@/utils/projectNormalization';
+import { ClassOutcome, CombinationOutcome, EntityOutcome, MonthOutcome } from '@/utils/projectAnalytics';
+
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+/**
+ * Small class badge; 'U' is shown for unclassified entities
+ */
+const ClassBadge: React.FC<{ classification: string }> = ({ classification }) => (
+  <span className={`inline-block w-6 text-center px-1 py-0.5 rounded text-xs font-medium ${getClassificationBadgeClass(classification)}`}>
+    {classification}
+  </span>
+);
+
+/**
+ * Project counts per class, with the qualified share of each bar filled in green
+ */
+export const ClassOutcomeChart: React.FC<{ rows: ClassOutcome[] }> = ({ rows }) => {
+  const max = Math.max(1, ...rows.map(row => row.total));
+
+  return (
+    <ul className="space-y-2">
+      {rows.map(row => (
+        <li
+          key={row.classification}
+          className="flex items-center text-sm"
+          title={`${row.qualified} of ${row.total} qualified`}
+        >
+          <ClassBadge classification={row.classification} />
+          <div className="flex-1 mx-2 h-3 bg-gray-800 rounded overflow-hidden">
+            <div className="h-3 bg-blue-900 rounded" style={{ width: `${(row.total / max) * 100}%` }}>
+              <div className="h-3 bg-green-600 rounded" style={{ width: `${row.rate * 100}%` }} />
+            </div>
+          </div>
+          <span className="w-12 text-right text-gray-300">{row.total}</span>
+          <span className="w-12 text-right text-gray-400">{row.total > 0 ? formatRate(row.rate) : '–'}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * Projects per contract month, with the qualified share of each column in green
+ */
+export const MonthlyOutcomeChart: React.FC<{ months: MonthOutcome[] }> = ({ months }) => {
+  if (months.length === 0) {
+    return <div className="text-sm text-gray-500">No contract dates on record</div>;
+  }
+
+  const max = Math.max(1, ...months.map(month => month.total));
+  // Label every few months when there are many columns
+  const labelEvery = Math.ceil(months.length / 12);
+
+  return (
+    <div className="flex items-end h-56 gap-0.5 border-b border-gray-700">
+      {months.map((month, index) => (
+        <div
+          key={month.month}
+          className="flex-1 flex flex-col items-center justify-end h-full"
+          title={`${month.month}: ${month.total} projects, ${month.qualified} qualified (${formatRate(month.rate)})`}
+        >
+          <div
+            className="w-full flex flex-col justify-end bg-blue-900 rounded-t"
+            style={{ height: `${(month.total / max) * 85}%` }}
+          >
+            <div className="w-full bg-green-600 rounded-t" style={{ height: `${month.rate * 100}%` }} />
+          </div>
+          <span className="text-[10px] text-gray-500 mt-1 h-3">
+            {index % labelEvery === 0 ? month.month.slice(2) : ''}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * AHJ / utility / financier class combinations as a table
+ */
+export const CombinationTable: React.FC<{ rows: CombinationOutcome[] }> = ({ rows }) => {
+  if (rows.length === 0) {
+    return <div className="text-sm text-gray-500">No projects</div>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs uppercase text-gray-400">
+          <th className="py-1 font-medium">AHJ</th>
+          <th className="py-1 font-medium">Utility</th>
+          <th className="py-1 font-medium">Financier</th>
+          <th className="py-1 font-medium text-right">Projects</th>
+          <th className="py-1 font-medium text-right">Qualified</th>
+          <th className="py-1 font-medium text-right">45-day rate</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={`${row.ahjClass}/${row.utilityClass}/${row.financierClass}`} className="border-t border-gray-800">
+            <td className="py-1.5"><ClassBadge classification={row.ahjClass} /></td>
+            <td className="py-1.5"><ClassBadge classification={row.utilityClass} /></td>
+            <td className="py-1.5"><ClassBadge classification={row.financierClass} /></td>
+            <td className="py-1.5 text-right">{row.total}</td>
+            <td className="py-1.5 text-right text-gray-300">{row.qualified}</td>
+            <td className="py-1.5 text-right text-gray-300">{formatRate(row.rate)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+/**
+ * Ranked entities linking to their detail pages
+ */
+export const EntityRankingList: React.FC<{ entityType: EntityKind; entities: EntityOutcome[] }> = ({ entityType, entities }) => {
+  if (entities.length === 0) {
+    return <div className="text-sm text-gray-500">Not enough projects to rank</div>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {entities.map(entity => (
+        <li key={entity.id}>
+          <Link
+            href={getEntityDetailPath(entityType, entity.id)}
+            className="flex items-center text-sm py-0.5 hover:text-blue-400"
+            title={`${entity.qualified} of ${entity.total} qualified`}
+          >
+            <ClassBadge classification={entity.classification} />
+            <span className="flex-1 truncate ml-2">{entity.name}</span>
+            <span className="text-xs text-gray-400 ml-2">{entity.total} prj</span>
+            <span className="w-10 text-right">{formatRate(entity.rate)}</span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+};
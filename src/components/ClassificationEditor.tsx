@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ClassificationChange,
+  EDITABLE_CLASSIFICATIONS,
+  EditableClassification,
+  updateClassification
+} from '@/utils/classificationApi';
+import { EntityKind } from '@/utils/projectNormalization';
+import { formatClassification } from '@/utils/classificationColors';
+
+interface ClassificationEditorProps {
+  entityType: EntityKind;
+  entityId: string;
+  currentClassification: string;
+  onSaved?: (change: ClassificationChange) => void;
+}
+
+/**
+ * Admin form for changing an entity's classification
+ * A reason is required and is stored in the change log.
+ */
+const ClassificationEditor: React.FC<ClassificationEditorProps> = ({
+  entityType,
+  entityId,
+  currentClassification,
+  onSaved
+}) => {
+  const current = formatClassification(currentClassification);
+  const [classification, setClassification] = useState<EditableClassification>(
+    (EDITABLE_CLASSIFICATIONS as readonly string[]).includes(current) ? current as EditableClassification : 'A'
+  );
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the entity's class whenever another entity is selected
+  useEffect(() => {
+    if ((EDITABLE_CLASSIFICATIONS as readonly string[]).includes(current)) {
+      setClassification(current as EditableClassification);
+    }
+    setReason('');
+    setError(null);
+  }, [entityType, entityId, current]);
+
+  const isUnchanged = classification === current;
+  const canSave = !isSaving && !isUnchanged && reason.trim().length > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+
+    setIsSaving(true);
+    try {
+      const change = await updateClassification({ entityType, entityId, classification, reason: reason.trim() });
+      setReason('');
+      setError(null);
+      onSaved?.(change);
+    } catch (err) {
+      console.error('[ClassificationEditor] Failed to save classification:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save classification');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Classification</label>
+        <div className="flex space-x-2">
+          {EDITABLE_CLASSIFICATIONS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setClassification(option)}
+              className={`px-4 py-1.5 rounded-md text-sm font-medium ${
+                classification === option
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="classification-reason" className="block text-xs text-gray-400 mb-1">
+          Reason (required)
+        </label>
+        <textarea
+          id="classification-reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={3}
+          placeholder="Why is this classification changing?"
+          className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500"
+        />
+      </div>
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      <button
+        type="submit"
+        disabled={!canSave}
+        className="px-4 py-1.5 bg-blue-500 text-white rounded-md text-sm hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSaving ? 'Saving...' : isUnchanged ? `Already class ${current}` : `Change to class ${classification}`}
+      </button>
+    </form>
+  );
+};
+
+export default ClassificationEditor;
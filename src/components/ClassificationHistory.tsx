@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { FiClock } from 'react-icons/fi';
+import { ClassificationChange, fetchClassificationHistory } from '@/utils/classificationApi';
+import { EntityKind } from '@/utils/projectNormalization';
+import { getClassificationBadgeClass, formatClassification } from '@/utils/classificationColors';
+
+interface ClassificationHistoryProps {
+  entityType: EntityKind;
+  entityId: string;
+  // Change this to reload the log (e.g. after saving a new classification)
+  refreshKey?: number;
+}
+
+/**
+ * Change log of an entity's classification, newest first
+ */
+const ClassificationHistory: React.FC<ClassificationHistoryProps> = ({ entityType, entityId, refreshKey = 0 }) => {
+  const [history, setHistory] = useState<ClassificationChange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchClassificationHistory(entityType, entityId)
+      .then(changes => {
+        if (cancelled) return;
+        setHistory(changes);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('[ClassificationHistory] Failed to load history:', err);
+        setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entityType, entityId, refreshKey]);
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-400">Loading change log...</div>;
+  }
+
+  if (error) {
+    return <div className="text-sm text-red-400">{error}</div>;
+  }
+
+  if (history.length === 0) {
+    return <div className="text-sm text-gray-500">No classification changes recorded.</div>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {history.map(change => (
+        <li key={change.id} className="bg-gray-800 rounded-md p-3 text-sm">
+          <div className="flex items-center">
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${getClassificationBadgeClass(change.previous_classification || undefined)}`}>
+              {formatClassification(change.previous_classification || undefined)}
+            </span>
+            <span className="mx-2 text-gray-500">→</span>
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${getClassificationBadgeClass(change.new_classification)}`}>
+              {formatClassification(change.new_classification)}
+            </span>
+            <span className="ml-auto flex items-center text-xs text-gray-400">
+              <FiClock className="mr-1" />
+              {new Date(change.created_at).toLocaleString()}
+            </span>
+          </div>
+          <div className="mt-2 text-white">{change.reason}</div>
+          <div className="mt-1 text-xs text-gray-400">
+            by {change.changed_by_email || 'unknown user'}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ClassificationHistory;
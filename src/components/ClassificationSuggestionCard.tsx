@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { FiCheck, FiTrendingDown, FiTrendingUp, FiMinus } from 'react-icons/fi';
+import { ClassificationChange, updateClassification } from '@/utils/classificationApi';
+import {
+  ClassificationSuggestion,
+  MIN_SUGGESTION_PROJECTS,
+  formatSuggestionReason,
+  isSuggestedChange
+} from '@/utils/classificationSuggestions';
+import { EntityKind } from '@/utils/projectNormalization';
+import { getClassificationBadgeClass } from '@/utils/classificationColors';
+
+interface ClassificationSuggestionCardProps {
+  entityType: EntityKind;
+  entityId: string;
+  currentClassification: string;
+  suggestion: ClassificationSuggestion | null;
+  onAccepted?: (change: ClassificationChange) => void;
+}
+
+// Icon and color for each evidence impact
+const IMPACT_STYLES = {
+  positive: { icon: FiTrendingUp, className: 'text-green-400' },
+  negative: { icon: FiTrendingDown, className: 'text-orange-400' },
+  neutral: { icon: FiMinus, className: 'text-gray-400' }
+};
+
+/**
+ * Suggested class from project outcomes, with its evidence
+ * Accepting records the change, with the evidence as the reason.
+ */
+const ClassificationSuggestionCard: React.FC<ClassificationSuggestionCardProps> = ({
+  entityType,
+  entityId,
+  currentClassification,
+  suggestion,
+  onAccepted
+}) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!suggestion) {
+    return (
+      <div className="text-sm text-gray-500">
+        Not enough projects for a suggestion (needs {MIN_SUGGESTION_PROJECTS}).
+      </div>
+    );
+  }
+
+  const isChange = isSuggestedChange(suggestion, currentClassification);
+
+  const handleAccept = async () => {
+    setIsSaving(true);
+    try {
+      const change = await updateClassification({
+        entityType,
+        entityId,
+        classification: suggestion.classification,
+        reason: formatSuggestionReason(suggestion)
+      });
+      setError(null);
+      onAccepted?.(change);
+    } catch (err) {
+      console.error('[ClassificationSuggestion] Failed to accept suggestion:', err);
+      setError(err instanceof Error ? err.message : 'Failed to accept suggestion');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-md p-4 space-y-3">
+      <div className="flex items-center">
+        <span className={`px-2 py-0.5 rounded text-sm font-medium mr-3 ${getClassificationBadgeClass(suggestion.classification)}`}>
+          {suggestion.classification}
+        </span>
+        <div className="flex-1 text-sm">
+          <div>{isChange ? `Suggested class ${suggestion.classification}` : 'Current class is supported'}</div>
+          <div className="text-xs text-gray-400">
+            {Math.round(suggestion.confidence * 100)}% confidence · {suggestion.projectCount} projects
+          </div>
+        </div>
+        {isChange && (
+          <button
+            onClick={handleAccept}
+            disabled={isSaving}
+            className="flex items-center px-3 py-1.5 bg-blue-500 text-white rounded-md text-sm hover:bg-blue-600 disabled:opacity-50"
+          >
+            <FiCheck className="mr-1" /> {isSaving ? 'Saving...' : 'Accept'}
+          </button>
+        )}
+      </div>
+
+      <ul className="space-y-1">
+        {suggestion.evidence.map(item => {
+          const { icon: Icon, className } = IMPACT_STYLES[item.impact];
+          return (
+            <li key={item.signal} className="flex items-center text-sm">
+              <Icon className={`mr-2 ${className}`} size={14} />
+              <span className="flex-1 text-gray-300">{item.label}</span>
+              <span className="font-medium">{item.value}</span>
+              <span className="w-28 text-right text-xs text-gray-500">all projects {item.baseline}</span>
+            </li>
+          );
+        })}
+      </ul>
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+export default ClassificationSuggestionCard;
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { DATE_RANGE_PRESETS, formatDateRangeValue, parseDateRangeValue } from '@/utils/dateRangeFilter';
+
+interface DateRangeFilterSectionProps {
+  value: string | null; // Active filter value, if any
+  onChange: (value: string | null) => void; // null clears the filter
+}
+
+/**
+ * Preset and custom date ranges for a date filter
+ */
+const DateRangeFilterSection: React.FC<DateRangeFilterSectionProps> = ({ value, onChange }) => {
+  const isPreset = DATE_RANGE_PRESETS.some(preset => preset.value === value);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  // Show the active custom range in the inputs
+  useEffect(() => {
+    const range = !isPreset ? parseDateRangeValue(value) : null;
+    setFrom(range?.from || '');
+    setTo(range?.to || '');
+  }, [value, isPreset]);
+
+  const handleApply = () => {
+    if (!from && !to) {
+      onChange(null);
+      return;
+    }
+    // Swap the ends if they were entered the wrong way round
+    const range = from && to && from > to ? { from: to, to: from } : { from, to };
+    onChange(formatDateRangeValue(range));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {DATE_RANGE_PRESETS.map(preset => (
+          <button
+            key={preset.value}
+            className={`px-3 py-1 rounded-md text-sm ${
+              value === preset.value ? 'bg-blue-500 text-white ring-2 ring-white' : 'bg-gray-800 text-gray-300 hover:text-white'
+            }`}
+            onClick={() => onChange(value === preset.value ? null : preset.value)}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="date"
+          value={from}
+          onChange={e => setFrom(e.target.value)}
+          className="flex-1 min-w-0 bg-gray-800 text-white text-sm px-2 py-1.5 rounded-md"
+          aria-label="From date"
+        />
+        <span className="text-gray-400 text-sm">to</span>
+        <input
+          type="date"
+          value={to}
+          onChange={e => setTo(e.target.value)}
+          className="flex-1 min-w-0 bg-gray-800 text-white text-sm px-2 py-1.5 rounded-md"
+          aria-label="To date"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleApply}
+          className="px-3 py-1.5 bg-blue-500 text-white rounded-md text-sm hover:bg-blue-600"
+        >
+          Apply range
+        </button>
+        {value && (
+          <button
+            onClick={() => onChange(null)}
+            className="text-xs text-blue-400 hover:text-blue-300"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DateRangeFilterSection;
@@ -0,0 +1,396 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { FiArrowLeft, FiFilter } from 'react-icons/fi';
+import Header from './Header';
+import EntityMiniMap from './EntityMiniMap';
+import ClassificationEditor from './ClassificationEditor';
+import ClassificationHistory from './ClassificationHistory';
+import ClassificationSuggestionCard from './ClassificationSuggestionCard';
+import { useAuth } from '@/utils/AuthContext';
+import { useData } from '@/contexts/DataContext';
+import { EntityDetail, RelatedEntity, fetchEntityDetail, getEntityDetailPath } from '@/utils/entityDetailApi';
+import { EntityKind } from '@/utils/projectNormalization';
+import { buildAhjBoundaryFeatures, loadAhjBoundaries } from '@/utils/ahjBoundaries';
+import { getClassificationBadgeClass, formatClassification } from '@/utils/classificationColors';
+import { MIN_TIMING_SAMPLES, MilestoneTiming } from '@/utils/milestoneTiming';
+import { ClassificationSuggestion } from '@/utils/classificationSuggestions';
+import { fetchEntityStats } from '@/utils/projectAggregatesApi';
+
+// Display names for each entity type
+const ENTITY_LABELS: Record<EntityKind, { singular: string; plural: string }> = {
+  ahj: { singular: 'AHJ', plural: 'AHJs' },
+  utility: { singular: 'Utility', plural: 'Utilities' },
+  financier: { singular: 'Financier', plural: 'Financiers' }
+};
+
+interface EntityDetailViewProps {
+  entityType: EntityKind;
+  id: string;
+}
+
+/**
+ * Horizontal bar list of counts, largest bar scaled to full width
+ */
+const CountBars: React.FC<{ rows: { label: string; count: number }[] }> = ({ rows }) => {
+  const max = Math.max(1, ...rows.map(row => row.count));
+
+  return (
+    <ul className="space-y-1.5">
+      {rows.map(row => (
+        <li key={row.label} className="flex items-center text-sm">
+          <span className="w-36 truncate text-gray-300">{row.label}</span>
+          <div className="flex-1 mx-2 h-2 bg-gray-800 rounded">
+            <div className="h-2 bg-blue-500 rounded" style={{ width: `${(row.count / max) * 100}%` }} />
+          </div>
+          <span className="w-10 text-right text-gray-400">{row.count}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * Median and p90 days from contract signed to each milestone
+ * Timings from too few projects are dimmed.
+ */
+const MilestoneTimingTable: React.FC<{ timings: MilestoneTiming[] }> = ({ timings }) => {
+  if (timings.length === 0) {
+    return <div className="text-sm text-gray-500">No milestone dates on record</div>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs uppercase text-gray-400">
+          <th className="py-1 font-medium">Milestone</th>
+          <th className="py-1 font-medium text-right">Median</th>
+          <th className="py-1 font-medium text-right">p90</th>
+          <th className="py-1 font-medium text-right">Projects</th>
+        </tr>
+      </thead>
+      <tbody>
+        {timings.map(timing => (
+          <tr
+            key={timing.milestone}
+            className={`border-t border-gray-800 ${timing.count < MIN_TIMING_SAMPLES ? 'text-gray-500' : ''}`}
+            title={timing.count < MIN_TIMING_SAMPLES ? 'Too few projects to rely on' : undefined}
+          >
+            <td className="py-1.5">{timing.milestone}</td>
+            <td className="py-1.5 text-right">{timing.medianDays}d</td>
+            <td className="py-1.5 text-right">{timing.p90Days}d</td>
+            <td className="py-1.5 text-right text-gray-400">{timing.count}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+/**
+ * Linked list of related entities with their class and shared project counts
+ */
+const RelatedList: React.FC<{ entityType: EntityKind; entities: RelatedEntity[] }> = ({ entityType, entities }) => {
+  if (entities.length === 0) {
+    return <div className="text-sm text-gray-500">None on record</div>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {entities.map(entity => (
+        <li key={entity.id}>
+          <Link
+            href={getEntityDetailPath(entityType, entity.id)}
+            className="flex items-center text-sm py-1 hover:text-blue-400"
+          >
+            <span className={`px-2 py-0.5 rounded text-xs font-medium mr-2 ${getClassificationBadgeClass(entity.classification)}`}>
+              {formatClassification(entity.classification)}
+            </span>
+            <span className="flex-1 truncate">{entity.name}</span>
+            <span className="text-xs text-gray-400">{entity.sharedProjects} prj</span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * Everything about a single AHJ, utility or financier
+ */
+const EntityDetailView: React.FC<EntityDetailViewProps> = ({ entityType, id }) => {
+  const router = useRouter();
+  const { user, isAdmin, isLoading: authLoading } = useAuth();
+  const { filters, addFilter } = useData();
+
+  const [detail, setDetail] = useState<EntityDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [boundary, setBoundary] = useState<GeoJSON.Feature | null>(null);
+  // Bumped after an admin saves a classification
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const labels = ENTITY_LABELS[entityType];
+
+  // Suggested class for admins, from every project; undefined until it is loaded
+  const [suggestion, setSuggestion] = useState<ClassificationSuggestion | null | undefined>(undefined);
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    let cancelled = false;
+    fetchEntityStats()
+      .then(stats => {
+        if (!cancelled) setSuggestion(stats.suggestions[entityType][id] || null);
+      })
+      .catch(err => console.error('[EntityDetail] Failed to load the suggested class:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAdmin, entityType, id]);
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, authLoading, router]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchEntityDetail(entityType, id)
+      .then(result => {
+        if (cancelled) return;
+        setDetail(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('[EntityDetail] Failed to load entity detail:', err);
+        setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entityType, id, reloadKey, user]);
+
+  // AHJs get their jurisdiction boundary, when the boundary file has one
+  const entity = detail?.entity;
+  useEffect(() => {
+    if (entityType !== 'ahj' || !entity) {
+      setBoundary(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadAhjBoundaries().then(collection => {
+      if (cancelled || !collection) return;
+      const [feature] = buildAhjBoundaryFeatures(collection, [entity]);
+      setBoundary(feature || null);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entityType, entity]);
+
+  const center = useMemo(() => {
+    return entity?.coordStatus === 'valid' && entity.latitude !== undefined && entity.longitude !== undefined
+      ? { latitude: entity.latitude, longitude: entity.longitude }
+      : undefined;
+  }, [entity]);
+
+  const statusRows = useMemo(() => {
+    return Object.entries(detail?.statusCounts || {})
+      .map(([label, count]) => ({ label, count }))
+      .sort((a, b) => b.count - a.count);
+  }, [detail]);
+
+  // Filter the project browser by this entity
+  const handleShowProjects = () => {
+    if (!entity) return;
+
+    const alreadyFiltered = filters.filters.some(filter =>
+      filter.type === entityType && filter.entityId === entity.id
+    );
+    if (!alreadyFiltered) {
+      addFilter({
+        type: entityType,
+        value: entity.name,
+        label: `${labels.singular}: ${entity.name}`,
+        filterSource: 'entity-selection',
+        entityId: entity.id,
+        entityType
+      });
+    }
+    router.push('/');
+  };
+
+  const qualificationRate = detail && detail.projectCount > 0
+    ? Math.round((detail.qualified45DayCount / detail.projectCount) * 100)
+    : 0;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-[#121212] text-white">
+      <Header activePage="home" />
+
+      <main className="flex-1 p-6 max-w-6xl w-full mx-auto">
+        <Link href="/" className="inline-flex items-center text-sm text-gray-400 hover:text-white mb-4">
+          <FiArrowLeft className="mr-1" /> Back to projects
+        </Link>
+
+        {isLoading && !detail ? (
+          <div className="text-gray-400">Loading {labels.singular}...</div>
+        ) : error || !detail || !entity ? (
+          <div className="text-red-400">{error || `${labels.singular} not found`}</div>
+        ) : (
+          <div className="space-y-6">
+            {/* Title */}
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="text-xs uppercase text-gray-400">{labels.singular}</div>
+                <div className="flex items-center mt-1">
+                  <h1 className="text-2xl font-semibold mr-3 truncate">{entity.name}</h1>
+                  <span className={`px-2 py-0.5 rounded text-sm font-medium ${getClassificationBadgeClass(entity.classification)}`}>
+                    {formatClassification(entity.classification)}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {center
+                    ? `${center.latitude.toFixed(5)}, ${center.longitude.toFixed(5)}`
+                    : 'No coordinates on record'}
+                  {entityType === 'ahj' && (boundary ? ' · Jurisdiction boundary shown' : ' · No boundary on file')}
+                </div>
+              </div>
+              <button
+                onClick={handleShowProjects}
+                className="flex items-center px-3 py-1.5 bg-blue-500 text-white rounded-md text-sm hover:bg-blue-600"
+              >
+                <FiFilter className="mr-2" /> Show projects
+              </button>
+            </div>
+
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-gray-900 border border-gray-800 rounded-md p-4">
+                <div className="text-2xl font-semibold">{detail.projectCount}</div>
+                <div className="text-xs text-gray-400">Projects</div>
+              </div>
+              <div className="bg-gray-900 border border-gray-800 rounded-md p-4">
+                <div className="text-2xl font-semibold">{detail.qualified45DayCount}</div>
+                <div className="text-xs text-gray-400">45-day qualified</div>
+              </div>
+              <div className="bg-gray-900 border border-gray-800 rounded-md p-4">
+                <div className="text-2xl font-semibold">{qualificationRate}%</div>
+                <div className="text-xs text-gray-400">45-day rate</div>
+              </div>
+              <div className="bg-gray-900 border border-gray-800 rounded-md p-4">
+                <div className="text-2xl font-semibold">{detail.installs.length}</div>
+                <div className="text-xs text-gray-400">Visible installs</div>
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              {/* Map */}
+              <section>
+                <h2 className="text-lg font-semibold mb-3">Installs</h2>
+                <EntityMiniMap
+                  center={center}
+                  classification={entity.classification}
+                  installs={detail.installs}
+                  boundary={boundary}
+                />
+              </section>
+
+              {/* 45-day rate by month */}
+              <section>
+                <h2 className="text-lg font-semibold mb-3">45-day qualification by month</h2>
+                {detail.qualificationByMonth.length === 0 ? (
+                  <div className="text-sm text-gray-500">No contract dates on record</div>
+                ) : (
+                  <div className="flex items-end h-64 gap-1 border-b border-gray-700">
+                    {detail.qualificationByMonth.map(month => {
+                      const rate = month.total > 0 ? month.qualified / month.total : 0;
+                      return (
+                        <div
+                          key={month.month}
+                          className="flex-1 flex flex-col items-center justify-end h-full"
+                          title={`${month.month}: ${month.qualified} of ${month.total} qualified`}
+                        >
+                          <span className="text-xs text-gray-400 mb-1">{Math.round(rate * 100)}%</span>
+                          <div className="w-full bg-green-600 rounded-t" style={{ height: `${rate * 80}%` }} />
+                          <span className="text-[10px] text-gray-500 mt-1">{month.month.slice(2)}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </section>
+
+              {/* Time to milestone */}
+              <section>
+                <h2 className="text-lg font-semibold mb-3">Days from contract signed</h2>
+                <MilestoneTimingTable timings={detail.milestoneTimings || []} />
+              </section>
+
+              {/* Breakdowns */}
+              <section>
+                <h2 className="text-lg font-semibold mb-3">Projects by milestone</h2>
+                <CountBars rows={detail.milestoneCounts.map(row => ({ label: row.milestone, count: row.count }))} />
+              </section>
+              <section>
+                <h2 className="text-lg font-semibold mb-3">Projects by status</h2>
+                <CountBars rows={statusRows} />
+              </section>
+
+              {/* Related entities */}
+              {(Object.keys(detail.related) as EntityKind[]).map(relatedType => (
+                <section key={relatedType}>
+                  <h2 className="text-lg font-semibold mb-3">Related {ENTITY_LABELS[relatedType].plural.toLowerCase()}</h2>
+                  <RelatedList entityType={relatedType} entities={detail.related[relatedType] || []} />
+                </section>
+              ))}
+            </div>
+
+            {/* Classification */}
+            <section>
+              <h2 className="text-lg font-semibold mb-3">Classification change log</h2>
+              {isAdmin && suggestion !== undefined && (
+                <div className="mb-4 max-w-xl">
+                  <ClassificationSuggestionCard
+                    entityType={entityType}
+                    entityId={entity.id}
+                    currentClassification={entity.classification}
+                    suggestion={suggestion}
+                    onAccepted={() => setReloadKey(key => key + 1)}
+                  />
+                </div>
+              )}
+              {isAdmin && (
+                <div className="mb-4 max-w-xl">
+                  <ClassificationEditor
+                    entityType={entityType}
+                    entityId={entity.id}
+                    currentClassification={entity.classification}
+                    onSaved={() => setReloadKey(key => key + 1)}
+                  />
+                </div>
+              )}
+              <ClassificationHistory entityType={entityType} entityId={entity.id} refreshKey={reloadKey} />
+            </section>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default EntityDetailView;
@@ -1,8 +1,10 @@
 import React from 'react';
-import { FiMapPin } from 'react-icons/fi';
+import Link from 'next/link';
+import { FiMapPin, FiPlus, FiCheck, FiFileText, FiInfo } from 'react-icons/fi';
 import { EntityData } from '@/hooks/useEntities';
 import { getClassificationBadgeClass, formatClassification } from '@/utils/classificationColors';
 import { formatDistance } from '@/utils/formatters';
+import { HEADLINE_MILESTONE, MIN_TIMING_SAMPLES, formatMilestoneTiming } from '@/utils/milestoneTiming';
 
 // Maximum value to consider as a valid distance (in miles)
 // Any distance above this will be considered as "unknown"
@@ -13,8 +15,12 @@ interface EntityListItemProps {
   isSelected: boolean;
   isHighlighted?: boolean; // Add optional isHighlighted prop
   onSelect: (entity: EntityData) => void;
-  entityType: 'ahj' | 'utility';
+  entityType: 'ahj' | 'utility' | 'financier';
   distance?: number; // Add optional distance prop
+  onAddToPlan?: (entity: EntityData) => void; // Adds the entity to the active knock plan
+  isInPlan?: boolean; // Whether the entity is already in the active knock plan
+  onDownloadBrief?: (entity: EntityData) => void; // Downloads the entity's territory brief PDF
+  detailHref?: string; // Link to the entity's detail page
 }
 
 const EntityListItem: React.FC<EntityListItemProps> = ({
@@ -23,7 +29,11 @@ const EntityListItem: React.FC<EntityListItemProps> = ({
   isHighlighted = false,
   onSelect,
   entityType,
-  distance
+  distance,
+  onAddToPlan,
+  isInPlan = false,
+  onDownloadBrief,
+  detailHref
 }) => {
   // Log entity data when component renders (only for the first entity to avoid spam)
   React.useEffect(() => {
@@ -37,6 +47,13 @@ const EntityListItem: React.FC<EntityListItemProps> = ({
     });
   }, [entity, entityType]);
   
+  // Time to install shown beside the name; every reliable timing in the tooltip
+  const timings = (entity.milestoneTimings || []).filter(timing => timing.count >= MIN_TIMING_SAMPLES);
+  const headlineTiming = timings.find(timing => timing.milestone === HEADLINE_MILESTONE);
+  const timingTooltip = ['Days from contract signed (median, p90):']
+    .concat(timings.map(timing => `${timing.milestone}: ${formatMilestoneTiming(timing)} · ${timing.count} projects`))
+    .join('\n');
+  
   return (
     <div 
       className={`grid-cols-4-new hover:bg-[#1e1e1e] cursor-pointer ${
@@ -44,8 +61,50 @@ const EntityListItem: React.FC<EntityListItemProps> = ({
       }`}
       onClick={() => onSelect(entity)}
     >
-      <div className="px-6 py-4 whitespace-nowrap text-sm text-white overflow-hidden text-ellipsis">
-        <span className="truncate block">{entity.name}</span>
+      <div className="px-6 py-4 whitespace-nowrap text-sm text-white overflow-hidden text-ellipsis flex items-center">
+        <span className="truncate block flex-1">{entity.name}</span>
+        {headlineTiming && (
+          <span className="ml-2 flex-shrink-0 text-[10px] text-gray-400" title={timingTooltip}>
+            {HEADLINE_MILESTONE} {headlineTiming.medianDays}d
+          </span>
+        )}
+        {onAddToPlan && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation(); // Don't select the entity
+              onAddToPlan(entity);
+            }}
+            className={`ml-2 flex-shrink-0 ${isInPlan ? 'text-green-500' : 'text-gray-400 hover:text-white'}`}
+            title={isInPlan ? 'In knock plan' : 'Add to knock plan'}
+            aria-label={isInPlan ? `${entity.name} is in the knock plan` : `Add ${entity.name} to knock plan`}
+          >
+            {isInPlan ? <FiCheck size={14} /> : <FiPlus size={14} />}
+          </button>
+        )}
+        {onDownloadBrief && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation(); // Don't select the entity
+              onDownloadBrief(entity);
+            }}
+            className="ml-2 flex-shrink-0 text-gray-400 hover:text-white"
+            title="Download territory brief (PDF)"
+            aria-label={`Download territory brief for ${entity.name}`}
+          >
+            <FiFileText size={14} />
+          </button>
+        )}
+        {detailHref && (
+          <Link
+            href={detailHref}
+            onClick={(e) => e.stopPropagation()} // Don't select the entity
+            className="ml-2 flex-shrink-0 text-gray-400 hover:text-white"
+            title="View details"
+            aria-label={`View details for ${entity.name}`}
+          >
+            <FiInfo size={14} />
+          </Link>
+        )}
       </div>
       <div className="px-6 py-4 whitespace-nowrap text-sm text-white overflow-hidden text-ellipsis">
         <span className={`truncate flex items-center gap-1 justify-center ${(entity.latitude && entity.longitude && entity.distance !== undefined && entity.distance !== Infinity) ? '' : 'text-gray-500'}`}>
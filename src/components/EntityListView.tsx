@@ -6,6 +6,12 @@ import EntityListItem from './EntityListItem';
 import { formatDistance } from '@/utils/formatters';
 import { getClassificationBadgeClass } from '@/utils/classificationColors';
 import EmptyState from './EmptyState';
+import { useKnockPlans } from '@/contexts/KnockPlanContext';
+import { normalizeEntities } from '@/utils/projectNormalization';
+import { buildTerritoryBrief, downloadTerritoryBrief } from '@/utils/territoryBrief';
+import { fetchAllProjectPages } from '@/utils/projectsApi';
+import { getEntityDetailPath } from '@/utils/entityDetailApi';
+import { EntityKind } from '@/utils/projectNormalization';
 
 interface EntityListViewProps {
   onViewOnMap?: (entityId: string, entityType: 'ahj' | 'utility') => void;
@@ -16,11 +22,12 @@ import { EntityData } from '@/hooks/useEntities';
 
 const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElement => {
   // State for active tab in mobile view
-  const [activeTab, setActiveTab] = useState<'ahj' | 'utility'>('ahj');
+  const [activeTab, setActiveTab] = useState<EntityKind>('ahj');
   
   // State for loaded items count (for infinite scrolling)
   const [ahjLoadedCount, setAhjLoadedCount] = useState(10000); // Set to max rows from Supabase
   const [utilityLoadedCount, setUtilityLoadedCount] = useState(10000); // Set to max rows from Supabase
+  const [financierLoadedCount, setFinancierLoadedCount] = useState(10000); // Set to max rows from Supabase
   
   // State for touch events (swipe functionality)
   const [touchStart, setTouchStart] = useState<number | null>(null);
@@ -29,22 +36,30 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
   // Minimum swipe distance (in px)
   const minSwipeDistance = 50;
   
-  // Scroll container refs for both lists
+  // Scroll container refs for all three lists
   const ahjScrollContainerRef = useRef<HTMLDivElement>(null);
   const utilityScrollContainerRef = useRef<HTMLDivElement>(null);
+  const financierScrollContainerRef = useRef<HTMLDivElement>(null);
   
   // Use DataContext for all data and filter state
   const { 
     projects,
     ahjs: allAhjs, 
     utilities: allUtilities,
+    financiers: allFinanciers,
     filters,
     isLoading,
     error,
     addFilter,
     removeFilter,
-    userLocation // Get user location from DataContext
+    userLocation, // Get user location from DataContext
+    rawAhjs,
+    rawUtilities
   } = useData();
+  
+  // Knock plans: AHJs can be added to the active plan from the list
+  const { addAhjToPlan, isAhjInActivePlan } = useKnockPlans();
+  
   // Get project entity IDs for reference (used for debugging only)
   const projectAhjIds = useMemo(() => 
     new Set(projects.map(p => p.ahj?.id).filter(Boolean)), 
@@ -60,6 +75,7 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
   // These are already filtered by the DataContext which is hydrated with server data
   const ahjs = allAhjs || [];
   const utilities = allUtilities || [];
+  const financiers = useMemo(() => allFinanciers || [], [allFinanciers]);
   
   // Add focused logging for coordinate data analysis
   useEffect(() => {
@@ -127,6 +143,11 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
     return utilities && utilities.length > 0 ? utilities : []; // Already sorted by DataContext
   }, [utilities]);
   
+  const filteredFinanciers = useMemo(() => {
+    // Ensure we have data before returning
+    return financiers && financiers.length > 0 ? financiers : []; // Already sorted by DataContext
+  }, [financiers]);
+  
   // Limit displayed entities for infinite scrolling
   const visibleAhjs = useMemo(() => {
     // Ensure we load at least 50 items initially for better UX
@@ -140,20 +161,33 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
     return filteredUtilities.slice(0, initialCount);
   }, [filteredUtilities, utilityLoadedCount]);
   
+  const visibleFinanciers = useMemo(() => {
+    // Ensure we load at least 50 items initially for better UX
+    const initialCount = Math.max(50, financierLoadedCount);
+    return filteredFinanciers.slice(0, initialCount);
+  }, [filteredFinanciers, financierLoadedCount]);
+  
   // Determine which entities are highlighted based on filters
   const highlightedAhjId = useMemo(() => {
     const ahjFilter = filters.filters.find(f => 
-      f.type === 'ahj' && f.filterSource === 'entity-selection'
+      f.type === 'ahj' && f.filterSource === 'entity-selection' && !f.negate
     );
     return ahjFilter?.entityId || null;
   }, [filters.filters]);
 
   const highlightedUtilityId = useMemo(() => {
     const utilityFilter = filters.filters.find(f => 
-      f.type === 'utility' && f.filterSource === 'entity-selection'
+      f.type === 'utility' && f.filterSource === 'entity-selection' && !f.negate
     );
     return utilityFilter?.entityId || null;
   }, [filters.filters]);
+
+  const highlightedFinancierId = useMemo(() => {
+    const financierFilter = filters.filters.find(f => 
+      f.type === 'financier' && f.filterSource === 'entity-selection' && !f.negate
+    );
+    return financierFilter?.entityId || null;
+  }, [filters.filters]);
   
   // Handle AHJ selection
   const handleAhjSelect = (ahj: EntityData) => {
@@ -229,6 +263,67 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
     }
   };
   
+  // Handle Financier selection
+  const handleFinancierSelect = (financier: EntityData) => {
+    // Check if this entity is already highlighted via a filter
+    const isAlreadyFiltered = highlightedFinancierId === financier.id;
+    
+    if (isAlreadyFiltered) {
+      // If already filtered, find and remove the filter
+      const existingFilter = filters.filters.find(f => 
+        (f.type === 'financier' || f.entityType === 'financier') && 
+        ((f.filterSource === 'entity-selection' && f.entityId === financier.id) ||
+        (f.value === financier.name))
+      );
+      
+      if (existingFilter) {
+        // Use removeFilter to properly remove the filter
+        removeFilter(existingFilter.id || '');
+      }
+    } else {
+      // If selecting, add an entity-selection filter
+      const newFilter: ProjectFilter = {
+        type: 'financier',
+        value: financier.name,
+        label: `Financier: ${financier.name}`,
+        filterSource: 'entity-selection',
+        entityId: financier.id,
+        entityType: 'financier',
+        metadata: {
+          classification: financier.classification
+        }
+      };
+      
+      addFilter(newFilter);
+    }
+  };
+  
+  // Generate and download the territory brief PDF for an entity row
+  const handleDownloadBrief = async (entity: EntityData, entityType: 'ahj' | 'utility') => {
+    const [ownRows, otherRows, otherType] = entityType === 'ahj'
+      ? [rawAhjs, rawUtilities, 'utility' as const]
+      : [rawUtilities, rawAhjs, 'ahj' as const];
+    
+    const normalized = normalizeEntities(ownRows, entityType).find(e => e.id === entity.id);
+    if (!normalized) {
+      console.error(`[EntityListView] No ${entityType} found for territory brief: ${entity.id}`);
+      return;
+    }
+    
+    try {
+      // Every project of the entity, not just the loaded pages
+      const entityProjects = await fetchAllProjectPages({ [entityType]: entity.id });
+      const relatedIds = new Set(entityProjects.map(project =>
+        otherType === 'ahj' ? project.ahj_item_id : project.utility_company_item_id
+      ));
+      const related = normalizeEntities(otherRows, otherType).filter(e => relatedIds.has(e.id));
+      
+      await downloadTerritoryBrief(buildTerritoryBrief(entityType, normalized, entityProjects, related));
+    } catch (err) {
+      console.error('[EntityListView] Failed to generate territory brief:', err);
+    }
+  };
+  
   // Handle scroll event for AHJ list
   useEffect(() => {
     const handleScroll = () => {
@@ -285,11 +380,40 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
     }
   }, [filteredUtilities.length]); // Re-attach when the filtered list changes
   
+  // Handle scroll event for Financier list
+  useEffect(() => {
+    const handleScroll = () => {
+      if (!financierScrollContainerRef.current) return;
+      
+      const { scrollTop, scrollHeight, clientHeight } = financierScrollContainerRef.current;
+      
+      // Load more when scrolled to bottom (with a smaller buffer to ensure it triggers)
+      if (scrollHeight - scrollTop <= clientHeight + 200) {
+        setFinancierLoadedCount(prev => prev + 20); // Load 20 more items at once for better UX
+      }
+    };
+    
+    const container = financierScrollContainerRef.current;
+    if (container) {
+      container.addEventListener('scroll', handleScroll);
+      
+      // Initial check to load more items if needed
+      setTimeout(() => {
+        handleScroll();
+      }, 100);
+      
+      return () => {
+        container.removeEventListener('scroll', handleScroll);
+      };
+    }
+  }, [filteredFinanciers.length]); // Re-attach when the filtered list changes
+  
   // Update table height based on container size
   useEffect(() => {
     const updateTableHeight = () => {
       const ahjContainer = ahjScrollContainerRef.current;
       const utilityContainer = utilityScrollContainerRef.current;
+      const financierContainer = financierScrollContainerRef.current;
       
       if (!ahjContainer || !utilityContainer) return;
       
@@ -301,9 +425,12 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
         // Subtract header height and some padding
         const availableHeight = parentHeight - 60; // 40px for header, 20px for padding
         
-        // Set height on both containers
+        // Set height on all containers
         ahjContainer.style.height = `${availableHeight}px`;
         utilityContainer.style.height = `${availableHeight}px`;
+        if (financierContainer) {
+          financierContainer.style.height = `${availableHeight}px`;
+        }
       }
     };
     
@@ -324,7 +451,7 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
   }, []);
   
   // Handle loading state - only show if we don't have any entity data yet
-  if (isLoading && (!ahjs || ahjs.length === 0) && (!utilities || utilities.length === 0)) {
+  if (isLoading && (!ahjs || ahjs.length === 0) && (!utilities || utilities.length === 0) && financiers.length === 0) {
     return (
       <div className="flex items-center justify-center h-full p-4">
         <div className="text-gray-400">Loading entities...</div>
@@ -342,7 +469,8 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
   }
   
   // Show empty state if we have no entities after filtering
-  if ((!filteredAhjs || filteredAhjs.length === 0) && (!filteredUtilities || filteredUtilities.length === 0)) {
+  if ((!filteredAhjs || filteredAhjs.length === 0) && (!filteredUtilities || filteredUtilities.length === 0) &&
+      filteredFinanciers.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center h-full p-4">
         <EmptyState
@@ -353,12 +481,16 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
     );
   }
   
-  // Render a single entity list (AHJ or Utility)
-  const renderEntityList = (entityType: 'ahj' | 'utility') => {
-    const entities = entityType === 'ahj' ? visibleAhjs : visibleUtilities;
-    const highlightedId = entityType === 'ahj' ? highlightedAhjId : highlightedUtilityId;
-    const handleSelect = entityType === 'ahj' ? handleAhjSelect : handleUtilitySelect;
-    const emptyTitle = entityType === 'ahj' ? 'No AHJs Found' : 'No Utilities Found';
+  // Per-type list data, selection state and handlers
+  const entityLists = {
+    ahj: { entities: visibleAhjs, highlightedId: highlightedAhjId, handleSelect: handleAhjSelect, emptyTitle: 'No AHJs Found', icon: 'building' },
+    utility: { entities: visibleUtilities, highlightedId: highlightedUtilityId, handleSelect: handleUtilitySelect, emptyTitle: 'No Utilities Found', icon: 'bolt' },
+    financier: { entities: visibleFinanciers, highlightedId: highlightedFinancierId, handleSelect: handleFinancierSelect, emptyTitle: 'No Financiers Found', icon: 'dollar' }
+  };
+  
+  // Render a single entity list (AHJ, Utility or Financier)
+  const renderEntityList = (entityType: EntityKind) => {
+    const { entities, highlightedId, handleSelect, emptyTitle, icon } = entityLists[entityType];
     const emptyMessage = 'Try adjusting your filters to see more results.';
     
     if (entities.length === 0) {
@@ -367,7 +499,7 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
           <EmptyState 
             title={emptyTitle} 
             message={emptyMessage}
-            icon={entityType === 'ahj' ? 'building' : 'bolt'}
+            icon={icon}
           />
         </div>
       );
@@ -391,6 +523,10 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
               isSelected={entity.id === highlightedId}
               onSelect={() => handleSelect(entity)}
               entityType={entityType}
+              onAddToPlan={entityType === 'ahj' ? addAhjToPlan : undefined}
+              isInPlan={entityType === 'ahj' && isAhjInActivePlan(entity.id)}
+              onDownloadBrief={entityType === 'financier' ? undefined : () => handleDownloadBrief(entity, entityType)}
+              detailHref={getEntityDetailPath(entityType, entity.id)}
             />
           );
         })}
@@ -416,10 +552,14 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
     const isLeftSwipe = distance > minSwipeDistance;
     const isRightSwipe = distance < -minSwipeDistance;
     
-    if (isLeftSwipe && activeTab === 'ahj') {
-      setActiveTab('utility');
-    } else if (isRightSwipe && activeTab === 'utility') {
-      setActiveTab('ahj');
+    // Tabs are ordered AHJ, Utility, Financier
+    const tabs: EntityKind[] = ['ahj', 'utility', 'financier'];
+    const tabIndex = tabs.indexOf(activeTab);
+    
+    if (isLeftSwipe && tabIndex < tabs.length - 1) {
+      setActiveTab(tabs[tabIndex + 1]);
+    } else if (isRightSwipe && tabIndex > 0) {
+      setActiveTab(tabs[tabIndex - 1]);
     }
     
     // Reset touch values
@@ -440,16 +580,22 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
         {/* Mobile tabs */}
         <button
           onClick={() => setActiveTab('ahj')}
-          className={`w-1/2 py-3 px-4 font-medium text-center ${activeTab === 'ahj' ? 'text-blue-500 border-b-2 border-blue-500' : 'text-gray-400'}`}
+          className={`w-1/3 py-3 px-4 font-medium text-center ${activeTab === 'ahj' ? 'text-blue-500 border-b-2 border-blue-500' : 'text-gray-400'}`}
         >
           AHJs ({filteredAhjs.length})
         </button>
         <button
           onClick={() => setActiveTab('utility')}
-          className={`w-1/2 py-3 px-4 font-medium text-center ${activeTab === 'utility' ? 'text-blue-500 border-b-2 border-blue-500' : 'text-gray-400'}`}
+          className={`w-1/3 py-3 px-4 font-medium text-center ${activeTab === 'utility' ? 'text-blue-500 border-b-2 border-blue-500' : 'text-gray-400'}`}
         >
           Utilities ({filteredUtilities.length})
         </button>
+        <button
+          onClick={() => setActiveTab('financier')}
+          className={`w-1/3 py-3 px-4 font-medium text-center ${activeTab === 'financier' ? 'text-blue-500 border-b-2 border-blue-500' : 'text-gray-400'}`}
+        >
+          Financiers ({filteredFinanciers.length})
+        </button>
       </div>
       
       {/* Content area with responsive lists */}
@@ -464,7 +610,7 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
           {/* AHJ List */}
           <div 
             ref={ahjScrollContainerRef}
-            className="w-1/2 overflow-y-auto border-r border-gray-700 max-h-full"
+            className="w-1/3 overflow-y-auto border-r border-gray-700 max-h-full"
             style={{ overscrollBehavior: 'contain' }}
           >
             <div className="h-full pb-20">
@@ -475,13 +621,24 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
           {/* Utility List */}
           <div 
             ref={utilityScrollContainerRef}
-            className="w-1/2 overflow-y-auto max-h-full"
+            className="w-1/3 overflow-y-auto border-r border-gray-700 max-h-full"
             style={{ overscrollBehavior: 'contain' }}
           >
             <div className="h-full pb-20">
               {renderEntityList('utility')}
             </div>
           </div>
+          
+          {/* Financier List */}
+          <div 
+            ref={financierScrollContainerRef}
+            className="w-1/3 overflow-y-auto max-h-full"
+            style={{ overscrollBehavior: 'contain' }}
+          >
+            <div className="h-full pb-20">
+              {renderEntityList('financier')}
+            </div>
+          </div>
         </div>
         
         {/* Mobile: Single list with tabs */}
@@ -507,6 +664,17 @@ const EntityListView = ({ onViewOnMap }: EntityListViewProps): React.ReactElemen
               {renderEntityList('utility')}
             </div>
           </div>
+          
+          {/* Financier List - shown when Financier tab is active */}
+          <div 
+            ref={financierScrollContainerRef}
+            className={`h-full overflow-y-auto ${activeTab === 'financier' ? 'block' : 'hidden'}`}
+            style={{ overscrollBehavior: 'contain' }}
+          >
+            <div className="pb-20">
+              {renderEntityList('financier')}
+            </div>
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef } from 'react';
+import type { Map as MapboxMap } from 'mapbox-gl';
+import 'mapbox-gl/dist/mapbox-gl.css';
+import { getMapboxToken } from '@/utils/mapbox';
+import { getClassificationMapColor } from '@/utils/classificationColors';
+import { InstallPoint } from '@/utils/entityDetailApi';
+
+interface EntityMiniMapProps {
+  // Entity pin, when it has coordinates
+  center?: { latitude: number; longitude: number };
+  classification?: string;
+  installs: InstallPoint[];
+  // AHJ jurisdiction outline, when one is known
+  boundary?: GeoJSON.Feature | null;
+}
+
+/**
+ * Small non-interactive map of an entity's pin, boundary and installs
+ */
+const EntityMiniMap: React.FC<EntityMiniMapProps> = ({ center, classification, installs, boundary }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<MapboxMap | null>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    let cancelled = false;
+
+    // mapbox-gl touches `window`, so it is loaded in the browser only
+    import('mapbox-gl').then(({ default: mapboxgl }) => {
+      if (cancelled || !containerRef.current) return;
+
+      mapboxgl.accessToken = getMapboxToken();
+      const map = new mapboxgl.Map({
+        container: containerRef.current,
+        style: 'mapbox://styles/mapbox/dark-v10',
+        center: center ? [center.longitude, center.latitude] : [-111.8910, 40.7608],
+        zoom: 9,
+        interactive: false
+      });
+      mapRef.current = map;
+
+      map.on('load', () => {
+        const bounds = new mapboxgl.LngLatBounds();
+
+        if (boundary) {
+          map.addSource('entity-boundary', { type: 'geojson', data: boundary });
+          map.addLayer({
+            id: 'entity-boundary-fill',
+            type: 'fill',
+            source: 'entity-boundary',
+            paint: { 'fill-color': getClassificationMapColor(classification), 'fill-opacity': 0.15 }
+          });
+          map.addLayer({
+            id: 'entity-boundary-line',
+            type: 'line',
+            source: 'entity-boundary',
+            paint: { 'line-color': getClassificationMapColor(classification), 'line-width': 2 }
+          });
+        }
+
+        map.addSource('entity-installs', {
+          type: 'geojson',
+          data: {
+            type: 'FeatureCollection',
+            features: installs.map(install => ({
+              type: 'Feature',
+              properties: {},
+              geometry: { type: 'Point', coordinates: [install.longitude, install.latitude] }
+            }))
+          }
+        });
+        map.addLayer({
+          id: 'entity-installs',
+          type: 'circle',
+          source: 'entity-installs',
+          paint: {
+            'circle-color': '#3b82f6',
+            'circle-radius': 4,
+            'circle-stroke-width': 1,
+            'circle-stroke-color': '#ffffff'
+          }
+        });
+        installs.forEach(install => bounds.extend([install.longitude, install.latitude]));
+
+        if (center) {
+          new mapboxgl.Marker({ color: getClassificationMapColor(classification) })
+            .setLngLat([center.longitude, center.latitude])
+            .addTo(map);
+          bounds.extend([center.longitude, center.latitude]);
+        }
+
+        if (!bounds.isEmpty()) {
+          map.fitBounds(bounds, { padding: 30, maxZoom: 12, duration: 0 });
+        }
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      mapRef.current?.remove();
+      mapRef.current = null;
+    };
+  }, [center, classification, installs, boundary]);
+
+  return <div ref={containerRef} className="w-full h-64 rounded-md overflow-hidden border border-gray-700" />;
+};
+
+export default EntityMiniMap;
@@ -0,0 +1,124 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FiCheck } from 'react-icons/fi';
+import {
+  GEO_FILTER_LABELS,
+  GEO_FILTER_TYPES,
+  GeoFilterOption,
+  GeoFilterType,
+  normalizeGeoValue
+} from '@/utils/geoFilters';
+import { fetchGeoOptions } from '@/utils/projectAggregatesApi';
+
+interface GeoFilterSectionProps {
+  selected: Record<GeoFilterType, string[]>; // Active values per field
+  onToggle: (type: GeoFilterType, value: string) => void;
+}
+
+// Options listed under the input
+const OPTION_LIMIT = 8;
+
+/**
+ * State, county, city and zip pickers
+ * Options come from every visible project, so picking one value doesn't hide
+ * the others; selected values are ticked and clicking them again removes them.
+ */
+const GeoFilterSection: React.FC<GeoFilterSectionProps> = ({ selected, onToggle }) => {
+  const [activeType, setActiveType] = useState<GeoFilterType>('state');
+  const [query, setQuery] = useState('');
+  const [allOptions, setAllOptions] = useState<Record<GeoFilterType, GeoFilterOption[]> | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchGeoOptions()
+      .then(result => {
+        if (!cancelled) setAllOptions(result);
+      })
+      .catch(error => console.error('[GeoFilterSection] Failed to load location options:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const options = useMemo(() => allOptions?.[activeType] || [], [allOptions, activeType]);
+
+  const selectedKeys = useMemo(
+    () => new Set(selected[activeType].map(value => normalizeGeoValue(activeType, value))),
+    [selected, activeType]
+  );
+
+  const matchingOptions = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    return options
+      .filter(option => !term || option.value.toLowerCase().includes(term))
+      .slice(0, OPTION_LIMIT);
+  }, [options, query]);
+
+  const handleTypeChange = (type: GeoFilterType) => {
+    setActiveType(type);
+    setQuery('');
+  };
+
+  // Enter picks the first match, or the typed value when nothing matches
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter' || !query.trim()) return;
+    onToggle(activeType, matchingOptions[0]?.value || query.trim());
+    setQuery('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex text-xs">
+        {GEO_FILTER_TYPES.map((type, index) => (
+          <button
+            key={type}
+            className={`flex-1 px-2 py-1 ${index === 0 ? 'rounded-l-md' : ''} ${
+              index === GEO_FILTER_TYPES.length - 1 ? 'rounded-r-md' : ''
+            } ${activeType === type ? 'bg-blue-500 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+            onClick={() => handleTypeChange(type)}
+          >
+            {GEO_FILTER_LABELS[type]}
+            {selected[type].length > 0 && ` (${selected[type].length})`}
+          </button>
+        ))}
+      </div>
+
+      <input
+        type="text"
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={`Find ${GEO_FILTER_LABELS[activeType].toLowerCase()}...`}
+        className="w-full bg-gray-800 text-white text-sm px-3 py-1.5 rounded-md"
+      />
+
+      {matchingOptions.length === 0 ? (
+        <div className="text-sm text-gray-500">
+          {options.length === 0 ? 'No locations in the loaded projects' : 'No matches'}
+        </div>
+      ) : (
+        <ul className="space-y-1">
+          {matchingOptions.map(option => {
+            const isSelected = selectedKeys.has(normalizeGeoValue(activeType, option.value));
+            return (
+              <li key={option.value}>
+                <button
+                  onClick={() => onToggle(activeType, option.value)}
+                  className={`w-full flex items-center text-left text-sm px-2 py-1 rounded hover:bg-gray-800 ${
+                    isSelected ? 'text-blue-400' : ''
+                  }`}
+                >
+                  <span className="w-5">{isSelected && <FiCheck size={14} />}</span>
+                  <span className="flex-1 truncate">{option.value}</span>
+                  <span className="text-xs text-gray-500">{option.count}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GeoFilterSection;
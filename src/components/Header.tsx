@@ -2,13 +2,14 @@ import React from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { useAuth } from '@/utils/AuthContext';
+import NotificationCenter from './NotificationCenter';
 
 interface HeaderProps {
-  activePage?: 'home' | 'projects';
+  activePage?: 'home' | 'projects' | 'analytics' | 'admin';
 }
 
 const Header: React.FC<HeaderProps> = ({ activePage = 'projects' }) => {
-  const { signOut, userProfile } = useAuth();
+  const { signOut, userProfile, isAdmin } = useAuth();
 
   const handleLogout = async () => {
     await signOut();
@@ -42,6 +43,29 @@ const Header: React.FC<HeaderProps> = ({ activePage = 'projects' }) => {
         >
           Projects
         </Link>
+        <Link 
+          href="/analytics" 
+          className={`px-4 py-2 rounded-md ${
+            activePage === 'analytics'
+              ? 'bg-[#0066ff] text-white' 
+              : 'bg-transparent text-white hover:bg-[#1e1e1e]'
+          }`}
+        >
+          Analytics
+        </Link>
+        {isAdmin && (
+          <Link 
+            href="/admin/classifications" 
+            className={`px-4 py-2 rounded-md ${
+              activePage === 'admin'
+                ? 'bg-[#0066ff] text-white' 
+                : 'bg-transparent text-white hover:bg-[#1e1e1e]'
+            }`}
+          >
+            Classifications
+          </Link>
+        )}
+        <NotificationCenter />
         <button 
           onClick={handleLogout}
           className="ml-4 px-3 py-1.5 rounded-md bg-red-600 hover:bg-red-700 text-white text-sm font-medium transition-colors"
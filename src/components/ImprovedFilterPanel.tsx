@@ -4,15 +4,27 @@ import Link from 'next/link';
 import { ProjectFilter, ImprovedFilterPanelProps } from '@/utils/types';
 import CollapsibleFilterSection from './CollapsibleFilterSection';
 import ActiveFilterChip from './ActiveFilterChip';
-import { FiMap, FiList, FiSearch, FiLogOut, FiX, FiFilter, FiFileText } from 'react-icons/fi';
+import { FiMap, FiList, FiSearch, FiLogOut, FiX, FiFilter, FiFileText, FiLoader } from 'react-icons/fi';
 import { useAuth } from '@/utils/AuthContext';
 import { getClassificationBadgeClass, formatClassification } from '@/utils/classificationColors';
 import ToggleOption from './ToggleOption';
+import AhjLookupCard from './AhjLookupCard';
+import { AhjLookupResult, lookupAhj } from '@/utils/ahjLookupApi';
+import { parseGeoPoint } from '@/utils/geo';
+import { useKnockPlans } from '@/contexts/KnockPlanContext';
+import { getFilterGroupKey, getFilterLabel, groupFilters } from '@/utils/filterExpressions';
+import { SavedViewState } from '@/utils/savedViews';
+import SavedViewsSection from './SavedViewsSection';
+import DateRangeFilterSection from './DateRangeFilterSection';
+import GeoFilterSection from './GeoFilterSection';
+import { GEO_FILTER_TYPES, GeoFilterType, normalizeGeoValue } from '@/utils/geoFilters';
 
 interface ImprovedFilterPanelExtendedProps extends ImprovedFilterPanelProps {
   isCollapsed?: boolean;
   onToggleCollapse?: () => void;
   isMobile?: boolean;
+  savedViewState?: SavedViewState; // Current state, stored when a view is saved
+  onApplySavedView?: (state: SavedViewState) => void;
 }
 
   /**
@@ -32,11 +44,14 @@ interface ImprovedFilterPanelExtendedProps extends ImprovedFilterPanelProps {
    * @prop {boolean} isCollapsed - Whether the panel is collapsed
    * @prop {Function} onToggleCollapse - A function to toggle the collapsed state
    * @prop {boolean} isMobile - Whether the panel is being rendered on a mobile device
+   * @prop {Object} savedViewState - The current filter and view state, for saving as a view
+   * @prop {Function} onApplySavedView - A function to restore a saved view
    */
 const ImprovedFilterPanel: React.FC<ImprovedFilterPanelExtendedProps> = ({
   filters,
   addFilter,
   removeFilter,
+  updateFilter,
   clearFilters,
   onSearch,
   searchTerms = '',
@@ -45,21 +60,33 @@ const ImprovedFilterPanel: React.FC<ImprovedFilterPanelExtendedProps> = ({
   isCollapsed = false,
   onToggleCollapse,
   isMobile = false,
+  savedViewState,
+  onApplySavedView,
 }) => {
   const [searchInput, setSearchInput] = useState('');
   const { signOut, userProfile } = useAuth();
+  
+  // The search box either searches projects or looks up the AHJ for an address
+  const [searchMode, setSearchMode] = useState<'projects' | 'ahj'>('projects');
+  const [lookupResult, setLookupResult] = useState<AhjLookupResult | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const { addAhjToPlan } = useKnockPlans();
 
   // Handle classification filter change
+  // Cycles include -> exclude -> off; filters of the same type are ORed together
   const handleClassificationFilterChange = (
     type: 'ahj' | 'utility' | 'financier' | '45day',
     value: string
   ) => {
-    // Toggle the filter - if it's already active, remove it
-    if (isFilterActive(type, value)) {
-      // Find the filter in the consolidated filters array
-      const filterToRemove = filters.filters.find(f => f.type === type && f.value === value);
-      if (filterToRemove && filterToRemove.id) {
-        removeFilter(filterToRemove.id);
+    // Find the filter in the consolidated filters array
+    const existingFilter = filters.filters.find(f => f.type === type && f.value === value);
+    
+    if (existingFilter && existingFilter.id) {
+      if (!existingFilter.negate && updateFilter) {
+        updateFilter(existingFilter.id, { negate: true });
+      } else {
+        removeFilter(existingFilter.id);
       }
     } else {
       // Add the filter
@@ -74,7 +101,58 @@ const ImprovedFilterPanel: React.FC<ImprovedFilterPanelExtendedProps> = ({
   // Check if a filter is active
   const isFilterActive = (type: string, value: string) => {
     // Check in the consolidated filters array
-    return filters.filters.some(f => f.type === type && f.value === value);
+    return filters.filters.some(f => f.type === type && f.value === value && !f.negate);
+  };
+
+  // Check if a filter is active as an exclusion
+  const isFilterExcluded = (type: string, value: string) => {
+    return filters.filters.some(f => f.type === type && f.value === value && f.negate);
+  };
+
+  // Set or clear the contract signed date range; only one range applies at a time
+  const contractDateFilter = filters.filters.find(f => f.type === 'contractDate');
+  const handleContractDateChange = (value: string | null) => {
+    if (!value) {
+      if (contractDateFilter?.id) removeFilter(contractDateFilter.id);
+      return;
+    }
+    const label = getFilterLabel({ type: 'contractDate', value });
+    if (contractDateFilter?.id && updateFilter) {
+      updateFilter(contractDateFilter.id, { value, label });
+    } else {
+      if (contractDateFilter?.id) removeFilter(contractDateFilter.id);
+      addFilter({ type: 'contractDate', value, label });
+    }
+  };
+
+  // Location values picked per field; values of one field are ORed
+  const geoSelection = GEO_FILTER_TYPES.reduce((selection, type) => {
+    selection[type] = filters.filters.filter(f => f.type === type).map(f => f.value);
+    return selection;
+  }, {} as Record<GeoFilterType, string[]>);
+
+  // Add a location filter, or remove it if that value is already filtered
+  const handleGeoFilterToggle = (type: GeoFilterType, value: string) => {
+    const key = normalizeGeoValue(type, value);
+    const existingFilter = filters.filters.find(f => f.type === type && normalizeGeoValue(type, f.value) === key);
+    if (existingFilter?.id) {
+      removeFilter(existingFilter.id);
+    } else {
+      addFilter({ type, value, label: getFilterLabel({ type, value }) });
+    }
+  };
+
+  // Join a group to the one before it, so their filters are ORed
+  const mergeWithPreviousGroup = (previousGroup: ProjectFilter[], group: ProjectFilter[]) => {
+    if (!updateFilter) return;
+    const groupKey = getFilterGroupKey(previousGroup[0]);
+    group.forEach(filter => filter.id && updateFilter(filter.id, { group: groupKey }));
+  };
+
+  // Move a filter out of its OR group into a group of its own
+  const splitFromGroup = (filter: ProjectFilter) => {
+    if (!updateFilter || !filter.id) return;
+    updateFilter(filter.id, { group: `group-${filter.id}` });
   };
 
   // Handle search input
@@ -82,8 +160,50 @@ const ImprovedFilterPanel: React.FC<ImprovedFilterPanelExtendedProps> = ({
     setSearchInput(e.target.value);
   };
 
+  // Look up the AHJ for an address, or for "lat, lng" coordinates of a dropped pin
+  const runAhjLookup = async (query: string) => {
+    setIsLookingUp(true);
+    setLookupError(null);
+    
+    try {
+      const location = parseGeoPoint(query.replace(/\s+/g, ''));
+      setLookupResult(await lookupAhj(location ? { location } : { address: query }));
+    } catch (error) {
+      console.error('[ImprovedFilterPanel] AHJ lookup failed:', error);
+      setLookupResult(null);
+      setLookupError(error instanceof Error ? error.message : 'AHJ lookup failed');
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  // Filter by the AHJ found in a lookup
+  const handleFilterByAhj = (ahj: { id: string; name: string }) => {
+    if (!filters.filters.some(f => f.type === 'ahj' && f.entityId === ahj.id)) {
+      addFilter({
+        type: 'ahj',
+        value: ahj.name,
+        entityId: ahj.id,
+        filterSource: 'search',
+        label: `AHJ: ${ahj.name}`
+      });
+    }
+  };
+
+  // Switch the search box between project search and AHJ lookup
+  const handleSearchModeChange = (mode: 'projects' | 'ahj') => {
+    setSearchMode(mode);
+    setLookupResult(null);
+    setLookupError(null);
+  };
+
   // Handle Enter key press in search input
   const handleSearchKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && searchInput.trim() && searchMode === 'ahj') {
+      runAhjLookup(searchInput.trim());
+      return;
+    }
+    
     if (e.key === 'Enter' && searchInput.trim()) {
       // Add the search term
       if (onSearch) {
@@ -136,20 +256,104 @@ const ImprovedFilterPanel: React.FC<ImprovedFilterPanelExtendedProps> = ({
     label: string
   ) => {
     const isActive = isFilterActive(type, classification);
+    const isExcluded = isFilterExcluded(type, classification);
     const badgeClass = getClassificationBadgeClass(classification);
     
     return (
       <button
         className={`px-3 py-1 rounded-md text-sm ${
-          isActive ? 'ring-2 ring-white' : 'opacity-80 hover:opacity-100'
+          isActive ? 'ring-2 ring-white' : isExcluded ? 'ring-2 ring-red-500 line-through' : 'opacity-80 hover:opacity-100'
         } ${badgeClass}`}
         onClick={() => handleClassificationFilterChange(type, classification)}
+        title={isActive ? 'Click to exclude' : isExcluded ? 'Click to clear' : 'Click to include'}
       >
         {label}
       </button>
     );
   };
 
+  // Render a single active filter chip
+  const renderFilterChip = (filter: ProjectFilter) => {
+    if (filter.type === 'myprojects') {
+      return (
+        <ActiveFilterChip
+          key={filter.id || `myprojects-${filter.value}`}
+          label="My Projects"
+          type="myprojects"
+          onRemove={() => {
+            if (toggleShowOnlyMyProjects) {
+              toggleShowOnlyMyProjects();
+            }
+          }}
+        />
+      );
+    }
+    
+    return (
+      <ActiveFilterChip
+        key={filter.id || `${filter.type}-${filter.value}`}
+        label={filter.label || `${filter.type}: ${filter.value}`}
+        type={filter.type}
+        negated={filter.negate}
+        onRemove={() => removeFilter(filter.id || '')}
+        onToggleNegate={updateFilter && filter.id
+          ? () => updateFilter(filter.id!, { negate: !filter.negate })
+          : undefined}
+      />
+    );
+  };
+
+  // Render the and/or connector between two chips; clicking it toggles the grouping
+  const renderConnector = (key: string, operator: 'and' | 'or', onToggle?: () => void) => (
+    <button
+      key={key}
+      onClick={onToggle}
+      disabled={!onToggle}
+      className="text-xs uppercase text-gray-400 hover:text-white disabled:hover:text-gray-400"
+      title={onToggle ? (operator === 'or' ? 'Split into a separate AND condition' : 'Combine with the previous condition using OR') : undefined}
+    >
+      {operator}
+    </button>
+  );
+
+  // Render active filters as ORed groups joined by AND, followed by exclusions
+  const renderFilterGroups = () => {
+    // Search filters are handled by the search chip
+    const { groups, exclusions } = groupFilters(filters.filters.filter(f => f.type !== 'search'));
+    const elements: React.ReactNode[] = [];
+    
+    groups.forEach((group, groupIndex) => {
+      if (groupIndex > 0) {
+        const previousGroup = groups[groupIndex - 1];
+        elements.push(renderConnector(
+          `and-${groupIndex}`,
+          'and',
+          updateFilter ? () => mergeWithPreviousGroup(previousGroup, group) : undefined
+        ));
+      }
+      
+      group.forEach((filter, filterIndex) => {
+        if (filterIndex > 0) {
+          elements.push(renderConnector(
+            `or-${filter.id || filterIndex}`,
+            'or',
+            updateFilter ? () => splitFromGroup(filter) : undefined
+          ));
+        }
+        elements.push(renderFilterChip(filter));
+      });
+    });
+    
+    exclusions.forEach((filter, index) => {
+      if (groups.length > 0 || index > 0) {
+        elements.push(renderConnector(`and-not-${filter.id || index}`, 'and'));
+      }
+      elements.push(renderFilterChip(filter));
+    });
+    
+    return elements;
+  };
+
   // Handle window resize to detect mobile view
   useEffect(() => {
     const handleResize = () => {
@@ -212,17 +416,50 @@ const ImprovedFilterPanel: React.FC<ImprovedFilterPanelExtendedProps> = ({
       
       {/* Search Bar */}
       <div className="p-4 border-b border-gray-700">
+        <div className="flex mb-2 text-xs">
+          <button
+            className={`px-3 py-1 rounded-l-md ${searchMode === 'projects' ? 'bg-blue-500 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+            onClick={() => handleSearchModeChange('projects')}
+          >
+            Projects
+          </button>
+          <button
+            className={`px-3 py-1 rounded-r-md ${searchMode === 'ahj' ? 'bg-blue-500 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+            onClick={() => handleSearchModeChange('ahj')}
+          >
+            AHJ lookup
+          </button>
+        </div>
         <div className="relative">
           <input
             type="text"
-            placeholder="Search projects..."
+            placeholder={searchMode === 'ahj' ? 'Address or lat, lng...' : 'Search projects...'}
             className="w-full bg-gray-800 text-white px-4 py-2 rounded-md pl-10"
             value={searchInput}
             onChange={handleSearchInputChange}
             onKeyDown={handleSearchKeyDown}
           />
-          <FiSearch className="absolute left-3 top-3 text-gray-400" />
+          {isLookingUp ? (
+            <FiLoader className="absolute left-3 top-3 text-blue-500 animate-spin" />
+          ) : (
+            <FiSearch className="absolute left-3 top-3 text-gray-400" />
+          )}
         </div>
+        
+        {/* AHJ lookup result */}
+        {searchMode === 'ahj' && lookupError && (
+          <div className="mt-2 text-sm text-red-400">{lookupError}</div>
+        )}
+        {searchMode === 'ahj' && lookupResult && (
+          <div className="mt-3">
+            <AhjLookupCard
+              result={lookupResult}
+              onFilterByAhj={handleFilterByAhj}
+              onAddToPlan={addAhjToPlan}
+              onClose={() => setLookupResult(null)}
+            />
+          </div>
+        )}
       </div>
       
       {/* Active Filters */}
@@ -238,33 +475,8 @@ const ImprovedFilterPanel: React.FC<ImprovedFilterPanelExtendedProps> = ({
             />
           )}
           
-          {/* All Filters */}
-          {filters.filters.map((filter) => {
-            if (filter.type === 'search') return null; // Skip search filters as they're handled above
-            if (filter.type === 'myprojects') {
-              return (
-                <ActiveFilterChip
-                  key={filter.id || `myprojects-${filter.value}`}
-                  label="My Projects"
-                  type="myprojects"
-                  onRemove={() => {
-                    if (toggleShowOnlyMyProjects) {
-                      toggleShowOnlyMyProjects();
-                    }
-                  }}
-                />
-              );
-            }
-            
-            return (
-              <ActiveFilterChip
-                key={filter.id || `${filter.type}-${filter.value}`}
-                label={filter.label || `${filter.type}: ${filter.value}`}
-                type={filter.type}
-                onRemove={() => removeFilter(filter.id || '')}
-              />
-            );
-          })}
+          {/* All Filters: ORed groups joined by AND, then exclusions */}
+          {renderFilterGroups()}
           
           {/* Clear All button */}
           {(filters.filters.length > 0 || searchTerms) && (
@@ -283,6 +495,13 @@ const ImprovedFilterPanel: React.FC<ImprovedFilterPanelExtendedProps> = ({
       
       {/* Filter Sections */}
       <div className="px-4 flex-1 overflow-y-auto">
+        {/* Saved Views Section */}
+        {savedViewState && onApplySavedView && (
+          <CollapsibleFilterSection title="Saved Views">
+            <SavedViewsSection currentState={savedViewState} onApply={onApplySavedView} />
+          </CollapsibleFilterSection>
+        )}
+        
         {/* Utility Section */}
         <CollapsibleFilterSection title="Utility">
           <div className="space-y-2">
@@ -305,6 +524,19 @@ const ImprovedFilterPanel: React.FC<ImprovedFilterPanelExtendedProps> = ({
           </div>
         </CollapsibleFilterSection>
         
+        {/* Location Section */}
+        <CollapsibleFilterSection title="Location">
+          <GeoFilterSection selected={geoSelection} onToggle={handleGeoFilterToggle} />
+        </CollapsibleFilterSection>
+        
+        {/* Contract Signed Section */}
+        <CollapsibleFilterSection title="Contract Signed">
+          <DateRangeFilterSection
+            value={contractDateFilter?.value || null}
+            onChange={handleContractDateChange}
+          />
+        </CollapsibleFilterSection>
+        
         {/* Financier Section */}
         {/* <CollapsibleFilterSection title="Financier">
           <div className="space-y-2">
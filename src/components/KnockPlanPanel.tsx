@@ -0,0 +1,308 @@
+import React, { useMemo, useState } from 'react';
+import { FiEdit2, FiMap, FiNavigation, FiPlus, FiTrash2, FiX } from 'react-icons/fi';
+import { useKnockPlans } from '@/contexts/KnockPlanContext';
+import { useData } from '@/contexts/DataContext';
+import { useAuth } from '@/utils/AuthContext';
+import { KnockPlanItem, getKnockPlanStops } from '@/utils/knockPlans';
+import { GeoPoint, MapArea } from '@/utils/geo';
+import { normalizeEntities } from '@/utils/projectNormalization';
+import { getClassificationBadgeClass, formatClassification } from '@/utils/classificationColors';
+
+/**
+ * Short description of a map area item
+ */
+const describeArea = (area: MapArea | null): string => {
+  if (!area) return 'Map area';
+  return area.type === 'radius'
+    ? `${area.radiusMiles} mi around ${area.center.latitude.toFixed(3)}, ${area.center.longitude.toFixed(3)}`
+    : 'Map viewport';
+};
+
+interface KnockPlanItemRowProps {
+  item: KnockPlanItem;
+  classification?: string;
+  onSaveNotes: (notes: string) => void;
+  onRemove: () => void;
+}
+
+/**
+ * A single plan item with its classification badge and editable notes
+ */
+const KnockPlanItemRow: React.FC<KnockPlanItemRowProps> = ({ item, classification, onSaveNotes, onRemove }) => {
+  const [notes, setNotes] = useState(item.notes || '');
+
+  return (
+    <li className="bg-gray-800 rounded-md p-3">
+      <div className="flex items-center">
+        {item.item_type === 'ahj' ? (
+          <span className={`px-2 py-0.5 rounded text-xs font-medium mr-2 ${getClassificationBadgeClass(classification)}`}>
+            {formatClassification(classification)}
+          </span>
+        ) : (
+          <span className="px-2 py-0.5 rounded text-xs font-medium mr-2 bg-gray-600 text-white flex items-center">
+            <FiMap className="mr-1" /> Area
+          </span>
+        )}
+        <span className="flex-1 truncate text-sm text-white">{item.label}</span>
+        <button
+          onClick={onRemove}
+          className="ml-2 text-gray-400 hover:text-red-400"
+          aria-label={`Remove ${item.label} from plan`}
+        >
+          <FiTrash2 size={14} />
+        </button>
+      </div>
+      {item.item_type === 'area' && (
+        <div className="text-xs text-gray-400 mt-1">{describeArea(item.area)}</div>
+      )}
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        onBlur={() => {
+          if (notes !== (item.notes || '')) onSaveNotes(notes);
+        }}
+        placeholder="Notes..."
+        rows={2}
+        className="mt-2 w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500"
+      />
+    </li>
+  );
+};
+
+/**
+ * Slide-over panel listing the rep's knock plans and the items in the active plan
+ */
+const KnockPlanPanel: React.FC = () => {
+  const { userProfile } = useAuth();
+  const { rawAhjs } = useData();
+  const {
+    plans,
+    activePlan,
+    setActivePlanId,
+    isLoading,
+    error,
+    isPanelOpen,
+    setPanelOpen,
+    createPlan,
+    renamePlan,
+    deletePlan,
+    updateItemNotes,
+    removeItem,
+    route,
+    planRoute,
+    clearRoute
+  } = useKnockPlans();
+
+  const [newPlanName, setNewPlanName] = useState('');
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [renameValue, setRenameValue] = useState('');
+
+  // AHJ classifications for the item badges, and pin locations for routing
+  const { ahjClassifications, ahjLocations } = useMemo(() => {
+    const ahjs = normalizeEntities(rawAhjs, 'ahj');
+    const locations = new Map<string, GeoPoint>();
+    ahjs.forEach(ahj => {
+      if (ahj.coordStatus === 'valid') {
+        locations.set(ahj.id, { latitude: ahj.latitude!, longitude: ahj.longitude! });
+      }
+    });
+    
+    return {
+      ahjClassifications: new Map(ahjs.map(ahj => [ahj.id, ahj.classification])),
+      ahjLocations: locations
+    };
+  }, [rawAhjs]);
+  
+  // Plan items that can be placed on a route
+  const planStops = useMemo(() => {
+    return activePlan ? getKnockPlanStops(activePlan, ahjLocations) : [];
+  }, [activePlan, ahjLocations]);
+
+  if (!isPanelOpen) return null;
+
+  const handleCreatePlan = async () => {
+    await createPlan(newPlanName);
+    setNewPlanName('');
+  };
+
+  const handleRename = async () => {
+    if (activePlan) {
+      await renamePlan(activePlan.id, renameValue);
+    }
+    setIsRenaming(false);
+  };
+
+  const handleDelete = async () => {
+    if (activePlan && window.confirm(`Delete the knock plan "${activePlan.name}"?`)) {
+      await deletePlan(activePlan.id);
+    }
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-40 w-[360px] max-w-full flex flex-col bg-gray-900 border-l border-gray-700 text-white shadow-xl">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-700 flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Knock Plans</h2>
+        <button
+          onClick={() => setPanelOpen(false)}
+          className="text-gray-400 hover:text-white"
+          aria-label="Close knock plans"
+        >
+          <FiX size={20} />
+        </button>
+      </div>
+
+      {!userProfile?.rep_id ? (
+        <div className="p-4 text-sm text-gray-400">
+          Knock plans are available to users with a rep ID.
+        </div>
+      ) : (
+        <>
+          {/* Plan selection and management */}
+          <div className="p-4 border-b border-gray-700 space-y-3">
+            {plans.length > 0 && (
+              <div className="flex items-center gap-2">
+                {isRenaming ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={handleRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename();
+                      if (e.key === 'Escape') setIsRenaming(false);
+                    }}
+                    className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500"
+                  />
+                ) : (
+                  <select
+                    value={activePlan?.id || ''}
+                    onChange={(e) => setActivePlanId(e.target.value)}
+                    className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500"
+                  >
+                    {plans.map(plan => (
+                      <option key={plan.id} value={plan.id}>
+                        {plan.name} ({plan.items.length})
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={() => {
+                    setRenameValue(activePlan?.name || '');
+                    setIsRenaming(true);
+                  }}
+                  className="text-gray-400 hover:text-white"
+                  aria-label="Rename plan"
+                >
+                  <FiEdit2 size={16} />
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="text-gray-400 hover:text-red-400"
+                  aria-label="Delete plan"
+                >
+                  <FiTrash2 size={16} />
+                </button>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <input
+                value={newPlanName}
+                onChange={(e) => setNewPlanName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleCreatePlan();
+                }}
+                placeholder="New plan name"
+                className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500"
+              />
+              <button
+                onClick={handleCreatePlan}
+                className="flex items-center px-3 py-1 bg-blue-500 text-white rounded-md text-sm hover:bg-blue-600"
+              >
+                <FiPlus className="mr-1" /> New
+              </button>
+            </div>
+
+            {error && <div className="text-sm text-red-400">{error}</div>}
+          </div>
+
+          {/* Items in the active plan */}
+          <div className="flex-1 overflow-y-auto p-4">
+            {isLoading ? (
+              <div className="text-sm text-gray-400">Loading knock plans...</div>
+            ) : !activePlan ? (
+              <div className="text-sm text-gray-400">
+                Create a plan, or add an AHJ from the list or map to start one.
+              </div>
+            ) : activePlan.items.length === 0 ? (
+              <div className="text-sm text-gray-400">
+                This plan is empty. Add AHJs from the entity list or map areas from the map.
+              </div>
+            ) : (
+              <>
+              {/* Route through the plan's stops */}
+              <div className="mb-4">
+                <button
+                  onClick={() => planRoute(planStops)}
+                  disabled={planStops.length === 0}
+                  className="flex items-center justify-center w-full px-3 py-1.5 bg-blue-500 text-white rounded-md text-sm hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <FiNavigation className="mr-2" /> Optimize route
+                </button>
+                {planStops.length < activePlan.items.length && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    {activePlan.items.length - planStops.length} item(s) have no location and are left off the route.
+                  </div>
+                )}
+                
+                {route && (
+                  <div className="mt-3 bg-gray-800 rounded-md p-3">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium">
+                        {route.stops.length} stops · {route.totalMiles.toFixed(1)} mi
+                      </span>
+                      <button onClick={clearRoute} className="text-xs text-blue-400 hover:text-blue-300">
+                        Clear route
+                      </button>
+                    </div>
+                    {!route.start && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        Your location is unavailable, so the route starts at the first stop.
+                      </div>
+                    )}
+                    <ol className="mt-2 space-y-1 text-xs text-gray-300">
+                      {route.stops.map((stop, index) => (
+                        <li key={stop.id} className="flex">
+                          <span className="w-5 text-gray-500">{index + 1}.</span>
+                          <span className="flex-1 truncate">{stop.label}</span>
+                          <span className="ml-2 text-gray-500">{route.legMiles[index].toFixed(1)} mi</span>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+              </div>
+              
+              <ul className="space-y-2">
+                {activePlan.items.map(item => (
+                  <KnockPlanItemRow
+                    key={item.id}
+                    item={item}
+                    classification={item.ahj_item_id ? ahjClassifications.get(item.ahj_item_id) : undefined}
+                    onSaveNotes={(notes) => updateItemNotes(item.id, notes)}
+                    onRemove={() => removeItem(item.id)}
+                  />
+                ))}
+              </ul>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default KnockPlanPanel;
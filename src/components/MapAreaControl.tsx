@@ -0,0 +1,70 @@
+import React from 'react';
+import { FiCrosshair, FiLoader, FiNavigation } from 'react-icons/fi';
+import { RADIUS_OPTIONS_MILES } from '@/utils/geo';
+
+/**
+ * Which projects the map loads:
+ * - 'all': every project
+ * - 'viewport': only projects inside the visible map area
+ * - number: only projects within that many miles of the user's location
+ */
+export type MapAreaMode = 'all' | 'viewport' | number;
+
+interface MapAreaControlProps {
+  mode: MapAreaMode;
+  onChange: (mode: MapAreaMode) => void;
+  isLoading?: boolean;
+  // Plans a knocking route through the area's projects (shown when an area is selected)
+  onRouteArea?: () => void;
+}
+
+/**
+ * Map overlay for choosing the area the map loads projects for
+ * Provides the adjustable radius around the user's location
+ */
+const MapAreaControl: React.FC<MapAreaControlProps> = ({
+  mode,
+  onChange,
+  isLoading = false,
+  onRouteArea
+}) => {
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+    onChange(value === 'all' || value === 'viewport' ? value : Number(value));
+  };
+
+  return (
+    <div className="absolute top-3 left-3 z-10 flex items-center bg-gray-900 bg-opacity-90 border border-gray-700 rounded-md px-3 py-2 text-sm text-white shadow-lg">
+      {isLoading ? (
+        <FiLoader className="mr-2 text-blue-500 animate-spin" />
+      ) : (
+        <FiCrosshair className="mr-2 text-gray-400" />
+      )}
+      <label htmlFor="map-area-mode" className="mr-2 text-gray-400">Show</label>
+      <select
+        id="map-area-mode"
+        value={String(mode)}
+        onChange={handleChange}
+        className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white focus:outline-none focus:border-blue-500"
+      >
+        <option value="all">All projects</option>
+        <option value="viewport">Visible map area</option>
+        {RADIUS_OPTIONS_MILES.map(miles => (
+          <option key={miles} value={miles}>Within {miles} miles</option>
+        ))}
+      </select>
+      {onRouteArea && (
+        <button
+          onClick={onRouteArea}
+          disabled={isLoading}
+          className="ml-2 flex items-center px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          title="Plan an optimized knocking route through the projects in this area"
+        >
+          <FiNavigation className="mr-1" /> Route
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MapAreaControl;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { FiDroplet } from 'react-icons/fi';
+import { COLOR_BY_OPTIONS, ColorByMode, getColorLegend } from '@/utils/projectColorModes';
+
+interface MapColorControlProps {
+  mode: ColorByMode;
+  onChange: (mode: ColorByMode) => void;
+  // Number of projects on the map per legend key
+  counts?: Record<string, number>;
+}
+
+/**
+ * Map overlay for choosing what project pins are colored by,
+ * with a legend for the selected mode
+ */
+const MapColorControl: React.FC<MapColorControlProps> = ({
+  mode,
+  onChange,
+  counts = {}
+}) => {
+  const legend = getColorLegend(mode);
+
+  return (
+    <div className="absolute bottom-8 left-3 z-10 bg-gray-900 bg-opacity-90 border border-gray-700 rounded-md px-3 py-2 text-sm text-white shadow-lg">
+      <div className="flex items-center">
+        <FiDroplet className="mr-2 text-gray-400" />
+        <label htmlFor="map-color-by" className="mr-2 text-gray-400">Color by</label>
+        <select
+          id="map-color-by"
+          value={mode}
+          onChange={(e) => onChange(e.target.value as ColorByMode)}
+          className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white focus:outline-none focus:border-blue-500"
+        >
+          {COLOR_BY_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <ul className="mt-2 space-y-1">
+        {legend.map(item => (
+          <li key={item.key} className="flex items-center text-xs text-gray-300">
+            <span
+              className="inline-block w-3 h-3 rounded-full mr-2 border border-white"
+              style={{ backgroundColor: item.color }}
+            />
+            <span className="flex-1">{item.label}</span>
+            <span className="ml-3 text-gray-400">{counts[item.key] || 0}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default MapColorControl;
@@ -5,7 +5,7 @@
  * Provides interactive features like filtering, selection, and detailed views.
  */
 
-import React, { useRef, useState, useEffect, useCallback } from 'react';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import 'mapbox-gl/dist/mapbox-gl.css';
 
 // Import mapboxgl dynamically to prevent SSR issues
@@ -16,8 +16,27 @@ if (typeof window !== 'undefined') {
 // Utility imports
 import { Project, ProjectFilter } from '@/utils/types';
 import { useAuth } from '@/utils/AuthContext';
+import { circleRing } from '@/utils/geo';
+import { buildAhjBoundaryFeatures, loadAhjBoundaries } from '@/utils/ahjBoundaries';
+import { normalizeEntities } from '@/utils/projectNormalization';
+import { MapCamera } from '@/utils/urlState';
+import MapAreaControl, { MapAreaMode } from './MapAreaControl';
+import MapColorControl from './MapColorControl';
+import AhjLookupCard from './AhjLookupCard';
+import { AhjLookupResult, lookupAhj } from '@/utils/ahjLookupApi';
+import { useKnockPlans } from '@/contexts/KnockPlanContext';
+import { MAX_ROUTE_STOPS, RouteStop, routeToCoordinates } from '@/utils/routeOptimizer';
+import {
+  ColorByMode,
+  DEFAULT_COLOR_BY_MODE,
+  getProjectColor,
+  getProjectColorKey,
+  isClassificationMode,
+  parseColorByMode
+} from '@/utils/projectColorModes';
+import { canViewProjectDetails, getRestrictedLocationLabel, RESTRICTED_TOOLTIP } from '@/utils/projectMasking';
 import { useData } from '@/contexts/DataContext';
-import { getClassificationMapColor, getClassificationBadgeClass } from '@/utils/classificationColors';
+import { getClassificationMapColor, formatClassification } from '@/utils/classificationColors';
 import { getMapboxToken } from '@/utils/mapbox';
 import { mapQualificationStatus, isQualified } from '@/utils/qualificationStatus';
 
@@ -26,12 +45,37 @@ import ImprovedFilterPanel from './ImprovedFilterPanel';
 import ToggleOption from './ToggleOption';
 import EmptyState from './EmptyState';
 
+// Clustered project source and layers
+const PROJECT_SOURCE_ID = 'projects';
+const PROJECT_CLUSTER_LAYER_ID = 'project-clusters';
+const PROJECT_CLUSTER_COUNT_LAYER_ID = 'project-cluster-count';
+const PROJECT_POINT_LAYER_ID = 'project-points';
+const PROJECT_SELECTED_LAYER_ID = 'project-selected';
+
+// AHJ jurisdiction boundary source and layers
+const AHJ_BOUNDARY_SOURCE_ID = 'ahj-boundaries';
+const AHJ_BOUNDARY_FILL_LAYER_ID = 'ahj-boundary-fill';
+const AHJ_BOUNDARY_LINE_LAYER_ID = 'ahj-boundary-line';
+const AHJ_BOUNDARY_SELECTED_LAYER_ID = 'ahj-boundary-selected';
+
+// Optimized knocking route source and layers
+const ROUTE_SOURCE_ID = 'knock-route';
+const ROUTE_STOPS_SOURCE_ID = 'knock-route-stops';
+const ROUTE_LINE_LAYER_ID = 'knock-route-line';
+const ROUTE_STOP_LAYER_ID = 'knock-route-stop';
+const ROUTE_STOP_LABEL_LAYER_ID = 'knock-route-stop-label';
+
+// Radius of the area added to a knock plan from a dropped pin
+const KNOCK_AREA_RADIUS_MILES = 1;
+
 /**
  * Component Interface
  */
 interface MapViewProps {
   selectedProject: Project | null;
   onSelectProject?: (project: Project | null) => void;
+  initialCamera?: MapCamera; // Camera restored from a shared link
+  onCameraChange?: (camera: MapCamera) => void; // Called when the map stops moving
 }
 
 /**
@@ -40,6 +84,8 @@ interface MapViewProps {
 const MapView: React.FC<MapViewProps> = ({
   selectedProject,
   onSelectProject,
+  initialCamera,
+  onCameraChange,
 }) => {
   //==========================================================================
   // DATA AND CONTEXT HOOKS
@@ -50,6 +96,7 @@ const MapView: React.FC<MapViewProps> = ({
     projects, 
     ahjs, 
     utilities,
+    rawAhjs,
     filters,
     isLoading,
     error,
@@ -60,11 +107,18 @@ const MapView: React.FC<MapViewProps> = ({
     toggleShowOnlyMyProjects,
     show45DayQualified,
     set45DayFilter,
-    userLocation // Add userLocation from DataContext
+    userLocation, // Add userLocation from DataContext
+    mapArea,
+    isMapAreaLoading,
+    loadMapArea
   } = useData();
   
   // Auth context for user information
-  const { userProfile, isAdmin } = useAuth();
+  const { user, userProfile, isAdmin } = useAuth();
+  
+  // Knock plans: AHJs and areas can be added from the dropped-pin lookup,
+  // and the optimized route is drawn on the map
+  const { addAhjToPlan, addAreaToPlan, route, planRoute } = useKnockPlans();
   
   //==========================================================================
   // REFS
@@ -73,18 +127,25 @@ const MapView: React.FC<MapViewProps> = ({
   // Map and marker refs
   const mapContainer = useRef<HTMLDivElement>(null);
   const mapRef = useRef<mapboxgl.Map | null>(null);
-  const projectMarkersRef = useRef<mapboxgl.Marker[]>([]);
+  // Projects shown in the clustered layer, keyed by id (feature properties are plain JSON)
+  const projectsByIdRef = useRef<Map<string, Project>>(new Map());
   const ahjMarkersRef = useRef<mapboxgl.Marker[]>([]);
   const utilityMarkersRef = useRef<mapboxgl.Marker[]>([]);
+  // Pin dropped with a right-click to look up its AHJ
+  const droppedPinMarkerRef = useRef<mapboxgl.Marker | null>(null);
+  // A restored camera wins over the automatic focus until the filters change
+  const keepRestoredCameraRef = useRef(Boolean(initialCamera));
+  const restoredCameraFiltersRef = useRef<ProjectFilter[] | null>(null);
+  const onCameraChangeRef = useRef(onCameraChange);
   // Removed cardListRef as we no longer need project cards
   //==========================================================================
   // STATE
   //==========================================================================
   
   // Map position state
-  const [lng, setLng] = useState(-111.8910); // Default to Utah
-  const [lat, setLat] = useState(40.7608);
-  const [zoom, setZoom] = useState(9);
+  const [lng, setLng] = useState(initialCamera?.longitude ?? -111.8910); // Default to Utah
+  const [lat, setLat] = useState(initialCamera?.latitude ?? 40.7608);
+  const [zoom, setZoom] = useState(initialCamera?.zoom ?? 9);
   const [mapLoaded, setMapLoaded] = useState(false);
   
   // Project selection and display state
@@ -94,6 +155,20 @@ const MapView: React.FC<MapViewProps> = ({
   // Map interaction state
   const [mapMoved, setMapMoved] = useState(false);
   
+  // Area the map loads projects for (all, visible viewport or a radius)
+  const [areaMode, setAreaMode] = useState<MapAreaMode>('all');
+  
+  // What project pins are colored by, remembered per user
+  const [colorBy, setColorBy] = useState<ColorByMode>(DEFAULT_COLOR_BY_MODE);
+  const colorByStorageKey = `aveyo_map_color_by_${user?.id || 'anonymous'}`;
+  
+  // AHJ city boundary polygons (null until loaded, or when the file is missing)
+  const [ahjBoundaries, setAhjBoundaries] = useState<GeoJSON.FeatureCollection | null>(null);
+  
+  // AHJ lookup for the dropped pin
+  const [pinLookup, setPinLookup] = useState<AhjLookupResult | null>(null);
+  const [isPinLookupLoading, setIsPinLookupLoading] = useState(false);
+  
   // Map movement control flags
   const [allowMapMovement, setAllowMapMovement] = useState<{
     initial: boolean; // Allow initial map setup movement
@@ -120,6 +195,26 @@ const MapView: React.FC<MapViewProps> = ({
     }
   }, [onSelectProject]);
   
+  /**
+   * Early-phase projects are masked unless they belong to the current user
+   */
+  const isProjectMasked = useCallback((project: Project) => {
+    return !!project.isMasked ||
+      !canViewProjectDetails(project, { rep_id: userProfile?.rep_id, isAdmin });
+  }, [userProfile?.rep_id, isAdmin]);
+  
+  /**
+   * Changes the color-by mode and saves it for the current user
+   */
+  const handleColorByChange = (mode: ColorByMode) => {
+    setColorBy(mode);
+    try {
+      localStorage.setItem(colorByStorageKey, mode);
+    } catch {
+      // Silent fail for storage operations
+    }
+  };
+  
   /**
    * Converts degrees to radians
    */
@@ -174,6 +269,30 @@ const MapView: React.FC<MapViewProps> = ({
     };
   };
 
+  /**
+   * Restore the user's color-by mode
+   */
+  useEffect(() => {
+    try {
+      setColorBy(parseColorByMode(localStorage.getItem(colorByStorageKey)));
+    } catch {
+      setColorBy(DEFAULT_COLOR_BY_MODE);
+    }
+  }, [colorByStorageKey]);
+  
+  /**
+   * Number of unmasked projects per legend key for the current mode
+   */
+  const colorCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    projects.forEach(project => {
+      if (isProjectMasked(project)) return;
+      const key = getProjectColorKey(project, colorBy);
+      counts[key] = (counts[key] || 0) + 1;
+    });
+    return counts;
+  }, [projects, colorBy, isProjectMasked]);
+
   //==========================================================================
   // MAP INITIALIZATION
   //==========================================================================
@@ -219,6 +338,35 @@ const MapView: React.FC<MapViewProps> = ({
     };
   }, [lng, lat, zoom, projects.length, ahjs.length, utilities.length]);
 
+  /**
+   * Report the camera whenever the map stops moving
+   * Rounded to about a meter so shared links stay short
+   */
+  useEffect(() => {
+    onCameraChangeRef.current = onCameraChange;
+  }, [onCameraChange]);
+  
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return;
+    
+    const map = mapRef.current;
+    
+    const handleMoveEnd = () => {
+      const center = map.getCenter();
+      onCameraChangeRef.current?.({
+        latitude: Number(center.lat.toFixed(5)),
+        longitude: Number(center.lng.toFixed(5)),
+        zoom: Number(map.getZoom().toFixed(2))
+      });
+    };
+    
+    map.on('moveend', handleMoveEnd);
+    
+    return () => {
+      map.off('moveend', handleMoveEnd);
+    };
+  }, [mapLoaded]);
+
   //==========================================================================
   // PROJECT VISIBILITY AND FILTERING
   //==========================================================================
@@ -273,6 +421,15 @@ const MapView: React.FC<MapViewProps> = ({
     const map = mapRef.current;
     const hasFilters = filters.filters.length > 0;
     
+    // Leave a camera restored from the URL alone until the filters change
+    if (keepRestoredCameraRef.current) {
+      if (!restoredCameraFiltersRef.current || restoredCameraFiltersRef.current === filters.filters) {
+        restoredCameraFiltersRef.current = filters.filters;
+        return;
+      }
+      keepRestoredCameraRef.current = false;
+    }
+    
     // Get all visible markers (projects, AHJs, utilities)
     const getVisibleMarkers = (): Array<{lng: number, lat: number}> => {
       const markers: Array<{lng: number, lat: number}> = [];
@@ -325,7 +482,8 @@ const MapView: React.FC<MapViewProps> = ({
     };
     
     // If we have filters, fit the map to the visible markers
-    if (hasFilters) {
+    // (not while loading by viewport, where fitting would trigger another load)
+    if (hasFilters && mapArea?.type !== 'bbox') {
       const visibleMarkers = getVisibleMarkers();
       if (visibleMarkers.length > 0) {
         fitMapToBounds(visibleMarkers);
@@ -343,6 +501,186 @@ const MapView: React.FC<MapViewProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [mapLoaded, filters.filters, userLocation, visibleProjects]);
 
+  /**
+   * Load the projects for the selected map area
+   * - 'viewport': reload the visible bounding box whenever the map stops moving
+   * - radius: load projects within N miles of the user (or the map center)
+   * - 'all': go back to the full project list
+   */
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return;
+    
+    const map = mapRef.current;
+    
+    if (areaMode === 'all') {
+      loadMapArea(null);
+      return;
+    }
+    
+    if (areaMode === 'viewport') {
+      let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+      
+      const loadViewport = () => {
+        const bounds = map.getBounds();
+        if (!bounds) return;
+        
+        loadMapArea({
+          type: 'bbox',
+          bbox: {
+            west: Math.max(bounds.getWest(), -180),
+            south: Math.max(bounds.getSouth(), -90),
+            east: Math.min(bounds.getEast(), 180),
+            north: Math.min(bounds.getNorth(), 90)
+          }
+        });
+      };
+      
+      // Debounce so panning doesn't fire a request per frame
+      const handleMoveEnd = () => {
+        clearTimeout(debounceTimer);
+        debounceTimer = setTimeout(loadViewport, 400);
+      };
+      
+      loadViewport();
+      map.on('moveend', handleMoveEnd);
+      
+      return () => {
+        clearTimeout(debounceTimer);
+        map.off('moveend', handleMoveEnd);
+      };
+    }
+    
+    // Radius around the user's location, falling back to the map center
+    const mapCenter = map.getCenter();
+    const center = userLocation || { latitude: mapCenter.lat, longitude: mapCenter.lng };
+    loadMapArea({ type: 'radius', center, radiusMiles: areaMode });
+    
+    // Zoom out far enough to show the whole radius
+    map.flyTo({
+      center: [center.longitude, center.latitude],
+      zoom: areaMode <= 10 ? 10 : areaMode <= 25 ? 9 : areaMode <= 50 ? 8 : 7,
+      essential: true
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [areaMode, mapLoaded, userLocation]);
+
+  /**
+   * Draw the selected radius on the map
+   */
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return;
+    
+    const map = mapRef.current;
+    const sourceId = 'radius-area';
+    
+    const ring = mapArea?.type === 'radius'
+      ? circleRing(mapArea.center, mapArea.radiusMiles)
+      : [];
+    
+    const data = {
+      type: 'FeatureCollection' as const,
+      features: ring.length > 0 ? [{
+        type: 'Feature' as const,
+        properties: {},
+        geometry: { type: 'Polygon' as const, coordinates: [ring] }
+      }] : []
+    };
+    
+    const source = map.getSource(sourceId) as mapboxgl.GeoJSONSource | undefined;
+    if (source) {
+      source.setData(data);
+      return;
+    }
+    
+    map.addSource(sourceId, { type: 'geojson', data });
+    map.addLayer({
+      id: `${sourceId}-fill`,
+      type: 'fill',
+      source: sourceId,
+      paint: { 'fill-color': '#3b82f6', 'fill-opacity': 0.08 }
+    });
+    map.addLayer({
+      id: `${sourceId}-outline`,
+      type: 'line',
+      source: sourceId,
+      paint: { 'line-color': '#3b82f6', 'line-width': 2, 'line-dasharray': [2, 2] }
+    });
+  }, [mapArea, mapLoaded]);
+
+  /**
+   * Draw the optimized knocking route as a line with numbered stops
+   */
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return;
+    
+    const map = mapRef.current;
+    
+    const lineData: GeoJSON.FeatureCollection = {
+      type: 'FeatureCollection',
+      features: route ? [{
+        type: 'Feature',
+        properties: {},
+        geometry: { type: 'LineString', coordinates: routeToCoordinates(route) }
+      }] : []
+    };
+    
+    const stopData: GeoJSON.FeatureCollection = {
+      type: 'FeatureCollection',
+      features: (route?.stops || []).map((stop, index) => ({
+        type: 'Feature',
+        properties: { order: index + 1, label: stop.label },
+        geometry: { type: 'Point', coordinates: [stop.location.longitude, stop.location.latitude] }
+      }))
+    };
+    
+    const lineSource = map.getSource(ROUTE_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined;
+    const stopSource = map.getSource(ROUTE_STOPS_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined;
+    if (lineSource && stopSource) {
+      lineSource.setData(lineData);
+      stopSource.setData(stopData);
+    } else {
+      map.addSource(ROUTE_SOURCE_ID, { type: 'geojson', data: lineData });
+      map.addSource(ROUTE_STOPS_SOURCE_ID, { type: 'geojson', data: stopData });
+      
+      map.addLayer({
+        id: ROUTE_LINE_LAYER_ID,
+        type: 'line',
+        source: ROUTE_SOURCE_ID,
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: { 'line-color': '#3b82f6', 'line-width': 3, 'line-opacity': 0.85 }
+      });
+      map.addLayer({
+        id: ROUTE_STOP_LAYER_ID,
+        type: 'circle',
+        source: ROUTE_STOPS_SOURCE_ID,
+        paint: {
+          'circle-color': '#1d4ed8',
+          'circle-radius': 9,
+          'circle-stroke-width': 2,
+          'circle-stroke-color': '#ffffff'
+        }
+      });
+      map.addLayer({
+        id: ROUTE_STOP_LABEL_LAYER_ID,
+        type: 'symbol',
+        source: ROUTE_STOPS_SOURCE_ID,
+        layout: {
+          'text-field': ['to-string', ['get', 'order']],
+          'text-size': 11,
+          'text-allow-overlap': true
+        },
+        paint: { 'text-color': '#ffffff' }
+      });
+    }
+    
+    // Fit the whole route in view when a new one is planned
+    if (route) {
+      const bounds = new mapboxgl.LngLatBounds();
+      routeToCoordinates(route).forEach(coordinate => bounds.extend(coordinate));
+      map.fitBounds(bounds, { padding: 60, maxZoom: 14 });
+    }
+  }, [route, mapLoaded]);
+  
   /**
    * Update visible projects once when the map loads
    * No longer updates on map movement to improve performance
@@ -370,6 +708,230 @@ const MapView: React.FC<MapViewProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [mapLoaded, projects]);
   
+  /**
+   * Load the AHJ boundary polygons once
+   */
+  useEffect(() => {
+    let cancelled = false;
+    
+    loadAhjBoundaries().then(boundaries => {
+      if (cancelled) return;
+      if (!boundaries) {
+        console.log('[MapView] No AHJ boundary file found, skipping boundary layer');
+      }
+      setAhjBoundaries(boundaries);
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+  
+  /**
+   * Draw AHJ boundaries filled with their classification color
+   * Uses every AHJ (not just the filtered ones) so boundaries stay visible while filtering
+   */
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded || !ahjBoundaries) return;
+    
+    const map = mapRef.current;
+    const data: GeoJSON.FeatureCollection = {
+      type: 'FeatureCollection',
+      features: buildAhjBoundaryFeatures(ahjBoundaries, normalizeEntities(rawAhjs, 'ahj'))
+    };
+    
+    const source = map.getSource(AHJ_BOUNDARY_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined;
+    if (source) {
+      source.setData(data);
+      return;
+    }
+    
+    map.addSource(AHJ_BOUNDARY_SOURCE_ID, { type: 'geojson', data });
+    
+    // Keep boundaries underneath the project layers
+    const beforeId = map.getLayer(PROJECT_CLUSTER_LAYER_ID) ? PROJECT_CLUSTER_LAYER_ID : undefined;
+    
+    map.addLayer({
+      id: AHJ_BOUNDARY_FILL_LAYER_ID,
+      type: 'fill',
+      source: AHJ_BOUNDARY_SOURCE_ID,
+      paint: { 'fill-color': ['get', 'color'], 'fill-opacity': 0.12 }
+    }, beforeId);
+    map.addLayer({
+      id: AHJ_BOUNDARY_LINE_LAYER_ID,
+      type: 'line',
+      source: AHJ_BOUNDARY_SOURCE_ID,
+      paint: { 'line-color': ['get', 'color'], 'line-width': 1, 'line-opacity': 0.6 }
+    }, beforeId);
+    map.addLayer({
+      id: AHJ_BOUNDARY_SELECTED_LAYER_ID,
+      type: 'line',
+      source: AHJ_BOUNDARY_SOURCE_ID,
+      filter: ['in', ['get', 'ahjId'], ['literal', []]],
+      paint: { 'line-color': '#ffffff', 'line-width': 3 }
+    }, beforeId);
+  }, [mapLoaded, ahjBoundaries, rawAhjs]);
+  
+  /**
+   * Highlight the boundaries of AHJs selected in the filters
+   */
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded || !ahjBoundaries) return;
+    
+    const map = mapRef.current;
+    if (!map.getLayer(AHJ_BOUNDARY_SELECTED_LAYER_ID)) return;
+    
+    const selectedAhjIds = filters.filters
+      .filter(filter => filter.type === 'ahj' && filter.entityId && !filter.negate)
+      .map(filter => String(filter.entityId));
+    
+    map.setFilter(AHJ_BOUNDARY_SELECTED_LAYER_ID, ['in', ['get', 'ahjId'], ['literal', selectedAhjIds]]);
+  }, [mapLoaded, ahjBoundaries, filters.filters]);
+  
+  /**
+   * Clicking inside an AHJ boundary filters by that AHJ
+   */
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded || !ahjBoundaries) return;
+    
+    const map = mapRef.current;
+    
+    const handleBoundaryClick = (e: mapboxgl.MapLayerMouseEvent) => {
+      // Project pins and clusters sit on top of boundaries and handle their own clicks
+      const projectLayers = [PROJECT_CLUSTER_LAYER_ID, PROJECT_POINT_LAYER_ID].filter(id => map.getLayer(id));
+      if (map.queryRenderedFeatures(e.point, { layers: projectLayers }).length > 0) return;
+      
+      const properties = e.features?.[0]?.properties;
+      if (!properties?.ahjId) return;
+      
+      // Already filtered by this AHJ
+      if (filters.filters.some(filter => filter.type === 'ahj' && filter.entityId === properties.ahjId)) {
+        return;
+      }
+      
+      addFilter({
+        type: 'ahj',
+        value: properties.ahjName,
+        entityId: properties.ahjId,
+        filterSource: 'map-selection' as 'manual' | 'entity-selection' | 'search',
+        entityType: 'ahj'
+      });
+    };
+    
+    const handleBoundaryEnter = () => {
+      map.getCanvas().style.cursor = 'pointer';
+    };
+    
+    const handleBoundaryLeave = () => {
+      map.getCanvas().style.cursor = '';
+    };
+    
+    map.on('click', AHJ_BOUNDARY_FILL_LAYER_ID, handleBoundaryClick);
+    map.on('mouseenter', AHJ_BOUNDARY_FILL_LAYER_ID, handleBoundaryEnter);
+    map.on('mouseleave', AHJ_BOUNDARY_FILL_LAYER_ID, handleBoundaryLeave);
+    
+    // Cleanup
+    return () => {
+      map.off('click', AHJ_BOUNDARY_FILL_LAYER_ID, handleBoundaryClick);
+      map.off('mouseenter', AHJ_BOUNDARY_FILL_LAYER_ID, handleBoundaryEnter);
+      map.off('mouseleave', AHJ_BOUNDARY_FILL_LAYER_ID, handleBoundaryLeave);
+    };
+  }, [mapLoaded, ahjBoundaries, addFilter, filters.filters]);
+  
+  /**
+   * Right-clicking the map drops a pin and looks up which AHJ it falls in
+   */
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return;
+    
+    const map = mapRef.current;
+    
+    const handleContextMenu = async (e: mapboxgl.MapMouseEvent) => {
+      const location = { latitude: e.lngLat.lat, longitude: e.lngLat.lng };
+      
+      // Move the dropped pin
+      droppedPinMarkerRef.current?.remove();
+      droppedPinMarkerRef.current = new mapboxgl.Marker({ color: '#3b82f6' })
+        .setLngLat([location.longitude, location.latitude])
+        .addTo(map);
+      
+      setIsPinLookupLoading(true);
+      try {
+        setPinLookup(await lookupAhj({ location }));
+      } catch (error) {
+        console.error('[MapView] AHJ lookup failed:', error);
+        setPinLookup(null);
+      } finally {
+        setIsPinLookupLoading(false);
+      }
+    };
+    
+    map.on('contextmenu', handleContextMenu);
+    
+    // Cleanup
+    return () => {
+      map.off('contextmenu', handleContextMenu);
+    };
+  }, [mapLoaded]);
+  
+  /**
+   * Removes the dropped pin and its lookup result
+   */
+  const clearDroppedPin = () => {
+    droppedPinMarkerRef.current?.remove();
+    droppedPinMarkerRef.current = null;
+    setPinLookup(null);
+  };
+  
+  /**
+   * Adds the area around the dropped pin to the active knock plan
+   */
+  const handleAddPinAreaToPlan = () => {
+    if (!pinLookup) return;
+    
+    const { location } = pinLookup;
+    const label = pinLookup.placeName || pinLookup.ahj?.name ||
+      `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}`;
+    
+    addAreaToPlan({ type: 'radius', center: location, radiusMiles: KNOCK_AREA_RADIUS_MILES }, label);
+  };
+  
+  /**
+   * Plans a knocking route through the projects loaded for the selected map area
+   * Masked projects are left out since their exact location is hidden.
+   */
+  const handleRouteMapArea = () => {
+    const stops: RouteStop[] = [];
+    
+    for (const project of projects) {
+      if (stops.length >= MAX_ROUTE_STOPS) break;
+      if (isProjectMasked(project) || project.latitude == null || project.longitude == null) continue;
+      
+      stops.push({
+        id: project.id,
+        label: project.address || 'Project',
+        location: { latitude: project.latitude, longitude: project.longitude }
+      });
+    }
+    
+    planRoute(stops);
+  };
+  
+  /**
+   * Filters by the AHJ found for the dropped pin
+   */
+  const handleFilterByLookupAhj = (ahj: { id: string; name: string }) => {
+    if (filters.filters.some(filter => filter.type === 'ahj' && filter.entityId === ahj.id)) return;
+    
+    addFilter({
+      type: 'ahj',
+      value: ahj.name,
+      entityId: ahj.id,
+      filterSource: 'map-selection' as 'manual' | 'entity-selection' | 'search',
+      entityType: 'ahj'
+    });
+  };
+  
   /**
    * Create entity markers (AHJs and Utilities) when filters change, map loads, or entity data changes
    */
@@ -413,8 +975,8 @@ const MapView: React.FC<MapViewProps> = ({
       return entity.latitude && entity.longitude;
     });
     
-    // Check if we have any entity filters
-    const entityFilters = filters.filters.filter(f => f.type === 'ahj' || f.type === 'utility');
+    // Check if we have any entity filters (exclusions don't select entities)
+    const entityFilters = filters.filters.filter(f => (f.type === 'ahj' || f.type === 'utility') && !f.negate);
     const hasEntityFilters = entityFilters.length > 0;
     
     // Find selected entities of this type
@@ -556,161 +1118,277 @@ const MapView: React.FC<MapViewProps> = ({
   };
   
   /**
-   * Creates a masked project pin with reduced visibility
-   * Used for projects that should have their exact location partially obscured
+   * Builds the GeoJSON features for the project layer
+   * Masked projects are placed at their coarse approximate location; every other
+   * project needs real coordinates. Pins are colored by the color-by mode.
    */
-  const createMaskedProjectPin = (project: Project, map: mapboxgl.Map) => {
-    const el = document.createElement('div');
-    el.className = 'masked-marker';
-    
-    // Check if project belongs to the current user
-    const isUserProject = project.rep_id === userProfile?.rep_id;
-    
-    // Use blue pin for user's projects, grey for others
-    const pinImage = isUserProject ? '/pin_blue_active.svg' : '/pin_grey.svg';
-    el.style.backgroundImage = `url(${pinImage})`;
-    
-    // Size and styling
-    el.style.width = '18px'; // Slightly smaller than standard projects
-    el.style.height = '18px';
-    el.style.backgroundSize = 'contain';
-    el.style.backgroundRepeat = 'no-repeat';
-    el.style.backgroundPosition = 'center';
+  const buildProjectFeatures = (projectsToShow: Project[]) => {
+    const features: GeoJSON.Feature<GeoJSON.Point>[] = [];
     
-    // Opacity - user's projects are visible, others are completely masked (invisible)
-    el.style.opacity = isUserProject ? '0.9' : '0';
-    el.style.zIndex = isUserProject ? '5' : '1'; // Project pins should be at the bottom layer
-    
-    try {
-      // Get coordinates (randomized for non-user projects)
-      const coordinates = getRandomizedLocation(
-        project.latitude!, 
-        project.longitude!, 
-        isUserProject
-      );
+    projectsToShow.forEach(project => {
+      const isMasked = isProjectMasked(project);
+      const isUserProject = !!userProfile?.rep_id && project.rep_id === userProfile.rep_id;
       
-      const marker = new mapboxgl.Marker(el)
-        .setLngLat(coordinates)
-        .addTo(map);
+      let coordinates: [number, number];
+      if (isMasked) {
+        if (!project.approximateLocation) return;
+        coordinates = [project.approximateLocation.longitude, project.approximateLocation.latitude];
+      } else {
+        // Skip projects without valid coordinates
+        if (!project.latitude || !project.longitude) return;
+        coordinates = getRandomizedLocation(project.latitude, project.longitude, isUserProject);
+      }
       
-      marker.getElement().addEventListener('click', () => {
-        handleProjectSelect(project);
-      });
+      // Clusters break down by the selected classification (AHJ for non-class modes)
+      const classification = isClassificationMode(colorBy)
+        ? getProjectColorKey(project, colorBy)
+        : formatClassification(project.ahj?.classification);
       
-      projectMarkersRef.current.push(marker);
-    } catch (error) {
-      console.error('Error creating masked marker:', error);
-    }
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates },
+        properties: {
+          id: project.id,
+          classification,
+          color: isMasked ? getClassificationMapColor(undefined) : getProjectColor(project, colorBy),
+          masked: isMasked,
+          mine: isUserProject,
+          label: isMasked
+            ? `${getRestrictedLocationLabel(project)} — ${RESTRICTED_TOOLTIP}`
+            : project.address
+        }
+      });
+    });
+    
+    return features;
   };
-  
+
   /**
-   * Creates a standard project pin with full visibility
-   * Used for completed projects or those assigned to the current user
+   * Creates the clustered project source and its layers once the map loads
+   * - Clusters are sized by point count and labelled with an A/B/C breakdown
+   * - Unclustered projects are circles colored by classification
    */
-  const createStandardProjectPin = (project: Project, map: mapboxgl.Map) => {
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return;
     
-    // Create marker element
-    const el = document.createElement('div');
-    el.className = 'marker';
+    const map = mapRef.current;
+    if (map.getSource(PROJECT_SOURCE_ID)) return;
     
-    // Check if project belongs to the current user
-    const isUserProject = project.rep_id === userProfile?.rep_id;
+    // Count projects per classification inside each cluster
+    const countClassification = (classification: string) =>
+      ['+', ['case', ['==', ['get', 'classification'], classification], 1, 0]];
     
-    // Use blue pin for user's projects, grey for others
-    const pinImage = isUserProject ? '/pin_blue_active.svg' : '/pin_grey_active.svg';
-    el.style.backgroundImage = `url(${pinImage})`;
+    map.addSource(PROJECT_SOURCE_ID, {
+      type: 'geojson',
+      data: { type: 'FeatureCollection', features: [] },
+      cluster: true,
+      clusterMaxZoom: 14,
+      clusterRadius: 50,
+      clusterProperties: {
+        classA: countClassification('A'),
+        classB: countClassification('B'),
+        classC: countClassification('C')
+      }
+    });
     
-    // Size and styling
-    el.style.width = '25px';
-    el.style.height = '25px';
-    el.style.backgroundSize = 'contain';
-    el.style.backgroundRepeat = 'no-repeat';
-    el.style.backgroundPosition = 'center';
-    el.style.zIndex = isUserProject ? '5' : '4'; // Project pins should be at the bottom layer
+    map.addLayer({
+      id: PROJECT_CLUSTER_LAYER_ID,
+      type: 'circle',
+      source: PROJECT_SOURCE_ID,
+      filter: ['has', 'point_count'],
+      paint: {
+        'circle-color': '#1f2937',
+        'circle-stroke-color': '#3b82f6',
+        'circle-stroke-width': 2,
+        'circle-opacity': 0.9,
+        'circle-radius': ['step', ['get', 'point_count'], 18, 50, 24, 250, 30, 1000, 36]
+      }
+    });
     
-    // Highlight selected project
-    if (selectedProject && project.id === selectedProject.id) {
-      el.style.width = '36px';
-      el.style.height = '36px';
-      el.style.border = '2px solid white';
-    }
+    map.addLayer({
+      id: PROJECT_CLUSTER_COUNT_LAYER_ID,
+      type: 'symbol',
+      source: PROJECT_SOURCE_ID,
+      filter: ['has', 'point_count'],
+      layout: {
+        'text-field': [
+          'format',
+          ['get', 'point_count_abbreviated'], { 'font-scale': 1 },
+          '\n', {},
+          ['concat',
+            'A', ['to-string', ['get', 'classA']],
+            ' B', ['to-string', ['get', 'classB']],
+            ' C', ['to-string', ['get', 'classC']]
+          ], { 'font-scale': 0.7 }
+        ],
+        'text-font': ['DIN Offc Pro Medium', 'Arial Unicode MS Bold'],
+        'text-size': 12,
+        'text-allow-overlap': true
+      },
+      paint: {
+        'text-color': '#ffffff'
+      }
+    });
     
-    try {
-      // Get coordinates (randomized for non-user projects)
-      const coordinates = getRandomizedLocation(
-        project.latitude!, 
-        project.longitude!, 
-        isUserProject
-      );
-      
-      const marker = new mapboxgl.Marker(el)
-        .setLngLat(coordinates)
-        .addTo(map);
-      
-      marker.getElement().addEventListener('click', () => {
-        handleProjectSelect(project);
-      });
-      
-      projectMarkersRef.current.push(marker);
-    } catch (error) {
-      console.error('Error creating standard marker:', error);
-    }
-  };
+    map.addLayer({
+      id: PROJECT_POINT_LAYER_ID,
+      type: 'circle',
+      source: PROJECT_SOURCE_ID,
+      filter: ['!', ['has', 'point_count']],
+      paint: {
+        'circle-color': ['get', 'color'],
+        'circle-radius': ['case', ['get', 'masked'], 5, 7],
+        'circle-opacity': ['case', ['get', 'masked'], 0.5, 0.9],
+        // The current user's projects get a white outline
+        'circle-stroke-color': '#ffffff',
+        'circle-stroke-width': ['case', ['get', 'mine'], 2, 0.5]
+      }
+    });
+    
+    // Ring drawn around the selected project
+    map.addLayer({
+      id: PROJECT_SELECTED_LAYER_ID,
+      type: 'circle',
+      source: PROJECT_SOURCE_ID,
+      filter: ['==', ['get', 'id'], ''],
+      paint: {
+        'circle-color': 'transparent',
+        'circle-radius': 12,
+        'circle-stroke-color': '#ffffff',
+        'circle-stroke-width': 3
+      }
+    });
+  }, [mapLoaded]);
 
   /**
-   * Updates all map markers when projects data changes
-   * Recreates markers when filters are applied
+   * Updates the project source when projects data changes
    */
   useEffect(() => {
     // Skip if map is not loaded yet
     if (!mapRef.current || !mapLoaded) return;
     
-    // Skip if we don't have any data yet (waiting for server data)
-    if (projects.length === 0 && ahjs.length === 0 && utilities.length === 0) {
-      return;
-    }
+    const source = mapRef.current.getSource(PROJECT_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined;
+    if (!source) return;
+    
+    // Keep a lookup so clicked features can be resolved back to projects
+    projectsByIdRef.current = new Map(projects.map(project => [project.id, project]));
+    
+    source.setData({
+      type: 'FeatureCollection',
+      features: buildProjectFeatures(projects)
+    });
+    
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mapLoaded, projects, colorBy]);
+
+  /**
+   * Highlights the selected project
+   */
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return;
     
-    // Get the map reference
     const map = mapRef.current;
-    if (!map) return;
+    if (!map.getLayer(PROJECT_SELECTED_LAYER_ID)) return;
     
-    // Use all projects instead of just visible ones
-    const projectsToShow = projects;
+    map.setFilter(PROJECT_SELECTED_LAYER_ID, [
+      'all',
+      ['!', ['has', 'point_count']],
+      ['==', ['get', 'id'], localSelectedProject?.id || '']
+    ]);
+  }, [mapLoaded, localSelectedProject]);
+
+  /**
+   * Project layer interactions
+   * - Clicking a cluster zooms in until it breaks apart
+   * - Clicking a project selects it
+   * - Hovering a project shows its address (or restricted label) in a popup
+   */
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return;
     
-    // Clear existing project markers
-    projectMarkersRef.current.forEach(marker => marker.remove());
-    projectMarkersRef.current = [];
+    const map = mapRef.current;
     
-    // Add new markers for each project
-    projectsToShow.forEach(project => {
-      // Skip projects without valid coordinates
-      if (!project.latitude || !project.longitude) {
-        return;
+    const hoverPopup = new mapboxgl.Popup({
+      closeButton: false,
+      closeOnClick: false,
+      offset: 10,
+      className: 'map-popup-highest-z'
+    });
+    
+    const handleClusterClick = (e: mapboxgl.MapLayerMouseEvent) => {
+      const feature = e.features?.[0];
+      if (!feature?.properties) return;
+      
+      const source = map.getSource(PROJECT_SOURCE_ID) as mapboxgl.GeoJSONSource;
+      source.getClusterExpansionZoom(feature.properties.cluster_id, (err?: Error | null, expansionZoom?: number | null) => {
+        if (err || expansionZoom == null) return;
+        
+        map.easeTo({
+          center: (feature.geometry as GeoJSON.Point).coordinates as [number, number],
+          zoom: expansionZoom
+        });
+      });
+    };
+    
+    const handlePointClick = (e: mapboxgl.MapLayerMouseEvent) => {
+      const feature = e.features?.[0];
+      const project = feature?.properties && projectsByIdRef.current.get(feature.properties.id);
+      if (project) {
+        handleProjectSelect(project);
       }
+    };
+    
+    const handlePointEnter = (e: mapboxgl.MapLayerMouseEvent) => {
+      map.getCanvas().style.cursor = 'pointer';
       
-      // Determine if this project should be masked based on completion status and ownership
-      const isComplete = project.status && 
-        (project.status.toLowerCase() === 'complete' || 
-         project.status.toLowerCase() === 'completed' ||
-         project.status.toLowerCase().includes('complete'));
+      const feature = e.features?.[0];
+      if (!feature?.properties) return;
       
-      const isAssignedToCurrentUser = project.rep_id === userProfile?.rep_id;
-      const shouldMask = !(isComplete || isAssignedToCurrentUser);
+      const label = document.createElement('div');
+      label.className = 'font-medium text-white';
+      label.textContent = feature.properties.label;
       
-      if (shouldMask) {
-        // Only create masked pins for user's projects, skip others entirely
-        if (isAssignedToCurrentUser) {
-          createMaskedProjectPin(project, map);
-        }
-        // Non-user masked projects are not displayed at all
-      } else {
-        // Create standard project pin
-        createStandardProjectPin(project, map);
-      }
-    });
+      const content = document.createElement('div');
+      content.className = 'p-2 bg-gray-800 rounded shadow-lg';
+      content.appendChild(label);
+      
+      hoverPopup
+        .setLngLat((feature.geometry as GeoJSON.Point).coordinates as [number, number])
+        .setDOMContent(content)
+        .addTo(map);
+    };
     
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [mapLoaded, projects]);
+    const handlePointLeave = () => {
+      map.getCanvas().style.cursor = '';
+      hoverPopup.remove();
+    };
+    
+    const handleClusterEnter = () => {
+      map.getCanvas().style.cursor = 'pointer';
+    };
+    
+    const handleClusterLeave = () => {
+      map.getCanvas().style.cursor = '';
+    };
+    
+    map.on('click', PROJECT_CLUSTER_LAYER_ID, handleClusterClick);
+    map.on('click', PROJECT_POINT_LAYER_ID, handlePointClick);
+    map.on('mouseenter', PROJECT_POINT_LAYER_ID, handlePointEnter);
+    map.on('mouseleave', PROJECT_POINT_LAYER_ID, handlePointLeave);
+    map.on('mouseenter', PROJECT_CLUSTER_LAYER_ID, handleClusterEnter);
+    map.on('mouseleave', PROJECT_CLUSTER_LAYER_ID, handleClusterLeave);
+    
+    // Cleanup
+    return () => {
+      map.off('click', PROJECT_CLUSTER_LAYER_ID, handleClusterClick);
+      map.off('click', PROJECT_POINT_LAYER_ID, handlePointClick);
+      map.off('mouseenter', PROJECT_POINT_LAYER_ID, handlePointEnter);
+      map.off('mouseleave', PROJECT_POINT_LAYER_ID, handlePointLeave);
+      map.off('mouseenter', PROJECT_CLUSTER_LAYER_ID, handleClusterEnter);
+      map.off('mouseleave', PROJECT_CLUSTER_LAYER_ID, handleClusterLeave);
+      hoverPopup.remove();
+    };
+  }, [mapLoaded, handleProjectSelect]);
 
   //==========================================================================
   // PROJECT SELECTION AND INTERACTION
@@ -822,6 +1500,34 @@ const MapView: React.FC<MapViewProps> = ({
       {/* Map container */}
       <div className="flex-1 relative">
         <div ref={mapContainer} className="absolute inset-0" />
+        <MapAreaControl
+          mode={areaMode}
+          onChange={setAreaMode}
+          isLoading={isMapAreaLoading}
+          onRouteArea={mapArea ? handleRouteMapArea : undefined}
+        />
+        <MapColorControl
+          mode={colorBy}
+          onChange={handleColorByChange}
+          counts={colorCounts}
+        />
+        {(pinLookup || isPinLookupLoading) && (
+          <div className="absolute bottom-8 right-3 z-10 w-72">
+            {pinLookup && !isPinLookupLoading ? (
+              <AhjLookupCard
+                result={pinLookup}
+                onFilterByAhj={handleFilterByLookupAhj}
+                onAddToPlan={addAhjToPlan}
+                onAddAreaToPlan={handleAddPinAreaToPlan}
+                onClose={clearDroppedPin}
+              />
+            ) : (
+              <div className="bg-gray-800 border border-gray-700 rounded-md p-3 text-sm text-gray-300 shadow-lg">
+                Looking up AHJ...
+              </div>
+            )}
+          </div>
+        )}
         {/* Project cards carousel removed */}
       </div>
     </div>
@@ -0,0 +1,170 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { FiBell } from 'react-icons/fi';
+import { useAuth } from '@/utils/AuthContext';
+import { useData } from '@/contexts/DataContext';
+import {
+  ClassificationNotification,
+  fetchNotifications,
+  markNotificationsRead
+} from '@/utils/notificationsApi';
+import { getClassificationBadgeClass, formatClassification } from '@/utils/classificationColors';
+
+/**
+ * Bell with an unread count that lists classification changes in the rep's
+ * AHJs and utilities. Selecting a notification filters the projects by that entity.
+ */
+const NotificationCenter: React.FC = () => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { userProfile } = useAuth();
+  const { rawAhjs, rawUtilities, filters, addFilter } = useData();
+
+  const [notifications, setNotifications] = useState<ClassificationNotification[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const repId = userProfile?.rep_id || null;
+  const unreadCount = notifications.filter(notification => !notification.read_at).length;
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      setNotifications(await fetchNotifications());
+    } catch (err) {
+      console.error('[Notifications] Failed to load notifications:', err);
+    }
+  }, []);
+
+  // Check again whenever entity data is refreshed, since that's when classifications change
+  useEffect(() => {
+    if (repId) loadNotifications();
+  }, [repId, rawAhjs, rawUtilities, loadNotifications]);
+
+  // Close the dropdown when clicking outside it
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const markRead = async (ids?: string[]) => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(notification =>
+      !notification.read_at && (!ids || ids.includes(notification.id))
+        ? { ...notification, read_at: readAt }
+        : notification
+    ));
+
+    try {
+      await markNotificationsRead(ids);
+    } catch (err) {
+      console.error('[Notifications] Failed to mark notifications read:', err);
+    }
+  };
+
+  // Filter the projects by the changed entity and go to the project browser
+  const handleSelect = (notification: ClassificationNotification) => {
+    if (!notification.read_at) markRead([notification.id]);
+    setIsOpen(false);
+
+    const alreadyFiltered = filters.filters.some(filter =>
+      filter.type === notification.entity_type && filter.entityId === notification.entity_id
+    );
+    if (!alreadyFiltered) {
+      const label = notification.entity_type === 'ahj' ? 'AHJ' : 'Utility';
+      const name = notification.entity_name || notification.entity_id;
+      addFilter({
+        type: notification.entity_type,
+        value: name,
+        label: `${label}: ${name}`,
+        filterSource: 'entity-selection',
+        entityId: notification.entity_id,
+        entityType: notification.entity_type
+      });
+    }
+
+    if (pathname !== '/') router.push('/');
+  };
+
+  if (!repId) return null;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-md text-white hover:bg-[#1e1e1e]"
+        aria-label={`Notifications${unreadCount > 0 ? ` (${unreadCount} unread)` : ''}`}
+      >
+        <FiBell size={20} />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 z-50 bg-gray-900 border border-gray-700 rounded-md shadow-xl text-white">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+            <span className="font-semibold">Classification changes</span>
+            {unreadCount > 0 && (
+              <button onClick={() => markRead()} className="text-xs text-blue-400 hover:text-blue-300">
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <div className="px-4 py-6 text-sm text-gray-400 text-center">
+              No classification changes in your AHJs or utilities.
+            </div>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto">
+              {notifications.map(notification => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleSelect(notification)}
+                    className={`w-full text-left px-4 py-3 border-b border-gray-800 hover:bg-gray-800 ${
+                      notification.read_at ? 'opacity-60' : ''
+                    }`}
+                  >
+                    <div className="flex items-center text-sm">
+                      {!notification.read_at && <span className="w-2 h-2 rounded-full bg-blue-500 mr-2 flex-shrink-0" />}
+                      <span className="truncate font-medium">
+                        {notification.entity_name || notification.entity_id}
+                      </span>
+                      <span className="ml-auto pl-2 text-xs text-gray-400 uppercase">
+                        {notification.entity_type === 'ahj' ? 'AHJ' : 'Utility'}
+                      </span>
+                    </div>
+                    <div className="flex items-center mt-1 text-xs">
+                      <span className={`px-1.5 rounded ${getClassificationBadgeClass(notification.previous_classification || undefined)}`}>
+                        {formatClassification(notification.previous_classification || undefined)}
+                      </span>
+                      <span className="mx-1 text-gray-500">→</span>
+                      <span className={`px-1.5 rounded ${getClassificationBadgeClass(notification.new_classification)}`}>
+                        {formatClassification(notification.new_classification)}
+                      </span>
+                      <span className="ml-auto text-gray-500">
+                        {new Date(notification.created_at).toLocaleDateString()}
+                      </span>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationCenter;
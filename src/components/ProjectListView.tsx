@@ -1,12 +1,63 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { FiMapPin } from 'react-icons/fi';
+import { FiDownload, FiMapPin } from 'react-icons/fi';
 import { Project } from '@/utils/types';
 import { useData } from '@/contexts/DataContext';
 import { useAuth } from '@/utils/AuthContext';
 import { getClassificationBadgeClass, formatClassification } from '@/utils/classificationColors';
 import { isQualified } from '@/utils/qualificationStatus';
+import { toDateOnly } from '@/utils/milestoneTiming';
+import { getRestrictedLocationLabel, RESTRICTED_TOOLTIP } from '@/utils/projectMasking';
+import { exportProjects, ProjectExportFormat } from '@/utils/projectExport';
 import EmptyState from './EmptyState';
 
+/**
+ * Compare two projects for the list's sort order
+ * Unmasked projects come first, then projects are ordered by the sort field.
+ */
+const compareProjects = (a: Project, b: Project, field: string, direction: 'asc' | 'desc'): number => {
+  // First, prioritize unmasked projects over masked ones
+  const aIsMasked = !!a.isMasked;
+  const bIsMasked = !!b.isMasked;
+  
+  if (!aIsMasked && bIsMasked) return -1;
+  if (aIsMasked && !bIsMasked) return 1;
+  
+  // Then sort by the selected field
+  let aValue: any = a[field as keyof Project];
+  let bValue: any = b[field as keyof Project];
+  
+  // Handle special cases
+  if (field === 'ahj') {
+    aValue = a.ahj?.name || '';
+    bValue = b.ahj?.name || '';
+  } else if (field === 'utility') {
+    aValue = a.utility?.name || '';
+    bValue = b.utility?.name || '';
+  } else if (field === 'financier') {
+    aValue = a.financier?.name || '';
+    bValue = b.financier?.name || '';
+  } else if (field === '45day') {
+    aValue = isQualified(a) ? 1 : 0;
+    bValue = isQualified(b) ? 1 : 0;
+  } else if (field === 'contract_signed_date') {
+    aValue = toDateOnly(a.contract_signed_date) || '';
+    bValue = toDateOnly(b.contract_signed_date) || '';
+    // Projects without a contract date go last in either direction
+    if (!aValue || !bValue) return aValue ? -1 : bValue ? 1 : 0;
+  }
+  
+  // Convert to strings for comparison if they're not already
+  if (typeof aValue !== 'number') aValue = String(aValue || '').toLowerCase();
+  if (typeof bValue !== 'number') bValue = String(bValue || '').toLowerCase();
+  
+  // Compare based on direction
+  if (direction === 'asc') {
+    return aValue > bValue ? 1 : aValue < bValue ? -1 : 0;
+  } else {
+    return aValue < bValue ? 1 : aValue > bValue ? -1 : 0;
+  }
+};
+
 interface ProjectListViewProps {
   onViewOnMap: (project: Project) => void;
   selectedProject?: Project | null;
@@ -29,14 +80,18 @@ const ProjectListView: React.FC<ProjectListViewProps> = ({
     isLoading,
     error,
     updateSortOptions,
-    filters
+    filters,
+    hasMoreProjects,
+    isLoadingMoreProjects,
+    loadMoreProjects,
+    fetchAllFilteredProjects
   } = useData();
   
   const { userProfile } = useAuth();
   
-  // Local state for sorting
-  const [localSortField, setLocalSortField] = useState<string>('name');
-  const [localSortDirection, setLocalSortDirection] = useState<'asc' | 'desc'>('asc');
+  // Local state for sorting, starting from the sort restored from a link or saved view
+  const [localSortField, setLocalSortField] = useState<string>(filters.sortOptions.field);
+  const [localSortDirection, setLocalSortDirection] = useState<'asc' | 'desc'>(filters.sortOptions.direction);
   
   // Ref for scroll container
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -44,6 +99,9 @@ const ProjectListView: React.FC<ProjectListViewProps> = ({
   // State for infinite scrolling
   const [loadedCount, setLoadedCount] = useState(20);
   
+  // Export in progress (the xlsx library loads on first use)
+  const [isExporting, setIsExporting] = useState(false);
+  
   // Filter projects if showing only user's projects
   // This will work with both server-rendered and client-fetched data
   const filteredProjects = useMemo(() => {
@@ -57,58 +115,8 @@ const ProjectListView: React.FC<ProjectListViewProps> = ({
   
   // Sort projects based on current sort field and direction
   const sortedProjects = useMemo(() => {
-    return [...filteredProjects].sort((a, b) => {
-      // First, prioritize unmasked projects over masked ones
-      const aIsComplete = a.status && 
-        (a.status.toLowerCase() === 'complete' || 
-         a.status.toLowerCase() === 'completed' ||
-         a.status.toLowerCase().includes('complete'));
-      
-      const bIsComplete = b.status && 
-        (b.status.toLowerCase() === 'complete' || 
-         b.status.toLowerCase() === 'completed' ||
-         b.status.toLowerCase().includes('complete'));
-      
-      const aIsAssignedToCurrentUser = a.rep_id === userProfile?.rep_id;
-      const bIsAssignedToCurrentUser = b.rep_id === userProfile?.rep_id;
-      
-      const aIsMasked = !(aIsComplete || aIsAssignedToCurrentUser);
-      const bIsMasked = !(bIsComplete || bIsAssignedToCurrentUser);
-      
-      if (!aIsMasked && bIsMasked) return -1;
-      if (aIsMasked && !bIsMasked) return 1;
-      
-      // Then sort by the selected field
-      let aValue: any = a[localSortField as keyof Project];
-      let bValue: any = b[localSortField as keyof Project];
-      
-      // Handle special cases
-      if (localSortField === 'ahj') {
-        aValue = a.ahj?.name || '';
-        bValue = b.ahj?.name || '';
-      } else if (localSortField === 'utility') {
-        aValue = a.utility?.name || '';
-        bValue = b.utility?.name || '';
-      } else if (localSortField === 'financier') {
-        aValue = a.financier?.name || '';
-        bValue = b.financier?.name || '';
-      } else if (localSortField === '45day') {
-        aValue = isQualified(a) ? 1 : 0;
-        bValue = isQualified(b) ? 1 : 0;
-      }
-      
-      // Convert to strings for comparison if they're not already
-      if (typeof aValue !== 'number') aValue = String(aValue || '').toLowerCase();
-      if (typeof bValue !== 'number') bValue = String(bValue || '').toLowerCase();
-      
-      // Compare based on direction
-      if (localSortDirection === 'asc') {
-        return aValue > bValue ? 1 : aValue < bValue ? -1 : 0;
-      } else {
-        return aValue < bValue ? 1 : aValue > bValue ? -1 : 0;
-      }
-    });
-  }, [filteredProjects, localSortField, localSortDirection, userProfile]);
+    return [...filteredProjects].sort((a, b) => compareProjects(a, b, localSortField, localSortDirection));
+  }, [filteredProjects, localSortField, localSortDirection]);
   
   // Get visible items based on loaded count
   const visibleItems = useMemo(() => {
@@ -153,10 +161,18 @@ const ProjectListView: React.FC<ProjectListViewProps> = ({
     }
   }, []);
   
-  // Reset loaded count when projects change
+  // Reset loaded count when the filters or sort change
+  // (not when another page arrives, which would jump back to the top)
   useEffect(() => {
     setLoadedCount(20);
-  }, [filteredProjects.length]);
+  }, [filters]);
+  
+  // Fetch the next page once every loaded project is shown
+  useEffect(() => {
+    if (loadedCount >= sortedProjects.length && hasMoreProjects && !isLoadingMoreProjects) {
+      loadMoreProjects();
+    }
+  }, [loadedCount, sortedProjects.length, hasMoreProjects, isLoadingMoreProjects, loadMoreProjects]);
   
   // Render sort indicator
   const renderSortIndicator = (field: string) => {
@@ -169,6 +185,26 @@ const ProjectListView: React.FC<ProjectListViewProps> = ({
     );
   };
   
+  // Export the whole filtered list in its current sort order, including pages
+  // that haven't been loaded yet
+  const handleExport = async (format: ProjectExportFormat) => {
+    setIsExporting(true);
+    try {
+      const allProjects = await fetchAllFilteredProjects();
+      const exported = showOnlyUserProjects && userProfile
+        ? allProjects.filter(project => project.rep_id === userProfile.rep_id)
+        : allProjects;
+      await exportProjects(
+        exported.sort((a, b) => compareProjects(a, b, localSortField, localSortDirection)),
+        format
+      );
+    } catch (err) {
+      console.error('[ProjectListView] Export failed:', err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+  
   // Handle project selection
   const handleSelectProject = (project: Project) => {
     if (onSelectProject) {
@@ -194,6 +230,15 @@ const ProjectListView: React.FC<ProjectListViewProps> = ({
     );
   }
   
+  // Every loaded project was filtered out, but later pages may still match
+  if (filteredProjects.length === 0 && hasMoreProjects) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-gray-400">Loading projects...</div>
+      </div>
+    );
+  }
+  
   // Show empty state if we have no projects after filtering
   if (filteredProjects.length === 0) {
     return (
@@ -210,8 +255,28 @@ const ProjectListView: React.FC<ProjectListViewProps> = ({
   
   return (
     <div className="h-full flex flex-col">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-3 py-2 bg-gray-900 border-b border-gray-700 text-sm">
+        <span className="text-gray-400">
+          {sortedProjects.length}{hasMoreProjects ? '+' : ''} projects
+        </span>
+        <div className="flex items-center space-x-2">
+          {(['csv', 'xlsx'] as ProjectExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={isExporting}
+              className="flex items-center px-2 py-1 bg-gray-800 border border-gray-700 rounded text-gray-300 hover:text-white hover:bg-gray-700 disabled:opacity-50"
+              title={`Export the filtered project list as ${format.toUpperCase()}`}
+            >
+              <FiDownload className="mr-1" size={14} /> {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+      
       {/* Table header */}
-      <div className="grid grid-cols-6 gap-4 bg-gray-800 p-3 font-medium text-gray-300 border-b border-gray-700">
+      <div className="grid grid-cols-7 gap-4 bg-gray-800 p-3 font-medium text-gray-300 border-b border-gray-700">
         <div 
           className="cursor-pointer hover:text-white flex items-center"
           onClick={() => handleSort('name')}
@@ -236,6 +301,12 @@ const ProjectListView: React.FC<ProjectListViewProps> = ({
         >
           Utility {renderSortIndicator('utility')}
         </div>
+        <div 
+          className="cursor-pointer hover:text-white flex items-center"
+          onClick={() => handleSort('contract_signed_date')}
+        >
+          Contract Signed {renderSortIndicator('contract_signed_date')}
+        </div>
         <div 
           className="cursor-pointer hover:text-white flex items-center"
           onClick={() => handleSort('status')}
@@ -256,15 +327,8 @@ const ProjectListView: React.FC<ProjectListViewProps> = ({
         className="flex-1 overflow-y-auto"
       >
         {visibleItems.map((project) => {
-          // Determine if this project should be masked
-          const isComplete = project.status && 
-            (project.status.toLowerCase() === 'complete' || 
-             project.status.toLowerCase() === 'completed' ||
-             project.status.toLowerCase().includes('complete'));
-          
-          const isAssignedToCurrentUser = project.rep_id === userProfile?.rep_id;
-          // No admin users in the system, so only check completion status and assignment
-          const isMasked = !(isComplete || isAssignedToCurrentUser);
+          // Masking is decided by the milestone rules on the server
+          const isMasked = !!project.isMasked;
           
           // Get classification badges
           const ahjClassification = project.ahj?.classification || 'unknown';
@@ -279,7 +343,7 @@ const ProjectListView: React.FC<ProjectListViewProps> = ({
             <div 
               key={project.id}
               className={`
-                grid grid-cols-6 gap-4 p-3 border-b border-gray-700 hover:bg-gray-800 cursor-pointer
+                grid grid-cols-7 gap-4 p-3 border-b border-gray-700 hover:bg-gray-800 cursor-pointer
                 ${selectedProject?.id === project.id ? 'bg-gray-800' : ''}
               `}
               onClick={() => handleSelectProject(project)}
@@ -287,8 +351,10 @@ const ProjectListView: React.FC<ProjectListViewProps> = ({
               <div className="truncate">
                 {isMasked ? 'Project details restricted' : (project.id || 'No project id')}
               </div>
-              <div className="truncate">
-                {isMasked ? 'Project details restricted' : (project.address || 'No address')}
+              <div className="truncate" title={isMasked ? RESTRICTED_TOOLTIP : undefined}>
+                {isMasked ? (
+                  <span className="text-gray-400">{getRestrictedLocationLabel(project)}</span>
+                ) : (project.address || 'No address')}
               </div>
               <div className="flex items-center">
                 {isMasked ? (
@@ -314,6 +380,9 @@ const ProjectListView: React.FC<ProjectListViewProps> = ({
                   </>
                 )}
               </div>
+              <div className="truncate">
+                {toDateOnly(project.contract_signed_date) || '—'}
+              </div>
               <div className="truncate">
                 {isMasked ? 'Restricted' : (project.status || 'Unknown')}
               </div>
@@ -340,7 +409,7 @@ const ProjectListView: React.FC<ProjectListViewProps> = ({
         })}
         
         {/* Loading more indicator */}
-        {loadedCount < sortedProjects.length && (
+        {(loadedCount < sortedProjects.length || hasMoreProjects) && (
           <div className="p-3 text-center text-gray-400">
             Loading more projects...
           </div>
@@ -0,0 +1,159 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { FiSave, FiStar, FiShare2, FiTrash2 } from 'react-icons/fi';
+import { useAuth } from '@/utils/AuthContext';
+import {
+  SavedView,
+  SavedViewState,
+  createSavedView,
+  deleteSavedView,
+  fetchSavedViews,
+  setDefaultSavedView,
+  shareSavedView
+} from '@/utils/savedViews';
+
+interface SavedViewsSectionProps {
+  currentState: SavedViewState; // What "Save" stores
+  onApply: (state: SavedViewState) => void;
+}
+
+/**
+ * Lists the user's saved filter views and saves the current one
+ */
+const SavedViewsSection: React.FC<SavedViewsSectionProps> = ({ currentState, onApply }) => {
+  const { user } = useAuth();
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const userId = user?.id;
+
+  const loadViews = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setViews(await fetchSavedViews(userId));
+      setError(null);
+    } catch (err) {
+      console.error('[SavedViews] Failed to load saved views:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load saved views');
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadViews();
+  }, [loadViews]);
+
+  // Run an action, then reload the list
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      await loadViews();
+    } catch (err) {
+      console.error(`[SavedViews] ${failure}:`, err);
+      setError(err instanceof Error ? err.message : failure);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!userId || !name.trim()) return;
+    setIsSaving(true);
+    await runAction(() => createSavedView(userId, name.trim(), currentState), 'Failed to save view');
+    setName('');
+    setIsSaving(false);
+  };
+
+  const handleToggleDefault = (view: SavedView) => {
+    if (!userId) return;
+    runAction(() => setDefaultSavedView(userId, view.is_default ? null : view.id), 'Failed to set default view');
+  };
+
+  const handleShare = (view: SavedView) => {
+    runAction(async () => {
+      const link = await shareSavedView(view.id);
+      try {
+        await navigator.clipboard.writeText(link);
+        setNotice('Link copied to clipboard');
+      } catch {
+        // Clipboard access can be blocked; show the link instead
+        setNotice(link);
+      }
+    }, 'Failed to share view');
+  };
+
+  const handleDelete = (view: SavedView) => {
+    if (!window.confirm(`Delete the saved view "${view.name}"?`)) return;
+    runAction(() => deleteSavedView(view.id), 'Failed to delete view');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Name this view..."
+          className="flex-1 min-w-0 bg-gray-800 text-white text-sm px-3 py-1.5 rounded-md"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim() || isSaving}
+          className="flex items-center px-3 py-1.5 bg-blue-500 text-white rounded-md text-sm hover:bg-blue-600 disabled:opacity-50"
+        >
+          <FiSave className="mr-1" /> Save
+        </button>
+      </div>
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+      {notice && <div className="text-xs text-green-400 break-all">{notice}</div>}
+
+      {views.length === 0 ? (
+        <div className="text-sm text-gray-500">No saved views yet</div>
+      ) : (
+        <ul className="space-y-1">
+          {views.map(view => (
+            <li key={view.id} className="flex items-center text-sm">
+              <button
+                onClick={() => onApply(view.state)}
+                className="flex-1 text-left truncate hover:text-blue-400"
+                title="Apply this view"
+              >
+                {view.name}
+              </button>
+              <button
+                onClick={() => handleToggleDefault(view)}
+                className={`ml-2 ${view.is_default ? 'text-yellow-400' : 'text-gray-400 hover:text-white'}`}
+                title={view.is_default ? 'Default view (click to clear)' : 'Load this view by default'}
+                aria-label={view.is_default ? `Clear ${view.name} as default` : `Make ${view.name} the default`}
+              >
+                <FiStar size={14} />
+              </button>
+              <button
+                onClick={() => handleShare(view)}
+                className="ml-2 text-gray-400 hover:text-white"
+                title="Copy share link"
+                aria-label={`Share ${view.name}`}
+              >
+                <FiShare2 size={14} />
+              </button>
+              <button
+                onClick={() => handleDelete(view)}
+                className="ml-2 text-gray-400 hover:text-red-400"
+                title="Delete view"
+                aria-label={`Delete ${view.name}`}
+              >
+                <FiTrash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewsSection;
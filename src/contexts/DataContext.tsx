@@ -1,9 +1,17 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, useRef, ReactNode } from 'react';
 import { supabase } from '@/utils/supabaseClient';
 import { Project, ProjectFilter } from '@/utils/types';
-import { extractCoordinates, extractEntityName, extractClassification } from '@/utils/dataProcessing';
+import { fetchAllProjectPages, fetchMapAreaData, fetchProjectPage, PROJECT_PAGE_SIZE } from '@/utils/projectsApi';
+import { MapArea, mapAreaToParams } from '@/utils/geo';
+import { getProjectQueryParams, matchesFilterExpression } from '@/utils/filterExpressions';
+import { EntityStats, fetchEntityStats } from '@/utils/projectAggregatesApi';
+import {
+  buildEntityLookups,
+  linkProjectEntities,
+  normalizeEntities
+} from '@/utils/projectNormalization';
 
 // Import EntityData from useEntities to ensure consistency
 import { EntityData as BaseEntityData } from '@/hooks/useEntities';
@@ -25,6 +33,8 @@ interface FilterState {
 
 interface RawData {
   projects: Project[];
+  projectTotal: number | null; // Projects matching the server-side filters
+  nextCursor: string | null; // Cursor of the next project page, null when all are loaded
   ahjs: any[];
   utilities: any[];
   financiers: any[];
@@ -32,11 +42,19 @@ interface RawData {
   error: string | null;
 }
 
+// Projects and entity pins loaded for the current map area
+interface MapAreaData {
+  projects: Project[];
+  ahjIds: Set<string>;
+  utilityIds: Set<string>;
+  financierIds: Set<string>;
+}
+
 interface FilteredData {
   projects: Project[];
   ahjs: EntityData[];
   utilities: EntityData[];
-  financiers: any[];
+  financiers: EntityData[];
 }
 
 interface DataContextType extends FilteredData {
@@ -56,8 +74,12 @@ interface DataContextType extends FilteredData {
   // Filter actions
   addFilter: (filter: ProjectFilter) => void;
   removeFilter: (filterId: string) => void;
+  updateFilter: (filterId: string, changes: Partial<ProjectFilter>) => void;
   clearFilters: () => void;
   
+  // Replace all filter state at once (e.g. from a saved view)
+  applyFilterState: (state: AppliedFilterState) => void;
+  
   // Search functionality
   searchTerms: string;
   handleSearch: (terms: string) => void;
@@ -65,6 +87,19 @@ interface DataContextType extends FilteredData {
   // Sorting
   updateSortOptions: (field: string, direction: 'asc' | 'desc') => void;
   
+  // Project pages: the server filters and sorts, further pages load on demand
+  projectTotal: number | null;
+  hasMoreProjects: boolean;
+  isLoadingMoreProjects: boolean;
+  loadMoreProjects: () => Promise<void>;
+  // Every project matching the filters (and the map area, when one is loaded), for exports
+  fetchAllFilteredProjects: () => Promise<Project[]>;
+  
+  // Map area (viewport bounding box or radius); null means the project pages are shown
+  mapArea: MapArea | null;
+  isMapAreaLoading: boolean;
+  loadMapArea: (area: MapArea | null) => Promise<void>;
+  
   // Location
   userLocation: { latitude: number; longitude: number } | null;
   setUserLocation: (location: { latitude: number; longitude: number } | null) => void;
@@ -85,6 +120,14 @@ interface DataContextType extends FilteredData {
   hydrateFromServer: (serverData: any) => void;
 }
 
+// Filter state restored in one step
+interface AppliedFilterState {
+  filters: ProjectFilter[];
+  sortOptions: FilterState['sortOptions'];
+  searchTerms?: string;
+  showOnlyMyProjects?: boolean;
+}
+
 // Create the context
 const DataContext = createContext<DataContextType | null>(null);
 
@@ -126,6 +169,8 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   // Data state
   const [rawData, setRawData] = useState<RawData>({
     projects: [],
+    projectTotal: null,
+    nextCursor: null,
     ahjs: [],
     utilities: [],
     financiers: [],
@@ -199,23 +244,58 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   // 45-day filter
   const [show45DayQualified, setShow45DayQualified] = useState<boolean>(false);
 
-  // Fetch all data in one call
+  // Map area state
+  const [mapArea, setMapArea] = useState<MapArea | null>(null);
+  const [mapAreaData, setMapAreaData] = useState<MapAreaData | null>(null);
+  const [isMapAreaLoading, setIsMapAreaLoading] = useState<boolean>(false);
+  
+  // Incremented on every map area request so stale responses can be ignored
+  const mapAreaRequestRef = useRef(0);
+  
+  // Project page state
+  const [isLoadingMoreProjects, setIsLoadingMoreProjects] = useState<boolean>(false);
+  
+  // Incremented whenever the first project page is requested, so pages for
+  // earlier filters are ignored
+  const projectRequestRef = useRef(0);
+  
+  // Set once projects have been loaded or hydrated; filter changes reload them after that
+  const hasLoadedProjectsRef = useRef(false);
+  
+  // Query key of the loaded first page, so a page rendered by the server isn't fetched again
+  const loadedProjectQueryKeyRef = useRef<string | null>(null);
+  
+  // Filters and sort the server applies to project pages (see getProjectQueryParams)
+  const projectQuery = useMemo(
+    () => getProjectQueryParams(filters.filters, filters.sortOptions),
+    [filters]
+  );
+  const projectQueryKey = JSON.stringify(projectQuery);
+  
+  // Read by the loaders, which keep a stable identity for their callers
+  const projectQueryRef = useRef(projectQuery);
+  useEffect(() => {
+    projectQueryRef.current = projectQuery;
+  }, [projectQuery]);
+
+  // Fetch the entities and the first project page in one call
   const fetchAllData = useCallback(async () => {
+    const requestId = ++projectRequestRef.current;
+    loadedProjectQueryKeyRef.current = JSON.stringify(projectQueryRef.current);
     try {
       setRawData(prev => ({ ...prev, isLoading: true, error: null }));
 
       // Fetch all data in parallel
-      const [projectsResult, ahjResult, utilityResult, financierResult] = await Promise.all([
-        supabase.from('podio_data').select('*'),
+      // Projects come from /api/projects, which filters them in SQL and masks
+      // restricted projects server-side
+      const [page, ahjResult, utilityResult, financierResult] = await Promise.all([
+        fetchProjectPage({ ...projectQueryRef.current, limit: PROJECT_PAGE_SIZE }),
         supabase.from('ahj').select('*'),
         supabase.from('utility').select('*'),
         supabase.from('financier').select('*')
       ]);
 
       // Check for errors
-      if (projectsResult.error) {
-        throw new Error(`Error fetching projects: ${projectsResult.error.message}`);
-      }
       if (ahjResult.error) {
         throw new Error(`Error fetching AHJs: ${ahjResult.error.message}`);
       }
@@ -226,17 +306,19 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         throw new Error(`Error fetching financiers: ${financierResult.error.message}`);
       }
 
-      // Process results
-      const fetchedData = {
-        projects: projectsResult.data || [],
+      // Process results; the project page is dropped if the filters changed meanwhile
+      const isCurrentPage = requestId === projectRequestRef.current;
+      setRawData(prev => ({
+        projects: isCurrentPage ? page.projects || [] : prev.projects,
+        projectTotal: isCurrentPage ? page.total ?? null : prev.projectTotal,
+        nextCursor: isCurrentPage ? page.nextCursor : prev.nextCursor,
         ahjs: ahjResult.data || [],
         utilities: utilityResult.data || [],
         financiers: financierResult.data || [],
         isLoading: false,
         error: null
-      };
-      
-      setRawData(fetchedData);
+      }));
+      hasLoadedProjectsRef.current = true;
     } catch (error) {
       console.error('Error fetching data:', error);
       setRawData(prev => ({
@@ -247,6 +329,104 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, []);
   
+  // Replace the loaded projects with the first page for the current filters and sort
+  // The previous projects stay visible until the page arrives.
+  const reloadProjects = useCallback(async () => {
+    const requestId = ++projectRequestRef.current;
+    loadedProjectQueryKeyRef.current = JSON.stringify(projectQueryRef.current);
+    try {
+      const page = await fetchProjectPage({ ...projectQueryRef.current, limit: PROJECT_PAGE_SIZE });
+      if (requestId !== projectRequestRef.current) return;
+      
+      setRawData(prev => ({
+        ...prev,
+        projects: page.projects || [],
+        projectTotal: page.total ?? null,
+        nextCursor: page.nextCursor,
+        error: null
+      }));
+    } catch (error) {
+      if (requestId !== projectRequestRef.current) return;
+      console.error('[DataContext] Error loading projects:', error);
+      setRawData(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to fetch projects'
+      }));
+    }
+  }, []);
+  
+  // Append the next project page
+  const loadMoreProjects = useCallback(async () => {
+    const cursor = rawData.nextCursor;
+    if (!cursor || isLoadingMoreProjects) return;
+    
+    const requestId = projectRequestRef.current;
+    setIsLoadingMoreProjects(true);
+    try {
+      const page = await fetchProjectPage({ ...projectQueryRef.current, limit: PROJECT_PAGE_SIZE, cursor });
+      if (requestId !== projectRequestRef.current) return;
+      
+      setRawData(prev => ({
+        ...prev,
+        projects: [...prev.projects, ...(page.projects || [])],
+        nextCursor: page.nextCursor
+      }));
+    } catch (error) {
+      console.error('[DataContext] Error loading more projects:', error);
+    } finally {
+      setIsLoadingMoreProjects(false);
+    }
+  }, [rawData.nextCursor, isLoadingMoreProjects]);
+  
+  // Load only the projects and entity pins inside a map area
+  // Passing null goes back to the project pages
+  const loadMapArea = useCallback(async (area: MapArea | null) => {
+    const requestId = ++mapAreaRequestRef.current;
+    setMapArea(area);
+    
+    if (!area) {
+      setMapAreaData(null);
+      setIsMapAreaLoading(false);
+      return;
+    }
+    
+    setIsMapAreaLoading(true);
+    try {
+      const data = await fetchMapAreaData(area, projectQueryRef.current);
+      if (requestId !== mapAreaRequestRef.current) return;
+      
+      // Entities are shown if they have a pin in the area or a project in the area
+      // Financiers have no pins, so only their projects count
+      const ahjIds = new Set(data.ahjs.map(ahj => ahj.id));
+      const utilityIds = new Set(data.utilities.map(utility => utility.id));
+      const financierIds = new Set<string>();
+      data.projects.forEach(project => {
+        if (project.ahj_item_id) ahjIds.add(project.ahj_item_id);
+        if (project.utility_company_item_id) utilityIds.add(project.utility_company_item_id);
+        if (project.financier_id) financierIds.add(project.financier_id);
+      });
+      
+      setMapAreaData({ projects: data.projects, ahjIds, utilityIds, financierIds });
+    } catch (error) {
+      console.error('[DataContext] Error loading map area:', error);
+    } finally {
+      if (requestId === mapAreaRequestRef.current) {
+        setIsMapAreaLoading(false);
+      }
+    }
+  }, []);
+  
+  // Reload the projects (and the map area) when the server-side filters or sort change
+  useEffect(() => {
+    if (!hasLoadedProjectsRef.current || projectQueryKey === loadedProjectQueryKeyRef.current) return;
+    
+    reloadProjects();
+    if (mapArea) {
+      loadMapArea(mapArea);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectQueryKey]);
+  
   // Initialize user location
   useEffect(() => {
     // Get user location when the context is initialized
@@ -278,6 +458,14 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }));
   }, []);
   
+  // Update a filter in place (e.g. to negate it or change its OR group)
+  const updateFilter = useCallback((filterId: string, changes: Partial<ProjectFilter>) => {
+    setFilters(prevFilters => ({
+      ...prevFilters,
+      filters: prevFilters.filters.map(f => f.id === filterId ? { ...f, ...changes, id: f.id } : f)
+    }));
+  }, []);
+  
   // Clear all filters
   const clearFilters = useCallback(() => {
     setFilters(prev => ({
@@ -287,6 +475,22 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setSearchTerms('');
   }, []);
   
+  // Replace filters, sort, search and toggles, giving each filter a fresh ID
+  const applyFilterState = useCallback((state: AppliedFilterState) => {
+    const restoredFilters: EnhancedProjectFilter[] = (state.filters || []).map((filter, index) => ({
+      ...filter,
+      id: `filter-${Date.now()}-${index}`
+    }));
+    
+    setFilters({
+      filters: restoredFilters,
+      sortOptions: state.sortOptions || { field: 'name', direction: 'asc' }
+    });
+    setSearchTerms(state.searchTerms || '');
+    setShowOnlyMyProjects(Boolean(state.showOnlyMyProjects));
+    setShow45DayQualified(restoredFilters.some(f => f.type === '45day' && !f.negate));
+  }, []);
+  
   // Handle search
   const handleSearch = useCallback((terms: string) => {
     setSearchTerms(terms);
@@ -361,93 +565,53 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   }, [fetchAllData]);
 
   // Process raw entities into our standard format
+  // Normalization is idempotent, so raw rows and server-processed entities are handled alike
   const processedEntities = useMemo(() => {
-    // Process AHJs - with more robust field extraction
-    const processedAhjs = rawData.ahjs.map(ahj => {
-      // Extract ID from various possible field names - much more flexible
-      const id = ahj.ahj_item_id || ahj.id || ahj._id || ahj.ahj_id || 
-                (ahj.raw_payload && (ahj.raw_payload.ahj_item_id || ahj.raw_payload.id)) || '';
-      
-      // Extract name using the extractEntityName function which handles nested structures
-      // This function already knows how to extract from raw_payload.raw_payload.name
-      const name = extractEntityName(ahj, 'ahj');
-      
-      // Extract classification from various possible field names
-      const rawClassification = ahj.classification || ahj['eligible-for-classification'] || 
-                               (ahj.raw_payload && ahj.raw_payload.classification) || '';
-      const classification = extractClassification(rawClassification);
-      
-      // Extract coordinates with status
-      const coordinates = extractCoordinates(ahj.raw);
-      // Determine coordinate status
-      // If latitude and longitude are present, it's valid
-      // Otherwise use the status from extractCoordinates or fallback to 'unknown'
-      const coordStatus = coordinates.latitude && coordinates.longitude 
-        ? 'valid' 
-        : (coordinates.status || 'unknown');
-      
-      return {
-        id,
-        name,
-        classification,
-        projectCount: 0, // Will be calculated later
-        distance: 0,
-        latitude: coordinates.latitude,
-        longitude: coordinates.longitude,
-        coordStatus
-      };
-    }).filter(ahj => {
-      if (!ahj.id) {
-        return false;
-      }
-      return true;
-    }); // Filter out any AHJs without an ID
+    const processedAhjs = normalizeEntities(rawData.ahjs, 'ahj');
+    const processedUtilities = normalizeEntities(rawData.utilities, 'utility');
+    const processedFinanciers = normalizeEntities(rawData.financiers, 'financier');
     
-    // Process Utilities - with more robust field extraction
-    const processedUtilities = rawData.utilities.map(utility => {
-      // Extract ID from various possible field names - much more flexible
-      const id = utility.utility_company_item_id || utility.id || utility._id || utility.utility_id || 
-                (utility.raw_payload && (utility.raw_payload.utility_company_item_id || utility.raw_payload.id)) || '';
-      
-      // Extract name from various possible field names - handle nested structures
-      // First try to use the extractEntityName function which handles nested structures
-      const name = extractEntityName(utility, 'utility');
-      
-      // Extract classification from various possible field names
-      const rawClassification = utility.classification || utility['eligible-for-classification'] || 
-                               (utility.raw_payload && utility.raw_payload.classification) || '';
-      const classification = extractClassification(rawClassification);
-      
-      // Extract coordinates with status
-      const coordinates = extractCoordinates(utility.raw);
-      
-      // Determine coordinate status
-      // If latitude and longitude are present, it's valid
-      // Otherwise use the status from extractCoordinates or fallback to 'unknown'
-      const coordStatus = coordinates.latitude && coordinates.longitude 
-        ? 'valid' 
-        : (coordinates.status || 'unknown');
-      
-      return {
-        id,
-        name,
-        classification,
-        projectCount: 0, // Will be calculated later
-        distance: 0,
-        latitude: coordinates.latitude,
-        longitude: coordinates.longitude,
-        coordStatus
-      };
-    }).filter(utility => {
-      if (!utility.id) {
-        return false;
-      }
-      return true;
-    }); // Filter out any utilities without an ID
-    
-    return { ahjs: processedAhjs, utilities: processedUtilities };
+    return {
+      ahjs: processedAhjs,
+      utilities: processedUtilities,
+      financiers: processedFinanciers,
+      lookups: buildEntityLookups(processedAhjs, processedUtilities, processedFinanciers)
+    };
   }, [rawData]); // Use the entire rawData object as a dependency
 
+  // Load every page of the current query; the server only narrows the pages,
+  // so the filter expression is applied here as well
+  const fetchAllFilteredProjects = useCallback(async () => {
+    const params = mapArea ? { ...projectQueryRef.current, ...mapAreaToParams(mapArea) } : projectQueryRef.current;
+    const projects = await fetchAllProjectPages(params);
+    return projects
+      .map(project => linkProjectEntities(project, processedEntities.lookups))
+      .filter(project => matchesFilterExpression(project, filters.filters));
+  }, [mapArea, processedEntities, filters.filters]);
+
+  // Time-to-milestone stats per entity, built on the server from every project
+  // They are loaded once the entities are, which means the user is signed in
+  const [milestoneTimings, setMilestoneTimings] = useState<EntityStats['milestoneTimings']>({
+    ahj: {},
+    utility: {},
+    financier: {}
+  });
+  const hasEntities = rawData.ahjs.length > 0 || rawData.utilities.length > 0 || rawData.financiers.length > 0;
+  useEffect(() => {
+    if (!hasEntities) return;
+
+    let cancelled = false;
+    fetchEntityStats()
+      .then(stats => {
+        if (!cancelled) setMilestoneTimings(stats.milestoneTimings);
+      })
+      .catch(error => console.error('[DataContext] Error loading milestone timings:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hasEntities]);
+
   // The core of the filtering system - all filtering logic in one place
   const filteredData = useMemo(() => {
     // Skip filtering if data is not loaded yet
@@ -455,147 +619,30 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       return { projects: [], ahjs: [], utilities: [], financiers: [] };
     }
 
-    // Extract coordinates for all projects
-    let filteredProjects = rawData.projects.map(project => {
-      // If project already has valid coordinates, return it as is
-      if (project.latitude && project.longitude) {
-        return project;
-      }
-      
-      // Try to access nested coordinates if they exist
-      // Using type assertion to access potentially nested properties
-      try {
-        const rawProject = project as any;
-        if (rawProject.raw_payload?.raw_payload?.longitude && rawProject.raw_payload?.raw_payload?.latitude) {
-          return {
-            ...project,
-            latitude: Number(rawProject.raw_payload.raw_payload.latitude),
-            longitude: Number(rawProject.raw_payload.raw_payload.longitude)
-          };
-        }
-        
-        // Try other potential locations for coordinates
-        if (rawProject.raw_payload?.longitude && rawProject.raw_payload?.latitude) {
-          return {
-            ...project,
-            latitude: Number(rawProject.raw_payload.latitude),
-            longitude: Number(rawProject.raw_payload.longitude)
-          };
-        }
-      } catch (error) {
-        console.log('Error extracting coordinates for project:', project.id, error);
-      }
-      
-      // If we couldn't find coordinates, use default values
-      return {
-        ...project,
-        latitude: 40.7608, // Default to Utah
-        longitude: -111.8910
-      };
-    });
-    
-    // Create maps of AHJs and utilities by ID for efficient lookup
-    const ahjMap = Object.fromEntries(
-      processedEntities.ahjs.map(ahj => [ahj.id, ahj])
+    // Attach the current AHJ, utility and financier references to each canonical project
+    // When a map area is loaded, only its projects are considered
+    const sourceProjects = mapAreaData ? mapAreaData.projects : rawData.projects;
+    let filteredProjects = sourceProjects.map(project =>
+      linkProjectEntities(project, processedEntities.lookups)
     );
     
-    const utilityMap = Object.fromEntries(
-      processedEntities.utilities.map(utility => [utility.id, utility])
+    // 1. Apply the filter expression to projects
+    // Filters in the same group are ORed, groups are ANDed and negated filters exclude
+    filteredProjects = filteredProjects.filter(project =>
+      matchesFilterExpression(project, filters.filters)
     );
-    
-    // Attach AHJ and utility objects to each project
-    filteredProjects = filteredProjects.map(project => {
-      const ahjId = project.ahj_item_id;
-      const utilityId = project.utility_company_item_id;
-      
-      return {
-        ...project,
-        ahj: ahjId ? ahjMap[ahjId] || null : null,
-        utility: utilityId ? utilityMap[utilityId] || null : null
-      };
-    });
-    
-    // 1. Apply all filters to projects
-    filters.filters.forEach(filter => {
-      switch (filter.type) {
-        case 'search':
-          // Search across multiple fields
-          filteredProjects = filteredProjects.filter(project => {
-            const searchValue = filter.value.toLowerCase();
-            return (
-              project.address?.toLowerCase().includes(searchValue) ||
-              project.ahj?.name?.toLowerCase().includes(searchValue) ||
-              project.utility?.name?.toLowerCase().includes(searchValue) ||
-              project.city?.toLowerCase().includes(searchValue) ||
-              project.state?.toLowerCase().includes(searchValue) ||
-              project.zip?.toLowerCase().includes(searchValue)
-            );
-          });
-          break;
-        case 'ahj':
-          filteredProjects = filteredProjects.filter(project => {
-            // If we're filtering by classification (A, B, C)
-            if (filter.value === 'A' || filter.value === 'B' || filter.value === 'C') {
-              return project.ahj?.classification === filter.value;
-            }
-            // If we're filtering by ID
-            if (filter.entityId) {
-              return project.ahj_item_id?.toString() === filter.entityId?.toString();
-            }
-            // If we're filtering by name
-            return project.ahj?.name?.toLowerCase().includes(filter.value.toLowerCase());
-          });
-          break;
-        case 'utility':
-          filteredProjects = filteredProjects.filter(project => {
-            // If we're filtering by classification (A, B, C)
-            if (filter.value === 'A' || filter.value === 'B' || filter.value === 'C') {
-              return project.utility?.classification === filter.value;
-            }
-            // If we're filtering by ID
-            if (filter.entityId) {
-              return project.utility_company_item_id?.toString() === filter.entityId?.toString();
-            }
-            // If we're filtering by name
-            return project.utility?.name?.toLowerCase().includes(filter.value.toLowerCase());
-          });
-          break;
-        case '45day':
-          filteredProjects = filteredProjects.filter(project => {
-            // Check both possible formats of the 45-day qualification field
-            const qualifies = project.qualifies45Day;
-            return qualifies === true || qualifies === 'true' || qualifies === 'yes';
-          });
-          break;
-        case 'myprojects':
-          // Filter for projects belonging to the current user
-          filteredProjects = filteredProjects.filter(project =>
-            project.rep_id === filter.value
-          );
-          break;
-        case 'class':
-          // Filter by classification (A, B, C)
-          filteredProjects = filteredProjects.filter(project => {
-            // Check which entity type this classification filter applies to
-            if (filter.entityType === 'ahj' || !filter.entityType) {
-              return project.ahj?.classification === filter.value;
-            } else if (filter.entityType === 'utility') {
-              return project.utility?.classification === filter.value;
-            }
-            return false;
-          });
-          break;
-        // Add other filter types as needed
-      }
-    });
     // 2. Extract entity IDs from filtered projects
     // const ahjIds = new Set(filteredProjects.map(p => p.ahj?.id).filter(Boolean));
     const ahjIds = new Set((filteredProjects || []).map(p => p.ahj?.id).filter(Boolean));
     const utilityIds = new Set((filteredProjects || []).map(p => p.utility?.id).filter(Boolean));
+    const financierIds = new Set((filteredProjects || []).map(p => p.financier?.id).filter(Boolean));
 
     // 3. Determine if we should filter entities based on project references
-    // Check if we have entity-specific filters (ahj or utility type)
-    const entityFilters = filters.filters.filter(f => f.type === 'ahj' || f.type === 'utility');
+    // Negated filters only remove entities (see step 4b), so entity lists are built from the rest
+    const positiveFilters = filters.filters.filter(f => !f.negate);
+    
+    // Check if we have entity-specific filters (ahj, utility or financier type)
+    const entityFilters = positiveFilters.filter(f => f.type === 'ahj' || f.type === 'utility' || f.type === 'financier');
     const hasEntitySpecificFilters = entityFilters.length > 0;
     const hasSearchTerms = searchTerms.trim() !== '';
 
@@ -603,17 +650,19 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     // Only apply project-based filtering if we have filters or search terms
     let filteredAhjs = processedEntities.ahjs;
     let filteredUtilities = processedEntities.utilities;
+    let filteredFinanciers = processedEntities.financiers;
 
     // If we have project filters, filter entities based on project references
     // But ONLY if we don't have entity-specific filters
     if (filters.filters.length > 0 && !hasEntitySpecificFilters && !hasSearchTerms) {
       filteredAhjs = processedEntities.ahjs.filter(ahj => ahjIds.has(ahj.id));
       filteredUtilities = processedEntities.utilities.filter(utility => utilityIds.has(utility.id));
+      filteredFinanciers = processedEntities.financiers.filter(financier => financierIds.has(financier.id));
     }
     
     // Handle search filtering similarly to entity selection filtering
     if (hasSearchTerms && !hasEntitySpecificFilters) {
-      const searchFilter = filters.filters.find(f => f.type === 'search');
+      const searchFilter = positiveFilters.find(f => f.type === 'search');
       if (searchFilter) {
         const searchValue = searchFilter.value.toLowerCase();
         
@@ -657,13 +706,24 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           utility.name.toLowerCase().includes(searchValue)
         );
         
+        // Filter Financiers to only those related to search results
+        const searchRelatedFinancierIds = new Set(
+          projectsMatchingSearch
+            .map(p => p.financier_id ? p.financier_id.toString() : null)
+            .filter(Boolean)
+        );
+        filteredFinanciers = filteredFinanciers.filter(financier => 
+          searchRelatedFinancierIds.has(financier.id.toString()) || 
+          financier.name.toLowerCase().includes(searchValue)
+        );
+        
         // Update relationship data for entities based on search results
         // (This part remains largely the same)
       }
     }
     
     // Apply classification filters to entities if present in filters
-    const classFilters = filters.filters.filter(f => f.type === 'class');
+    const classFilters = positiveFilters.filter(f => f.type === 'class');
     if (classFilters.length > 0 && !hasEntitySpecificFilters) {
       
       // Get the classification values
@@ -673,7 +733,8 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       const projectsMatchingClass = filteredProjects.filter(project => {
         const ahjClass = project.ahj?.classification?.toUpperCase() || '';
         const utilityClass = project.utility?.classification?.toUpperCase() || '';
-        return classValues.includes(ahjClass) || classValues.includes(utilityClass);
+        const financierClass = project.financier?.classification?.toUpperCase() || '';
+        return classValues.includes(ahjClass) || classValues.includes(utilityClass) || classValues.includes(financierClass);
       });
       
       // Get AHJ IDs from projects matching the classification
@@ -704,6 +765,17 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         classRelatedUtilityIds.has(utility.id.toString())
       );
       
+      // Filter Financiers by both classification and project references
+      const classRelatedFinancierIds = new Set(
+        projectsMatchingClass
+          .map(p => p.financier_id ? p.financier_id.toString() : null)
+          .filter(Boolean)
+      );
+      filteredFinanciers = filteredFinanciers.filter(financier => 
+        classValues.includes(financier.classification?.toUpperCase() || '') ||
+        classRelatedFinancierIds.has(financier.id.toString())
+      );
+      
       // Update relationship data for entities based on classification results
       // (Keep the existing relationship calculation code)
     }
@@ -711,12 +783,14 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     // 4. Apply entity-specific filters if they exist
     if (hasEntitySpecificFilters) {
       // Split filters by entity type
-      const ahjFilters = filters.filters.filter(f => f.type === 'ahj' || f.entityType === 'ahj');
-      const utilityFilters = filters.filters.filter(f => f.type === 'utility' || f.entityType === 'utility');
+      const ahjFilters = positiveFilters.filter(f => f.type === 'ahj' || f.entityType === 'ahj');
+      const utilityFilters = positiveFilters.filter(f => f.type === 'utility' || f.entityType === 'utility');
+      const financierFilters = positiveFilters.filter(f => f.type === 'financier' || f.entityType === 'financier');
       
       // Find entity selection filters (these are used for cross-entity filtering)
       const selectedAhjFilter = ahjFilters.find(f => f.filterSource === 'entity-selection' && f.entityId);
       const selectedUtilityFilter = utilityFilters.find(f => f.filterSource === 'entity-selection' && f.entityId);
+      const selectedFinancierFilter = financierFilters.find(f => f.filterSource === 'entity-selection' && f.entityId);
       
       // Track if we have entity selections for cross-filtering
       const hasSelectedAhj = !!selectedAhjFilter;
@@ -839,6 +913,93 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           utility.id && relatedUtilityIds.has(utility.id.toString())
         );
       }
+      
+      // Apply Financier filters if any exist
+      if (financierFilters.length > 0) {
+        filteredFinanciers = processedEntities.financiers.filter(financier => {
+          return financierFilters.some(filter => {
+            // For entity filters, we typically filter by ID
+            if (filter.entityId) {
+              return financier.id === filter.entityId;
+            }
+            
+            // For classification filters (A, B, C)
+            if (filter.value === 'A' || filter.value === 'B' || filter.value === 'C') {
+              return financier.classification === filter.value;
+            }
+            
+            // For search filters, we search by name
+            return financier.name.toLowerCase().includes(filter.value.toLowerCase());
+          });
+        });
+      }
+      
+      // Apply cross-entity filtering if we have a selected financier
+      // When a financier is selected, only show AHJs and Utilities that have projects with that financier
+      if (selectedFinancierFilter?.entityId) {
+        const financierId = selectedFinancierFilter.entityId.toString();
+        const projectsWithSelectedFinancier = (filteredProjects || []).filter(p =>
+          p.financier_id && p.financier_id.toString() === financierId
+        );
+        
+        const financierAhjIds = new Set(
+          projectsWithSelectedFinancier
+            .map(p => p.ahj_item_id ? p.ahj_item_id.toString() : null)
+            .filter(Boolean)
+        );
+        const financierUtilityIds = new Set(
+          projectsWithSelectedFinancier
+            .map(p => p.utility_company_item_id ? p.utility_company_item_id.toString() : null)
+            .filter(Boolean)
+        );
+        
+        filteredAhjs = filteredAhjs.filter(ahj => ahj.id && financierAhjIds.has(ahj.id.toString()));
+        filteredUtilities = filteredUtilities.filter(utility =>
+          utility.id && financierUtilityIds.has(utility.id.toString())
+        );
+      }
+      
+      // Apply cross-entity filtering if we have a selected AHJ or Utility
+      // Only show Financiers that have projects with the selected entities
+      if (hasSelectedAhj || hasSelectedUtility) {
+        const selectedAhjId = selectedAhjFilter?.entityId?.toString();
+        const selectedUtilityId = selectedUtilityFilter?.entityId?.toString();
+        
+        const relatedFinancierIds = new Set(
+          (filteredProjects || [])
+            .filter(p =>
+              (!selectedAhjId || p.ahj_item_id?.toString() === selectedAhjId) &&
+              (!selectedUtilityId || p.utility_company_item_id?.toString() === selectedUtilityId)
+            )
+            .map(p => p.financier_id ? p.financier_id.toString() : null)
+            .filter(Boolean)
+        );
+        
+        filteredFinanciers = filteredFinanciers.filter(financier =>
+          financier.id && relatedFinancierIds.has(financier.id.toString())
+        );
+      }
+    }
+
+    // 4b. Remove entities excluded by negated entity filters
+    const isExcludedEntity = (entity: EntityData, entityType: 'ahj' | 'utility' | 'financier') =>
+      filters.filters.some(filter => {
+        if (!filter.negate) return false;
+        if (filter.type === 'class') {
+          return (filter.entityType || 'ahj') === entityType && entity.classification === filter.value;
+        }
+        if (filter.type !== entityType) return false;
+        if (filter.value === 'A' || filter.value === 'B' || filter.value === 'C') {
+          return entity.classification === filter.value;
+        }
+        if (filter.entityId) return entity.id === filter.entityId;
+        return entity.name.toLowerCase().includes(filter.value.toLowerCase());
+      });
+    
+    if (filters.filters.some(f => f.negate)) {
+      filteredAhjs = filteredAhjs.filter(ahj => !isExcludedEntity(ahj, 'ahj'));
+      filteredUtilities = filteredUtilities.filter(utility => !isExcludedEntity(utility, 'utility'));
+      filteredFinanciers = filteredFinanciers.filter(financier => !isExcludedEntity(financier, 'financier'));
     }
 
     // 5. Apply sorting to projects
@@ -850,6 +1011,13 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       const valueB = b[field as keyof Project]?.toString() || '';
       return valueA.localeCompare(valueB) * sortMultiplier;
     });
+    // Limit entities to the loaded map area
+    if (mapAreaData) {
+      filteredAhjs = filteredAhjs.filter(ahj => mapAreaData.ahjIds.has(ahj.id));
+      filteredUtilities = filteredUtilities.filter(utility => mapAreaData.utilityIds.has(utility.id));
+      filteredFinanciers = filteredFinanciers.filter(financier => mapAreaData.financierIds.has(financier.id));
+    }
+    
     // 6. Calculate project counts and relationship data for entities
     
     // For AHJs, calculate project counts and related utilities
@@ -886,13 +1054,22 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       
      
       
+      // Get all unique financier IDs from these projects
+      const relatedFinancierIds = new Set(
+        ahjProjects
+          .map(p => p.financier?.id)
+          .filter((id): id is string => Boolean(id))
+      );
+      
       // Return enhanced AHJ with project count and related utility count
       return {
         ...ahj,
         // projectCount: ahjProjects.length,
         relatedUtilityCount: relatedUtilityIds.size,
+        relatedFinancierCount: relatedFinancierIds.size,
         // Store related utility IDs for potential use in UI
-        relatedUtilityIds: Array.from(relatedUtilityIds)
+        relatedUtilityIds: Array.from(relatedUtilityIds),
+        relatedFinancierIds: Array.from(relatedFinancierIds)
       };
     });
     
@@ -928,13 +1105,48 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       
       
       
+      // Get all unique financier IDs from these projects
+      const relatedFinancierIds = new Set(
+        utilityProjects
+          .map(p => p.financier?.id)
+          .filter((id): id is string => Boolean(id))
+      );
+      
       // Return enhanced utility with project count and related AHJ count
       return {
         ...utility,
         // projectCount: utilityProjects.length,
         relatedAhjCount: relatedAhjIds.size,
+        relatedFinancierCount: relatedFinancierIds.size,
         // Store related AHJ IDs for potential use in UI
-        relatedAhjIds: Array.from(relatedAhjIds)
+        relatedAhjIds: Array.from(relatedAhjIds),
+        relatedFinancierIds: Array.from(relatedFinancierIds)
+      };
+    });
+    
+    // For Financiers, calculate related AHJs and Utilities
+    filteredFinanciers = filteredFinanciers.map(financier => {
+      const financierProjects = filteredProjects.filter(p =>
+        p.financier?.id === financier.id || p.financier_id === financier.id
+      );
+      
+      const relatedAhjIds = new Set(
+        financierProjects
+          .map(p => p.ahj?.id)
+          .filter((id): id is string => Boolean(id))
+      );
+      const relatedUtilityIds = new Set(
+        financierProjects
+          .map(p => p.utility?.id)
+          .filter((id): id is string => Boolean(id))
+      );
+      
+      return {
+        ...financier,
+        relatedAhjCount: relatedAhjIds.size,
+        relatedUtilityCount: relatedUtilityIds.size,
+        relatedAhjIds: Array.from(relatedAhjIds),
+        relatedUtilityIds: Array.from(relatedUtilityIds)
       };
     });
     
@@ -987,6 +1199,24 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         return { ...utility, distance, projectCount };
       });
       
+      // Calculate distances for Financiers
+      filteredFinanciers = filteredFinanciers.map(financier => {
+        let distance = Infinity;
+        // Only calculate distance if coordinates are valid
+        if (financier.latitude && financier.longitude && financier.coordStatus === 'valid') {
+          distance = calculateDistance(
+            userLocation.latitude,
+            userLocation.longitude,
+            financier.latitude,
+            financier.longitude
+          );
+        }
+        
+        // Always calculate project count regardless of coordinate validity
+        const projectCount = rawData.projects.filter(p => p.financier_id === financier.id).length;
+        return { ...financier, distance, projectCount };
+      });
+      
     } else {
       // No user location available, set default distance
       // But still calculate project counts
@@ -1009,11 +1239,26 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           projectCount
         };
       });
+      
+      filteredFinanciers = filteredFinanciers.map(financier => {
+        // Calculate project count
+        const projectCount = rawData.projects.filter(p => p.financier_id === financier.id).length;
+        return {
+          ...financier,
+          distance: Infinity,
+          projectCount
+        };
+      });
     }
     
+    // 7b. Attach time-to-milestone stats, from every project like the project counts
+    filteredAhjs = filteredAhjs.map(ahj => ({ ...ahj, milestoneTimings: milestoneTimings.ahj[ahj.id] }));
+    filteredUtilities = filteredUtilities.map(utility => ({ ...utility, milestoneTimings: milestoneTimings.utility[utility.id] }));
+    filteredFinanciers = filteredFinanciers.map(financier => ({ ...financier, milestoneTimings: milestoneTimings.financier[financier.id] }));
+    
     // 8. Apply entity sorting
     // Sort entities by distance (if available), then project count, then name
-    filteredAhjs.sort((a, b) => {
+    const compareEntities = (a: EntityData, b: EntityData) => {
       // Check if user location is available
       if (userLocation) {
         // Check if entities have valid coordinates
@@ -1040,59 +1285,41 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       
       // Finally sort alphabetically
       return a.name.localeCompare(b.name);
-    });
+    };
     
-    // Sort utilities using the same logic
-    filteredUtilities.sort((a, b) => {
-      // Check if user location is available
-      if (userLocation) {
-        // Check if entities have valid coordinates
-        const aHasValidCoords = a.latitude && a.longitude && a.coordStatus === 'valid';
-        const bHasValidCoords = b.latitude && b.longitude && b.coordStatus === 'valid';
-        
-        // If one entity has valid coordinates and the other doesn't, prioritize the one with coordinates
-        if (aHasValidCoords && !bHasValidCoords) return -1; // A comes first
-        if (!aHasValidCoords && bHasValidCoords) return 1;  // B comes first
-        
-        // If both have valid coordinates, sort by distance
-        if (aHasValidCoords && bHasValidCoords) {
-          // Direct distance comparison - closest first
-          if (a.distance !== b.distance) {
-            return a.distance - b.distance; // Ascending (closest first)
-          }
-        }
-      }
-      
-      // If no user location or distances are equal, fall back to project count
-      if (a.projectCount !== b.projectCount) {
-        return b.projectCount - a.projectCount; // Descending (most projects first)
-      }
-      
-      // Finally sort alphabetically
-      return a.name.localeCompare(b.name);
-    });
+    filteredAhjs.sort(compareEntities);
+    filteredUtilities.sort(compareEntities);
+    filteredFinanciers.sort(compareEntities);
 
     // Create the final filtered data object
     const finalFilteredData = {
       projects: filteredProjects,
       ahjs: filteredAhjs,
       utilities: filteredUtilities,
-      financiers: rawData.financiers // Financiers might not need filtering
+      financiers: filteredFinanciers
     };
     
     // Return the final filtered data
     return finalFilteredData;
-  }, [rawData, processedEntities, filters, userLocation]);
+  }, [rawData, processedEntities, milestoneTimings, filters, userLocation, mapAreaData]);
 
   // Hydrate data from server
   const hydrateFromServer = useCallback((serverData: any) => {
     if (!serverData) return;
     
     // Set loading state to false since we have data
+    // The server rendered the first page for its filters and sort, so that query
+    // only needs to be fetched again if the client resolves it differently
+    hasLoadedProjectsRef.current = true;
+    loadedProjectQueryKeyRef.current = JSON.stringify(
+      getProjectQueryParams(serverData.filters || [], serverData.sortOptions || { field: 'name', direction: 'asc' })
+    );
     setRawData(prev => {
       const newState = {
         ...prev,
         projects: serverData.projects || [],
+        projectTotal: serverData.projectTotal ?? null,
+        nextCursor: serverData.nextCursor ?? null,
         ahjs: serverData.ahjs || [],
         utilities: serverData.utilities || [],
         financiers: serverData.financiers || [],
@@ -1106,8 +1333,8 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     if (serverData.filters && Array.isArray(serverData.filters)) {
       // Clear existing filters first
       setFilters(prev => ({
-        ...prev,
-        filters: []
+        filters: [],
+        sortOptions: serverData.sortOptions || prev.sortOptions
       }));
       
       // Add each filter from server data
@@ -1134,6 +1361,18 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     // Filtered data
     ...filteredData,
     
+    // Project pages
+    projectTotal: rawData.projectTotal,
+    hasMoreProjects: rawData.nextCursor !== null,
+    isLoadingMoreProjects,
+    loadMoreProjects,
+    fetchAllFilteredProjects,
+    
+    // Map area
+    mapArea,
+    isMapAreaLoading,
+    loadMapArea,
+    
     // User location
     userLocation,
     setUserLocation,
@@ -1148,7 +1387,9 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     // Filter actions
     addFilter,
     removeFilter,
+    updateFilter,
     clearFilters,
+    applyFilterState,
     
     // Search functionality
     searchTerms,
@@ -0,0 +1,236 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useAuth } from '@/utils/AuthContext';
+import { useData } from '@/contexts/DataContext';
+import { OptimizedRoute, RouteStop, optimizeRoute } from '@/utils/routeOptimizer';
+import { MapArea } from '@/utils/geo';
+import {
+  KnockPlan,
+  NewKnockPlanItem,
+  addKnockPlanItem,
+  createKnockPlan,
+  deleteKnockPlan,
+  fetchKnockPlans,
+  removeKnockPlanItem,
+  renameKnockPlan,
+  updateKnockPlanItemNotes
+} from '@/utils/knockPlans';
+
+// Name given to the plan created automatically the first time a rep adds something
+const DEFAULT_PLAN_NAME = 'My Knock Plan';
+
+interface KnockPlanContextType {
+  // The signed-in rep's plans and the one new items are added to
+  plans: KnockPlan[];
+  activePlan: KnockPlan | null;
+  setActivePlanId: (planId: string) => void;
+
+  // Loading and error states
+  isLoading: boolean;
+  error: string | null;
+
+  // Plan panel visibility
+  isPanelOpen: boolean;
+  setPanelOpen: (open: boolean) => void;
+
+  // Plan actions
+  createPlan: (name: string) => Promise<void>;
+  renamePlan: (planId: string, name: string) => Promise<void>;
+  deletePlan: (planId: string) => Promise<void>;
+
+  // Item actions (items are added to the active plan)
+  addAhjToPlan: (ahj: { id: string; name: string }) => Promise<void>;
+  addAreaToPlan: (area: MapArea, label: string) => Promise<void>;
+  updateItemNotes: (itemId: string, notes: string) => Promise<void>;
+  removeItem: (itemId: string) => Promise<void>;
+  isAhjInActivePlan: (ahjId: string) => boolean;
+
+  // Optimized knocking route (drawn on the map), starting from the user's location
+  route: OptimizedRoute | null;
+  planRoute: (stops: RouteStop[]) => void;
+  clearRoute: () => void;
+}
+
+const KnockPlanContext = createContext<KnockPlanContextType | null>(null);
+
+/**
+ * Provides the signed-in rep's knock plans to the app
+ * Plans are only loaded for users with a rep ID.
+ */
+export const KnockPlanProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { userProfile } = useAuth();
+  const { userLocation } = useData();
+  const repId = userProfile?.rep_id || null;
+
+  const [plans, setPlans] = useState<KnockPlan[]>([]);
+  const [activePlanId, setActivePlanId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPanelOpen, setPanelOpen] = useState(false);
+  const [route, setRoute] = useState<OptimizedRoute | null>(null);
+
+  // Load the rep's plans whenever the signed-in rep changes
+  useEffect(() => {
+    if (!repId) {
+      setPlans([]);
+      setActivePlanId(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchKnockPlans(repId)
+      .then(loadedPlans => {
+        if (cancelled) return;
+        setPlans(loadedPlans);
+        setActivePlanId(current =>
+          loadedPlans.some(plan => plan.id === current) ? current : loadedPlans[0]?.id || null
+        );
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('[KnockPlans] Failed to load knock plans:', err);
+        setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [repId]);
+
+  const activePlan = plans.find(plan => plan.id === activePlanId) || null;
+
+  // Run an action, surfacing failures through `error`
+  const runAction = useCallback(async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      console.error('[KnockPlans] Action failed:', err);
+      setError(err instanceof Error ? err.message : 'Knock plan update failed');
+    }
+  }, []);
+
+  const createPlan = useCallback((name: string) => runAction(async () => {
+    if (!repId) throw new Error('Only reps can create knock plans');
+
+    const plan = await createKnockPlan(repId, name.trim() || DEFAULT_PLAN_NAME);
+    setPlans(prev => [plan, ...prev]);
+    setActivePlanId(plan.id);
+  }), [repId, runAction]);
+
+  const renamePlan = useCallback((planId: string, name: string) => runAction(async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    await renameKnockPlan(planId, trimmed);
+    setPlans(prev => prev.map(plan => plan.id === planId ? { ...plan, name: trimmed } : plan));
+  }), [runAction]);
+
+  const deletePlan = useCallback((planId: string) => runAction(async () => {
+    await deleteKnockPlan(planId);
+    setPlans(prev => {
+      const remaining = prev.filter(plan => plan.id !== planId);
+      setActivePlanId(current => current === planId ? remaining[0]?.id || null : current);
+      return remaining;
+    });
+  }), [runAction]);
+
+  // Add an item to the active plan, creating a default plan the first time
+  const addItem = useCallback((item: NewKnockPlanItem) => runAction(async () => {
+    if (!repId) throw new Error('Only reps can build knock plans');
+
+    let plan = activePlan;
+    if (!plan) {
+      plan = await createKnockPlan(repId, DEFAULT_PLAN_NAME);
+      const created = plan;
+      setPlans(prev => [created, ...prev]);
+      setActivePlanId(created.id);
+    }
+
+    const planId = plan.id;
+    const added = await addKnockPlanItem(planId, item);
+    setPlans(prev => prev.map(existing =>
+      existing.id === planId ? { ...existing, items: [...existing.items, added] } : existing
+    ));
+    setPanelOpen(true);
+  }), [repId, activePlan, runAction]);
+
+  const isAhjInActivePlan = useCallback((ahjId: string) => {
+    return !!activePlan?.items.some(item => item.item_type === 'ahj' && item.ahj_item_id === ahjId);
+  }, [activePlan]);
+
+  const addAhjToPlan = useCallback(async (ahj: { id: string; name: string }) => {
+    if (isAhjInActivePlan(ahj.id)) {
+      setPanelOpen(true);
+      return;
+    }
+    await addItem({ type: 'ahj', ahjId: ahj.id, label: ahj.name });
+  }, [addItem, isAhjInActivePlan]);
+
+  const addAreaToPlan = useCallback((area: MapArea, label: string) => {
+    return addItem({ type: 'area', area, label });
+  }, [addItem]);
+
+  const updateItemNotes = useCallback((itemId: string, notes: string) => runAction(async () => {
+    await updateKnockPlanItemNotes(itemId, notes);
+    setPlans(prev => prev.map(plan => ({
+      ...plan,
+      items: plan.items.map(item => item.id === itemId ? { ...item, notes: notes || null } : item)
+    })));
+  }), [runAction]);
+
+  const removeItem = useCallback((itemId: string) => runAction(async () => {
+    await removeKnockPlanItem(itemId);
+    setPlans(prev => prev.map(plan => ({
+      ...plan,
+      items: plan.items.filter(item => item.id !== itemId)
+    })));
+  }), [runAction]);
+
+  const planRoute = useCallback((stops: RouteStop[]) => {
+    const optimized = optimizeRoute(stops, userLocation);
+    console.log(`[KnockPlans] Planned route through ${optimized.stops.length} stops (${optimized.totalMiles.toFixed(1)} mi)`);
+    setRoute(optimized.stops.length > 0 ? optimized : null);
+  }, [userLocation]);
+
+  const clearRoute = useCallback(() => setRoute(null), []);
+
+  const value: KnockPlanContextType = {
+    plans,
+    activePlan,
+    setActivePlanId,
+    isLoading,
+    error,
+    isPanelOpen,
+    setPanelOpen,
+    createPlan,
+    renamePlan,
+    deletePlan,
+    addAhjToPlan,
+    addAreaToPlan,
+    updateItemNotes,
+    removeItem,
+    isAhjInActivePlan,
+    route,
+    planRoute,
+    clearRoute
+  };
+
+  return <KnockPlanContext.Provider value={value}>{children}</KnockPlanContext.Provider>;
+};
+
+// Custom hook to use the knock plan context
+export const useKnockPlans = () => {
+  const context = useContext(KnockPlanContext);
+  if (!context) {
+    throw new Error('useKnockPlans must be used within a KnockPlanProvider');
+  }
+  return context;
+};
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/utils/supabaseClient';
 import { extractCoordinates, extractEntityName, extractClassification } from '@/utils/dataProcessing';
+import { MilestoneTiming } from '@/utils/milestoneTiming';
 
 // Define types for entity data
 export interface EntityData {
@@ -16,8 +17,13 @@ export interface EntityData {
   // Relationship data
   relatedUtilityCount?: number;
   relatedAhjCount?: number;
+  relatedFinancierCount?: number;
   relatedUtilityIds?: string[];
   relatedAhjIds?: string[];
+  relatedFinancierIds?: string[];
+  
+  // Days from contract to each milestone, for entities with timed projects
+  milestoneTimings?: MilestoneTiming[];
 }
 
 // Cache keys
@@ -37,11 +43,12 @@ function loadFromCache() {
 }
 
 // Function to save entities to cache
-function saveToCache(ahjs: EntityData[], utilities: EntityData[]) {
+function saveToCache(ahjs: EntityData[], utilities: EntityData[], financiers: EntityData[]) {
   try {
     const cacheData = {
       ahjs,
       utilities,
+      financiers,
       timestamp: Date.now()
     };
     localStorage.setItem(ENTITY_CACHE_KEY, JSON.stringify(cacheData));
@@ -54,25 +61,28 @@ function saveToCache(ahjs: EntityData[], utilities: EntityData[]) {
 export interface ExternalEntityData {
   ahjs?: any[];
   utilities?: any[];
+  financiers?: EntityData[];
 }
 
 // Define the return type for the useEntities hook
 export interface UseEntitiesResult {
   ahjs: EntityData[];
   utilities: EntityData[];
+  financiers: EntityData[];
   isLoading: boolean;
   error: string | null;
   calculateDistances: (userLocation: { latitude: number; longitude: number } | null) => void;
 }
 
 /**
- * Custom hook to fetch and manage AHJ and Utility entities
+ * Custom hook to fetch and manage AHJ, Utility and Financier entities
  * Can accept external data from useProjects to avoid redundant fetching
  */
 export const useEntities = (externalData?: ExternalEntityData): UseEntitiesResult => {
-  // State for AHJs and Utilities
+  // State for AHJs, Utilities and Financiers
   const [ahjs, setAhjs] = useState<EntityData[]>([]);
   const [utilities, setUtilities] = useState<EntityData[]>([]);
+  const [financiers, setFinanciers] = useState<EntityData[]>([]);
   
   // Loading and error states
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -129,9 +139,24 @@ export const useEntities = (externalData?: ExternalEntityData): UseEntitiesResul
       return { ...utility, distance: Number.MAX_VALUE }; // Set a very large distance for entities without coordinates
     });
     
+    // Calculate distances for financiers
+    const updatedFinanciers = financiers.map(financier => {
+      if (financier.latitude && financier.longitude) {
+        const distance = calculateHaversineDistance(
+          userLocation.latitude,
+          userLocation.longitude,
+          financier.latitude,
+          financier.longitude
+        );
+        return { ...financier, distance };
+      }
+      return { ...financier, distance: Number.MAX_VALUE }; // Set a very large distance for entities without coordinates
+    });
+    
     setAhjs(updatedAhjs);
     setUtilities(updatedUtilities);
-  }, [ahjs, utilities]);
+    setFinanciers(updatedFinanciers);
+  }, [ahjs, utilities, financiers]);
 
   // Function to process external entity data from useProjects
   const processExternalData = useCallback((data: ExternalEntityData) => {
@@ -144,6 +169,7 @@ export const useEntities = (externalData?: ExternalEntityData): UseEntitiesResul
       // Create maps to deduplicate entities
       const ahjMap = new Map<string, EntityData>();
       const utilityMap = new Map<string, EntityData>();
+      const financierMap = new Map<string, EntityData>();
       
       // Process AHJs
       if (data.ahjs && data.ahjs.length > 0) {
@@ -185,17 +211,41 @@ export const useEntities = (externalData?: ExternalEntityData): UseEntitiesResul
         });
       }
       
+      // Process Financiers
+      if (data.financiers && data.financiers.length > 0) {
+        // Process each financier and add to map with ID as key
+        data.financiers.forEach(financier => {
+          const id = financier.id;
+          if (!id) return; // Skip entities without IDs
+          
+          if (!financierMap.has(id)) {
+            financierMap.set(id, {
+              id,
+              name: extractEntityName(financier.name || '', 'financier'),
+              classification: extractClassification(financier.classification || ''),
+              projectCount: 0, // Will be calculated later if needed
+              distance: 0,
+              latitude: financier.latitude,
+              longitude: financier.longitude,
+              coordStatus: financier.coordStatus
+            });
+          }
+        });
+      }
+      
       // Convert maps to arrays
       const processedAhjs = Array.from(ahjMap.values());
       const processedUtilities = Array.from(utilityMap.values());
+      const processedFinanciers = Array.from(financierMap.values());
       
       // Update state with processed data
       setAhjs(processedAhjs);
       setUtilities(processedUtilities);
+      setFinanciers(processedFinanciers);
       
       // Save processed data to cache
-      if (processedAhjs.length > 0 || processedUtilities.length > 0) {
-        saveToCache(processedAhjs, processedUtilities);
+      if (processedAhjs.length > 0 || processedUtilities.length > 0 || processedFinanciers.length > 0) {
+        saveToCache(processedAhjs, processedUtilities, processedFinanciers);
       }
     } catch (err) {
       setError('Error processing entity data');
@@ -227,6 +277,7 @@ export const useEntities = (externalData?: ExternalEntityData): UseEntitiesResul
           if (isMounted.current && fetchId === fetchIdRef.current) {
             setAhjs(cachedData.ahjs || []);
             setUtilities(cachedData.utilities || []);
+            setFinanciers(cachedData.financiers || []);
             setError(null);
             setIsLoading(false);
             return;
@@ -234,10 +285,11 @@ export const useEntities = (externalData?: ExternalEntityData): UseEntitiesResul
         }
       }
       
-      // Fetch AHJs and Utilities from Supabase
-      const [ahjResult, utilityResult] = await Promise.all([
+      // Fetch AHJs, Utilities and Financiers from Supabase
+      const [ahjResult, utilityResult, financierResult] = await Promise.all([
         supabase.from('ahj').select('*'),
-        supabase.from('utility').select('*')
+        supabase.from('utility').select('*'),
+        supabase.from('financier').select('*')
       ]);
       
       // Check if this is still the latest fetch operation
@@ -254,6 +306,12 @@ export const useEntities = (externalData?: ExternalEntityData): UseEntitiesResul
           return;
         }
         
+        if (financierResult.error) {
+          setError('Error fetching Financier data: ' + financierResult.error.message);
+          setIsLoading(false);
+          return;
+        }
+        
         // Process AHJs
         const processedAhjs = (ahjResult.data || []).map(ahj => ({
           id: ahj.id,
@@ -274,13 +332,24 @@ export const useEntities = (externalData?: ExternalEntityData): UseEntitiesResul
           ...extractCoordinates(utility.coordinates || utility.raw_payload)
         }));
         
+        // Process Financiers
+        const processedFinanciers = (financierResult.data || []).map(financier => ({
+          id: financier.id,
+          name: extractEntityName(financier.name || '', 'financier'),
+          classification: extractClassification(financier.classification || ''),
+          projectCount: 0, // Will be calculated later if needed
+          distance: 0,
+          ...extractCoordinates(financier.coordinates || financier.raw_payload)
+        }));
+        
         // Update state with processed data
         setAhjs(processedAhjs);
         setUtilities(processedUtilities);
+        setFinanciers(processedFinanciers);
         setIsLoading(false);
         
         // Save processed data to cache
-        saveToCache(processedAhjs, processedUtilities);
+        saveToCache(processedAhjs, processedUtilities, processedFinanciers);
       }
     } catch (err) {
       // Only update state if this is still the latest fetch operation
@@ -316,6 +385,7 @@ export const useEntities = (externalData?: ExternalEntityData): UseEntitiesResul
   return {
     ahjs,
     utilities,
+    financiers,
     isLoading,
     error,
     calculateDistances
@@ -2,52 +2,105 @@ import { useState, useEffect, useCallback } from 'react';
 import { Project } from '@/utils/types';
 import { supabase } from '@/utils/supabaseClient';
 
+// Related entity IDs in each direction between AHJs, utilities and financiers
+interface RelationshipMaps {
+  ahjToUtility: Map<string, Set<string>>;
+  utilityToAhj: Map<string, Set<string>>;
+  ahjToFinancier: Map<string, Set<string>>;
+  financierToAhj: Map<string, Set<string>>;
+  utilityToFinancier: Map<string, Set<string>>;
+  financierToUtility: Map<string, Set<string>>;
+}
+
+const createEmptyMaps = (): RelationshipMaps => ({
+  ahjToUtility: new Map(),
+  utilityToAhj: new Map(),
+  ahjToFinancier: new Map(),
+  financierToAhj: new Map(),
+  utilityToFinancier: new Map(),
+  financierToUtility: new Map()
+});
+
+// Copy maps so state is never mutated directly
+const cloneMaps = (maps: RelationshipMaps): RelationshipMaps => ({
+  ahjToUtility: new Map(maps.ahjToUtility),
+  utilityToAhj: new Map(maps.utilityToAhj),
+  ahjToFinancier: new Map(maps.ahjToFinancier),
+  financierToAhj: new Map(maps.financierToAhj),
+  utilityToFinancier: new Map(maps.utilityToFinancier),
+  financierToUtility: new Map(maps.financierToUtility)
+});
+
+/**
+ * Record a two-way link between two entities
+ * @returns true when the link was not already known
+ */
+const link = (
+  forward: Map<string, Set<string>>,
+  backward: Map<string, Set<string>>,
+  fromId: string | undefined,
+  toId: string | undefined
+): boolean => {
+  if (!fromId || !toId) return false;
+
+  const isNew = !forward.get(fromId)?.has(toId);
+
+  // Sets are replaced rather than mutated, since cloned maps share them
+  forward.set(fromId, new Set(forward.get(fromId)).add(toId));
+  backward.set(toId, new Set(backward.get(toId)).add(fromId));
+
+  return isNew;
+};
+
 /**
- * Custom hook to track relationships between AHJs and Utilities based on projects
- * This allows us to filter one entity type based on selection of the other
+ * Link the AHJ, utility and financier of a single project
+ * @returns The number of new AHJ-utility links
+ */
+const linkProject = (
+  maps: RelationshipMaps,
+  ahjId: string | undefined,
+  utilityId: string | undefined,
+  financierId: string | undefined
+): number => {
+  const added = link(maps.ahjToUtility, maps.utilityToAhj, ahjId, utilityId) ? 1 : 0;
+  link(maps.ahjToFinancier, maps.financierToAhj, ahjId, financierId);
+  link(maps.utilityToFinancier, maps.financierToUtility, utilityId, financierId);
+  return added;
+};
+
+/**
+ * Custom hook to track relationships between AHJs, Utilities and Financiers based on projects
+ * This allows us to filter one entity type based on selection of another
  */
 export function useEntityRelationships(projects: Project[]) {
   // Create state for relationship maps
-  const [ahjToUtilityMap, setAhjToUtilityMap] = useState<Map<string, Set<string>>>(new Map());
-  const [utilityToAhjMap, setUtilityToAhjMap] = useState<Map<string, Set<string>>>(new Map());
-  
+  const [maps, setMaps] = useState<RelationshipMaps>(createEmptyMaps);
+
   // Process projects to build initial relationship maps
   useEffect(() => {
     // Create new maps to avoid mutating state directly
-    const newAhjToUtilityMap = new Map<string, Set<string>>();
-    const newUtilityToAhjMap = new Map<string, Set<string>>();
-    
+    const newMaps = createEmptyMaps();
+
     // Process the provided projects (which may be filtered by the user)
     projects.forEach(project => {
-      const ahjId = project.ahj?.id;
-      const utilityId = project.utility?.id;
-      
-      if (ahjId && utilityId) {
-        // Add utility to AHJ's related utilities
-        if (!newAhjToUtilityMap.has(ahjId)) {
-          newAhjToUtilityMap.set(ahjId, new Set());
-        }
-        newAhjToUtilityMap.get(ahjId)!.add(utilityId);
-        
-        // Add AHJ to utility's related AHJs
-        if (!newUtilityToAhjMap.has(utilityId)) {
-          newUtilityToAhjMap.set(utilityId, new Set());
-        }
-        newUtilityToAhjMap.get(utilityId)!.add(ahjId);
-      }
+      linkProject(
+        newMaps,
+        project.ahj?.id,
+        project.utility?.id,
+        project.financier?.id || project.financier_id
+      );
     });
-    
+
     // Update state with new maps
-    setAhjToUtilityMap(newAhjToUtilityMap);
-    setUtilityToAhjMap(newUtilityToAhjMap);
-    
+    setMaps(newMaps);
+
     console.log(`[Relationships] Initial maps created from ${projects.length} projects`);
   }, [projects]);
-  
+
   // Fetch all project relationships from Supabase to ensure we have complete data
   useEffect(() => {
     let isMounted = true;
-    
+
     const fetchAllRelationships = async () => {
       // Set a timeout to prevent the operation from hanging indefinitely
       const timeoutPromise = new Promise((_, reject) => {
@@ -55,106 +108,96 @@ export function useEntityRelationships(projects: Project[]) {
           reject(new Error('[Relationships] Timeout reached while fetching relationships'));
         }, 10000); // 10 second timeout
       });
-      
+
       try {
         console.log('[Relationships] Fetching all project relationships from Supabase...');
-        
+
         // Race the fetch operation against the timeout
+        // The masked view lists every project, while podio_data itself is limited by RLS
         const fetchPromise = supabase
-          .from('podio_data')
-          .select('ahj_item_id, utility_company_item_id');
-          
+          .from('masked_projects')
+          .select('ahj_item_id, utility_company_item_id, fin_id');
+
         // Use Promise.race to either get the data or timeout
         const { data: projectData, error } = await Promise.race([
           fetchPromise,
           timeoutPromise
         ]) as any;
-        
+
         if (error) {
           console.error('Error fetching project relationship data:', error);
           return;
         }
-        
+
         if (!isMounted) return;
-        
-        // Create new maps based on current state
-        const newAhjToUtilityMap = new Map(ahjToUtilityMap);
-        const newUtilityToAhjMap = new Map(utilityToAhjMap);
-        
-        // Process all project data to build complete relationship maps
-        let relationshipsAdded = 0;
-        
-        (projectData || []).forEach((project: any) => {
-          const ahjId = project.ahj_item_id;
-          const utilityId = project.utility_company_item_id;
-          
-          if (ahjId && utilityId) {
-            // Add utility to AHJ's related utilities
-            if (!newAhjToUtilityMap.has(ahjId)) {
-              newAhjToUtilityMap.set(ahjId, new Set());
-              relationshipsAdded++;
-            } else if (!newAhjToUtilityMap.get(ahjId)!.has(utilityId)) {
-              relationshipsAdded++;
-            }
-            newAhjToUtilityMap.get(ahjId)!.add(utilityId);
-            
-            // Add AHJ to utility's related AHJs
-            if (!newUtilityToAhjMap.has(utilityId)) {
-              newUtilityToAhjMap.set(utilityId, new Set());
-            }
-            newUtilityToAhjMap.get(utilityId)!.add(ahjId);
-          }
+
+        // Process all project data on top of the current maps
+        setMaps(currentMaps => {
+          const newMaps = cloneMaps(currentMaps);
+          let relationshipsAdded = 0;
+
+          (projectData || []).forEach((project: any) => {
+            relationshipsAdded += linkProject(
+              newMaps,
+              project.ahj_item_id?.toString(),
+              project.utility_company_item_id?.toString(),
+              project.fin_id?.toString()
+            );
+          });
+
+          console.log(`[Relationships] Added ${relationshipsAdded} new relationships from Supabase data`);
+          return newMaps;
         });
-        
-        console.log(`[Relationships] Added ${relationshipsAdded} new relationships from Supabase data`);
-        
-        // Update state with new maps
-        setAhjToUtilityMap(newAhjToUtilityMap);
-        setUtilityToAhjMap(newUtilityToAhjMap);
       } catch (err) {
         console.error('Error processing project relationships:', err);
-        
-        // Even if there's an error, ensure we have valid maps to prevent UI issues
-        if (isMounted) {
-          // Initialize empty maps if we haven't already
-          if (ahjToUtilityMap.size === 0) {
-            setAhjToUtilityMap(new Map());
-          }
-          if (utilityToAhjMap.size === 0) {
-            setUtilityToAhjMap(new Map());
-          }
-        }
       }
     };
-    
+
     fetchAllRelationships();
-    
+
     return () => {
       isMounted = false;
     };
   }, []); // Empty dependency array ensures this only runs once on mount
-  
+
   // Helper functions to get related entities - memoized to prevent recreation on every render
   const getRelatedUtilities = useCallback((ahjId: string | null) => {
     if (!ahjId) return null;
-    return ahjToUtilityMap.get(ahjId) || new Set();
-  }, [ahjToUtilityMap]);
-  
+    return maps.ahjToUtility.get(ahjId) || new Set<string>();
+  }, [maps]);
+
   const getRelatedAhjs = useCallback((utilityId: string | null) => {
     if (!utilityId) return null;
-    return utilityToAhjMap.get(utilityId) || new Set();
-  }, [utilityToAhjMap]);
-  
+    return maps.utilityToAhj.get(utilityId) || new Set<string>();
+  }, [maps]);
+
+  // Financier relationships, looked up from either side
+  const getRelatedFinanciers = useCallback((entityId: string | null, entityType: 'ahj' | 'utility') => {
+    if (!entityId) return null;
+    const source = entityType === 'ahj' ? maps.ahjToFinancier : maps.utilityToFinancier;
+    return source.get(entityId) || new Set<string>();
+  }, [maps]);
+
+  const getFinancierRelations = useCallback((financierId: string | null, entityType: 'ahj' | 'utility') => {
+    if (!financierId) return null;
+    const source = entityType === 'ahj' ? maps.financierToAhj : maps.financierToUtility;
+    return source.get(financierId) || new Set<string>();
+  }, [maps]);
+
   // Debug function to log relationship counts
   useEffect(() => {
-    console.log(`[Relationships] AHJ to Utility map size: ${ahjToUtilityMap.size}`);
-    console.log(`[Relationships] Utility to AHJ map size: ${utilityToAhjMap.size}`);
-  }, [ahjToUtilityMap, utilityToAhjMap]);
-  
+    console.log(`[Relationships] AHJ to Utility map size: ${maps.ahjToUtility.size}`);
+    console.log(`[Relationships] Utility to AHJ map size: ${maps.utilityToAhj.size}`);
+    console.log(`[Relationships] Financier map sizes: ${maps.financierToAhj.size} (AHJ), ${maps.financierToUtility.size} (Utility)`);
+  }, [maps]);
+
   // Return the relationship data and helper functions
   return {
     getRelatedUtilities,
     getRelatedAhjs,
-    hasRelationships: ahjToUtilityMap.size > 0 || utilityToAhjMap.size > 0
+    getRelatedFinanciers,
+    getFinancierRelations,
+    hasRelationships: maps.ahjToUtility.size > 0 || maps.utilityToAhj.size > 0 ||
+      maps.ahjToFinancier.size > 0 || maps.utilityToFinancier.size > 0
   };
 }
@@ -1,8 +1,10 @@
-import { useState, useEffect } from 'react';
-import { supabase } from '@/utils/supabaseClient';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import { Project, ProjectFilter } from '@/utils/types';
 import { useAuth } from '@/utils/AuthContext';
 import { isQualified } from '@/utils/qualificationStatus';
+import { fetchProjectPage, PROJECT_PAGE_SIZE } from '@/utils/projectsApi';
+import { getProjectQueryParams } from '@/utils/filterExpressions';
+import { applyProjectMasking } from '@/utils/projectMasking';
 
 export function useProjects(initialFilters: ProjectFilter[] = []) {
   const [projects, setProjects] = useState<Project[]>([]);
@@ -12,21 +14,45 @@ export function useProjects(initialFilters: ProjectFilter[] = []) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [show45DayQualified, setShow45DayQualified] = useState<'all' | 'qualified' | 'not-qualified'>('all');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState<number | null>(null);
   const { user, userProfile, isAdmin } = useAuth();
+  
+  // Filters the server applies to each page; the filters below still run on the pages
+  const queryParams = useMemo(() => {
+    const params = getProjectQueryParams(filters);
+    if (searchTerms.length === 1 && !/[(),]/.test(searchTerms[0]) && searchTerms[0].trim()) {
+      params.search = searchTerms[0].trim();
+    }
+    if (show45DayQualified === 'qualified') {
+      params.qualified45Day = true;
+    }
+    return params;
+  }, [filters, searchTerms, show45DayQualified]);
+  const queryKey = JSON.stringify(queryParams);
+  
+  // Only the unfiltered first page is cached, so the cache never stands in for other filters
+  const isUnfilteredQuery = queryKey === '{}';
 
   // Cache key for projects data
-  const PROJECTS_CACHE_KEY = 'aveyo_projects_cache';
+  // Scoped to the signed-in user so a cached payload is never shown to another user
+  const PROJECTS_CACHE_KEY = `aveyo_projects_cache_${user?.id || 'anonymous'}`;
   
   // Function to load projects from cache
   const loadFromCache = () => {
     try {
       // Check if we're in a browser environment
-      if (typeof window === 'undefined') return null;
+      if (typeof window === 'undefined' || !isUnfilteredQuery) return null;
       
       const cachedData = localStorage.getItem(PROJECTS_CACHE_KEY);
       if (!cachedData) return null;
       
       const parsed = JSON.parse(cachedData);
+      
+      // Re-apply masking so a cached payload never bypasses the milestone rules
+      if (Array.isArray(parsed.projects)) {
+        parsed.projects = applyProjectMasking(parsed.projects, { rep_id: userProfile?.rep_id, isAdmin });
+      }
       return parsed;
     } catch (error) {
       return null;
@@ -37,7 +63,7 @@ export function useProjects(initialFilters: ProjectFilter[] = []) {
   const saveToCache = (projects: Project[]) => {
     try {
       // Check if we're in a browser environment
-      if (typeof window === 'undefined') return;
+      if (typeof window === 'undefined' || !isUnfilteredQuery) return;
       
       const cacheData = {
         projects,
@@ -49,8 +75,11 @@ export function useProjects(initialFilters: ProjectFilter[] = []) {
     }
   };
   
-  // Fetch all project data
+  // Fetch the first page of projects for the current filters
   useEffect(() => {
+    // Set when the filters change again before the page arrives
+    let isStale = false;
+    
     const fetchData = async () => {
       setIsLoading(true);
       
@@ -71,6 +100,10 @@ export function useProjects(initialFilters: ProjectFilter[] = []) {
         }
       }, 30000); // 30 second timeout (increased from 15s)
       
+      // Projects are masked on the server; the same milestone rules are re-applied
+      // on the client so the UI and the payload always agree
+      const viewer = { rep_id: userProfile?.rep_id, isAdmin };
+      
       // Try to load from cache first before making any network requests
       const cachedData = loadFromCache();
       const cacheAge = cachedData ? (Date.now() - cachedData.timestamp) / (60 * 1000) : null;
@@ -97,97 +130,22 @@ export function useProjects(initialFilters: ProjectFilter[] = []) {
           }, FETCH_TIMEOUT);
         });
         
-        // Fetch all data in parallel to reduce total wait time
-        const [projectsResult, ahjResult, utilityResult, financierResult] = await Promise.all([
-          // Fetch projects with timeout
-          Promise.race([
-            supabase.from('podio_data').select('*'),
-            timeoutPromise
-          ]) as Promise<any>,
-          
-          // Fetch AHJs with timeout
-          Promise.race([
-            supabase.from('ahj').select('*'),
-            timeoutPromise
-          ]) as Promise<any>,
-          
-          // Fetch utilities with timeout
-          Promise.race([
-            supabase.from('utility').select('*'),
-            timeoutPromise
-          ]) as Promise<any>,
-          
-          // Fetch financiers with timeout
-          Promise.race([
-            supabase.from('financier').select('*'),
-            timeoutPromise
-          ]) as Promise<any>
-        ]);
-        
-        // Clear the timeout since we got responses
-        clearTimeout(timeoutId);
-        
-        // Extract data with proper error handling
-        const data = projectsResult.data || [];
-        console.log('[Projects] Fetched podio_data:', data.length, 'records');
-        
-        if (projectsResult.error) {
-          console.error('[Projects] Error fetching podio_data:', projectsResult.error);
-          throw projectsResult.error;
-        }
-        
-        // Process related data with error handling
-        let ahjRes = { data: [] };
-        let utilityRes = { data: [] };
-        let financierRes = { data: [] };
-        
-        // Handle AHJ data
-        if (!ahjResult.error) {
-          ahjRes = ahjResult;
-        }
-        
-        // Handle Utility data
-        if (!utilityResult.error) {
-          utilityRes = utilityResult;
-        }
+        // Fetch projects from the API route, which filters them in SQL, normalizes
+        // them and masks restricted projects before they leave the server
+        const page = await Promise.race([
+          fetchProjectPage({ ...queryParams, limit: PROJECT_PAGE_SIZE }),
+          timeoutPromise
+        ]) as Awaited<ReturnType<typeof fetchProjectPage>>;
+        if (isStale) return;
         
-        // Handle Financier data
-        if (!financierResult.error) {
-          financierRes = financierResult;
-        }
+        const data = applyProjectMasking(page.projects || [], viewer);
+        setNextCursor(page.nextCursor);
+        setTotal(page.total ?? null);
         
-        // Log the fresh data received from Supabase
-        console.log('[Projects] Fresh data received:', {
-          projects: {
-            count: projectsResult.data?.length || 0,
-            sample: projectsResult.data?.length > 0 ? projectsResult.data[0] : null
-          },
-          ahjs: {
-            count: ahjRes.data?.length || 0,
-            sample: ahjRes.data?.length > 0 ? ahjRes.data[0] : null
-          },
-          utilities: {
-            count: utilityRes.data?.length || 0,
-            sample: utilityRes.data?.length > 0 ? utilityRes.data[0] : null
-          },
-          financiers: {
-            count: financierRes.data?.length || 0,
-            sample: financierRes.data?.length > 0 ? financierRes.data[0] : null
-          }
-        });
-        
-        // Create lookup maps for faster access - use the correct ID fields
-        const ahjMap = Object.fromEntries(
-          (ahjRes.data || []).map((a: any) => [a.ahj_item_id || a.id, a])
-        );
-        
-        const utilityMap = Object.fromEntries(
-          (utilityRes.data || []).map((u: any) => [u.utility_company_item_id || u.id, u])
-        );
+        // Clear the timeout since we got a response
+        clearTimeout(timeoutId);
         
-        const financierMap = Object.fromEntries(
-          (financierRes.data || []).map((f: any) => [f.fin_id || f.id, f])
-        );
+        console.log('[Projects] Fetched projects:', data.length, 'records');
         
         // If no data is found, set empty arrays and exit loading state
         if (!data || data.length === 0) {
@@ -198,106 +156,12 @@ export function useProjects(initialFilters: ProjectFilter[] = []) {
           return;
         }
         
-        // Transform data to match our Project type
-        const transformedData = (data || []).map((item: any) => {
-          const ahj = ahjMap[item.ahj_item_id] || {};
-          const utility = utilityMap[item.utility_company_item_id] || {};
-          const financier = financierMap[item.fin_id] || {};
-          
-          // Get raw payload data (fallback)
-          const raw = item.raw_payload.raw_payload || {};
-          
-          // Extract location data from raw payload
-          const address = `${raw.address || ''}, ${raw.city || ''}, ${raw.state || ''} ${raw.zip || ''}`.trim();
-          
-          // Extract coordinates from raw data
-          let lat: number | undefined = undefined;
-          let lng: number | undefined = undefined;
-          
-          // Only set coordinates if they are valid
-          if (raw.latitude && raw.longitude) {
-            const parsedLat = parseFloat(raw.latitude);
-            const parsedLng = parseFloat(raw.longitude);
-            
-            // Validate coordinates
-            if (!isNaN(parsedLat) && !isNaN(parsedLng) && 
-                parsedLat !== 0 && parsedLng !== 0 && 
-                parsedLat >= -90 && parsedLat <= 90 && 
-                parsedLng >= -180 && parsedLng <= 180) {
-              lat = parsedLat;
-              lng = parsedLng;
-            }
-          }
-          
-          // Check if project should be masked based on status and user role
-          // Only show full details if:
-          // 1. Status is "Complete" OR
-          // 2. The user is the assigned rep OR
-          // 3. The user is an admin
-          const isComplete = item.status && 
-            (item.status.toLowerCase() === 'complete' || 
-             item.status.toLowerCase() === 'completed' ||
-             item.status.toLowerCase().includes('complete'));
-             
-          // Check if user is assigned to this project
-          const isAssignedToCurrentUser = item.rep_id === userProfile?.rep_id;
-          
-          // Check if user has admin privileges
-          const hasAdminAccess = isAdmin;
-          
-          // Determine if project should be masked
-          // A project is unmasked ONLY if it's complete OR it belongs to the current user OR user is admin
-          const shouldMask = !(isComplete || isAssignedToCurrentUser || hasAdminAccess);
-          
-          return {
-            id: item.project_id || '',
-            address: shouldMask ? 'Project details restricted' : (address || 'No address'),
-            latitude: lat,
-            longitude: lng,
-            ahj: {
-              id: item.ahj_item_id || '',
-              // Access AHJ name from raw_payload.raw_payload.name
-              name: (ahj.raw_payload && 
-                    typeof ahj.raw_payload === 'object' && 
-                    ahj.raw_payload.raw_payload && 
-                    typeof ahj.raw_payload.raw_payload === 'object' ? 
-                      ahj.raw_payload.raw_payload.name : null) || 'Unknown AHJ',
-              classification: ahj.classification || ahj['eligible-for-classification'] || 'Unknown'
-            },
-            utility: {
-              id: item.utility_company_item_id || '',
-              // Access utility name from company_name
-              name: utility.company_name || 'Unknown Utility',
-              classification: utility.classification || utility['eligible-for-classification'] || 'Unknown'
-            },
-            financier: {
-              id: item.fin_id || '',
-              // Access financier name from company_name
-              name: financier.company_name || 'Unknown Financier',
-              classification: financier.classification || financier['eligible-for-classification'] || 'Unknown'
-            },
-            // Access status directly from podio_data table
-            status: shouldMask ? 'Restricted' : (item.status || 'Unknown'),
-            city: raw.city || '',
-            state: raw.state || '',
-            zip: raw.zip || '',
-            county: raw.county || '',
-            milestone: item.milestone || '',
-            qualifies45Day: item.qualifies_45_day || '',
-            isMasked: shouldMask,
-            rep_id: item.rep_id || null,
-            contract_signed_date: item.contract_signed_date || ''
-          };
-        });
-        
-        console.log('[Projects] Transformed data:', transformedData.length, 'projects');
-        
         // Save successful results to cache
-        saveToCache(transformedData);
+        saveToCache(data);
         
         // Update state with the new data
-        setProjects(transformedData);
-        setFilteredProjects(transformedData);
+        setProjects(data);
+        setFilteredProjects(data);
         setIsLoading(false);
       } catch (err: any) {
         console.error('[Projects] Error fetching project data:', err);
@@ -324,15 +188,33 @@ export function useProjects(initialFilters: ProjectFilter[] = []) {
           setFilteredProjects([]);
         }
       } finally {
-        // Always set loading to false to prevent UI from getting stuck
-        setIsLoading(false);
+        // Set loading to false to prevent UI from getting stuck (a newer request owns it when stale)
+        if (!isStale) setIsLoading(false);
         // Always clear the timeout to prevent memory leaks
         clearTimeout(timeoutId);
       }
     };
     
     fetchData();
-  }, [userProfile, isAdmin]);
+    return () => {
+      isStale = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userProfile, isAdmin, queryKey]);
+  
+  // Append the next page of projects
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return;
+    
+    try {
+      const page = await fetchProjectPage({ ...queryParams, limit: PROJECT_PAGE_SIZE, cursor: nextCursor });
+      const data = applyProjectMasking(page.projects || [], { rep_id: userProfile?.rep_id, isAdmin });
+      setProjects(prev => [...prev, ...data]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('[Projects] Error loading more projects:', err);
+    }
+  }, [nextCursor, queryParams, userProfile, isAdmin]);
 
   // Apply filters to projects
   useEffect(() => {
@@ -511,6 +393,9 @@ export function useProjects(initialFilters: ProjectFilter[] = []) {
   return {
     projects: filteredProjects,
     allProjects: projects,
+    total,
+    hasMore: nextCursor !== null,
+    loadMore,
     isLoading,
     error,
     filters,
@@ -0,0 +1,205 @@
+/**
+ * ahjLookup.ts
+ *
+ * Answers "which AHJ is this house in?": geocodes an address (or takes a point),
+ * tests it against the AHJ city boundaries and returns the AHJ with its
+ * historical project counts and the utilities that served its projects.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fetchAllRows, processAhjs, supabase } from './ServerDataService';
+import { buildAhjBoundaryFeatures } from '@/utils/ahjBoundaries';
+import { AhjLookupResult, AhjProjectCounts } from '@/utils/ahjLookupApi';
+import { GeoPoint, haversineMiles, isPointInPolygon } from '@/utils/geo';
+import { getMapboxToken } from '@/utils/mapbox';
+import { MILESTONE_PIPELINE } from '@/utils/milestones';
+import { NormalizedEntity } from '@/utils/projectNormalization';
+
+// Boundary file generated by scripts/generate-ahj-cities.js
+const BOUNDARIES_PATH = path.join(process.cwd(), 'public', 'data', 'ahj-cities.json');
+
+// Only fall back to the nearest AHJ pin when it is reasonably close
+const NEAREST_AHJ_MAX_MILES = 25;
+
+// Longest wait for a Mapbox geocoding response
+const GEOCODE_TIMEOUT_MS = 10 * 1000;
+
+// AHJs are reused for this long, so lookups don't each read the whole table;
+// a classification change shows up in lookups once the cache expires
+const AHJ_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// The boundary file is static, so it is read once per server process
+let boundariesPromise: Promise<GeoJSON.FeatureCollection | null> | null = null;
+
+let ahjCache: { ahjs: NormalizedEntity[]; loadedAt: number } | null = null;
+let ahjsPromise: Promise<NormalizedEntity[]> | null = null;
+
+/**
+ * Read the AHJ boundary file
+ * @returns null when the file hasn't been generated
+ */
+function loadBoundaries(): Promise<GeoJSON.FeatureCollection | null> {
+  if (!boundariesPromise) {
+    boundariesPromise = fs.readFile(BOUNDARIES_PATH, 'utf8')
+      .then(contents => JSON.parse(contents) as GeoJSON.FeatureCollection)
+      .catch(error => {
+        console.warn('[AhjLookup] AHJ boundaries unavailable:', error.message);
+        return null;
+      });
+  }
+
+  return boundariesPromise;
+}
+
+/**
+ * Read and normalize every AHJ, reusing a recent read
+ * Concurrent callers share the same read; failures aren't cached.
+ */
+function loadAhjs(): Promise<NormalizedEntity[]> {
+  if (ahjCache && Date.now() - ahjCache.loadedAt < AHJ_CACHE_TTL_MS) {
+    return Promise.resolve(ahjCache.ahjs);
+  }
+
+  if (!ahjsPromise) {
+    ahjsPromise = (async () => {
+      const { data, error } = await supabase.from('ahj').select('*');
+      if (error) {
+        throw new Error(`Error fetching AHJs: ${error.message}`);
+      }
+
+      const ahjs = processAhjs(data || []);
+      ahjCache = { ahjs, loadedAt: Date.now() };
+      return ahjs;
+    })().finally(() => {
+      ahjsPromise = null;
+    });
+  }
+
+  return ahjsPromise;
+}
+
+/**
+ * Geocode an address with the Mapbox Geocoding API
+ * @returns null when the address can't be found
+ */
+export async function geocodeAddress(address: string): Promise<{ location: GeoPoint; placeName: string } | null> {
+  const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(address)}.json` +
+    `?access_token=${getMapboxToken()}&country=us&types=address,postcode,place&limit=1`;
+
+  const response = await fetch(url, { cache: 'no-store', signal: AbortSignal.timeout(GEOCODE_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Geocoding failed with status ${response.status}`);
+  }
+
+  const body = await response.json();
+  const feature = body.features?.[0];
+  if (!feature?.center) return null;
+
+  const [longitude, latitude] = feature.center;
+  return { location: { latitude, longitude }, placeName: feature.place_name };
+}
+
+/**
+ * Count an AHJ's projects: all of them, completed ones and 45-day qualified ones
+ */
+async function fetchAhjProjectCounts(ahjId: string): Promise<AhjProjectCounts> {
+  const countQuery = () => supabase
+    .from('project_index')
+    .select('project_id', { count: 'exact', head: true })
+    .eq('ahj_item_id', ahjId);
+
+  const [totalResult, completedResult, qualifiedResult] = await Promise.all([
+    countQuery(),
+    countQuery().gte('milestone_rank', MILESTONE_PIPELINE.length - 1),
+    countQuery().eq('qualifies_45_day_flag', true)
+  ]);
+
+  const failed = [totalResult, completedResult, qualifiedResult].find(result => result.error);
+  if (failed?.error) {
+    throw new Error(`Error counting AHJ projects: ${failed.error.message}`);
+  }
+
+  return {
+    total: totalResult.count || 0,
+    completed: completedResult.count || 0,
+    qualified45Day: qualifiedResult.count || 0
+  };
+}
+
+/**
+ * IDs of the utilities that have served projects in an AHJ
+ */
+async function fetchAhjUtilityIds(ahjId: string): Promise<string[]> {
+  const rows = await fetchAllRows<{ utility_company_item_id: string | null }>(
+    (from, to) => supabase
+      .from('project_index')
+      .select('utility_company_item_id')
+      .eq('ahj_item_id', ahjId)
+      .not('utility_company_item_id', 'is', null)
+      .order('project_id')
+      .range(from, to),
+    'AHJ utilities'
+  );
+
+  return Array.from(new Set(rows.map(row => String(row.utility_company_item_id))));
+}
+
+/**
+ * Find the AHJ a point falls in
+ * Uses the boundary polygons first and falls back to the nearest AHJ pin.
+ */
+export async function lookupAhjAtPoint(location: GeoPoint): Promise<AhjLookupResult> {
+  const [boundaries, ahjs] = await Promise.all([loadBoundaries(), loadAhjs()]);
+  let result: AhjLookupResult = { location, matchType: 'none', ahj: null, projectCounts: null, utilityIds: [] };
+
+  // Point-in-polygon against the AHJ city boundaries
+  const boundary = boundaries
+    ? buildAhjBoundaryFeatures(boundaries, ahjs).find(feature => isPointInPolygon(location, feature.geometry))
+    : undefined;
+
+  if (boundary) {
+    result = {
+      ...result,
+      matchType: 'boundary',
+      ahj: {
+        id: boundary.properties.ahjId,
+        name: boundary.properties.ahjName,
+        classification: boundary.properties.classification
+      }
+    };
+  } else {
+    // Closest AHJ pin within range
+    let nearest: { ahj: NormalizedEntity; distance: number } | null = null;
+    for (const ahj of ahjs) {
+      if (ahj.coordStatus !== 'valid') continue;
+      const distance = haversineMiles(location, { latitude: ahj.latitude!, longitude: ahj.longitude! });
+      if (distance <= NEAREST_AHJ_MAX_MILES && (!nearest || distance < nearest.distance)) {
+        nearest = { ahj, distance };
+      }
+    }
+
+    if (nearest) {
+      const { ahj, distance } = nearest;
+      result = {
+        ...result,
+        matchType: 'nearest',
+        ahj: {
+          id: ahj.id,
+          name: ahj.name,
+          classification: ahj.classification,
+          distanceMiles: Math.round(distance * 10) / 10
+        }
+      };
+    }
+  }
+
+  if (result.ahj) {
+    [result.projectCounts, result.utilityIds] = await Promise.all([
+      fetchAhjProjectCounts(result.ahj.id),
+      fetchAhjUtilityIds(result.ahj.id)
+    ]);
+  }
+
+  return result;
+}
@@ -0,0 +1,103 @@
+/**
+ * classificationChanges.ts
+ *
+ * Admin classification overrides. The new class is written to the entity's
+ * `classification` column, which takes precedence over the Podio payload when
+ * entities are normalized, and each change is logged with its reason in
+ * entity_classification_history (see 20261024_classification_history.sql).
+ * The update and the log entry are written together by the
+ * change_entity_classification function (20261027_classification_change_rpc.sql).
+ */
+
+import { supabase } from './ServerDataService';
+import { ClassificationChange, ClassificationUpdate } from '@/utils/classificationApi';
+import { EntityKind, normalizeEntity, RawRow } from '@/utils/projectNormalization';
+import { ProjectViewer } from '@/utils/projectMasking';
+
+const HISTORY_TABLE = 'entity_classification_history';
+
+// Table and Podio item id column for each entity type
+const ENTITY_TABLES: Record<EntityKind, { table: string; idColumn: string }> = {
+  ahj: { table: 'ahj', idColumn: 'ahj_item_id' },
+  utility: { table: 'utility', idColumn: 'utility_company_item_id' },
+  financier: { table: 'financier', idColumn: 'fin_id' }
+};
+
+/**
+ * Fetch the change log for an entity, newest first
+ */
+export async function fetchClassificationHistory(
+  entityType: EntityKind,
+  entityId: string
+): Promise<ClassificationChange[]> {
+  const { data, error } = await supabase
+    .from(HISTORY_TABLE)
+    .select('*')
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Error fetching classification history: ${error.message}`);
+  }
+
+  return (data || []) as ClassificationChange[];
+}
+
+/**
+ * Change an entity's classification and record the change
+ * @returns The recorded change, or null when the entity doesn't exist
+ */
+export async function changeClassification(
+  update: ClassificationUpdate,
+  viewer: ProjectViewer
+): Promise<ClassificationChange | null> {
+  const { table, idColumn } = ENTITY_TABLES[update.entityType];
+
+  const { data: row, error: fetchError } = await supabase
+    .from(table)
+    .select('*')
+    .eq(idColumn, update.entityId)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Error fetching ${update.entityType}: ${fetchError.message}`);
+  }
+  if (!row) return null;
+
+  const current = normalizeEntity(row as RawRow, update.entityType);
+
+  // Record who made the change (the email is kept so the log reads well if the user is removed)
+  const { data: profile } = await supabase
+    .from('users')
+    .select('email')
+    .eq('id', viewer.id)
+    .maybeSingle();
+
+  // The class is updated and the change logged in one transaction
+  const { data: changes, error: changeError } = await supabase.rpc('change_entity_classification', {
+    p_entity_type: update.entityType,
+    p_entity_id: update.entityId,
+    p_entity_name: current.name,
+    p_previous_classification: current.classification,
+    p_new_classification: update.classification,
+    p_reason: update.reason,
+    p_changed_by: viewer.id || null,
+    p_changed_by_email: profile?.email || null
+  });
+
+  if (changeError) {
+    throw new Error(`Error updating ${update.entityType} classification: ${changeError.message}`);
+  }
+
+  // The entity was removed since it was read
+  const change = Array.isArray(changes) ? changes[0] : changes;
+  if (!change) return null;
+
+  console.log(
+    `[Classifications] ${update.entityType} ${current.name} changed from ${current.classification} ` +
+    `to ${update.classification} by ${profile?.email || viewer.id}`
+  );
+
+  return change as ClassificationChange;
+}
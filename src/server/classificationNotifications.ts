@@ -0,0 +1,257 @@
+/**
+ * classificationNotifications.ts
+ *
+ * Detects AHJ and utility classification changes between data refreshes and
+ * notifies the reps who have projects in them.
+ *
+ * Each run compares the current classifications with the snapshot taken by the
+ * previous run (see 20261025_classification_notifications.sql). A changed
+ * snapshot row is only updated if it still holds the old class, so when two
+ * server processes detect the same change only one of them records it.
+ */
+
+import { fetchAllRows, processAhjs, processUtilities, supabase } from './ServerDataService';
+import { ClassificationNotification, NotificationEntityType } from '@/utils/notificationsApi';
+import { NormalizedEntity } from '@/utils/projectNormalization';
+
+const SNAPSHOT_TABLE = 'entity_classification_snapshots';
+const NOTIFICATION_TABLE = 'classification_notifications';
+
+// Detection reads every AHJ and utility, so it runs at most this often per process
+const DETECTION_INTERVAL_MS = 5 * 60 * 1000;
+
+// Most notifications returned to a rep
+const NOTIFICATION_LIMIT = 50;
+
+// project_index column holding each entity type's id
+const PROJECT_ID_COLUMNS: Record<NotificationEntityType, string> = {
+  ahj: 'ahj_item_id',
+  utility: 'utility_company_item_id'
+};
+
+interface SnapshotRow {
+  entity_type: NotificationEntityType;
+  entity_id: string;
+  classification: string;
+}
+
+interface DetectedChange {
+  entityType: NotificationEntityType;
+  entity: NormalizedEntity;
+  previous: string;
+}
+
+let lastDetectionAt = 0;
+let detectionPromise: Promise<number> | null = null;
+
+const snapshotKey = (entityType: string, entityId: string) => `${entityType}:${entityId}`;
+
+/**
+ * Reps with projects in the given entities, keyed by entity id
+ */
+async function fetchRepsByEntity(
+  entityType: NotificationEntityType,
+  entityIds: string[]
+): Promise<Map<string, Set<string>>> {
+  const column = PROJECT_ID_COLUMNS[entityType];
+  const rows = await fetchAllRows<Record<string, string | null>>(
+    (from, to) => supabase
+      .from('project_index')
+      .select(`project_id, rep_id, ${column}`)
+      .in(column, entityIds)
+      .not('rep_id', 'is', null)
+      .order('project_id')
+      .range(from, to)
+      .returns<Record<string, string | null>[]>(),
+    `reps for ${entityType} changes`
+  );
+
+  const repsByEntity = new Map<string, Set<string>>();
+  rows.forEach(row => {
+    const entityId = row[column];
+    if (!entityId || !row.rep_id) return;
+
+    if (!repsByEntity.has(entityId)) repsByEntity.set(entityId, new Set());
+    repsByEntity.get(entityId)!.add(row.rep_id);
+  });
+
+  return repsByEntity;
+}
+
+/**
+ * Compare current classifications with the last snapshot and notify affected reps
+ * The first run only takes the snapshot.
+ * @returns The number of notifications recorded
+ */
+async function runDetection(): Promise<number> {
+  const [ahjResult, utilityResult, snapshotRows] = await Promise.all([
+    supabase.from('ahj').select('*'),
+    supabase.from('utility').select('*'),
+    // Paged, since a truncated snapshot would treat changed entities as new ones
+    fetchAllRows<SnapshotRow>(
+      (from, to) => supabase
+        .from(SNAPSHOT_TABLE)
+        .select('entity_type, entity_id, classification')
+        .order('entity_type')
+        .order('entity_id')
+        .range(from, to)
+        .returns<SnapshotRow[]>(),
+      'classification snapshot'
+    )
+  ]);
+
+  const error = ahjResult.error || utilityResult.error;
+  if (error) {
+    throw new Error(`Error loading classifications: ${error.message}`);
+  }
+
+  const current: { entityType: NotificationEntityType; entity: NormalizedEntity }[] = [
+    ...processAhjs(ahjResult.data || []).map(entity => ({ entityType: 'ahj' as const, entity })),
+    ...processUtilities(utilityResult.data || []).map(entity => ({ entityType: 'utility' as const, entity }))
+  ];
+
+  const snapshot = new Map(
+    snapshotRows.map(row =>
+      [snapshotKey(row.entity_type, row.entity_id), row.classification]
+    )
+  );
+
+  // Entities seen for the first time are added to the snapshot without notifying
+  const added = current.filter(({ entityType, entity }) => !snapshot.has(snapshotKey(entityType, entity.id)));
+  if (added.length > 0) {
+    const { error: insertError } = await supabase
+      .from(SNAPSHOT_TABLE)
+      .upsert(
+        added.map(({ entityType, entity }) => ({
+          entity_type: entityType,
+          entity_id: entity.id,
+          classification: entity.classification
+        })),
+        { onConflict: 'entity_type,entity_id', ignoreDuplicates: true }
+      );
+
+    if (insertError) {
+      throw new Error(`Error saving classification snapshot: ${insertError.message}`);
+    }
+  }
+
+  // Claim each change by moving its snapshot row from the old class to the new one
+  const changes: DetectedChange[] = [];
+  for (const { entityType, entity } of current) {
+    const previous = snapshot.get(snapshotKey(entityType, entity.id));
+    if (previous === undefined || previous === entity.classification) continue;
+
+    const { data: claimed, error: claimError } = await supabase
+      .from(SNAPSHOT_TABLE)
+      .update({ classification: entity.classification, updated_at: new Date().toISOString() })
+      .eq('entity_type', entityType)
+      .eq('entity_id', entity.id)
+      .eq('classification', previous)
+      .select('entity_id');
+
+    if (claimError) {
+      throw new Error(`Error updating classification snapshot: ${claimError.message}`);
+    }
+    if (claimed && claimed.length > 0) {
+      changes.push({ entityType, entity, previous });
+    }
+  }
+
+  if (changes.length === 0) return 0;
+
+  const notifications: Omit<ClassificationNotification, 'id' | 'read_at' | 'created_at'>[] = [];
+  for (const entityType of ['ahj', 'utility'] as NotificationEntityType[]) {
+    const typeChanges = changes.filter(change => change.entityType === entityType);
+    if (typeChanges.length === 0) continue;
+
+    const repsByEntity = await fetchRepsByEntity(entityType, typeChanges.map(change => change.entity.id));
+    typeChanges.forEach(({ entity, previous }) => {
+      (repsByEntity.get(entity.id) || new Set<string>()).forEach(repId => {
+        notifications.push({
+          rep_id: repId,
+          entity_type: entityType,
+          entity_id: entity.id,
+          entity_name: entity.name,
+          previous_classification: previous,
+          new_classification: entity.classification
+        });
+      });
+    });
+  }
+
+  if (notifications.length > 0) {
+    const { error: notifyError } = await supabase.from(NOTIFICATION_TABLE).insert(notifications);
+    if (notifyError) {
+      throw new Error(`Error recording notifications: ${notifyError.message}`);
+    }
+  }
+
+  console.log(
+    `[Notifications] ${changes.length} classification changes detected, ${notifications.length} notifications recorded`
+  );
+  return notifications.length;
+}
+
+/**
+ * Run change detection unless it ran recently
+ * Concurrent callers share the same run; failures are logged and retried on the next call.
+ */
+export async function detectClassificationChanges(): Promise<void> {
+  if (!detectionPromise && Date.now() - lastDetectionAt < DETECTION_INTERVAL_MS) return;
+
+  if (!detectionPromise) {
+    detectionPromise = runDetection()
+      .then(count => {
+        lastDetectionAt = Date.now();
+        return count;
+      })
+      .finally(() => {
+        detectionPromise = null;
+      });
+  }
+
+  try {
+    await detectionPromise;
+  } catch (error) {
+    console.error('[Notifications] Classification change detection failed:', error);
+  }
+}
+
+/**
+ * Fetch a rep's most recent notifications, newest first
+ */
+export async function fetchRepNotifications(repId: string): Promise<ClassificationNotification[]> {
+  const { data, error } = await supabase
+    .from(NOTIFICATION_TABLE)
+    .select('*')
+    .eq('rep_id', repId)
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATION_LIMIT);
+
+  if (error) {
+    throw new Error(`Error fetching notifications: ${error.message}`);
+  }
+
+  return (data || []) as ClassificationNotification[];
+}
+
+/**
+ * Mark a rep's notifications as read
+ * @param ids Notifications to mark; every unread notification when omitted
+ */
+export async function markRepNotificationsRead(repId: string, ids?: string[]): Promise<void> {
+  let query = supabase
+    .from(NOTIFICATION_TABLE)
+    .update({ read_at: new Date().toISOString() })
+    .eq('rep_id', repId)
+    .is('read_at', null);
+
+  if (ids) {
+    query = query.in('id', ids);
+  }
+
+  const { error } = await query;
+  if (error) {
+    throw new Error(`Error marking notifications read: ${error.message}`);
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * entityDetail.ts
+ *
+ * Builds the detail for a single AHJ, utility or financier: its related
+ * entities, project counts by status and milestone, 45-day qualification by
+ * month, days from contract to each milestone and the installs shown on its
+ * mini map. Projects are masked for the
+ * viewer first, so restricted projects only ever contribute to counts.
+ *
+ * Only the entity's own projects are read, from the `project_index` view
+ * (which already carries the related entities' names and classes), plus
+ * their Podio payloads for the milestone dates the view doesn't include.
+ */
+
+import { fetchAllRows, processAhjs, processFinanciers, processUtilities, supabase } from './ServerDataService';
+import { ENTITY_COLUMNS, toProject } from './projectQueries';
+import { EntityDetail, InstallPoint, QualificationMonth, RelatedEntity } from '@/utils/entityDetailApi';
+import { isPastMilestone, getMilestoneRank, MILESTONE_PIPELINE } from '@/utils/milestones';
+import { computeMilestoneTimings, extractMilestoneDates } from '@/utils/milestoneTiming';
+import { applyProjectMasking, ProjectViewer } from '@/utils/projectMasking';
+import { EntityKind, NormalizedEntity, RawRow, getRawPayload } from '@/utils/projectNormalization';
+import { isQualified } from '@/utils/qualificationStatus';
+import { Project } from '@/utils/types';
+
+// Months of 45-day history shown
+const QUALIFICATION_MONTHS = 12;
+
+// Most installs placed on the mini map
+const MAX_INSTALL_POINTS = 200;
+
+// Milestone a project must reach to count as installed
+const INSTALL_MILESTONE = 'Install';
+
+// Label for projects without a milestone or status
+const UNKNOWN_LABEL = 'Unknown';
+
+// Entity table, and its normalizer, for each entity type
+const ENTITY_SOURCES: Record<EntityKind, { table: string; process: (rows: RawRow[]) => NormalizedEntity[] }> = {
+  ahj: { table: 'ahj', process: processAhjs },
+  utility: { table: 'utility', process: processUtilities },
+  financier: { table: 'financier', process: processFinanciers }
+};
+
+/**
+ * Id of the entity of a given type on a project
+ */
+function getProjectEntityId(project: Project, entityType: EntityKind): string | undefined {
+  if (entityType === 'ahj') return project.ahj?.id || project.ahj_item_id;
+  if (entityType === 'utility') return project.utility?.id || project.utility_company_item_id;
+  return project.financier?.id || project.financier_id;
+}
+
+/**
+ * The entity's projects, with the milestone dates from their Podio payloads
+ */
+async function fetchEntityProjects(entityType: EntityKind, id: string): Promise<Project[]> {
+  const column = ENTITY_COLUMNS[entityType].id;
+
+  const [indexRows, payloadRows] = await Promise.all([
+    fetchAllRows(
+      (from, to) => supabase.from('project_index').select('*').eq(column, id).order('project_id').range(from, to),
+      'entity projects'
+    ),
+    fetchAllRows(
+      (from, to) => supabase.from('podio_data').select('*').eq(column, id).order('project_id').range(from, to),
+      'entity project payloads'
+    )
+  ]);
+
+  const milestoneDates = new Map(
+    payloadRows.map(row => [String(row.project_id), extractMilestoneDates({ ...row, ...getRawPayload(row) })])
+  );
+
+  return indexRows.map(row => {
+    const project = toProject(row);
+    const dates = milestoneDates.get(project.id);
+    return dates ? { ...project, milestone_dates: { ...project.milestone_dates, ...dates } } : project;
+  });
+}
+
+/**
+ * Entities of one type that share projects with the viewed entity, most shared first
+ */
+function buildRelated(projects: Project[], relatedType: EntityKind): RelatedEntity[] {
+  const related = new Map<string, RelatedEntity>();
+  projects.forEach(project => {
+    const id = getProjectEntityId(project, relatedType);
+    if (!id) return;
+
+    const entry = related.get(id);
+    if (entry) {
+      entry.sharedProjects++;
+    } else {
+      related.set(id, {
+        id,
+        name: project[relatedType].name,
+        classification: project[relatedType].classification || UNKNOWN_LABEL,
+        sharedProjects: 1
+      });
+    }
+  });
+
+  return Array.from(related.values())
+    .sort((a, b) => b.sharedProjects - a.sharedProjects || a.name.localeCompare(b.name));
+}
+
+/**
+ * 45-day qualification per contract-signed month, for the most recent months with projects
+ */
+function buildQualificationByMonth(projects: Project[]): QualificationMonth[] {
+  const months = new Map<string, QualificationMonth>();
+
+  projects.forEach(project => {
+    const month = project.contract_signed_date?.slice(0, 7);
+    if (!month || !/^\d{4}-\d{2}$/.test(month)) return;
+
+    const entry = months.get(month) || { month, total: 0, qualified: 0 };
+    entry.total++;
+    if (isQualified(project)) entry.qualified++;
+    months.set(month, entry);
+  });
+
+  return Array.from(months.values())
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .slice(-QUALIFICATION_MONTHS);
+}
+
+/**
+ * Project counts per milestone, in pipeline order
+ */
+function buildMilestoneCounts(projects: Project[]): EntityDetail['milestoneCounts'] {
+  const counts = new Map<string, number>();
+  projects.forEach(project => {
+    const milestone = project.milestone || UNKNOWN_LABEL;
+    counts.set(milestone, (counts.get(milestone) || 0) + 1);
+  });
+
+  const rank = (milestone: string) => {
+    const value = getMilestoneRank(milestone);
+    return value < 0 ? MILESTONE_PIPELINE.length : value;
+  };
+
+  return Array.from(counts.entries())
+    .map(([milestone, count]) => ({ milestone, count }))
+    .sort((a, b) => rank(a.milestone) - rank(b.milestone) || a.milestone.localeCompare(b.milestone));
+}
+
+/**
+ * Build the detail for an entity as seen by the viewer
+ * @returns null when no entity of that type has the id
+ */
+export async function getEntityDetail(
+  entityType: EntityKind,
+  id: string,
+  viewer: ProjectViewer
+): Promise<EntityDetail | null> {
+  const source = ENTITY_SOURCES[entityType];
+  const { data: entityRows, error: entityError } = await supabase
+    .from(source.table)
+    .select('*')
+    .eq(ENTITY_COLUMNS[entityType].id, id)
+    .limit(1);
+
+  if (entityError) {
+    throw new Error(`Error fetching ${entityType}: ${entityError.message}`);
+  }
+
+  const [entity] = source.process(entityRows || []);
+  if (!entity) return null;
+
+  const projects = applyProjectMasking(await fetchEntityProjects(entityType, id), viewer);
+
+  // Every other entity type the projects are linked to
+  const related: EntityDetail['related'] = {};
+  (['ahj', 'utility', 'financier'] as EntityKind[])
+    .filter(relatedType => relatedType !== entityType)
+    .forEach(relatedType => {
+      related[relatedType] = buildRelated(projects, relatedType);
+    });
+
+  const statusCounts: Record<string, number> = {};
+  projects.forEach(project => {
+    const status = project.status || UNKNOWN_LABEL;
+    statusCounts[status] = (statusCounts[status] || 0) + 1;
+  });
+
+  const installs: InstallPoint[] = projects
+    .filter(project =>
+      !project.isMasked && project.latitude && project.longitude &&
+      isPastMilestone(project, INSTALL_MILESTONE)
+    )
+    .slice(0, MAX_INSTALL_POINTS)
+    .map(project => ({
+      id: project.id,
+      address: project.address,
+      latitude: project.latitude!,
+      longitude: project.longitude!,
+      milestone: project.milestone || project.status || ''
+    }));
+
+  return {
+    entityType,
+    entity: { ...entity, projectCount: projects.length },
+    related,
+    projectCount: projects.length,
+    statusCounts,
+    milestoneCounts: buildMilestoneCounts(projects),
+    qualified45DayCount: projects.filter(project => isQualified(project)).length,
+    qualificationByMonth: buildQualificationByMonth(projects),
+    milestoneTimings: computeMilestoneTimings(projects),
+    installs
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * projectAggregates.ts
+ *
+ * Figures built from every project rather than from the pages the client has
+ * loaded: install analytics for the current filters, time to milestone and
+ * suggested classes per entity, and the location values offered by the geo
+ * filters.
+ *
+ * Projects are read from the `project_index` view with the same SQL filters as
+ * /api/projects and masked for the viewer, so restricted projects only ever
+ * contribute to counts and rates.
+ */
+
+import { fetchAllRows, supabase } from './ServerDataService';
+import { applyProjectQueryFilters, ProjectQueryParams, toProject } from './projectQueries';
+import { EntityStats } from '@/utils/projectAggregatesApi';
+import { matchesFilterExpression } from '@/utils/filterExpressions';
+import { GEO_FILTER_TYPES, GeoFilterOption, GeoFilterType, buildGeoOptions } from '@/utils/geoFilters';
+import { buildEntityMilestoneTimings, extractMilestoneDates } from '@/utils/milestoneTiming';
+import { buildClassificationSuggestions } from '@/utils/classificationSuggestions';
+import { buildProjectAnalytics, ProjectAnalytics } from '@/utils/projectAnalytics';
+import { applyProjectMasking, isAdminViewer, ProjectViewer } from '@/utils/projectMasking';
+import { EntityKind, getRawPayload } from '@/utils/projectNormalization';
+import { Project } from '@/utils/types';
+
+const ENTITY_KINDS: EntityKind[] = ['ahj', 'utility', 'financier'];
+
+/**
+ * Every project matching the parameters, masked for the viewer
+ * The SQL filters only narrow the rows, so the full filter expression is
+ * checked on the masked projects, as the client does.
+ * @param withMilestoneDates Also read the milestone dates from the Podio payloads
+ */
+async function fetchMatchingProjects(
+  params: ProjectQueryParams,
+  viewer: ProjectViewer,
+  withMilestoneDates = false
+): Promise<Project[]> {
+  const fetchPage = (from: number, to: number) => {
+    let query = supabase.from('project_index').select('*');
+    query = applyProjectQueryFilters(query, params, viewer);
+    return query.order('project_id').range(from, to);
+  };
+
+  const [indexRows, payloadRows] = await Promise.all([
+    fetchAllRows(fetchPage, 'projects'),
+    withMilestoneDates
+      ? fetchAllRows(
+        (from, to) => supabase.from('podio_data').select('*').order('project_id').range(from, to),
+        'project payloads'
+      )
+      : Promise.resolve([])
+  ]);
+
+  const milestoneDates = new Map(
+    payloadRows.map(row => [String(row.project_id), extractMilestoneDates({ ...row, ...getRawPayload(row) })])
+  );
+
+  const projects = indexRows.map(row => {
+    const project = toProject(row);
+    const dates = milestoneDates.get(project.id);
+    return dates ? { ...project, milestone_dates: { ...project.milestone_dates, ...dates } } : project;
+  });
+
+  return applyProjectMasking(projects, viewer)
+    .filter(project => matchesFilterExpression(project, params.expression || []));
+}
+
+/**
+ * Install analytics for every project matching the filters
+ */
+export async function getProjectAnalytics(params: ProjectQueryParams, viewer: ProjectViewer): Promise<ProjectAnalytics> {
+  return buildProjectAnalytics(await fetchMatchingProjects(params, viewer));
+}
+
+/**
+ * Time to milestone and suggested classes for every entity, from every project
+ * the viewer can see
+ * Suggestions are only built for admins, who are the only ones who can act on them.
+ */
+export async function getEntityStats(viewer: ProjectViewer): Promise<EntityStats> {
+  const projects = await fetchMatchingProjects({}, viewer, true);
+  const isAdmin = isAdminViewer(viewer);
+
+  const stats: EntityStats = {
+    milestoneTimings: { ahj: {}, utility: {}, financier: {} },
+    suggestions: { ahj: {}, utility: {}, financier: {} }
+  };
+
+  ENTITY_KINDS.forEach(kind => {
+    stats.milestoneTimings[kind] = Object.fromEntries(buildEntityMilestoneTimings(projects, kind));
+    if (isAdmin) {
+      stats.suggestions[kind] = Object.fromEntries(buildClassificationSuggestions(projects, kind));
+    }
+  });
+
+  return stats;
+}
+
+/**
+ * State, county, city and zip values of every project the viewer can see,
+ * most common first
+ */
+export async function getGeoOptions(viewer: ProjectViewer): Promise<Record<GeoFilterType, GeoFilterOption[]>> {
+  const projects = await fetchMatchingProjects({}, viewer);
+
+  return Object.fromEntries(
+    GEO_FILTER_TYPES.map(type => [type, buildGeoOptions(projects, type)])
+  ) as Record<GeoFilterType, GeoFilterOption[]>;
+}
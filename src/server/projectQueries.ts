@@ -0,0 +1,479 @@
+/**
+ * projectQueries.ts
+ *
+ * SQL-backed project queries for the /api/projects route.
+ *
+ * Filtering, sorting and pagination run in Postgres against the `project_index` view
+ * (see supabase/migrations/20261021_project_index.sql) instead of loading every table
+ * into memory. Results are normalized with the shared pipeline and masked for the
+ * viewer before they are returned.
+ */
+
+import { supabase, FilterParams } from './ServerDataService';
+import { normalizeProject, RawRow } from '@/utils/projectNormalization';
+import { applyProjectMasking, isAdminViewer, ProjectViewer } from '@/utils/projectMasking';
+import { getMilestoneRank, MASKING_MILESTONE } from '@/utils/milestones';
+import { getMapAreaBounds, isInMapArea, MapArea, parseMapArea } from '@/utils/geo';
+import { parseDateRangeValue } from '@/utils/dateRangeFilter';
+import { GEO_FILTER_TYPES, normalizeGeoValue, parseGeoValues } from '@/utils/geoFilters';
+import { decodeFilterExpression, getProjectQueryParams } from '@/utils/filterExpressions';
+import { FilterState, Project, ProjectFilter } from '@/utils/types';
+
+// Page size limits for cursor pagination
+export const DEFAULT_PAGE_SIZE = 250;
+export const MAX_PAGE_SIZE = 1000;
+
+const CLASSIFICATIONS = ['A', 'B', 'C'] as const;
+const ENTITY_TYPES = ['ahj', 'utility', 'financier'] as const;
+
+type EntityType = typeof ENTITY_TYPES[number];
+
+/**
+ * Query parameters accepted by the project API
+ */
+export interface ProjectQueryParams extends FilterParams {
+  /** Only return the project with this ID */
+  id?: string;
+  /** Opaque cursor returned as `nextCursor` by the previous page */
+  cursor?: string;
+  /** Number of projects per page */
+  limit?: number;
+  /** Only return projects inside this bounding box or radius */
+  area?: MapArea | null;
+}
+
+/**
+ * Project counts per classification for the current filters
+ */
+export type ClassificationTotals = Record<EntityType, Record<'A' | 'B' | 'C' | 'Unknown', number>>;
+
+/**
+ * A single page of projects
+ * Totals don't change between pages, so they are only included on the first page.
+ */
+export interface ProjectPage {
+  projects: Project[];
+  nextCursor: string | null;
+  total?: number;
+  totals?: ClassificationTotals;
+}
+
+// Columns of the project_index view for each entity type
+export const ENTITY_COLUMNS: Record<EntityType, { id: string; classification: string; name: string }> = {
+  ahj: { id: 'ahj_item_id', classification: 'ahj_classification', name: 'ahj_name' },
+  utility: { id: 'utility_company_item_id', classification: 'utility_classification', name: 'utility_name' },
+  financier: { id: 'fin_id', classification: 'financier_classification', name: 'financier_name' }
+};
+
+// Sortable fields mapped to their view columns
+// Address and status sorting are only honoured for admins; reps sort by city and
+// milestone instead so the order of restricted projects can't be used to infer
+// their hidden fields
+const SORT_COLUMNS: Record<string, string> = {
+  id: 'project_id',
+  address: 'address',
+  city: 'city',
+  zip: 'zip',
+  ahj: 'ahj_name',
+  utility: 'utility_name',
+  financier: 'financier_name',
+  status: 'status',
+  milestone: 'milestone_rank',
+  '45day': 'qualifies_45_day_flag',
+  contract_signed_date: 'contract_signed_date'
+};
+
+// Columns reps sort by in place of fields hidden on restricted projects
+const MASKED_SORT_COLUMNS: Record<string, string> = {
+  address: 'city',
+  status: 'milestone_rank'
+};
+
+/**
+ * Parse project query parameters from a URL
+ */
+export function parseProjectQueryParams(searchParams: URLSearchParams): ProjectQueryParams {
+  const limit = parseInt(searchParams.get('limit') || '', 10);
+
+  return {
+    id: searchParams.get('id') || undefined,
+    search: searchParams.get('search') || '',
+    ahj: searchParams.get('ahj') || '',
+    utility: searchParams.get('utility') || '',
+    financier: searchParams.get('financier') || '',
+    classification: searchParams.get('classification') || '',
+    entityType: (searchParams.get('entityType') as EntityType) || undefined,
+    qualified45Day: searchParams.get('qualified45Day') === 'true',
+    myProjects: searchParams.get('myProjects') || '',
+    contractDate: searchParams.get('contractDate') || '',
+    state: parseGeoValues(searchParams.getAll('state')),
+    county: parseGeoValues(searchParams.getAll('county')),
+    city: parseGeoValues(searchParams.getAll('city')),
+    zip: parseGeoValues(searchParams.getAll('zip')),
+    expression: decodeFilterExpression(searchParams.get('filters')),
+    sortField: searchParams.get('sortField') || 'id',
+    sortDirection: searchParams.get('sortDirection') === 'desc' ? 'desc' : 'asc',
+    cursor: searchParams.get('cursor') || undefined,
+    limit: Number.isFinite(limit) ? Math.min(Math.max(limit, 1), MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE,
+    area: parseMapArea(searchParams)
+  };
+}
+
+/**
+ * Query for the first page of a filter list and sort, the same query the client
+ * sends to /api/projects (see getProjectQueryParams)
+ * Used to render the first page on the server, so the client can page on from it.
+ */
+export function getProjectQueryForFilters(
+  filters: ProjectFilter[],
+  sortOptions: FilterState['sortOptions'],
+  limit: number
+): ProjectQueryParams {
+  const searchParams = new URLSearchParams();
+  Object.entries(getProjectQueryParams(filters, sortOptions)).forEach(([key, value]) => {
+    searchParams.set(key, String(value));
+  });
+  searchParams.set('limit', String(limit));
+
+  return parseProjectQueryParams(searchParams);
+}
+
+/**
+ * Quote a value for use inside a PostgREST `or()` / `and()` filter
+ */
+const quoteFilterValue = (value: string): string =>
+  `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Escape the ILIKE wildcards in a term
+ */
+const escapeLikeTerm = (term: string): string =>
+  term.replace(/[%_\\]/g, match => `\\${match}`);
+
+/**
+ * Escape a search term for an ILIKE pattern inside a PostgREST filter
+ */
+const toSearchPattern = (term: string): string =>
+  quoteFilterValue(`%${escapeLikeTerm(term)}%`);
+
+/**
+ * PostgREST conditions matching a location value, mirroring normalizeGeoValue in
+ * src/utils/geoFilters.ts: counties with or without "County", zips by prefix
+ */
+function getGeoConditions(type: typeof GEO_FILTER_TYPES[number], value: string): string[] {
+  const term = escapeLikeTerm(normalizeGeoValue(type, value));
+  if (!term) return [];
+  if (type === 'county') {
+    return [`county.ilike.${quoteFilterValue(term)}`, `county.ilike.${quoteFilterValue(`${term} county`)}`];
+  }
+  if (type === 'zip') {
+    return [`zip.ilike.${quoteFilterValue(`${term}%`)}`];
+  }
+  return [`${type}.ilike.${quoteFilterValue(term)}`];
+}
+
+/**
+ * PostgREST condition matching the projects the viewer may see in full
+ * Mirrors canViewProjectDetails in src/utils/projectMasking.ts
+ */
+function getVisibleCondition(viewer: ProjectViewer | null): string {
+  const conditions = [`milestone_rank.gte.${getMilestoneRank(MASKING_MILESTONE)}`];
+  if (viewer?.rep_id) {
+    conditions.push(`rep_id.eq.${quoteFilterValue(String(viewer.rep_id).trim())}`);
+  }
+  return conditions.length > 1 ? `or(${conditions.join(',')})` : conditions[0];
+}
+
+/**
+ * PostgREST condition matching the projects that are masked for the viewer
+ */
+function getHiddenCondition(viewer: ProjectViewer | null): string {
+  const beforeMilestone = `milestone_rank.lt.${getMilestoneRank(MASKING_MILESTONE)}`;
+  if (!viewer?.rep_id) return beforeMilestone;
+
+  const repId = quoteFilterValue(String(viewer.rep_id).trim());
+  return `and(${beforeMilestone},or(rep_id.is.null,rep_id.neq.${repId}))`;
+}
+
+/**
+ * PostgREST conditions keeping the given coordinate columns inside a map area's bounds
+ */
+function getBoundsConditions(area: MapArea, latitudeColumn: string, longitudeColumn: string): string[] {
+  const { west, south, east, north } = getMapAreaBounds(area);
+  return [
+    `${latitudeColumn}.gte.${south}`,
+    `${latitudeColumn}.lte.${north}`,
+    `${longitudeColumn}.gte.${west}`,
+    `${longitudeColumn}.lte.${east}`
+  ];
+}
+
+/**
+ * The subset of the Supabase filter builder used to apply project filters
+ */
+interface FilterableQuery<Q> {
+  eq(column: string, value: unknown): Q;
+  gte(column: string, value: unknown): Q;
+  lte(column: string, value: unknown): Q;
+  or(filters: string): Q;
+}
+
+/**
+ * Apply an entity filter: a class letter filters by classification, anything else by ID
+ */
+function applyEntityFilter<Q extends FilterableQuery<Q>>(query: Q, entityType: EntityType, value: string | undefined): Q {
+  if (!value) return query;
+
+  const columns = ENTITY_COLUMNS[entityType];
+  if (CLASSIFICATIONS.includes(value as typeof CLASSIFICATIONS[number])) {
+    return query.eq(columns.classification, value);
+  }
+  return query.eq(columns.id, value);
+}
+
+/**
+ * Apply every filter parameter to a project_index query
+ */
+export function applyProjectQueryFilters<Q extends FilterableQuery<Q>>(
+  query: Q,
+  params: ProjectQueryParams,
+  viewer: ProjectViewer | null
+): Q {
+  const isAdmin = isAdminViewer(viewer);
+
+  if (params.id) {
+    query = query.eq('project_id', params.id);
+  }
+
+  // Search entity names and location summary; addresses only match projects the
+  // viewer may see in full, so a search can't reveal restricted addresses
+  const search = (params.search || '').replace(/[(),]/g, ' ').trim();
+  if (search) {
+    const pattern = toSearchPattern(search);
+    const conditions = [
+      `ahj_name.ilike.${pattern}`,
+      `utility_name.ilike.${pattern}`,
+      `financier_name.ilike.${pattern}`,
+      `city.ilike.${pattern}`,
+      `state.ilike.${pattern}`,
+      `zip.ilike.${pattern}`,
+      isAdmin
+        ? `address.ilike.${pattern}`
+        : `and(address.ilike.${pattern},${getVisibleCondition(viewer)})`
+    ];
+    query = query.or(conditions.join(','));
+  }
+
+  query = applyEntityFilter(query, 'ahj', params.ahj);
+  query = applyEntityFilter(query, 'utility', params.utility);
+  query = applyEntityFilter(query, 'financier', params.financier);
+
+  if (params.classification && params.entityType && ENTITY_COLUMNS[params.entityType]) {
+    query = query.eq(ENTITY_COLUMNS[params.entityType].classification, params.classification);
+  }
+
+  if (params.qualified45Day) {
+    query = query.eq('qualifies_45_day_flag', true);
+  }
+
+  // Reps can only filter by their own rep ID; filtering by another rep's ID would
+  // reveal which restricted projects belong to that rep
+  // (rep IDs are never empty in the view, so a viewer without one matches nothing)
+  if (params.myProjects) {
+    const repId = isAdmin ? params.myProjects : viewer?.rep_id;
+    query = query.eq('rep_id', repId || '');
+  }
+
+  // Ranges compare on the parsed contract date, which is NULL when missing or
+  // unreadable, so projects without a date never match. Clients send explicit
+  // ranges, since presets count back from the day in the user's time zone.
+  const contractDateRange = parseDateRangeValue(params.contractDate);
+  if (contractDateRange) {
+    if (contractDateRange.from) query = query.gte('contract_signed_on', contractDateRange.from);
+    if (contractDateRange.to) query = query.lte('contract_signed_on', contractDateRange.to);
+  }
+
+  // Location filters; values of one field are ORed
+  GEO_FILTER_TYPES.forEach(type => {
+    const conditions = (params[type] || []).flatMap(value => getGeoConditions(type, value));
+    if (conditions.length > 0) {
+      query = query.or(conditions.join(','));
+    }
+  });
+
+  // Map area: projects the viewer may see are matched by their exact coordinates,
+  // masked projects only by their approximate location so area queries can't be
+  // used to narrow down where a restricted project is
+  if (params.area) {
+    const exact = getBoundsConditions(params.area, 'latitude', 'longitude');
+    if (isAdmin) {
+      query = query.or(`and(${exact.join(',')})`);
+    } else {
+      const approximate = getBoundsConditions(params.area, 'approximate_latitude', 'approximate_longitude');
+      query = query.or([
+        `and(${[getVisibleCondition(viewer), ...exact].join(',')})`,
+        `and(${[getHiddenCondition(viewer), ...approximate].join(',')})`
+      ].join(','));
+    }
+  }
+
+  return query;
+}
+
+/**
+ * Check whether a (masked) project lies inside the requested map area
+ * The SQL filter only checks the area's bounding box; radius searches are
+ * narrowed to the exact circle here.
+ */
+function isProjectInArea(project: Project, area: MapArea): boolean {
+  const point = project.latitude && project.longitude
+    ? { latitude: project.latitude, longitude: project.longitude }
+    : project.approximateLocation;
+
+  return !!point && isInMapArea(point, area);
+}
+
+/**
+ * Encode the position after a row as an opaque cursor
+ */
+function encodeCursor(value: unknown, projectId: string): string {
+  return Buffer.from(JSON.stringify({ v: value, id: projectId })).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ * @returns null for missing or malformed cursors
+ */
+function decodeCursor(cursor: string | undefined): { v: unknown; id: string } | null {
+  if (!cursor) return null;
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return decoded && typeof decoded.id === 'string' ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the view column used for sorting
+ */
+function getSortColumn(sortField: string | undefined, viewer: ProjectViewer | null): string {
+  const column = SORT_COLUMNS[sortField || ''] || SORT_COLUMNS.id;
+  return isAdminViewer(viewer) ? column : MASKED_SORT_COLUMNS[column] || column;
+}
+
+/**
+ * Count the projects matching the filters, grouped by classification
+ * For radius areas the counts cover the radius' bounding box.
+ */
+async function fetchClassificationTotals(
+  params: ProjectQueryParams,
+  viewer: ProjectViewer | null
+): Promise<{ total: number; totals: ClassificationTotals }> {
+  const countQuery = (classificationColumn?: string, classification?: string) => {
+    let query = supabase.from('project_index').select('project_id', { count: 'exact', head: true });
+    query = applyProjectQueryFilters(query, params, viewer);
+    return classificationColumn ? query.eq(classificationColumn, classification) : query;
+  };
+
+  const requests = ENTITY_TYPES.flatMap(entityType =>
+    CLASSIFICATIONS.map(classification =>
+      countQuery(ENTITY_COLUMNS[entityType].classification, classification)
+    )
+  );
+
+  const [totalResult, ...classResults] = await Promise.all([countQuery(), ...requests]);
+
+  const failed = [totalResult, ...classResults].find(result => result.error);
+  if (failed?.error) {
+    throw new Error(`Error counting projects: ${failed.error.message}`);
+  }
+
+  const total = totalResult.count || 0;
+  const totals = {} as ClassificationTotals;
+
+  ENTITY_TYPES.forEach((entityType, typeIndex) => {
+    const counts = CLASSIFICATIONS.map(
+      (_, classIndex) => classResults[typeIndex * CLASSIFICATIONS.length + classIndex].count || 0
+    );
+    totals[entityType] = {
+      A: counts[0],
+      B: counts[1],
+      C: counts[2],
+      Unknown: Math.max(total - counts[0] - counts[1] - counts[2], 0)
+    };
+  });
+
+  return { total, totals };
+}
+
+/**
+ * Convert a project_index row into a canonical project
+ */
+export function toProject(row: RawRow): Project {
+  return normalizeProject({
+    ...row,
+    ahj: { name: row.ahj_name, classification: row.ahj_classification },
+    utility: { name: row.utility_name, classification: row.utility_classification },
+    financier: { name: row.financier_name, classification: row.financier_classification }
+  });
+}
+
+/**
+ * Fetch one page of filtered, sorted and masked projects
+ */
+export async function queryProjects(params: ProjectQueryParams, viewer: ProjectViewer | null): Promise<ProjectPage> {
+  const limit = params.limit || DEFAULT_PAGE_SIZE;
+  const ascending = params.sortDirection !== 'desc';
+  const sortColumn = getSortColumn(params.sortField, viewer);
+
+  let query = supabase.from('project_index').select('*');
+  query = applyProjectQueryFilters(query, params, viewer);
+
+  // Keyset pagination on (sort column, project_id)
+  const cursor = decodeCursor(params.cursor);
+  if (cursor) {
+    const operator = ascending ? 'gt' : 'lt';
+    const value = quoteFilterValue(String(cursor.v));
+    const id = quoteFilterValue(cursor.id);
+    query = sortColumn === 'project_id'
+      ? query.filter('project_id', operator, cursor.id)
+      : query.or(`${sortColumn}.${operator}.${value},and(${sortColumn}.eq.${value},project_id.${operator}.${id})`);
+  }
+
+  query = query.order(sortColumn, { ascending });
+  if (sortColumn !== 'project_id') {
+    query = query.order('project_id', { ascending });
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const [pageResult, counts] = await Promise.all([
+    query.limit(limit + 1),
+    cursor ? Promise.resolve({}) : fetchClassificationTotals(params, viewer)
+  ]);
+
+  if (pageResult.error) {
+    throw new Error(`Error fetching projects: ${pageResult.error.message}`);
+  }
+
+  const rows: RawRow[] = pageResult.data || [];
+  const pageRows = rows.slice(0, limit);
+  const lastRow = pageRows[pageRows.length - 1];
+  const nextCursor = rows.length > limit && lastRow
+    ? encodeCursor(lastRow[sortColumn], String(lastRow.project_id))
+    : null;
+
+  // Radius searches can return slightly fewer than `limit` projects per page,
+  // since the corners of the bounding box are dropped after masking
+  const area = params.area;
+  let projects = applyProjectMasking(pageRows.map(toProject), viewer);
+  if (area?.type === 'radius') {
+    projects = projects.filter(project => isProjectInArea(project, area));
+  }
+
+  return {
+    projects,
+    nextCursor,
+    ...counts
+  };
+}
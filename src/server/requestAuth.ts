@@ -0,0 +1,57 @@
+/**
+ * requestAuth.ts
+ *
+ * Resolves the signed-in user for API routes.
+ *
+ * The browser keeps its Supabase session in sessionStorage (see supabaseClient.ts),
+ * so API requests carry the access token in an `Authorization: Bearer <token>`
+ * header rather than in cookies.
+ */
+
+import { supabase } from './ServerDataService';
+import { ProjectViewer } from '@/utils/projectMasking';
+
+/**
+ * Read the bearer token from a request
+ */
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Resolve the viewer for a request from its access token
+ * @returns The user's profile, or null when the request is not authenticated
+ */
+export async function getRequestViewer(request: Request): Promise<ProjectViewer | null> {
+  const token = getBearerToken(request);
+  if (!token) return null;
+
+  try {
+    const { data: { user }, error } = await supabase.auth.getUser(token);
+    if (error || !user) {
+      return null;
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('users')
+      .select('id, rep_id, role')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile) {
+      // Authenticated but without a profile: treat as a rep with no assigned projects
+      return { id: user.id, rep_id: null, role: 'rep' };
+    }
+
+    return {
+      id: profile.id,
+      rep_id: profile.rep_id,
+      role: profile.role
+    };
+  } catch (error) {
+    console.error('Error resolving request viewer:', error);
+    return null;
+  }
+}
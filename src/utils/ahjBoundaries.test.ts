@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { buildAhjBoundaryFeatures } from './ahjBoundaries';
+
+const SQUARE: GeoJSON.Polygon = {
+  type: 'Polygon',
+  coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]]
+};
+
+const boundary = (properties: GeoJSON.GeoJsonProperties): GeoJSON.Feature => ({
+  type: 'Feature',
+  geometry: SQUARE,
+  properties
+});
+
+const matchedIds = (features: GeoJSON.Feature[], ahjs: { id: string; name: string }[]) =>
+  buildAhjBoundaryFeatures({ type: 'FeatureCollection', features }, ahjs).map(feature => feature.properties.ahjId);
+
+describe('buildAhjBoundaryFeatures', () => {
+  const ahjs = [
+    { id: 'springfield-il', name: 'City of Springfield, IL' },
+    { id: 'springfield-mo', name: 'Springfield, MO' },
+    { id: 'mesa', name: 'Mesa' }
+  ];
+
+  it('tells same-named cities in different states apart', () => {
+    expect(matchedIds([
+      boundary({ NAME: 'Springfield', state_code: 'mo' }),
+      boundary({ NAME: 'Springfield', state_code: 'il' })
+    ], ahjs)).toEqual(['springfield-mo', 'springfield-il']);
+  });
+
+  it('only matches on the city alone when the name is unambiguous', () => {
+    expect(matchedIds([
+      boundary({ NAME: 'Springfield' }),
+      boundary({ NAME: 'Springfield', state_code: 'oh' }),
+      boundary({ NAME: 'Mesa', state_code: 'az' })
+    ], ahjs)).toEqual(['mesa']);
+  });
+
+  it('matches features tagged by the generator by id', () => {
+    expect(matchedIds([boundary({ ahj_id: 'springfield-mo', state_code: 'il' })], ahjs)).toEqual(['springfield-mo']);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * ahjBoundaries.ts
+ *
+ * Loads the AHJ city boundary polygons generated by scripts/generate-ahj-cities.js
+ * and matches each polygon to its AHJ so the map can color it by classification.
+ */
+
+import { getClassificationMapColor, formatClassification } from './classificationColors';
+
+// Static file written by scripts/generate-ahj-cities.js
+export const AHJ_BOUNDARIES_URL = '/data/ahj-cities.json';
+
+/**
+ * Minimal AHJ shape needed to match boundaries
+ */
+export interface BoundaryAhj {
+  id: string;
+  name: string;
+  classification?: string;
+}
+
+/**
+ * Properties set on each matched boundary feature
+ */
+export interface AhjBoundaryProperties {
+  ahjId: string;
+  ahjName: string;
+  classification: string;
+  color: string;
+}
+
+// Boundaries are loaded once per page; the file is static
+let boundariesPromise: Promise<GeoJSON.FeatureCollection | null> | null = null;
+
+/**
+ * Fetch the AHJ boundary file
+ * @returns null when the file hasn't been generated or can't be read
+ */
+export function loadAhjBoundaries(): Promise<GeoJSON.FeatureCollection | null> {
+  if (!boundariesPromise) {
+    boundariesPromise = fetch(AHJ_BOUNDARIES_URL)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => data?.type === 'FeatureCollection' ? data as GeoJSON.FeatureCollection : null)
+      .catch(error => {
+        console.error('[ahjBoundaries] Failed to load AHJ boundaries:', error);
+        return null;
+      });
+  }
+
+  return boundariesPromise;
+}
+
+/**
+ * Normalize a city or AHJ name for matching
+ * Mirrors normalizeName in scripts/generate-ahj-cities.js, and also drops the
+ * state suffix and "City of" / "City" wording AHJ names often carry.
+ */
+export function normalizeBoundaryName(name: string | undefined | null): string {
+  if (!name) return '';
+
+  return name
+    .split(',')[0]
+    .toLowerCase()
+    .replace(/^(city|town|village) of\s+/, '')
+    .replace(/\s+(city|town|village)$/, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Two-letter state code ending an AHJ name ("Mesa, AZ"), lowercased
+ * @returns An empty string when the name doesn't end in one
+ */
+export function getBoundaryNameState(name: string | undefined | null): string {
+  const parts = (name || '').split(',');
+  const suffix = parts.length > 1 ? parts[parts.length - 1].trim() : '';
+  return /^[A-Za-z]{2}$/.test(suffix) ? suffix.toLowerCase() : '';
+}
+
+/**
+ * Match key for a city in a state, so same-named cities in different states
+ * don't collide (mirrors cityStateKey in scripts/generate-ahj-cities.js)
+ */
+const toBoundaryKey = (city: string, state: string) => `${city}|${state}`;
+
+/**
+ * City name of a boundary feature (property names vary between sources)
+ */
+function getBoundaryName(properties: GeoJSON.GeoJsonProperties): string | undefined {
+  if (!properties) return undefined;
+  return properties.ahj_name || properties.NAME || properties.name || properties.city;
+}
+
+/**
+ * State code of a boundary feature, stamped by the generator or from the source
+ */
+function getBoundaryState(properties: GeoJSON.GeoJsonProperties): string {
+  const state = properties?.state_code || properties?.STUSPS || properties?.state;
+  return typeof state === 'string' && /^[A-Za-z]{2}$/.test(state.trim()) ? state.trim().toLowerCase() : '';
+}
+
+/**
+ * Match boundary polygons to AHJs and tag them with the AHJ's id, name and color
+ * Features stamped with `ahj_id` by the generator are matched by id; the rest by
+ * city and state. A feature or AHJ without a state only matches on the city
+ * name when that name belongs to a single AHJ. Features that match no AHJ are
+ * dropped.
+ */
+export function buildAhjBoundaryFeatures(
+  boundaries: GeoJSON.FeatureCollection,
+  ahjs: BoundaryAhj[]
+): GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon, AhjBoundaryProperties>[] {
+  const ahjsById = new Map<string, BoundaryAhj>();
+  const ahjsByKey = new Map<string, BoundaryAhj>();
+  const ahjsByCity = new Map<string, BoundaryAhj[]>();
+  ahjs.forEach(ahj => {
+    ahjsById.set(String(ahj.id), ahj);
+    const city = normalizeBoundaryName(ahj.name);
+    if (!city) return;
+
+    const key = toBoundaryKey(city, getBoundaryNameState(ahj.name));
+    if (!ahjsByKey.has(key)) {
+      ahjsByKey.set(key, ahj);
+    }
+    ahjsByCity.set(city, [...(ahjsByCity.get(city) || []), ahj]);
+  });
+
+  // Match on city and state, or on the city alone when either state is unknown
+  const findByName = (properties: GeoJSON.GeoJsonProperties): BoundaryAhj | undefined => {
+    const city = normalizeBoundaryName(getBoundaryName(properties));
+    if (!city) return undefined;
+
+    const state = getBoundaryState(properties);
+    const match = state ? ahjsByKey.get(toBoundaryKey(city, state)) : undefined;
+    if (match) return match;
+
+    const candidates = (ahjsByCity.get(city) || []).filter(ahj => !state || !getBoundaryNameState(ahj.name));
+    return candidates.length === 1 ? candidates[0] : undefined;
+  };
+
+  const features: GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon, AhjBoundaryProperties>[] = [];
+
+  boundaries.features.forEach(feature => {
+    const geometry = feature.geometry;
+    if (!geometry || (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon')) return;
+
+    const ahj = (feature.properties?.ahj_id && ahjsById.get(String(feature.properties.ahj_id))) ||
+      findByName(feature.properties);
+    if (!ahj) return;
+
+    const classification = formatClassification(ahj.classification);
+
+    features.push({
+      type: 'Feature',
+      geometry,
+      properties: {
+        ahjId: String(ahj.id),
+        ahjName: ahj.name,
+        classification,
+        color: getClassificationMapColor(classification)
+      }
+    });
+  });
+
+  return features;
+}
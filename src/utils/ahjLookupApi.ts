@@ -0,0 +1,64 @@
+import { getAuthHeaders } from './projectsApi';
+import { GeoPoint } from './geo';
+
+/**
+ * How the AHJ for a location was found:
+ * - 'boundary': the point lies inside the AHJ's city boundary
+ * - 'nearest': no boundary contains the point, so the closest AHJ pin was used
+ * - 'none': no AHJ could be matched
+ */
+export type AhjMatchType = 'boundary' | 'nearest' | 'none';
+
+/**
+ * Historical project counts for an AHJ
+ */
+export interface AhjProjectCounts {
+  total: number;
+  completed: number;
+  qualified45Day: number;
+}
+
+/**
+ * Result of an AHJ lookup, as returned by /api/ahj-lookup
+ */
+export interface AhjLookupResult {
+  location: GeoPoint;
+  // Geocoded address, when the lookup was for an address
+  placeName?: string;
+  matchType: AhjMatchType;
+  ahj: {
+    id: string;
+    name: string;
+    classification: string;
+    // Distance to the AHJ pin for 'nearest' matches
+    distanceMiles?: number;
+  } | null;
+  projectCounts: AhjProjectCounts | null;
+  // Utilities that have served projects in the AHJ
+  utilityIds: string[];
+}
+
+/**
+ * Find the AHJ for an address or a point on the map
+ */
+export async function lookupAhj(
+  query: { address: string } | { location: GeoPoint }
+): Promise<AhjLookupResult> {
+  const params = new URLSearchParams(
+    'address' in query
+      ? { address: query.address }
+      : { point: `${query.location.latitude},${query.location.longitude}` }
+  );
+
+  const response = await fetch(`/api/ahj-lookup?${params.toString()}`, {
+    headers: await getAuthHeaders(),
+    cache: 'no-store'
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed with status ${response.status}`);
+  }
+
+  return body as AhjLookupResult;
+}
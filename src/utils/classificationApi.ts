@@ -0,0 +1,82 @@
+/**
+ * classificationApi.ts
+ *
+ * Client for /api/classifications: reads an entity's classification change log
+ * and lets admins change a classification (with a required reason).
+ */
+
+import { getAuthHeaders } from './projectsApi';
+import { EntityKind } from './projectNormalization';
+
+// Classes an admin can assign
+export const EDITABLE_CLASSIFICATIONS = ['A', 'B', 'C'] as const;
+export type EditableClassification = typeof EDITABLE_CLASSIFICATIONS[number];
+
+/**
+ * A single recorded classification change
+ */
+export interface ClassificationChange {
+  id: string;
+  entity_type: EntityKind;
+  entity_id: string;
+  entity_name: string | null;
+  previous_classification: string | null;
+  new_classification: string;
+  reason: string;
+  changed_by: string | null;
+  changed_by_email: string | null;
+  created_at: string;
+}
+
+/**
+ * A classification change requested by an admin
+ */
+export interface ClassificationUpdate {
+  entityType: EntityKind;
+  entityId: string;
+  classification: EditableClassification;
+  reason: string;
+}
+
+/**
+ * Parse an API response, throwing the server's error message on failure
+ */
+async function readResponse<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed with status ${response.status}`);
+  }
+  return body as T;
+}
+
+/**
+ * Fetch the classification change log for an entity, newest first
+ */
+export async function fetchClassificationHistory(
+  entityType: EntityKind,
+  entityId: string
+): Promise<ClassificationChange[]> {
+  const params = new URLSearchParams({ entityType, entityId });
+  const response = await fetch(`/api/classifications?${params.toString()}`, {
+    headers: await getAuthHeaders(),
+    cache: 'no-store'
+  });
+
+  const body = await readResponse<{ history: ClassificationChange[] }>(response);
+  return body.history || [];
+}
+
+/**
+ * Change an entity's classification (admins only)
+ * @returns The recorded change
+ */
+export async function updateClassification(update: ClassificationUpdate): Promise<ClassificationChange> {
+  const response = await fetch('/api/classifications', {
+    method: 'POST',
+    headers: { ...(await getAuthHeaders()), 'Content-Type': 'application/json' },
+    body: JSON.stringify(update)
+  });
+
+  const body = await readResponse<{ change: ClassificationChange }>(response);
+  return body.change;
+}
@@ -0,0 +1,230 @@
+/**
+ * classificationSuggestions.ts
+ *
+ * Suggests an A/B/C class for an AHJ, utility or financier from how its
+ * projects actually went, for admins to review beside the hand-entered class.
+ *
+ * Each entity is scored against the baseline of every project on three
+ * signals: 45-day qualification rate, median days from contract to install,
+ * and the share of cancelled projects. A score of 0.5 is an average entity;
+ * the class thresholds put clearly better entities in A and clearly worse
+ * ones in C. Confidence grows with the number of projects and with the
+ * distance of the score from a class boundary.
+ */
+
+import { Project } from './types';
+import { EntityKind } from './projectNormalization';
+import { EditableClassification } from './classificationApi';
+import { formatClassification } from './classificationColors';
+import { isQualified } from './qualificationStatus';
+import { HEADLINE_MILESTONE, MIN_TIMING_SAMPLES, getDaysToMilestone, percentile } from './milestoneTiming';
+
+// Fewest projects an entity needs before a class is suggested
+export const MIN_SUGGESTION_PROJECTS = 5;
+
+// Scores at or above these are suggested as A / B; anything lower is C
+const CLASS_A_THRESHOLD = 0.6;
+const CLASS_B_THRESHOLD = 0.45;
+
+// Weight of each signal in the score (renormalized when a signal has no data)
+const SIGNAL_WEIGHTS = {
+  qualification: 0.5,
+  speed: 0.3,
+  cancellation: 0.2
+};
+
+// Projects at which sample-size confidence reaches one half
+const HALF_CONFIDENCE_PROJECTS = 10;
+
+// Score distance from a class boundary treated as fully decisive
+const DECISIVE_MARGIN = 0.1;
+
+/**
+ * One signal behind a suggestion
+ */
+export interface SuggestionEvidence {
+  signal: keyof typeof SIGNAL_WEIGHTS;
+  label: string;
+  value: string; // The entity's figure
+  baseline: string; // The same figure across all projects
+  impact: 'positive' | 'negative' | 'neutral';
+}
+
+/**
+ * Suggested class for an entity, with the reasons for it
+ */
+export interface ClassificationSuggestion {
+  classification: EditableClassification;
+  confidence: number; // 0-1
+  score: number; // 0-1, 0.5 is average
+  projectCount: number;
+  evidence: SuggestionEvidence[];
+}
+
+/**
+ * Outcome figures for a set of projects
+ */
+interface OutcomeSignals {
+  projectCount: number;
+  qualificationRate: number;
+  cancellationRate: number | null; // null when no statuses are visible
+  medianDaysToInstall: number | null; // null with too few timed projects
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Whether a project was cancelled, from its Podio status
+ */
+export function isCancelled(project: Project): boolean {
+  return /cancel/i.test(project.status || '');
+}
+
+function measureSignals(projects: Project[]): OutcomeSignals {
+  // Masked projects have no real status, so they can't count towards cancellations
+  const withStatus = projects.filter(project => !project.isMasked);
+  const installDays = projects
+    .map(project => getDaysToMilestone(project, HEADLINE_MILESTONE))
+    .filter((days): days is number => days !== null)
+    .sort((a, b) => a - b);
+
+  return {
+    projectCount: projects.length,
+    qualificationRate: projects.length > 0
+      ? projects.filter(project => isQualified(project)).length / projects.length
+      : 0,
+    cancellationRate: withStatus.length > 0
+      ? withStatus.filter(isCancelled).length / withStatus.length
+      : null,
+    medianDaysToInstall: installDays.length >= MIN_TIMING_SAMPLES ? percentile(installDays, 0.5) : null
+  };
+}
+
+const toImpact = (signalScore: number): SuggestionEvidence['impact'] =>
+  signalScore > 0.55 ? 'positive' : signalScore < 0.45 ? 'negative' : 'neutral';
+
+/**
+ * Score an entity's projects against the baseline
+ * @returns null when the entity has too few projects
+ */
+function scoreEntity(projects: Project[], baseline: OutcomeSignals): ClassificationSuggestion | null {
+  if (projects.length < MIN_SUGGESTION_PROJECTS) return null;
+
+  const signals = measureSignals(projects);
+  const scored: { weight: number; score: number }[] = [];
+  const evidence: SuggestionEvidence[] = [];
+
+  // 45-day rate: each point above or below the baseline moves the score one point
+  const qualificationScore = clamp(0.5 + (signals.qualificationRate - baseline.qualificationRate));
+  scored.push({ weight: SIGNAL_WEIGHTS.qualification, score: qualificationScore });
+  evidence.push({
+    signal: 'qualification',
+    label: '45-day qualification',
+    value: formatPercent(signals.qualificationRate),
+    baseline: formatPercent(baseline.qualificationRate),
+    impact: toImpact(qualificationScore)
+  });
+
+  // Speed: half the baseline time to install scores 1, double scores 0
+  if (signals.medianDaysToInstall !== null && baseline.medianDaysToInstall !== null) {
+    const ratio = baseline.medianDaysToInstall / Math.max(signals.medianDaysToInstall, 1);
+    const speedScore = clamp(0.5 + Math.log2(ratio) / 2);
+    scored.push({ weight: SIGNAL_WEIGHTS.speed, score: speedScore });
+    evidence.push({
+      signal: 'speed',
+      label: `Median days to ${HEADLINE_MILESTONE.toLowerCase()}`,
+      value: `${signals.medianDaysToInstall}d`,
+      baseline: `${baseline.medianDaysToInstall}d`,
+      impact: toImpact(speedScore)
+    });
+  }
+
+  // Cancellations: each point above the baseline costs two points
+  if (signals.cancellationRate !== null && baseline.cancellationRate !== null) {
+    const cancellationScore = clamp(0.5 + (baseline.cancellationRate - signals.cancellationRate) * 2);
+    scored.push({ weight: SIGNAL_WEIGHTS.cancellation, score: cancellationScore });
+    evidence.push({
+      signal: 'cancellation',
+      label: 'Cancelled',
+      value: formatPercent(signals.cancellationRate),
+      baseline: formatPercent(baseline.cancellationRate),
+      impact: toImpact(cancellationScore)
+    });
+  }
+
+  const totalWeight = scored.reduce((sum, item) => sum + item.weight, 0);
+  const score = scored.reduce((sum, item) => sum + item.weight * item.score, 0) / totalWeight;
+
+  const classification: EditableClassification =
+    score >= CLASS_A_THRESHOLD ? 'A' : score >= CLASS_B_THRESHOLD ? 'B' : 'C';
+
+  // Distance to the nearest boundary of the suggested class
+  const margin = classification === 'A'
+    ? score - CLASS_A_THRESHOLD
+    : classification === 'C'
+      ? CLASS_B_THRESHOLD - score
+      : Math.min(score - CLASS_B_THRESHOLD, CLASS_A_THRESHOLD - score);
+
+  const sampleConfidence = projects.length / (projects.length + HALF_CONFIDENCE_PROJECTS);
+  const marginConfidence = 0.5 + 0.5 * clamp(margin / DECISIVE_MARGIN);
+
+  return {
+    classification,
+    confidence: Math.round(sampleConfidence * marginConfidence * 100) / 100,
+    score: Math.round(score * 1000) / 1000,
+    projectCount: projects.length,
+    evidence
+  };
+}
+
+/**
+ * Suggested classes for every entity of a type with enough projects
+ * @param projects Every project, so the baseline covers all entities
+ * @returns Suggestions keyed by entity ID
+ */
+export function buildClassificationSuggestions(
+  projects: Project[],
+  kind: EntityKind
+): Map<string, ClassificationSuggestion> {
+  const baseline = measureSignals(projects);
+  const projectsByEntity = new Map<string, Project[]>();
+
+  projects.forEach(project => {
+    const id = kind === 'ahj' ? project.ahj_item_id : kind === 'utility' ? project.utility_company_item_id : project.financier_id;
+    if (!id) return;
+    const group = projectsByEntity.get(id);
+    if (group) {
+      group.push(project);
+    } else {
+      projectsByEntity.set(id, [project]);
+    }
+  });
+
+  const suggestions = new Map<string, ClassificationSuggestion>();
+  projectsByEntity.forEach((group, id) => {
+    const suggestion = scoreEntity(group, baseline);
+    if (suggestion) suggestions.set(id, suggestion);
+  });
+  return suggestions;
+}
+
+/**
+ * Whether a suggestion differs from the entity's current class
+ */
+export function isSuggestedChange(suggestion: ClassificationSuggestion, currentClassification: string): boolean {
+  return suggestion.classification !== formatClassification(currentClassification);
+}
+
+/**
+ * Change log reason recorded when a suggestion is accepted
+ */
+export function formatSuggestionReason(suggestion: ClassificationSuggestion): string {
+  const evidence = suggestion.evidence
+    .map(item => `${item.label} ${item.value} (all projects ${item.baseline})`)
+    .join('; ');
+
+  return `Accepted suggested class ${suggestion.classification} ` +
+    `(${formatPercent(suggestion.confidence)} confidence, ${suggestion.projectCount} projects): ${evidence}`;
+}
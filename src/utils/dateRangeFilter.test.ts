@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { isInDateRange, parseDateRangeValue } from './dateRangeFilter';
+
+describe('parseDateRangeValue', () => {
+  it('counts presets back from the local date', () => {
+    // Late evening locally, which is already the next day in UTC west of Greenwich
+    const today = new Date(2024, 2, 31, 23, 30);
+    expect(parseDateRangeValue('last-30', today)).toEqual({ from: '2024-03-01', to: '2024-03-31' });
+  });
+
+  it('reads fixed ranges with an open end', () => {
+    expect(parseDateRangeValue('2024-01-01..')).toEqual({ from: '2024-01-01' });
+    expect(parseDateRangeValue('..2024-03-31')).toEqual({ to: '2024-03-31' });
+    expect(parseDateRangeValue('..')).toBeNull();
+  });
+});
+
+describe('isInDateRange', () => {
+  const range = { from: '2024-01-01', to: '2024-03-31' };
+
+  it('includes both ends', () => {
+    expect(isInDateRange('2024-01-01', range)).toBe(true);
+    expect(isInDateRange('2024-03-31T18:00:00Z', range)).toBe(true);
+    expect(isInDateRange('2024-04-01', range)).toBe(false);
+  });
+
+  it('matches dates that are not ISO formatted', () => {
+    expect(isInDateRange('February 15, 2024', range)).toBe(true);
+    expect(isInDateRange('not a date', range)).toBe(false);
+    expect(isInDateRange(null, range)).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * dateRangeFilter.ts
+ *
+ * Values of the contract signed date filter. A filter value is either a preset
+ * relative to today (`last-30`, `last-90`, `last-365`), so saved views and
+ * links keep rolling forward, or a fixed range `YYYY-MM-DD..YYYY-MM-DD` where
+ * either end may be left empty. Both ends are inclusive. Presets count days
+ * in the user's local time zone.
+ */
+
+import { toDateOnly } from './milestoneTiming';
+
+/**
+ * Relative ranges offered in the filter panel
+ */
+export const DATE_RANGE_PRESETS = [
+  { value: 'last-30', label: 'Last 30 days', days: 30 },
+  { value: 'last-90', label: 'Last 90 days', days: 90 },
+  { value: 'last-365', label: 'Last 365 days', days: 365 }
+] as const;
+
+/**
+ * An inclusive date range; a missing end is open
+ */
+export interface DateRange {
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const RANGE_SEPARATOR = '..';
+
+// Calendar date in the local time zone, for dates relative to today
+const toLocalDateString = (date: Date) =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map((part, index) => String(part).padStart(index === 0 ? 4 : 2, '0'))
+    .join('-');
+
+const isValidDate = (value: string) => DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+
+/**
+ * Encode a fixed range as a filter value
+ */
+export function formatDateRangeValue(range: DateRange): string {
+  return `${range.from || ''}${RANGE_SEPARATOR}${range.to || ''}`;
+}
+
+/**
+ * Resolve a filter value to dates
+ * @param today Reference date for presets (defaults to now)
+ * @returns null for unrecognized values or ranges with no valid end
+ */
+export function parseDateRangeValue(value: string | null | undefined, today: Date = new Date()): DateRange | null {
+  if (!value) return null;
+
+  const preset = DATE_RANGE_PRESETS.find(candidate => candidate.value === value);
+  if (preset) {
+    return {
+      from: toLocalDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() - preset.days)),
+      to: toLocalDateString(today)
+    };
+  }
+
+  const separator = value.indexOf(RANGE_SEPARATOR);
+  if (separator < 0) return null;
+
+  const from = value.slice(0, separator);
+  const to = value.slice(separator + RANGE_SEPARATOR.length);
+  const range: DateRange = {};
+  if (from && isValidDate(from)) range.from = from;
+  if (to && isValidDate(to)) range.to = to;
+
+  return range.from || range.to ? range : null;
+}
+
+/**
+ * Whether a date (any date or timestamp `toDateOnly` understands) falls inside a range
+ * Missing and unparseable dates never match.
+ */
+export function isInDateRange(date: string | null | undefined, range: DateRange): boolean {
+  const day = toDateOnly(date);
+  if (!day) return false;
+  if (range.from && day < range.from) return false;
+  if (range.to && day > range.to) return false;
+  return true;
+}
+
+/**
+ * Human-readable description of a filter value, e.g. "Last 90 days" or "2024-01-01 – 2024-03-31"
+ */
+export function getDateRangeLabel(value: string): string {
+  const preset = DATE_RANGE_PRESETS.find(candidate => candidate.value === value);
+  if (preset) return preset.label;
+
+  const range = parseDateRangeValue(value);
+  if (!range) return value;
+  if (range.from && range.to) return `${range.from} – ${range.to}`;
+  return range.from ? `Since ${range.from}` : `Until ${range.to}`;
+}
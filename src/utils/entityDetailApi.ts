@@ -0,0 +1,85 @@
+/**
+ * entityDetailApi.ts
+ *
+ * Client for /api/entity-detail: everything known about a single AHJ, utility
+ * or financier, for the entity detail pages.
+ */
+
+import { getAuthHeaders } from './projectsApi';
+import { EntityKind, NormalizedEntity } from './projectNormalization';
+import { MilestoneTiming } from './milestoneTiming';
+
+/**
+ * An entity that shares projects with the one being viewed
+ */
+export interface RelatedEntity {
+  id: string;
+  name: string;
+  classification: string;
+  sharedProjects: number;
+}
+
+/**
+ * 45-day qualification for projects signed in one month
+ */
+export interface QualificationMonth {
+  // YYYY-MM
+  month: string;
+  total: number;
+  qualified: number;
+}
+
+/**
+ * A visible installed project, placed on the detail page's mini map
+ */
+export interface InstallPoint {
+  id: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  milestone: string;
+}
+
+/**
+ * Everything shown on an entity detail page
+ * Masked projects are counted but never listed or placed on the map.
+ */
+export interface EntityDetail {
+  entityType: EntityKind;
+  entity: NormalizedEntity;
+  related: Partial<Record<EntityKind, RelatedEntity[]>>;
+  projectCount: number;
+  statusCounts: Record<string, number>;
+  // In pipeline order, with unknown milestones last
+  milestoneCounts: { milestone: string; count: number }[];
+  qualified45DayCount: number;
+  qualificationByMonth: QualificationMonth[];
+  // Days from contract signed to each later milestone, in pipeline order
+  milestoneTimings: MilestoneTiming[];
+  installs: InstallPoint[];
+}
+
+/**
+ * Fetch the detail for an entity
+ */
+export async function fetchEntityDetail(entityType: EntityKind, id: string): Promise<EntityDetail> {
+  const params = new URLSearchParams({ type: entityType, id });
+  const response = await fetch(`/api/entity-detail?${params.toString()}`, {
+    headers: await getAuthHeaders(),
+    cache: 'no-store'
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed with status ${response.status}`);
+  }
+
+  return body as EntityDetail;
+}
+
+/**
+ * Path of an entity's detail page
+ */
+export function getEntityDetailPath(entityType: EntityKind, id: string): string {
+  return `/${entityType}/${encodeURIComponent(id)}`;
+}
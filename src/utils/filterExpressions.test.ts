@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ProjectFilter } from './types';
+import { getProjectQueryParams } from './filterExpressions';
+
+describe('getProjectQueryParams', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends filters every matching project has to satisfy', () => {
+    const filters: ProjectFilter[] = [
+      { type: 'ahj', value: 'Mesa', entityId: 'ahj-1', filterSource: 'entity-selection' },
+      { type: 'class', value: 'B', entityType: 'utility' },
+      { type: '45day', value: 'true' },
+      { type: 'contractDate', value: 'last-90' },
+      { type: 'search', value: ' main st ' },
+      { type: 'city', value: 'Mesa' },
+      { type: 'city', value: 'Gilbert' }
+    ];
+
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 3, 30, 23, 30));
+
+    expect(getProjectQueryParams(filters, { field: 'contract_signed_date', direction: 'desc' })).toEqual({
+      ahj: 'ahj-1',
+      utility: 'B',
+      qualified45Day: true,
+      contractDate: '2024-01-31..2024-04-30',
+      search: 'main st',
+      city: 'Mesa,Gilbert',
+      sortField: 'contract_signed_date',
+      sortDirection: 'desc'
+    });
+  });
+
+  it('leaves OR groups, negations and name filters to the client', () => {
+    const filters: ProjectFilter[] = [
+      { type: 'ahj', value: 'A' },
+      { type: 'ahj', value: 'B' },
+      { type: 'utility', value: 'A', group: 'shared' },
+      { type: '45day', value: 'true', group: 'shared' },
+      { type: 'financier', value: 'C', negate: true },
+      { type: 'financier', value: 'Sunrun' },
+      { type: 'search', value: 'main st, mesa' },
+      { type: 'myprojects', value: 'rep-1' }
+    ];
+
+    expect(getProjectQueryParams(filters, { field: 'name', direction: 'asc' })).toEqual({});
+  });
+
+  it('sends contract date presets as the local date range', () => {
+    // Late evening locally, which is already the next day in UTC west of Greenwich
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 2, 31, 23, 30));
+
+    expect(getProjectQueryParams([{ type: 'contractDate', value: 'last-30' }])).toEqual({
+      contractDate: '2024-03-01..2024-03-31'
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * filterExpressions.ts
+ *
+ * Boolean evaluation of the active filter list, shared by DataContext and the
+ * server. Filters are combined as:
+ *
+ *   (group 1 filters ORed) AND (group 2 filters ORed) AND ... AND NOT (each negated filter)
+ *
+ * A filter's group defaults to its type, so e.g. "AHJ class A" and "AHJ class B"
+ * match projects in either class. Filters of different types can be placed in a
+ * shared group to OR them too.
+ *
+ * Also provides the lossless URL encoding of a filter list, and the
+ * /api/projects parameters that let the server narrow project pages.
+ */
+
+import { FilterState, Project, ProjectFilter } from './types';
+import { isQualified } from './qualificationStatus';
+import { formatDateRangeValue, getDateRangeLabel, isInDateRange, parseDateRangeValue } from './dateRangeFilter';
+import { GEO_FILTER_LABELS, GEO_FILTER_TYPES, isGeoFilterType, matchesGeoValue } from './geoFilters';
+
+const FILTER_TYPES: ProjectFilter['type'][] = [
+  'ahj', 'utility', 'financier', '45day', 'search', 'myprojects', 'class', 'contractDate', ...GEO_FILTER_TYPES
+];
+const FILTER_SOURCES = ['manual', 'entity-selection', 'search'];
+const ENTITY_TYPES = ['ahj', 'utility', 'financier'];
+
+// Display names used when rebuilding filter labels
+const TYPE_LABELS: Record<string, string> = {
+  ahj: 'AHJ',
+  utility: 'Utility',
+  financier: 'Financier',
+  ...GEO_FILTER_LABELS
+};
+
+// Sort fields /api/projects can order by (the keys of SORT_COLUMNS in src/server/projectQueries.ts)
+const SERVER_SORT_FIELDS = [
+  'id', 'address', 'city', 'zip', 'ahj', 'utility', 'financier', 'status', 'milestone', '45day', 'contract_signed_date'
+];
+
+const isClassValue = (value: string) => value === 'A' || value === 'B' || value === 'C';
+
+/**
+ * Whether a project satisfies a single filter, ignoring negation
+ */
+export function matchesFilter(project: Project, filter: ProjectFilter): boolean {
+  switch (filter.type) {
+    case 'search': {
+      // Search across multiple fields
+      const searchValue = filter.value.toLowerCase();
+      return Boolean(
+        project.address?.toLowerCase().includes(searchValue) ||
+        project.ahj?.name?.toLowerCase().includes(searchValue) ||
+        project.utility?.name?.toLowerCase().includes(searchValue) ||
+        project.city?.toLowerCase().includes(searchValue) ||
+        project.state?.toLowerCase().includes(searchValue) ||
+        project.zip?.toLowerCase().includes(searchValue)
+      );
+    }
+    case 'ahj':
+      if (isClassValue(filter.value)) return project.ahj?.classification === filter.value;
+      if (filter.entityId) return project.ahj_item_id?.toString() === filter.entityId.toString();
+      return Boolean(project.ahj?.name?.toLowerCase().includes(filter.value.toLowerCase()));
+    case 'utility':
+      if (isClassValue(filter.value)) return project.utility?.classification === filter.value;
+      if (filter.entityId) return project.utility_company_item_id?.toString() === filter.entityId.toString();
+      return Boolean(project.utility?.name?.toLowerCase().includes(filter.value.toLowerCase()));
+    case 'financier':
+      if (isClassValue(filter.value)) return project.financier?.classification === filter.value;
+      if (filter.entityId) return project.financier_id?.toString() === filter.entityId.toString();
+      return Boolean(project.financier?.name?.toLowerCase().includes(filter.value.toLowerCase()));
+    case '45day': {
+      // Check both the legacy flag formats and the Podio status values
+      const qualifies = project.qualifies45Day;
+      return qualifies === true || qualifies === 'true' || qualifies === 'yes' || isQualified(project);
+    }
+    case 'myprojects':
+      return project.rep_id === filter.value;
+    case 'class':
+      // Classification filters default to AHJs when no entity type is given
+      if (filter.entityType === 'utility') return project.utility?.classification === filter.value;
+      if (filter.entityType === 'financier') return project.financier?.classification === filter.value;
+      return project.ahj?.classification === filter.value;
+    case 'contractDate': {
+      // Unreadable ranges don't narrow the list
+      const range = parseDateRangeValue(filter.value);
+      return range ? isInDateRange(project.contract_signed_date, range) : true;
+    }
+    case 'state':
+    case 'county':
+    case 'city':
+    case 'zip':
+      return matchesGeoValue(project, filter.type, filter.value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * The OR group a filter belongs to
+ */
+export function getFilterGroupKey(filter: ProjectFilter): string {
+  if (filter.group) return filter.group;
+  // Classification filters are grouped per entity type
+  if (filter.type === 'class') return `class-${filter.entityType || 'ahj'}`;
+  return filter.type;
+}
+
+/**
+ * Split filters into ORed groups (in first-seen order) and negated exclusions
+ */
+export function groupFilters<T extends ProjectFilter>(filters: T[]): { groups: T[][]; exclusions: T[] } {
+  const groups = new Map<string, T[]>();
+  const exclusions: T[] = [];
+
+  filters.forEach(filter => {
+    if (filter.negate) {
+      exclusions.push(filter);
+      return;
+    }
+    const key = getFilterGroupKey(filter);
+    groups.set(key, [...(groups.get(key) || []), filter]);
+  });
+
+  return { groups: Array.from(groups.values()), exclusions };
+}
+
+/**
+ * Whether a project satisfies the whole filter expression
+ */
+export function matchesFilterExpression(project: Project, filters: ProjectFilter[]): boolean {
+  const { groups, exclusions } = groupFilters(filters);
+
+  return groups.every(group => group.some(filter => matchesFilter(project, filter))) &&
+    !exclusions.some(filter => matchesFilter(project, filter));
+}
+
+/**
+ * Default chip label for a filter
+ */
+export function getFilterLabel(filter: ProjectFilter): string {
+  switch (filter.type) {
+    case 'search':
+      return `Search: ${filter.value}`;
+    case '45day':
+      return '45-Day Qualified';
+    case 'myprojects':
+      return 'My Projects';
+    case 'class':
+      return `${(filter.entityType || 'ahj').toUpperCase()} Class: ${filter.value}`;
+    case 'contractDate':
+      return `Contract Signed: ${getDateRangeLabel(filter.value)}`;
+    default:
+      return `${TYPE_LABELS[filter.type]}: ${filter.value}`;
+  }
+}
+
+/**
+ * Encode filters for the `filters` URL parameter
+ *
+ * Each filter becomes
+ * `[!]type:value:entityId:entityType:filterSource:group:label:metadata`
+ * (trailing empty fields dropped) and filters are joined with commas. The label
+ * is only written when it differs from the default one, and metadata is JSON.
+ * Fields are URI-encoded, so they never contain the `:` or `,` separators.
+ * Filter IDs aren't encoded; they're regenerated when filters are restored.
+ */
+export function encodeFilterExpression(filters: ProjectFilter[]): string {
+  return filters
+    .map(filter => {
+      const label = filter.label && filter.label !== getFilterLabel(filter) ? filter.label : '';
+      const metadata = filter.metadata && Object.keys(filter.metadata).length > 0
+        ? JSON.stringify(filter.metadata)
+        : '';
+      const fields = [
+        filter.type,
+        filter.value,
+        filter.entityId || '',
+        filter.entityType || '',
+        filter.filterSource || '',
+        filter.group || '',
+        label,
+        metadata
+      ].map(field => encodeURIComponent(field));
+
+      while (fields.length > 2 && fields[fields.length - 1] === '') {
+        fields.pop();
+      }
+
+      return `${filter.negate ? '!' : ''}${fields.join(':')}`;
+    })
+    .join(',');
+}
+
+/**
+ * Decode the `filters` URL parameter; malformed entries are skipped
+ */
+export function decodeFilterExpression(encoded: string | null | undefined): ProjectFilter[] {
+  if (!encoded) return [];
+
+  const filters: ProjectFilter[] = [];
+
+  encoded.split(',').forEach(token => {
+    const negate = token.startsWith('!');
+    let fields: string[];
+    try {
+      fields = (negate ? token.slice(1) : token).split(':').map(field => decodeURIComponent(field));
+    } catch {
+      return;
+    }
+
+    const [type, value, entityId, entityType, filterSource, group, label, metadata] = fields;
+    if (!FILTER_TYPES.includes(type as ProjectFilter['type']) || !value) return;
+
+    const filter: ProjectFilter = { type: type as ProjectFilter['type'], value };
+    if (entityId) filter.entityId = entityId;
+    if (entityType && ENTITY_TYPES.includes(entityType)) {
+      filter.entityType = entityType as ProjectFilter['entityType'];
+    }
+    if (filterSource && FILTER_SOURCES.includes(filterSource)) {
+      filter.filterSource = filterSource as ProjectFilter['filterSource'];
+    }
+    if (group) filter.group = group;
+    if (negate) filter.negate = true;
+    if (metadata) {
+      try {
+        const parsed = JSON.parse(metadata);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) filter.metadata = parsed;
+      } catch {
+        // Unreadable metadata is dropped; the filter itself still applies
+      }
+    }
+
+    filter.label = label || getFilterLabel(filter);
+    filters.push(filter);
+  });
+
+  return filters;
+}
+
+/**
+ * /api/projects parameters for a filter list and sort
+ *
+ * Only filters the server evaluates like matchesFilter are sent, and only when
+ * every matching project has to satisfy them: positive filters alone in their
+ * group, plus groups of one location field (the server ORs those values too).
+ * Pages are still checked with matchesFilterExpression, so the server only
+ * narrows them and negations, shared groups and name filters are applied on
+ * the client.
+ */
+export function getProjectQueryParams(
+  filters: ProjectFilter[],
+  sortOptions?: FilterState['sortOptions']
+): Record<string, string | boolean> {
+  const params: Record<string, string | boolean> = {};
+  const { groups } = groupFilters(filters);
+
+  groups.forEach(group => {
+    const [filter] = group;
+
+    // Location values are comma-separated on the wire
+    if (isGeoFilterType(filter.type)) {
+      if (group.every(f => f.type === filter.type && !f.value.includes(','))) {
+        params[filter.type] = group.map(f => f.value).join(',');
+      }
+      return;
+    }
+
+    if (group.length > 1) return;
+
+    switch (filter.type) {
+      case 'ahj':
+      case 'utility':
+      case 'financier': {
+        // The server reads a class letter as a classification and anything else as an ID
+        const value = isClassValue(filter.value) ? filter.value : filter.entityId;
+        if (value && !params[filter.type]) params[filter.type] = String(value);
+        break;
+      }
+      case 'class': {
+        const entityType = filter.entityType || 'ahj';
+        if (isClassValue(filter.value) && !params[entityType]) params[entityType] = filter.value;
+        break;
+      }
+      case '45day':
+        params.qualified45Day = true;
+        break;
+      case 'contractDate': {
+        // Presets are resolved here, against the user's local date
+        const range = parseDateRangeValue(filter.value);
+        if (range) params.contractDate = formatDateRangeValue(range);
+        break;
+      }
+      case 'search':
+        // The server drops parentheses and commas from search terms
+        if (filter.value.trim() && !/[(),]/.test(filter.value)) params.search = filter.value.trim();
+        break;
+    }
+  });
+
+  if (sortOptions && SERVER_SORT_FIELDS.includes(sortOptions.field)) {
+    params.sortField = sortOptions.field;
+    params.sortDirection = sortOptions.direction;
+  }
+
+  return params;
+}
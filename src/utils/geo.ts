@@ -0,0 +1,215 @@
+/**
+ * geo.ts
+ *
+ * Geographic helpers for map-area queries: bounding boxes, radius searches
+ * and great-circle distances.
+ */
+
+// Mean radius of the earth
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Miles per degree of latitude (roughly constant)
+const MILES_PER_DEGREE_LATITUDE = 69.0;
+
+/**
+ * Lat/lng bounding box in degrees
+ */
+export interface BoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+/**
+ * A point on the map
+ */
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Area of the map to load data for: the visible viewport or a radius around a point
+ */
+export type MapArea =
+  | { type: 'bbox'; bbox: BoundingBox }
+  | { type: 'radius'; center: GeoPoint; radiusMiles: number };
+
+// Radius options offered in the map's radius control, in miles
+export const RADIUS_OPTIONS_MILES = [5, 10, 25, 50, 100];
+
+const toRadians = (degrees: number): number => degrees * (Math.PI / 180);
+
+/**
+ * Calculate the great-circle distance between two points using the Haversine formula
+ * @returns Distance in miles
+ */
+export function haversineMiles(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+
+  return EARTH_RADIUS_MILES * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Smallest bounding box containing a circle of the given radius
+ * Used to pre-filter radius searches before the exact distance check.
+ */
+export function boundingBoxAroundPoint(center: GeoPoint, radiusMiles: number): BoundingBox {
+  const latDelta = radiusMiles / MILES_PER_DEGREE_LATITUDE;
+  // Longitude degrees shrink towards the poles; clamp to avoid dividing by ~0
+  const lngDelta = radiusMiles /
+    (MILES_PER_DEGREE_LATITUDE * Math.max(Math.cos(toRadians(center.latitude)), 0.01));
+
+  return {
+    west: Math.max(center.longitude - lngDelta, -180),
+    south: Math.max(center.latitude - latDelta, -90),
+    east: Math.min(center.longitude + lngDelta, 180),
+    north: Math.min(center.latitude + latDelta, 90)
+  };
+}
+
+/**
+ * Check whether a point lies inside a bounding box
+ */
+export function isInBoundingBox(point: GeoPoint, bbox: BoundingBox): boolean {
+  return point.latitude >= bbox.south && point.latitude <= bbox.north &&
+    point.longitude >= bbox.west && point.longitude <= bbox.east;
+}
+
+/**
+ * Check whether a point lies inside a map area
+ */
+export function isInMapArea(point: GeoPoint, area: MapArea): boolean {
+  return area.type === 'bbox'
+    ? isInBoundingBox(point, area.bbox)
+    : haversineMiles(area.center, point) <= area.radiusMiles;
+}
+
+/**
+ * Bounding box covering a map area
+ */
+export function getMapAreaBounds(area: MapArea): BoundingBox {
+  return area.type === 'bbox' ? area.bbox : boundingBoxAroundPoint(area.center, area.radiusMiles);
+}
+
+/**
+ * Parse a `west,south,east,north` bounding box string
+ * @returns null when the value is missing or invalid
+ */
+export function parseBoundingBox(value: string | null | undefined): BoundingBox | null {
+  if (!value) return null;
+
+  const parts = value.split(',').map(part => parseFloat(part));
+  if (parts.length !== 4 || parts.some(part => !Number.isFinite(part))) return null;
+
+  const [west, south, east, north] = parts;
+  if (south > north || west > east) return null;
+  if (south < -90 || north > 90 || west < -180 || east > 180) return null;
+
+  return { west, south, east, north };
+}
+
+/**
+ * Parse a `latitude,longitude` point string
+ * @returns null when the value is missing or invalid
+ */
+export function parseGeoPoint(value: string | null | undefined): GeoPoint | null {
+  if (!value) return null;
+
+  const [latitude, longitude] = value.split(',').map(part => parseFloat(part));
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) return null;
+
+  return { latitude, longitude };
+}
+
+/**
+ * Parse a map area from `bbox` or `near` + `radius` query parameters
+ * @returns null when no (valid) area was requested
+ */
+export function parseMapArea(searchParams: URLSearchParams): MapArea | null {
+  const bbox = parseBoundingBox(searchParams.get('bbox'));
+  if (bbox) return { type: 'bbox', bbox };
+
+  const center = parseGeoPoint(searchParams.get('near'));
+  const radiusMiles = parseFloat(searchParams.get('radius') || '');
+  if (center && Number.isFinite(radiusMiles) && radiusMiles > 0) {
+    return { type: 'radius', center, radiusMiles };
+  }
+
+  return null;
+}
+
+/**
+ * Encode a map area as query parameters (inverse of parseMapArea)
+ */
+export function mapAreaToParams(area: MapArea): Record<string, string> {
+  if (area.type === 'bbox') {
+    const { west, south, east, north } = area.bbox;
+    return { bbox: [west, south, east, north].map(value => value.toFixed(5)).join(',') };
+  }
+
+  return {
+    near: `${area.center.latitude.toFixed(5)},${area.center.longitude.toFixed(5)}`,
+    radius: String(area.radiusMiles)
+  };
+}
+
+/**
+ * Approximate a radius around a point as a GeoJSON polygon ring of [lng, lat] pairs
+ * Used to draw the radius on the map.
+ */
+export function circleRing(center: GeoPoint, radiusMiles: number, steps = 64): [number, number][] {
+  const ring: [number, number][] = [];
+  const latDelta = radiusMiles / MILES_PER_DEGREE_LATITUDE;
+  const lngDelta = radiusMiles /
+    (MILES_PER_DEGREE_LATITUDE * Math.max(Math.cos(toRadians(center.latitude)), 0.01));
+
+  for (let i = 0; i <= steps; i++) {
+    const angle = (i / steps) * 2 * Math.PI;
+    ring.push([
+      center.longitude + lngDelta * Math.cos(angle),
+      center.latitude + latDelta * Math.sin(angle)
+    ]);
+  }
+
+  return ring;
+}
+
+/**
+ * Ray-casting test for a point inside a single ring of [lng, lat] pairs
+ */
+function isPointInRing(point: GeoPoint, ring: number[][]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    const crosses = (yi > point.latitude) !== (yj > point.latitude) &&
+      point.longitude < ((xj - xi) * (point.latitude - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+
+  return inside;
+}
+
+/**
+ * Check whether a point lies inside a GeoJSON Polygon or MultiPolygon
+ * The first ring of each polygon is its outline; later rings are holes.
+ */
+export function isPointInPolygon(point: GeoPoint, geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon): boolean {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+  return polygons.some(([outline, ...holes]) =>
+    !!outline &&
+    isPointInRing(point, outline) &&
+    !holes.some(hole => isPointInRing(point, hole))
+  );
+}
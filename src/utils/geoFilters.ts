@@ -0,0 +1,85 @@
+/**
+ * geoFilters.ts
+ *
+ * State, county, city and zip filters. Podio location fields are entered by
+ * hand, so values are compared after normalizing case and spacing, counties
+ * with or without a trailing "County", and zips by their first five digits.
+ * Location fields stay visible on restricted projects, so these filters are
+ * safe to apply to masked projects too.
+ */
+
+import { Project } from './types';
+
+export const GEO_FILTER_TYPES = ['state', 'county', 'city', 'zip'] as const;
+
+export type GeoFilterType = typeof GEO_FILTER_TYPES[number];
+
+// Display names, also used for filter chip labels
+export const GEO_FILTER_LABELS: Record<GeoFilterType, string> = {
+  state: 'State',
+  county: 'County',
+  city: 'City',
+  zip: 'ZIP'
+};
+
+/**
+ * An autocomplete option and the number of loaded projects it matches
+ */
+export interface GeoFilterOption {
+  value: string;
+  count: number;
+}
+
+export const isGeoFilterType = (type: string): type is GeoFilterType =>
+  GEO_FILTER_TYPES.includes(type as GeoFilterType);
+
+/**
+ * Comparison key for a location value
+ */
+export function normalizeGeoValue(type: GeoFilterType, value: string | null | undefined): string {
+  const text = (value || '').trim().replace(/\s+/g, ' ').toLowerCase();
+  if (type === 'county') return text.replace(/ county$/, '');
+  if (type === 'zip') return text.slice(0, 5);
+  return text;
+}
+
+/**
+ * Whether a project's location field matches a filter value
+ */
+export function matchesGeoValue(project: Project, type: GeoFilterType, value: string): boolean {
+  const expected = normalizeGeoValue(type, value);
+  return expected !== '' && normalizeGeoValue(type, project[type]) === expected;
+}
+
+/**
+ * Distinct values of a location field across projects, most common first
+ * Each option is shown with the first spelling seen for it.
+ */
+export function buildGeoOptions(projects: Project[], type: GeoFilterType): GeoFilterOption[] {
+  const options = new Map<string, GeoFilterOption>();
+
+  projects.forEach(project => {
+    const key = normalizeGeoValue(type, project[type]);
+    if (!key) return;
+    const option = options.get(key);
+    if (option) {
+      option.count += 1;
+    } else {
+      const value = (project[type] || '').trim().replace(/\s+/g, ' ');
+      options.set(key, { value: type === 'zip' ? value.slice(0, 5) : value, count: 1 });
+    }
+  });
+
+  return Array.from(options.values()).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Read a location query parameter: repeated and/or comma-separated values
+ */
+export function parseGeoValues(input: string | string[] | null | undefined): string[] {
+  const values = Array.isArray(input) ? input : input ? [input] : [];
+  return values
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(Boolean);
+}
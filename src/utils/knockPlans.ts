@@ -0,0 +1,212 @@
+/**
+ * knockPlans.ts
+ *
+ * Reads and writes a rep's knock plans: named lists of AHJs and map areas to
+ * canvass, each with optional notes. Row level security limits both tables to
+ * the signed-in rep's own plans (see 20261023_knock_plans.sql).
+ */
+
+import { supabase } from './supabaseClient';
+import { GeoPoint, MapArea } from './geo';
+import { RouteStop } from './routeOptimizer';
+
+/**
+ * A single stop in a knock plan: an AHJ or a map area
+ */
+export interface KnockPlanItem {
+  id: string;
+  knock_plan_id: string;
+  item_type: 'ahj' | 'area';
+  ahj_item_id: string | null;
+  area: MapArea | null;
+  label: string;
+  notes: string | null;
+  created_at: string;
+}
+
+/**
+ * A named knock plan with its items, oldest item first
+ */
+export interface KnockPlan {
+  id: string;
+  name: string;
+  description: string | null;
+  rep_id: string;
+  created_at: string;
+  updated_at: string | null;
+  items: KnockPlanItem[];
+}
+
+/**
+ * What to add to a plan
+ */
+export type NewKnockPlanItem =
+  | { type: 'ahj'; ahjId: string; label: string }
+  | { type: 'area'; area: MapArea; label: string };
+
+const PLAN_COLUMNS = 'id, name, description, rep_id, created_at, updated_at';
+const ITEM_COLUMNS = 'id, knock_plan_id, item_type, ahj_item_id, area, label, notes, created_at';
+
+// Plan row as returned by Supabase, with items nested when selected
+type KnockPlanRow = Omit<KnockPlan, 'items'> & { knock_plan_items?: KnockPlanItem[] | null };
+
+/**
+ * Convert a plan row (with nested items) into a KnockPlan
+ */
+function toKnockPlan(row: KnockPlanRow): KnockPlan {
+  const items: KnockPlanItem[] = [...(row.knock_plan_items || [])].sort(
+    (a, b) => String(a.created_at).localeCompare(String(b.created_at))
+  );
+
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? null,
+    rep_id: row.rep_id,
+    created_at: row.created_at,
+    updated_at: row.updated_at ?? null,
+    items
+  };
+}
+
+/**
+ * Fetch every knock plan belonging to a rep, most recently created first
+ */
+export async function fetchKnockPlans(repId: string): Promise<KnockPlan[]> {
+  const { data, error } = await supabase
+    .from('knock_plans')
+    .select(`${PLAN_COLUMNS}, knock_plan_items (${ITEM_COLUMNS})`)
+    .eq('rep_id', repId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Error fetching knock plans: ${error.message}`);
+  }
+
+  return ((data || []) as KnockPlanRow[]).map(toKnockPlan);
+}
+
+/**
+ * Create an empty knock plan for a rep
+ */
+export async function createKnockPlan(repId: string, name: string): Promise<KnockPlan> {
+  const { data, error } = await supabase
+    .from('knock_plans')
+    .insert({ name, rep_id: repId, created_by: repId })
+    .select(PLAN_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Error creating knock plan: ${error.message}`);
+  }
+
+  return toKnockPlan(data as KnockPlanRow);
+}
+
+/**
+ * Rename a knock plan
+ */
+export async function renameKnockPlan(planId: string, name: string): Promise<void> {
+  const { error } = await supabase
+    .from('knock_plans')
+    .update({ name, updated_at: new Date().toISOString() })
+    .eq('id', planId);
+
+  if (error) {
+    throw new Error(`Error renaming knock plan: ${error.message}`);
+  }
+}
+
+/**
+ * Delete a knock plan (its items are removed by the cascading foreign key)
+ */
+export async function deleteKnockPlan(planId: string): Promise<void> {
+  const { error } = await supabase
+    .from('knock_plans')
+    .delete()
+    .eq('id', planId);
+
+  if (error) {
+    throw new Error(`Error deleting knock plan: ${error.message}`);
+  }
+}
+
+/**
+ * Add an AHJ or map area to a knock plan
+ */
+export async function addKnockPlanItem(planId: string, item: NewKnockPlanItem): Promise<KnockPlanItem> {
+  const row = item.type === 'ahj'
+    ? { knock_plan_id: planId, item_type: 'ahj', ahj_item_id: item.ahjId, label: item.label }
+    : { knock_plan_id: planId, item_type: 'area', area: item.area, label: item.label };
+
+  const { data, error } = await supabase
+    .from('knock_plan_items')
+    .insert(row)
+    .select(ITEM_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Error adding to knock plan: ${error.message}`);
+  }
+
+  return data as KnockPlanItem;
+}
+
+/**
+ * Save the notes on a knock plan item
+ */
+export async function updateKnockPlanItemNotes(itemId: string, notes: string): Promise<void> {
+  const { error } = await supabase
+    .from('knock_plan_items')
+    .update({ notes: notes || null, updated_at: new Date().toISOString() })
+    .eq('id', itemId);
+
+  if (error) {
+    throw new Error(`Error saving knock plan notes: ${error.message}`);
+  }
+}
+
+/**
+ * Remove an item from a knock plan
+ */
+export async function removeKnockPlanItem(itemId: string): Promise<void> {
+  const { error } = await supabase
+    .from('knock_plan_items')
+    .delete()
+    .eq('id', itemId);
+
+  if (error) {
+    throw new Error(`Error removing knock plan item: ${error.message}`);
+  }
+}
+
+/**
+ * Center of a map area item
+ */
+function getAreaCenter(area: MapArea): GeoPoint {
+  if (area.type === 'radius') return area.center;
+
+  const { west, south, east, north } = area.bbox;
+  return { latitude: (south + north) / 2, longitude: (west + east) / 2 };
+}
+
+/**
+ * Turn a plan's items into route stops
+ * AHJs are placed at their pin; items without a known location are skipped.
+ * @param ahjLocations AHJ coordinates keyed by AHJ id
+ */
+export function getKnockPlanStops(plan: KnockPlan, ahjLocations: Map<string, GeoPoint>): RouteStop[] {
+  const stops: RouteStop[] = [];
+
+  plan.items.forEach(item => {
+    const location = item.item_type === 'area'
+      ? (item.area ? getAreaCenter(item.area) : undefined)
+      : (item.ahj_item_id ? ahjLocations.get(item.ahj_item_id) : undefined);
+
+    if (location) {
+      stops.push({ id: item.id, label: item.label, location });
+    }
+  });
+
+  return stops;
+}
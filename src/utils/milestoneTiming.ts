@@ -0,0 +1,198 @@
+/**
+ * milestoneTiming.ts
+ *
+ * How long projects take to get from contract signed to each later milestone.
+ *
+ * Podio payloads carry the date each milestone was reached, but not under a
+ * single field: dates are read from a `milestone_dates` object keyed by
+ * milestone name, a `milestone_history` list of transitions, or the per-
+ * milestone date fields in MILESTONE_DATE_FIELDS. The dates are kept
+ * on the project as `milestone_dates` during normalization, and summarized
+ * here as the median and 90th percentile days per AHJ, utility or financier.
+ */
+
+import { Project } from './types';
+import { EntityKind } from './projectNormalization';
+import { MILESTONE_PIPELINE, getMilestoneRank } from './milestones';
+
+// Payload fields holding the date a milestone was reached, most specific first
+export const MILESTONE_DATE_FIELDS: Record<string, string[]> = {
+  'Welcome Call': ['welcome_call_date', 'welcome_call_completed_date'],
+  'Site Survey': ['site_survey_date', 'site_survey_completed_date', 'survey_date'],
+  'Scope of Work': ['scope_of_work_date', 'sow_approved_date', 'sow_date'],
+  'Design': ['design_completed_date', 'design_approved_date', 'design_date'],
+  'Permitting': ['permit_approved_date', 'permit_issued_date', 'permit_received_date', 'permit_date', 'permitting_date'],
+  'Install': ['install_completed_date', 'install_complete_date', 'installation_date', 'install_date'],
+  'Inspection': ['inspection_passed_date', 'final_inspection_date', 'inspection_date'],
+  'PTO': ['pto_approved_date', 'pto_received_date', 'permission_to_operate_date', 'pto_date'],
+  'Complete': ['completed_date', 'completion_date', 'complete_date']
+};
+
+// Milestone whose timing is shown in entity list rows
+export const HEADLINE_MILESTONE = 'Install';
+
+// Fewest projects a timing needs before it's shown
+export const MIN_TIMING_SAMPLES = 3;
+
+/**
+ * Days from contract signed to a milestone, summarized over a set of projects
+ */
+export interface MilestoneTiming {
+  milestone: string;
+  count: number;
+  medianDays: number;
+  p90Days: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const toFieldName = (milestone: string) =>
+  milestone.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+/**
+ * Normalize a date value to YYYY-MM-DD
+ * @returns null for empty or unparseable values
+ */
+export function toDateOnly(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const text = String(value).trim();
+  const isoDate = text.match(/^(\d{4}-\d{2}-\d{2})/);
+  if (isoDate) return isoDate[1];
+
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? null : new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Resolve a milestone name from a payload to its pipeline spelling
+ */
+const toPipelineMilestone = (name: unknown): string | null => {
+  if (typeof name !== 'string') return null;
+  const rank = getMilestoneRank(name);
+  return rank >= 0 ? MILESTONE_PIPELINE[rank] : null;
+};
+
+/**
+ * Read the date each milestone was reached from a Podio payload
+ * @returns Dates (YYYY-MM-DD) keyed by pipeline milestone name
+ */
+export function extractMilestoneDates(payload: Record<string, unknown>): Record<string, string> {
+  const dates: Record<string, string> = {};
+
+  // Transition history: the first time a milestone was entered counts
+  const history = payload.milestone_history;
+  if (Array.isArray(history)) {
+    history.forEach(entry => {
+      if (!entry || typeof entry !== 'object') return;
+      const { milestone, date, changed_at, entered_at } = entry as Record<string, unknown>;
+      const name = toPipelineMilestone(milestone);
+      const day = toDateOnly(date ?? entered_at ?? changed_at);
+      if (name && day && (!dates[name] || day < dates[name])) {
+        dates[name] = day;
+      }
+    });
+  }
+
+  // Dates keyed by milestone name
+  const byName = payload.milestone_dates;
+  if (byName && typeof byName === 'object' && !Array.isArray(byName)) {
+    Object.entries(byName as Record<string, unknown>).forEach(([milestone, value]) => {
+      const name = toPipelineMilestone(milestone);
+      const day = toDateOnly(value);
+      if (name && day && !dates[name]) dates[name] = day;
+    });
+  }
+
+  // Per-milestone date fields
+  MILESTONE_PIPELINE.forEach(milestone => {
+    if (dates[milestone]) return;
+    const fields = [...(MILESTONE_DATE_FIELDS[milestone] || []), `${toFieldName(milestone)}_date`];
+    for (const field of fields) {
+      const day = toDateOnly(payload[field]);
+      if (day) {
+        dates[milestone] = day;
+        return;
+      }
+    }
+  });
+
+  return dates;
+}
+
+/**
+ * Days from a project's contract signed date to a milestone
+ * @returns null when either date is missing, or the milestone predates the contract
+ */
+export function getDaysToMilestone(project: Project, milestone: string): number | null {
+  const start = toDateOnly(project.contract_signed_date);
+  const end = project.milestone_dates?.[milestone];
+  if (!start || !end) return null;
+
+  const days = Math.round((Date.parse(end) - Date.parse(start)) / MS_PER_DAY);
+  return days >= 0 ? days : null;
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+export function percentile(sortedValues: number[], fraction: number): number {
+  if (sortedValues.length === 0) return 0;
+  const index = Math.ceil(fraction * sortedValues.length) - 1;
+  return sortedValues[Math.min(Math.max(index, 0), sortedValues.length - 1)];
+}
+
+/**
+ * Median and p90 days to every milestone after contract signed, in pipeline order
+ * Milestones no project has a date for are left out.
+ */
+export function computeMilestoneTimings(projects: Project[]): MilestoneTiming[] {
+  return MILESTONE_PIPELINE.slice(1)
+    .map(milestone => {
+      const days = projects
+        .map(project => getDaysToMilestone(project, milestone))
+        .filter((value): value is number => value !== null)
+        .sort((a, b) => a - b);
+
+      return {
+        milestone,
+        count: days.length,
+        medianDays: percentile(days, 0.5),
+        p90Days: percentile(days, 0.9)
+      };
+    })
+    .filter(timing => timing.count > 0);
+}
+
+/**
+ * Milestone timings for every AHJ, utility or financier with timed projects
+ * @returns Timings keyed by entity ID
+ */
+export function buildEntityMilestoneTimings(projects: Project[], kind: EntityKind): Map<string, MilestoneTiming[]> {
+  const projectsByEntity = new Map<string, Project[]>();
+
+  projects.forEach(project => {
+    if (!project.milestone_dates || Object.keys(project.milestone_dates).length === 0) return;
+    const id = kind === 'ahj' ? project.ahj_item_id : kind === 'utility' ? project.utility_company_item_id : project.financier_id;
+    if (!id) return;
+    const group = projectsByEntity.get(id);
+    if (group) {
+      group.push(project);
+    } else {
+      projectsByEntity.set(id, [project]);
+    }
+  });
+
+  const timings = new Map<string, MilestoneTiming[]>();
+  projectsByEntity.forEach((group, id) => {
+    timings.set(id, computeMilestoneTimings(group));
+  });
+  return timings;
+}
+
+/**
+ * Short "median / p90" text for a timing, e.g. "48d (p90 112d)"
+ */
+export function formatMilestoneTiming(timing: MilestoneTiming): string {
+  return `${timing.medianDays}d (p90 ${timing.p90Days}d)`;
+}
@@ -0,0 +1,84 @@
+/**
+ * milestones.ts
+ *
+ * Ordered model of the Podio project milestones.
+ *
+ * Milestones are compared by rank (their position in the pipeline) so rules such as
+ * "mask anything before Scope of Work" work for every stage instead of relying on
+ * exact string matches.
+ *
+ * The pipeline is mirrored by the `milestone_pipeline` table in
+ * supabase/migrations/20261020_milestone_pipeline.sql, which the database uses for
+ * masking (can_view_project_details) and project_index.milestone_rank. There is
+ * deliberately no runtime override: any change must be made in both places so the
+ * client and the database mask the same projects.
+ */
+
+import { Project } from './types';
+
+// Podio milestones, earliest first
+export const MILESTONE_PIPELINE = [
+  'Contract Signed',
+  'Welcome Call',
+  'Site Survey',
+  'Scope of Work',
+  'Design',
+  'Permitting',
+  'Install',
+  'Inspection',
+  'PTO',
+  'Complete'
+];
+
+// Milestone a project must reach before its details are visible to every rep
+export const MASKING_MILESTONE = 'Scope of Work';
+
+/**
+ * Normalize a milestone name for comparison
+ */
+const normalizeMilestone = (milestone: string): string =>
+  milestone.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Rank lookup keyed by normalized milestone name
+const MILESTONE_RANKS = new Map(
+  MILESTONE_PIPELINE.map((milestone, index) => [normalizeMilestone(milestone), index])
+);
+
+/**
+ * Get the rank of a milestone in the pipeline
+ * @returns The zero-based rank, or -1 for unknown or empty milestones
+ */
+export function getMilestoneRank(milestone: string | null | undefined): number {
+  if (!milestone) return -1;
+  return MILESTONE_RANKS.get(normalizeMilestone(milestone)) ?? -1;
+}
+
+/**
+ * Get the rank of a project's current milestone
+ * Completed projects without a recognized milestone are treated as being at
+ * the end of the pipeline.
+ */
+export function getProjectMilestoneRank(project: Pick<Project, 'milestone' | 'status'>): number {
+  const rank = getMilestoneRank(project.milestone);
+  if (rank >= 0) return rank;
+
+  const status = (project.status || '').toLowerCase();
+  return status.includes('complete') ? MILESTONE_PIPELINE.length - 1 : -1;
+}
+
+/**
+ * Check whether a project has reached (or passed) a milestone
+ * Projects with an unknown milestone are never considered past it.
+ */
+export function isPastMilestone(
+  project: Pick<Project, 'milestone' | 'status'>,
+  milestone: string
+): boolean {
+  const targetRank = getMilestoneRank(milestone);
+  if (targetRank < 0) {
+    console.warn(`[Milestones] Unknown milestone "${milestone}"`);
+    return false;
+  }
+
+  return getProjectMilestoneRank(project) >= targetRank;
+}
@@ -0,0 +1,64 @@
+/**
+ * notificationsApi.ts
+ *
+ * Client for /api/notifications: classification change notifications for the
+ * signed-in rep's AHJs and utilities.
+ */
+
+import { getAuthHeaders } from './projectsApi';
+
+export type NotificationEntityType = 'ahj' | 'utility';
+
+/**
+ * A classification change in an AHJ or utility the rep has projects in
+ */
+export interface ClassificationNotification {
+  id: string;
+  rep_id: string;
+  entity_type: NotificationEntityType;
+  entity_id: string;
+  entity_name: string | null;
+  previous_classification: string | null;
+  new_classification: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Parse an API response, throwing the server's error message on failure
+ */
+async function readResponse<T>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed with status ${response.status}`);
+  }
+  return body as T;
+}
+
+/**
+ * Fetch the signed-in rep's most recent notifications, newest first
+ * The server checks for new classification changes before answering.
+ */
+export async function fetchNotifications(): Promise<ClassificationNotification[]> {
+  const response = await fetch('/api/notifications', {
+    headers: await getAuthHeaders(),
+    cache: 'no-store'
+  });
+
+  const body = await readResponse<{ notifications: ClassificationNotification[] }>(response);
+  return body.notifications || [];
+}
+
+/**
+ * Mark notifications as read
+ * @param ids Notifications to mark; every unread notification when omitted
+ */
+export async function markNotificationsRead(ids?: string[]): Promise<void> {
+  const response = await fetch('/api/notifications', {
+    method: 'POST',
+    headers: { ...(await getAuthHeaders()), 'Content-Type': 'application/json' },
+    body: JSON.stringify(ids ? { ids } : {})
+  });
+
+  await readResponse<{ success: boolean }>(response);
+}
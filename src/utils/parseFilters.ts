@@ -2,10 +2,13 @@
  * parseFilters.ts
  * 
  * Utility functions for parsing URL parameters into filter objects
- * and converting filter objects to URL parameters.
+ * and converting filter objects to URL parameters. The full page state
+ * (sort, view mode, map camera...) is handled by urlState.ts.
  */
 
 import { ProjectFilter } from './types';
+import { encodeFilterExpression } from './filterExpressions';
+import { parseUrlState } from './urlState';
 
 /**
  * Parse URL search parameters into filter objects
@@ -13,83 +16,16 @@ import { ProjectFilter } from './types';
  * @returns Array of filter objects with unique IDs
  */
 export async function parseFilters(searchParams: any) {
-  const filters: ProjectFilter[] = [];
-
   // Await the searchParams before accessing its properties
   const params = await searchParams;
 
-  // Parse search filter
-  if (params.search) {
-    filters.push({
-      id: `search-${Date.now()}`,
-      type: 'search',
-      value: params.search,
-      label: `Search: ${params.search}`
-    });
-  }
+  // The URL state codec reads both current and older links
+  const { filters } = parseUrlState(params || {});
 
-  // Parse AHJ filter
-  if (params.ahj) {
-    filters.push({
-      id: `ahj-${params.ahj}`,
-      type: 'ahj',
-      value: params.ahj,
-      label: `AHJ: ${params.ahj}`
-    });
-  }
-
-  // Parse Utility filter
-  if (params.utility) {
-    filters.push({
-      id: `utility-${params.utility}`,
-      type: 'utility',
-      value: params.utility,
-      label: `Utility: ${params.utility}`
-    });
-  }
-
-  // Parse Financier filter
-  if (params.financier) {
-    filters.push({
-      id: `financier-${params.financier}`,
-      type: 'financier',
-      value: params.financier,
-      label: `Financier: ${params.financier}`
-    });
-  }
-
-  // Parse Classification filter
-  if (params.classification && params.entityType) {
-    filters.push({
-      id: `class-${params.entityType}-${params.classification}`,
-      type: 'class',
-      value: params.classification,
-      entityType: params.entityType,
-      label: `${params.entityType.toUpperCase()} Class: ${params.classification}`
-    });
-  }
-
-  // Parse 45-day qualification filter
-  if (params.qualified45Day === 'true') {
-    filters.push({
-      id: '45day',
-      type: '45day',
-      value: 'true',
-      label: '45-Day Qualified'
-    });
-  }
-
-  // Parse My Projects filter
-  if (params.myProjects) {
-    filters.push({
-      id: 'myprojects',
-      type: 'myprojects',
-      value: params.myProjects,
-      label: 'My Projects'
-    });
-  }
-
-  return filters;
+  return filters.map((filter, index): ProjectFilter => ({
+    ...filter,
+    id: `${filter.type}-${index}`
+  }));
 }
 
 /**
@@ -100,35 +36,9 @@ export async function parseFilters(searchParams: any) {
 export function filtersToUrlParams(filters: ProjectFilter[]) {
   const params: Record<string, string> = {};
 
-  filters.forEach(filter => {
-    switch (filter.type) {
-      case 'search':
-        params.search = filter.value;
-        break;
-      case 'ahj':
-        params.ahj = filter.value;
-        break;
-      case 'utility':
-        params.utility = filter.value;
-        break;
-      case 'financier':
-        params.financier = filter.value;
-        break;
-      case 'class':
-        params.classification = filter.value;
-        // Only set entityType if it exists
-        if (filter.entityType) {
-          params.entityType = filter.entityType;
-        }
-        break;
-      case '45day':
-        params.qualified45Day = 'true';
-        break;
-      case 'myprojects':
-        params.myProjects = filter.value;
-        break;
-    }
-  });
+  if (filters.length > 0) {
+    params.filters = encodeFilterExpression(filters);
+  }
 
   return params;
 }
@@ -0,0 +1,72 @@
+/**
+ * projectAggregatesApi.ts
+ *
+ * Clients for the routes that summarise every project rather than a page of
+ * them: /api/analytics, /api/entity-stats and /api/geo-options.
+ */
+
+import { getAuthHeaders } from './projectsApi';
+import { encodeFilterExpression, getProjectQueryParams } from './filterExpressions';
+import { ClassificationSuggestion } from './classificationSuggestions';
+import { GeoFilterOption, GeoFilterType } from './geoFilters';
+import { MilestoneTiming } from './milestoneTiming';
+import { ProjectAnalytics } from './projectAnalytics';
+import { EntityKind } from './projectNormalization';
+import { ProjectFilter } from './types';
+
+/**
+ * Figures per AHJ, utility and financier, keyed by entity ID
+ */
+export interface EntityStats {
+  // Days from contract signed to each later milestone
+  milestoneTimings: Record<EntityKind, Record<string, MilestoneTiming[]>>;
+  // Suggested classes; only filled in for admins
+  suggestions: Record<EntityKind, Record<string, ClassificationSuggestion>>;
+}
+
+/**
+ * GET one of the aggregate routes
+ */
+async function fetchAggregate<T>(path: string, params?: URLSearchParams): Promise<T> {
+  const query = params ? `?${params.toString()}` : '';
+  const response = await fetch(`${path}${query}`, {
+    headers: await getAuthHeaders(),
+    cache: 'no-store'
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed with status ${response.status}`);
+  }
+
+  return body as T;
+}
+
+/**
+ * Install analytics for every project matching the filters
+ */
+export async function fetchProjectAnalytics(filters: ProjectFilter[]): Promise<ProjectAnalytics> {
+  const params = new URLSearchParams();
+  Object.entries(getProjectQueryParams(filters)).forEach(([key, value]) => {
+    params.set(key, String(value));
+  });
+  if (filters.length > 0) {
+    params.set('filters', encodeFilterExpression(filters));
+  }
+
+  return fetchAggregate<ProjectAnalytics>('/api/analytics', params);
+}
+
+/**
+ * Time to milestone and suggested classes for every entity
+ */
+export function fetchEntityStats(): Promise<EntityStats> {
+  return fetchAggregate<EntityStats>('/api/entity-stats');
+}
+
+/**
+ * State, county, city and zip values of every visible project, most common first
+ */
+export function fetchGeoOptions(): Promise<Record<GeoFilterType, GeoFilterOption[]>> {
+  return fetchAggregate<Record<GeoFilterType, GeoFilterOption[]>>('/api/geo-options');
+}
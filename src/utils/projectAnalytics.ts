@@ -0,0 +1,225 @@
+/**
+ * projectAnalytics.ts
+ *
+ * Install outcome statistics for the analytics page, computed from whatever
+ * project set is passed in (normally the filtered projects from DataContext):
+ * counts and 45-day qualification rates by AHJ, utility and financier class,
+ * by class combination, by contract-signed month, and per entity.
+ *
+ * Masked projects are included; masking hides addresses, not classifications.
+ */
+
+import { Project } from './types';
+import { EntityKind } from './projectNormalization';
+import { formatClassification } from './classificationColors';
+import { isQualified } from './qualificationStatus';
+
+// Classes in display order; 'U' collects unclassified entities
+export const ANALYTICS_CLASSES = ['A', 'B', 'C', 'U'] as const;
+
+// Entities with fewer projects are left out of the top/bottom rankings
+export const MIN_RANKED_PROJECTS = 5;
+
+// Number of entities listed at each end of a ranking
+const RANKING_SIZE = 5;
+
+// Most recent contract months shown in the time series
+const MAX_MONTHS = 36;
+
+/**
+ * Project and 45-day counts for a slice of projects
+ */
+export interface OutcomeStats {
+  total: number;
+  qualified: number;
+  rate: number;
+}
+
+export interface ClassOutcome extends OutcomeStats {
+  classification: typeof ANALYTICS_CLASSES[number];
+}
+
+export interface CombinationOutcome extends OutcomeStats {
+  ahjClass: string;
+  utilityClass: string;
+  financierClass: string;
+}
+
+export interface MonthOutcome extends OutcomeStats {
+  month: string; // YYYY-MM
+}
+
+export interface EntityOutcome extends OutcomeStats {
+  id: string;
+  name: string;
+  classification: string;
+}
+
+export interface EntityRanking {
+  top: EntityOutcome[];
+  bottom: EntityOutcome[];
+  eligibleCount: number; // Entities with enough projects to rank
+}
+
+/**
+ * Everything shown on the analytics page
+ */
+export interface ProjectAnalytics {
+  overall: OutcomeStats;
+  byClass: Record<EntityKind, ClassOutcome[]>;
+  combinations: CombinationOutcome[];
+  byMonth: MonthOutcome[];
+  rankings: Record<EntityKind, EntityRanking>;
+}
+
+// The project's related entity of a kind
+const getEntity = (project: Project, kind: EntityKind) =>
+  kind === 'ahj' ? project.ahj : kind === 'utility' ? project.utility : project.financier;
+
+const getEntityId = (project: Project, kind: EntityKind): string | undefined =>
+  kind === 'ahj' ? project.ahj_item_id : kind === 'utility' ? project.utility_company_item_id : project.financier_id;
+
+const getClass = (project: Project, kind: EntityKind) =>
+  formatClassification(getEntity(project, kind)?.classification) as ClassOutcome['classification'];
+
+/**
+ * Count projects and how many qualify for the 45-day program
+ */
+export function computeOutcome(projects: Project[]): OutcomeStats {
+  const qualified = projects.filter(project => isQualified(project)).length;
+  return {
+    total: projects.length,
+    qualified,
+    rate: projects.length > 0 ? qualified / projects.length : 0
+  };
+}
+
+// Group projects by a key, keeping first-seen order
+const groupBy = (projects: Project[], getKey: (project: Project) => string | null) => {
+  const groups = new Map<string, Project[]>();
+  projects.forEach(project => {
+    const key = getKey(project);
+    if (key === null) return;
+    const group = groups.get(key);
+    if (group) {
+      group.push(project);
+    } else {
+      groups.set(key, [project]);
+    }
+  });
+  return groups;
+};
+
+/**
+ * Outcomes per class of one entity type; every class is listed, even when empty
+ */
+export function computeClassOutcomes(projects: Project[], kind: EntityKind): ClassOutcome[] {
+  const groups = groupBy(projects, project => getClass(project, kind));
+
+  return ANALYTICS_CLASSES.map(classification => ({
+    classification,
+    ...computeOutcome(groups.get(classification) || [])
+  }));
+}
+
+/**
+ * Outcomes per AHJ / utility / financier class combination, largest first
+ */
+export function computeCombinationOutcomes(projects: Project[]): CombinationOutcome[] {
+  const groups = groupBy(projects, project =>
+    [getClass(project, 'ahj'), getClass(project, 'utility'), getClass(project, 'financier')].join('/')
+  );
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => {
+      const [ahjClass, utilityClass, financierClass] = key.split('/');
+      return { ahjClass, utilityClass, financierClass, ...computeOutcome(group) };
+    })
+    .sort((a, b) => b.total - a.total || b.rate - a.rate);
+}
+
+/**
+ * Outcomes per contract-signed month, oldest first, for the most recent MAX_MONTHS
+ * Months without contracts between the first and last are filled with zeros
+ */
+export function computeMonthlyOutcomes(projects: Project[]): MonthOutcome[] {
+  const groups = groupBy(projects, project => {
+    const month = project.contract_signed_date?.slice(0, 7);
+    return month && /^\d{4}-\d{2}$/.test(month) ? month : null;
+  });
+
+  const months = Array.from(groups.keys()).sort();
+  if (months.length === 0) return [];
+
+  const result: MonthOutcome[] = [];
+  let [year, month] = months[0].split('-').map(Number);
+  const last = months[months.length - 1];
+
+  for (;;) {
+    const key = `${year}-${String(month).padStart(2, '0')}`;
+    result.push({ month: key, ...computeOutcome(groups.get(key) || []) });
+    if (key >= last) break;
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+
+  return result.slice(-MAX_MONTHS);
+}
+
+/**
+ * Best and worst entities of a type by 45-day rate
+ * Only entities with at least MIN_RANKED_PROJECTS projects are ranked
+ */
+export function rankEntities(projects: Project[], kind: EntityKind): EntityRanking {
+  const groups = groupBy(projects, project => getEntityId(project, kind) || null);
+
+  const eligible: EntityOutcome[] = Array.from(groups.entries())
+    .filter(([, group]) => group.length >= MIN_RANKED_PROJECTS)
+    .map(([id, group]) => {
+      const entity = getEntity(group[0], kind);
+      return {
+        id,
+        name: entity?.name || 'Unknown',
+        classification: formatClassification(entity?.classification),
+        ...computeOutcome(group)
+      };
+    });
+
+  // Ties go to the entity with more projects, then by name
+  const byRate = [...eligible].sort((a, b) =>
+    b.rate - a.rate || b.total - a.total || a.name.localeCompare(b.name)
+  );
+  const top = byRate.slice(0, RANKING_SIZE);
+  const topIds = new Set(top.map(entity => entity.id));
+  const bottom = byRate
+    .slice()
+    .reverse()
+    .filter(entity => !topIds.has(entity.id))
+    .slice(0, RANKING_SIZE);
+
+  return { top, bottom, eligibleCount: eligible.length };
+}
+
+/**
+ * Compute every analytics section for a project set
+ */
+export function buildProjectAnalytics(projects: Project[]): ProjectAnalytics {
+  return {
+    overall: computeOutcome(projects),
+    byClass: {
+      ahj: computeClassOutcomes(projects, 'ahj'),
+      utility: computeClassOutcomes(projects, 'utility'),
+      financier: computeClassOutcomes(projects, 'financier')
+    },
+    combinations: computeCombinationOutcomes(projects),
+    byMonth: computeMonthlyOutcomes(projects),
+    rankings: {
+      ahj: rankEntities(projects, 'ahj'),
+      utility: rankEntities(projects, 'utility'),
+      financier: rankEntities(projects, 'financier')
+    }
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * projectColorModes.ts
+ *
+ * Color-by modes for project pins on the map. Each mode maps a project to a
+ * legend key; every key's color comes from classificationMapColors so pins and
+ * badges use the same palette.
+ */
+
+import { Project } from './types';
+import { classificationMapColors, formatClassification } from './classificationColors';
+import { mapQualificationStatus } from './qualificationStatus';
+
+/**
+ * Dimension used to color project pins
+ */
+export type ColorByMode = 'ahj' | 'utility' | 'financier' | '45day' | 'status';
+
+export const DEFAULT_COLOR_BY_MODE: ColorByMode = 'ahj';
+
+// Options shown in the map's color-by selector
+export const COLOR_BY_OPTIONS: { value: ColorByMode; label: string }[] = [
+  { value: 'ahj', label: 'AHJ class' },
+  { value: 'utility', label: 'Utility class' },
+  { value: 'financier', label: 'Financier class' },
+  { value: '45day', label: '45-day qualification' },
+  { value: 'status', label: 'Project status' }
+];
+
+/**
+ * A single entry in the map legend
+ */
+export interface ColorLegendItem {
+  key: string;
+  label: string;
+  color: string;
+}
+
+// Legend entries for each mode, in display order
+const LEGENDS: Record<ColorByMode, ColorLegendItem[]> = {
+  ahj: classificationLegend(),
+  utility: classificationLegend(),
+  financier: classificationLegend(),
+  '45day': [
+    { key: 'Yes', label: 'Qualified', color: classificationMapColors.A },
+    { key: 'Pending', label: 'Pending review', color: classificationMapColors.C },
+    { key: 'No', label: 'Not qualified', color: classificationMapColors.unknown }
+  ],
+  status: [
+    { key: 'Active', label: 'Active', color: classificationMapColors.B },
+    { key: 'On Hold', label: 'On hold', color: classificationMapColors.C },
+    { key: 'Complete', label: 'Complete', color: classificationMapColors.A },
+    { key: 'Cancelled', label: 'Cancelled', color: classificationMapColors.unknown }
+  ]
+};
+
+function classificationLegend(): ColorLegendItem[] {
+  return [
+    { key: 'A', label: 'Class A', color: classificationMapColors.A },
+    { key: 'B', label: 'Class B', color: classificationMapColors.B },
+    { key: 'C', label: 'Class C', color: classificationMapColors.C },
+    { key: 'U', label: 'Unclassified', color: classificationMapColors.unknown }
+  ];
+}
+
+/**
+ * Check whether a mode colors pins by an entity's classification
+ */
+export function isClassificationMode(mode: ColorByMode): mode is 'ahj' | 'utility' | 'financier' {
+  return mode === 'ahj' || mode === 'utility' || mode === 'financier';
+}
+
+/**
+ * Parse a stored color-by mode, falling back to the default
+ */
+export function parseColorByMode(value: string | null | undefined): ColorByMode {
+  return COLOR_BY_OPTIONS.some(option => option.value === value)
+    ? value as ColorByMode
+    : DEFAULT_COLOR_BY_MODE;
+}
+
+/**
+ * Group free-text project statuses into the legend's status buckets
+ */
+function getStatusGroup(status: string | undefined): string {
+  const normalized = (status || '').toLowerCase();
+
+  if (normalized.includes('cancel')) return 'Cancelled';
+  if (normalized.includes('hold')) return 'On Hold';
+  if (normalized.includes('complete') || normalized.includes('pto')) return 'Complete';
+  return 'Active';
+}
+
+/**
+ * Legend key a project falls under for a mode
+ */
+export function getProjectColorKey(project: Project, mode: ColorByMode): string {
+  switch (mode) {
+    case 'ahj':
+      return formatClassification(project.ahj?.classification);
+    case 'utility':
+      return formatClassification(project.utility?.classification);
+    case 'financier':
+      return formatClassification(project.financier?.classification);
+    case '45day':
+      return mapQualificationStatus(project.qualifies45Day);
+    case 'status':
+      return getStatusGroup(project.status);
+  }
+}
+
+/**
+ * Legend entries for a mode
+ */
+export function getColorLegend(mode: ColorByMode): ColorLegendItem[] {
+  return LEGENDS[mode];
+}
+
+/**
+ * Map pin color for a project in a mode
+ */
+export function getProjectColor(project: Project, mode: ColorByMode): string {
+  const key = getProjectColorKey(project, mode);
+  const item = LEGENDS[mode].find(entry => entry.key === key);
+  return item ? item.color : classificationMapColors.unknown;
+}
@@ -0,0 +1,90 @@
+/**
+ * projectExport.ts
+ *
+ * Exports a project list to CSV or XLSX so it can be shared outside the app.
+ * Masked projects are exported the same way the project list shows them:
+ * their address is replaced by their coarse location, and the other fields
+ * hidden by maskProject are already gone from the project.
+ */
+
+import { Project } from './types';
+import { formatClassification } from './classificationColors';
+import { isQualified } from './qualificationStatus';
+import { getRestrictedLocationLabel } from './projectMasking';
+
+export type ProjectExportFormat = 'csv' | 'xlsx';
+
+// Export columns, in order
+const EXPORT_COLUMNS = [
+  'Project ID',
+  'Address',
+  'City',
+  'State',
+  'Zip',
+  'AHJ',
+  'AHJ Class',
+  'Utility',
+  'Utility Class',
+  'Financier',
+  'Financier Class',
+  '45-Day',
+  'Milestone',
+  'Contract Signed'
+] as const;
+
+type ProjectExportRow = Record<typeof EXPORT_COLUMNS[number], string>;
+
+/**
+ * Format a contract date as YYYY-MM-DD (spreadsheets sort these correctly)
+ */
+function formatContractDate(value?: string): string {
+  if (!value) return '';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Convert a project into an export row, hiding the address of masked projects
+ */
+function toExportRow(project: Project): ProjectExportRow {
+  return {
+    'Project ID': project.id || '',
+    'Address': project.isMasked ? getRestrictedLocationLabel(project) : project.address || '',
+    'City': project.city || '',
+    'State': project.state || '',
+    'Zip': project.zip || '',
+    'AHJ': project.ahj?.name || '',
+    'AHJ Class': formatClassification(project.ahj?.classification),
+    'Utility': project.utility?.name || '',
+    'Utility Class': formatClassification(project.utility?.classification),
+    'Financier': project.financier?.name || '',
+    'Financier Class': formatClassification(project.financier?.classification),
+    '45-Day': isQualified(project) ? 'Yes' : 'No',
+    'Milestone': project.milestone || project.status || '',
+    'Contract Signed': formatContractDate(project.contract_signed_date)
+  };
+}
+
+/**
+ * Default file name for an export, e.g. projects-2026-10-19.csv
+ */
+export function getExportFileName(format: ProjectExportFormat): string {
+  return `projects-${new Date().toISOString().slice(0, 10)}.${format}`;
+}
+
+/**
+ * Write the projects, in the given order, to a CSV or XLSX file and download it
+ * The xlsx library is loaded on demand since it is only needed for exports.
+ */
+export async function exportProjects(projects: Project[], format: ProjectExportFormat): Promise<void> {
+  const XLSX = await import('xlsx');
+
+  const worksheet = XLSX.utils.json_to_sheet(projects.map(toExportRow), {
+    header: [...EXPORT_COLUMNS]
+  });
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Projects');
+
+  XLSX.writeFile(workbook, getExportFileName(format), { bookType: format });
+  console.log(`[ProjectExport] Exported ${projects.length} projects as ${format.toUpperCase()}`);
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Project } from './types';
+import {
+  RESTRICTED_ADDRESS,
+  RESTRICTED_STATUS,
+  applyProjectMasking,
+  canViewProjectDetails
+} from './projectMasking';
+
+const project = (overrides: Partial<Project> = {}): Project => ({
+  id: 'p-1',
+  address: '123 Main St, Mesa, AZ 85201',
+  latitude: 33.4152,
+  longitude: -111.8315,
+  ahj: { id: 'ahj-1', name: 'Mesa', classification: 'A' },
+  utility: { id: 'util-1', name: 'SRP', classification: 'B' },
+  financier: { id: 'fin-1', name: 'Sunrun', classification: 'A' },
+  status: 'Site survey scheduled',
+  city: 'Mesa',
+  state: 'AZ',
+  zip: '85201',
+  county: 'Maricopa',
+  milestone: 'Site Survey',
+  qualifies45Day: false,
+  rep_id: 'rep-other',
+  customer_name: 'Jane Customer',
+  ahj_item_id: 'ahj-1',
+  utility_company_item_id: 'util-1',
+  ...overrides
+});
+
+const rep = { id: 'user-1', rep_id: 'rep-me', role: 'rep' };
+
+describe('applyProjectMasking', () => {
+  it('strips restricted fields from early-stage projects of other reps', () => {
+    const [masked] = applyProjectMasking([project()], rep);
+
+    expect(masked.isMasked).toBe(true);
+    expect(masked.address).toBe(RESTRICTED_ADDRESS);
+    expect(masked.status).toBe(RESTRICTED_STATUS);
+    expect(masked.latitude).toBeUndefined();
+    expect(masked.longitude).toBeUndefined();
+    expect(masked.customer_name).toBeUndefined();
+    expect(masked.rep_id).toBeNull();
+  });
+
+  it('keeps the fields used for counting and filtering', () => {
+    const [masked] = applyProjectMasking([project()], rep);
+
+    expect(masked).toMatchObject({ city: 'Mesa', state: 'AZ', zip: '85201', county: 'Maricopa', milestone: 'Site Survey' });
+    expect(masked.approximateLocation).toEqual({ latitude: 33.4, longitude: -111.85 });
+  });
+
+  it('shows projects past the masking milestone and the rep\'s own projects', () => {
+    const [pastMilestone, own] = applyProjectMasking(
+      [project({ id: 'p-2', milestone: 'Design' }), project({ id: 'p-3', rep_id: 'rep-me' })],
+      rep
+    );
+
+    expect(pastMilestone.isMasked).toBe(false);
+    expect(pastMilestone.address).toBe('123 Main St, Mesa, AZ 85201');
+    expect(own.isMasked).toBe(false);
+    expect(own.customer_name).toBe('Jane Customer');
+  });
+
+  it('shows everything to admins', () => {
+    const [visible] = applyProjectMasking([project()], { id: 'admin-1', role: 'admin' });
+    expect(visible.isMasked).toBe(false);
+    expect(visible.latitude).toBe(33.4152);
+  });
+
+  it('treats anonymous viewers and reps without a rep ID as having no projects', () => {
+    expect(canViewProjectDetails(project({ rep_id: null }), null)).toBe(false);
+    expect(canViewProjectDetails(project({ rep_id: null }), { id: 'user-2', rep_id: '', role: 'rep' })).toBe(false);
+  });
+
+  it('keeps already-masked projects masked', () => {
+    const [masked] = applyProjectMasking([project()], rep);
+    const [again] = applyProjectMasking([masked], { id: 'admin-1', role: 'admin' });
+    expect(again.isMasked).toBe(true);
+    expect(again.address).toBe(RESTRICTED_ADDRESS);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * projectMasking.ts
+ *
+ * Project visibility rules, shared by the server and the client.
+ *
+ * Reps only see full details for projects that have reached the "Scope of Work"
+ * milestone and for projects assigned to them. The server strips every other project
+ * of its address, coordinates, customer name and rep ID *before* it leaves the server,
+ * so restricted data never reaches the browser. Admins see everything. The client
+ * re-applies the same rules to cached data and uses them for display.
+ *
+ * The same rule is implemented in SQL by `can_view_project_details` in
+ * supabase/migrations/20261020_milestone_pipeline.sql - keep the two in sync.
+ */
+
+import { Project } from './types';
+import { isPastMilestone, MASKING_MILESTONE } from './milestones';
+
+/**
+ * The user a payload is being prepared for
+ * Accepts both the `users` row shape (role) and the server page profile shape (isAdmin)
+ */
+export interface ProjectViewer {
+  id?: string;
+  rep_id?: string | null;
+  role?: string | null;
+  isAdmin?: boolean;
+}
+
+// Placeholder values shipped in place of restricted fields
+export const RESTRICTED_ADDRESS = 'Project details restricted';
+export const RESTRICTED_STATUS = 'Restricted';
+
+// Tooltip shown on masked projects in the list and on the map
+export const RESTRICTED_TOOLTIP = 'Project in early phase — restricted info';
+
+// Size of the grid masked projects are snapped to (0.05° is roughly 5 km)
+const APPROXIMATE_LOCATION_GRID = 0.05;
+
+/**
+ * Check whether the viewer has admin access
+ */
+export function isAdminViewer(viewer: ProjectViewer | null | undefined): boolean {
+  return !!viewer && (viewer.isAdmin === true || viewer.role === 'admin');
+}
+
+/**
+ * Determine whether the viewer may see the full details of a project
+ */
+export function canViewProjectDetails(project: Project, viewer: ProjectViewer | null | undefined): boolean {
+  if (isAdminViewer(viewer)) return true;
+  if (isPastMilestone(project, MASKING_MILESTONE)) return true;
+
+  // Only the assigned rep sees early-stage projects; an empty rep ID never matches
+  const viewerRepId = viewer?.rep_id ? String(viewer.rep_id).trim() : '';
+  return !!viewerRepId && project.rep_id === viewerRepId;
+}
+
+/**
+ * Snap coordinates to a coarse grid so a masked project can still be shown
+ * as a greyed-out pin without revealing its exact location
+ */
+function getApproximateLocation(project: Project): Project['approximateLocation'] {
+  if (project.approximateLocation) return project.approximateLocation;
+  if (!project.latitude || !project.longitude) return undefined;
+
+  const snap = (value: number) =>
+    Math.round(value / APPROXIMATE_LOCATION_GRID) * APPROXIMATE_LOCATION_GRID;
+
+  return {
+    latitude: Number(snap(project.latitude).toFixed(2)),
+    longitude: Number(snap(project.longitude).toFixed(2))
+  };
+}
+
+/**
+ * Strip every restricted field from a project
+ * Only the city, state, zip, county, milestone, entity references and 45-day
+ * status are kept so masked projects can still be counted and filtered.
+ */
+export function maskProject(project: Project): Project {
+  return {
+    ...project,
+    address: RESTRICTED_ADDRESS,
+    status: RESTRICTED_STATUS,
+    latitude: undefined,
+    longitude: undefined,
+    approximateLocation: getApproximateLocation(project),
+    customer_name: undefined,
+    rep_id: null,
+    isMasked: true
+  };
+}
+
+/**
+ * Short location summary shown in place of a masked project's address
+ */
+export function getRestrictedLocationLabel(project: Project): string {
+  const location = [project.city, project.zip].filter(Boolean).join(' ');
+  return location || 'Location restricted';
+}
+
+/**
+ * Apply the visibility rules to a list of projects for the given viewer
+ * An unauthenticated viewer is treated as a rep with no assigned projects.
+ * Projects that were already masked stay masked, since their details are gone.
+ */
+export function applyProjectMasking(projects: Project[], viewer: ProjectViewer | null | undefined): Project[] {
+  return projects.map(project =>
+    !project.isMasked && canViewProjectDetails(project, viewer)
+      ? { ...project, isMasked: false }
+      : maskProject(project)
+  );
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { RawRow, getRawPayload, normalizeProject } from './projectNormalization';
+
+// Podio payload as stored by the sync
+const PODIO_PAYLOAD = {
+  address: '123 Main St',
+  city: 'Mesa',
+  state: 'AZ',
+  zip: '85201',
+  county: 'Maricopa',
+  latitude: '33.4152',
+  longitude: '-111.8315',
+  customer_name: 'Jane Customer',
+  install_completed_date: '2024-03-01T16:00:00Z'
+};
+
+// podio_data columns shared by every fixture
+const BASE_ROW: RawRow = {
+  project_id: 1001,
+  ahj_item_id: 'ahj-1',
+  utility_company_item_id: 'util-1',
+  fin_id: 'fin-1',
+  status: 'Install scheduled',
+  milestone: 'Install',
+  rep_id: 'rep-1',
+  contract_signed_date: '2024-01-15'
+};
+
+// The payload shapes found in podio_data
+const PAYLOAD_SHAPES: [string, RawRow][] = [
+  ['raw_payload', { ...BASE_ROW, raw_payload: PODIO_PAYLOAD }],
+  ['raw_payload.raw_payload', { ...BASE_ROW, raw_payload: { synced_at: '2024-03-02', raw_payload: PODIO_PAYLOAD } }],
+  ['string-encoded raw_payload', { ...BASE_ROW, raw_payload: JSON.stringify(PODIO_PAYLOAD) }],
+  [
+    'string-encoded raw_payload.raw_payload',
+    { ...BASE_ROW, raw_payload: JSON.stringify({ raw_payload: JSON.stringify(PODIO_PAYLOAD) }) }
+  ]
+];
+
+describe('getRawPayload', () => {
+  it.each(PAYLOAD_SHAPES)('resolves the Podio fields of a %s row', (_, row) => {
+    expect(getRawPayload(row)).toMatchObject(PODIO_PAYLOAD);
+  });
+
+  it('keeps outer payload fields when the payload is nested', () => {
+    const row = { raw_payload: { synced_at: '2024-03-02', raw_payload: { city: 'Mesa' } } };
+    expect(getRawPayload(row)).toEqual({ synced_at: '2024-03-02', raw_payload: { city: 'Mesa' }, city: 'Mesa' });
+  });
+
+  it('returns an empty payload for missing or malformed payloads', () => {
+    expect(getRawPayload(null)).toEqual({});
+    expect(getRawPayload({})).toEqual({});
+    expect(getRawPayload({ raw_payload: '{not json' })).toEqual({});
+    expect(getRawPayload({ raw_payload: ['a'] })).toEqual({});
+  });
+
+  it('falls back to the outer payload when the inner one is malformed', () => {
+    expect(getRawPayload({ raw_payload: { city: 'Mesa', raw_payload: '{not json' } })).toMatchObject({ city: 'Mesa' });
+  });
+});
+
+describe('normalizeProject', () => {
+  it.each(PAYLOAD_SHAPES)('normalizes a %s row', (_, row) => {
+    const project = normalizeProject(row);
+
+    expect(project).toMatchObject({
+      id: '1001',
+      address: '123 Main St, Mesa, AZ 85201',
+      latitude: 33.4152,
+      longitude: -111.8315,
+      city: 'Mesa',
+      state: 'AZ',
+      zip: '85201',
+      county: 'Maricopa',
+      status: 'Install scheduled',
+      milestone: 'Install',
+      rep_id: 'rep-1',
+      customer_name: 'Jane Customer',
+      ahj_item_id: 'ahj-1',
+      utility_company_item_id: 'util-1',
+      financier_id: 'fin-1',
+      isMasked: false
+    });
+    expect(project.milestone_dates).toEqual({ 'Contract Signed': '2024-01-15', Install: '2024-03-01' });
+  });
+
+  it('prefers row columns over payload fields', () => {
+    const project = normalizeProject({ ...BASE_ROW, city: 'Gilbert', latitude: 33.35, longitude: -111.79, raw_payload: PODIO_PAYLOAD });
+    expect(project.city).toBe('Gilbert');
+    expect(project.latitude).toBe(33.35);
+  });
+
+  it('leaves coordinates undefined when none are valid', () => {
+    const project = normalizeProject({ ...BASE_ROW, raw_payload: { ...PODIO_PAYLOAD, latitude: 0, longitude: 0 } });
+    expect(project.latitude).toBeUndefined();
+    expect(project.longitude).toBeUndefined();
+  });
+
+  it('is idempotent', () => {
+    PAYLOAD_SHAPES.forEach(([, row]) => {
+      const project = normalizeProject(row);
+      expect(normalizeProject(project as unknown as RawRow)).toEqual(project);
+    });
+  });
+});
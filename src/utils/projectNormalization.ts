@@ -0,0 +1,370 @@
+/**
+ * projectNormalization.ts
+ *
+ * Pure, typed normalization of raw Supabase rows (`podio_data`, `ahj`, `utility`,
+ * `financier`) into the canonical `Project` and entity records used across the app.
+ *
+ * This module is shared by the server (ServerDataService), the client data context
+ * (DataContext) and the legacy projects hook (useProjects) so that coordinates, names
+ * and classifications are resolved the same way everywhere. Every normalizer is
+ * idempotent: passing an already-normalized record returns an equivalent record, which
+ * lets the client safely re-normalize data hydrated from the server.
+ */
+
+import { Project } from './types';
+import { extractClassification, extractEntityName } from './dataProcessing';
+import { extractMilestoneDates } from './milestoneTiming';
+
+export type EntityKind = 'ahj' | 'utility' | 'financier';
+
+/**
+ * Check whether a value (e.g. a request parameter) is a supported entity type
+ */
+export function isEntityKind(value: unknown): value is EntityKind {
+  return value === 'ahj' || value === 'utility' || value === 'financier';
+}
+
+/**
+ * Loosely-typed row as returned by Supabase. Podio payloads are stored as JSON and
+ * may be nested once (`raw_payload`) or twice (`raw_payload.raw_payload`).
+ */
+export interface RawRow {
+  [key: string]: unknown;
+}
+
+/**
+ * Canonical entity record for AHJs, utilities and financiers
+ */
+export interface NormalizedEntity {
+  id: string;
+  name: string;
+  /** 'A' | 'B' | 'C' | 'Unknown' */
+  classification: string;
+  projectCount: number;
+  distance: number;
+  latitude?: number;
+  longitude?: number;
+  /** 'valid' when coordinates are usable, otherwise the reason they were rejected */
+  coordStatus: string;
+}
+
+/**
+ * Lookup tables used to attach entity references to projects
+ */
+export interface EntityLookups {
+  ahjs: Map<string, NormalizedEntity>;
+  utilities: Map<string, NormalizedEntity>;
+  financiers: Map<string, NormalizedEntity>;
+}
+
+// Fallback display names for unresolved entity references
+const UNKNOWN_NAMES: Record<EntityKind, string> = {
+  ahj: 'Unknown AHJ',
+  utility: 'Unknown Utility',
+  financier: 'Unknown Financier'
+};
+
+// Column holding the Podio item ID for each entity table
+const ENTITY_ID_FIELDS: Record<EntityKind, string[]> = {
+  ahj: ['ahj_item_id', 'id'],
+  utility: ['utility_company_item_id', 'id'],
+  financier: ['fin_id', 'id']
+};
+
+const isObject = (value: unknown): value is RawRow =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Convert an ID-like value (string or number) to a trimmed string
+ */
+export const toId = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  if (isObject(value)) return toId(value.id);
+  return '';
+};
+
+const toText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return '';
+};
+
+/**
+ * Resolve the innermost Podio payload of a row
+ * Handles string-encoded JSON and both the single- and double-nested shapes.
+ */
+export function getRawPayload(row: RawRow | null | undefined): RawRow {
+  if (!row) return {};
+
+  let payload: unknown = row.raw_payload;
+  if (typeof payload === 'string') {
+    try {
+      payload = JSON.parse(payload);
+    } catch {
+      return {};
+    }
+  }
+
+  if (!isObject(payload)) return {};
+
+  let inner: unknown = payload.raw_payload;
+  if (typeof inner === 'string') {
+    try {
+      inner = JSON.parse(inner);
+    } catch {
+      inner = null;
+    }
+  }
+
+  return isObject(inner) ? { ...payload, ...inner } : payload;
+}
+
+/**
+ * Parse and validate a latitude/longitude pair
+ * Rejects non-numeric values, out-of-range values and the 0,0 placeholder.
+ */
+export function parseCoordinates(
+  rawLatitude: unknown,
+  rawLongitude: unknown
+): { latitude?: number; longitude?: number; status: string } {
+  if (rawLatitude === '' || rawLongitude === '' ||
+      rawLatitude === null || rawLongitude === null ||
+      rawLatitude === undefined || rawLongitude === undefined) {
+    return { status: 'empty' };
+  }
+
+  const latitude = typeof rawLatitude === 'number' ? rawLatitude : parseFloat(String(rawLatitude));
+  const longitude = typeof rawLongitude === 'number' ? rawLongitude : parseFloat(String(rawLongitude));
+
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return { status: 'invalid' };
+  }
+  if (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
+    return { status: 'invalid' };
+  }
+  if (latitude === 0 && longitude === 0) {
+    return { status: 'invalid' };
+  }
+
+  return { latitude, longitude, status: 'valid' };
+}
+
+/**
+ * Extract coordinates from a row, checking top-level columns first and then the payload
+ */
+export function extractRowCoordinates(row: RawRow): { latitude?: number; longitude?: number; status: string } {
+  const candidates: RawRow[] = [row];
+  if (isObject(row.coordinates)) candidates.push(row.coordinates);
+  candidates.push(getRawPayload(row));
+
+  let status = 'empty';
+  for (const candidate of candidates) {
+    const result = parseCoordinates(candidate.latitude, candidate.longitude);
+    if (result.status === 'valid') return result;
+    if (result.status === 'invalid') status = 'invalid';
+  }
+
+  return { status };
+}
+
+/**
+ * Normalize an AHJ, utility or financier row into a canonical entity record
+ */
+export function normalizeEntity(row: RawRow, kind: EntityKind): NormalizedEntity {
+  const payload = getRawPayload(row);
+
+  let id = '';
+  for (const field of ENTITY_ID_FIELDS[kind]) {
+    id = toId(row[field]);
+    if (id) break;
+  }
+
+  const name = kind === 'financier'
+    ? toText(row.company_name) || toText(row.name) || toText(payload.company_name) ||
+      toText(payload.name) || UNKNOWN_NAMES.financier
+    : extractEntityName(row, kind) || UNKNOWN_NAMES[kind];
+
+  const classification = extractClassification(
+    row.classification || row['eligible-for-classification'] || payload.classification || ''
+  );
+
+  const coordinates = extractRowCoordinates(row);
+
+  return {
+    id,
+    name,
+    classification,
+    projectCount: typeof row.projectCount === 'number' ? row.projectCount : 0,
+    distance: typeof row.distance === 'number' ? row.distance : 0,
+    latitude: coordinates.latitude,
+    longitude: coordinates.longitude,
+    coordStatus: coordinates.status
+  };
+}
+
+/**
+ * Normalize a list of entity rows, dropping rows without an ID
+ */
+export function normalizeEntities(rows: RawRow[] | null | undefined, kind: EntityKind): NormalizedEntity[] {
+  return (rows || [])
+    .map(row => normalizeEntity(row, kind))
+    .filter(entity => entity.id);
+}
+
+/**
+ * Build ID lookup maps for the normalized entities
+ */
+export function buildEntityLookups(
+  ahjs: NormalizedEntity[],
+  utilities: NormalizedEntity[],
+  financiers: NormalizedEntity[]
+): EntityLookups {
+  return {
+    ahjs: new Map(ahjs.map(entity => [entity.id, entity])),
+    utilities: new Map(utilities.map(entity => [entity.id, entity])),
+    financiers: new Map(financiers.map(entity => [entity.id, entity]))
+  };
+}
+
+/**
+ * Resolve the entity ID a project references, accepting raw column names
+ * as well as the nested references of an already-normalized project
+ */
+const getProjectEntityId = (row: RawRow, kind: EntityKind): string => {
+  switch (kind) {
+    case 'ahj':
+      return toId(row.ahj_item_id) || toId(row.ahj) || toId(row.ahj_data);
+    case 'utility':
+      return toId(row.utility_company_item_id) || toId(row.utility) || toId(row.utility_data);
+    case 'financier':
+      return toId(row.fin_id) || toId(row.financier_id) || toId(row.financier);
+  }
+};
+
+/**
+ * Build the `{ id, name, classification }` reference stored on a project
+ */
+const buildEntityReference = (
+  id: string,
+  kind: EntityKind,
+  lookup: Map<string, NormalizedEntity> | undefined,
+  fallback: unknown
+) => {
+  const entity = id ? lookup?.get(id) : undefined;
+  if (entity) {
+    return { id, name: entity.name, classification: entity.classification };
+  }
+
+  // Keep whatever the row already carried (e.g. a project hydrated from the server)
+  const existing = isObject(fallback) ? fallback : {};
+  return {
+    id,
+    name: toText(existing.name) || UNKNOWN_NAMES[kind],
+    classification: extractClassification(existing.classification || '')
+  };
+};
+
+/**
+ * Normalize a `podio_data` row into a canonical Project
+ * Projects without valid coordinates keep `latitude`/`longitude` undefined.
+ */
+export function normalizeProject(row: RawRow, lookups?: EntityLookups): Project {
+  const payload = getRawPayload(row);
+
+  const city = toText(row.city) || toText(payload.city);
+  const state = toText(row.state) || toText(payload.state);
+  const zip = toText(row.zip) || toText(payload.zip);
+  const county = toText(row.county) || toText(payload.county);
+
+  // Compose the full address from the Podio street line; rows without a payload
+  // street (e.g. already-normalized projects) keep their address as-is
+  const street = toText(payload.address);
+  const address = street
+    ? [street, city, `${state} ${zip}`.trim()].filter(Boolean).join(', ')
+    : toText(row.address);
+
+  const coordinates = extractRowCoordinates(row);
+
+  const ahjId = getProjectEntityId(row, 'ahj');
+  const utilityId = getProjectEntityId(row, 'utility');
+  const financierId = getProjectEntityId(row, 'financier');
+
+  const qualifies45Day = row.qualifies_45_day ?? row.qualifies45Day;
+  const repId = toText(row.rep_id);
+
+  // Dates may be row columns or payload fields; normalized projects keep them in milestone_dates
+  const milestoneDates = extractMilestoneDates({ ...row, ...payload });
+
+  return {
+    id: toId(row.project_id) || toId(row.id),
+    address,
+    latitude: coordinates.latitude,
+    longitude: coordinates.longitude,
+    ahj: buildEntityReference(ahjId, 'ahj', lookups?.ahjs, row.ahj),
+    utility: buildEntityReference(utilityId, 'utility', lookups?.utilities, row.utility),
+    financier: buildEntityReference(financierId, 'financier', lookups?.financiers, row.financier),
+    status: toText(row.status) || 'Unknown',
+    city,
+    state,
+    zip,
+    county,
+    milestone: toText(row.milestone),
+    qualifies45Day: typeof qualifies45Day === 'boolean' ? qualifies45Day : toText(qualifies45Day),
+    isMasked: row.isMasked === true,
+    rep_id: repId || null,
+    contract_signed_date: toText(row.contract_signed_date),
+    milestone_dates: milestoneDates,
+    customer_name: toText(row.customer_name) || toText(payload.customer_name) || undefined,
+    ahj_item_id: ahjId,
+    utility_company_item_id: utilityId,
+    financier_id: financierId
+  };
+}
+
+/**
+ * Normalize a list of `podio_data` rows, dropping rows without a project ID
+ */
+export function normalizeProjects(rows: RawRow[] | null | undefined, lookups?: EntityLookups): Project[] {
+  return (rows || [])
+    .map(row => normalizeProject(row, lookups))
+    .filter(project => project.id);
+}
+
+/**
+ * Re-attach entity references to canonical projects using fresh lookups
+ * Used when entity data changes without the projects being re-fetched.
+ */
+export function linkProjectEntities(project: Project, lookups: EntityLookups): Project {
+  return {
+    ...project,
+    ahj: buildEntityReference(project.ahj_item_id, 'ahj', lookups.ahjs, project.ahj),
+    utility: buildEntityReference(project.utility_company_item_id, 'utility', lookups.utilities, project.utility),
+    financier: buildEntityReference(project.financier_id || '', 'financier', lookups.financiers, project.financier)
+  };
+}
+
+/**
+ * Normalize a complete set of raw tables in one pass
+ */
+export function normalizeDataset(raw: {
+  projects?: RawRow[] | null;
+  ahjs?: RawRow[] | null;
+  utilities?: RawRow[] | null;
+  financiers?: RawRow[] | null;
+}) {
+  const ahjs = normalizeEntities(raw.ahjs, 'ahj');
+  const utilities = normalizeEntities(raw.utilities, 'utility');
+  const financiers = normalizeEntities(raw.financiers, 'financier');
+  const lookups = buildEntityLookups(ahjs, utilities, financiers);
+
+  return {
+    projects: normalizeProjects(raw.projects, lookups),
+    ahjs,
+    utilities,
+    financiers,
+    lookups
+  };
+}
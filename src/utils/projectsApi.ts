@@ -0,0 +1,131 @@
+import { supabase } from './supabaseClient';
+import { Project } from './types';
+import { MapArea, mapAreaToParams } from './geo';
+import { NormalizedEntity } from './projectNormalization';
+
+/**
+ * Build the Authorization header for calls to the app's own API routes
+ * The session lives in sessionStorage, so the access token is sent explicitly.
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token
+    ? { Authorization: `Bearer ${session.access_token}` }
+    : {};
+}
+
+/**
+ * Project counts per classification, as returned by /api/projects
+ */
+export type ClassificationTotals = Record<'ahj' | 'utility' | 'financier', Record<string, number>>;
+
+/**
+ * A single page of projects returned by /api/projects
+ * Totals are only included on the first page.
+ */
+export interface ProjectPage {
+  projects: Project[];
+  nextCursor: string | null;
+  total?: number;
+  totals?: ClassificationTotals;
+}
+
+// Projects per page for the list
+export const PROJECT_PAGE_SIZE = 500;
+
+// The server's page size limit, used when loading everything or a map area
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Query parameters for /api/projects (see getProjectQueryParams)
+ */
+export type ProjectQueryParams = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Fetch one page of projects visible to the signed-in user
+ * Masking is applied by /api/projects, so restricted fields never reach the browser.
+ * @param params FilterParams fields plus `cursor` and `limit`
+ */
+export async function fetchProjectPage(params: ProjectQueryParams = {}): Promise<ProjectPage> {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '' && value !== false) {
+      query.set(key, String(value));
+    }
+  });
+
+  const response = await fetch(`/api/projects?${query.toString()}`, {
+    headers: await getAuthHeaders(),
+    cache: 'no-store'
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed with status ${response.status}`);
+  }
+
+  return body as ProjectPage;
+}
+
+/**
+ * Fetch every page of projects matching the parameters, for exports and
+ * reports that cover the whole filtered list
+ * @param params FilterParams fields, without `cursor` or `limit`
+ */
+export async function fetchAllProjectPages(params: ProjectQueryParams = {}): Promise<Project[]> {
+  const projects: Project[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page: ProjectPage = await fetchProjectPage({ ...params, limit: MAX_PAGE_SIZE, cursor: cursor || undefined });
+    projects.push(...(page.projects || []));
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return projects;
+}
+
+/**
+ * Fetch a single project by ID
+ * @returns null when the project doesn't exist
+ */
+export async function fetchProject(id: string): Promise<Project | null> {
+  const page = await fetchProjectPage({ id, limit: 1 });
+  return page.projects?.[0] || null;
+}
+
+/**
+ * Fetch the projects and AHJ/utility pins inside a map area
+ * Projects come from a single page of the area query, so a very dense area
+ * shows its first MAX_PAGE_SIZE matches; `total` tells how many there are.
+ * @param area Bounding box of the viewport, or a radius around a point
+ * @param params Filter and sort parameters for the projects
+ */
+export async function fetchMapAreaData(area: MapArea, params: ProjectQueryParams = {}): Promise<{
+  projects: Project[];
+  total: number | null;
+  ahjs: NormalizedEntity[];
+  utilities: NormalizedEntity[];
+}> {
+  const areaParams = mapAreaToParams(area);
+
+  const [page, entitiesResponse] = await Promise.all([
+    fetchProjectPage({ ...params, ...areaParams, limit: MAX_PAGE_SIZE }),
+    fetch(`/api/entities?${new URLSearchParams(areaParams).toString()}`, {
+      headers: await getAuthHeaders(),
+      cache: 'no-store'
+    })
+  ]);
+
+  const entities = await entitiesResponse.json().catch(() => ({}));
+  if (!entitiesResponse.ok) {
+    throw new Error(entities.error || `Request failed with status ${entitiesResponse.status}`);
+  }
+
+  return {
+    projects: page.projects || [],
+    total: page.total ?? null,
+    ahjs: entities.ahjs || [],
+    utilities: entities.utilities || []
+  };
+}
@@ -40,6 +40,11 @@ export function isQualified(statusOrProject: string | boolean | null | undefined
     return mapQualificationStatus(statusOrProject.qualifies_45_day) === 'Yes';
   }
   
+  // Canonical Project objects carry the normalized qualifies45Day field
+  if (statusOrProject && typeof statusOrProject === 'object' && 'qualifies45Day' in statusOrProject) {
+    return mapQualificationStatus(statusOrProject.qualifies45Day) === 'Yes';
+  }
+  
   // Otherwise, treat it as a direct status value
   return mapQualificationStatus(statusOrProject) === 'Yes';
 }
@@ -54,6 +59,11 @@ export function isPending(statusOrProject: string | boolean | null | undefined |
     return mapQualificationStatus(statusOrProject.qualifies_45_day) === 'Pending';
   }
   
+  // Canonical Project objects carry the normalized qualifies45Day field
+  if (statusOrProject && typeof statusOrProject === 'object' && 'qualifies45Day' in statusOrProject) {
+    return mapQualificationStatus(statusOrProject.qualifies45Day) === 'Pending';
+  }
+  
   // Otherwise, treat it as a direct status value
   return mapQualificationStatus(statusOrProject) === 'Pending';
 }
@@ -0,0 +1,145 @@
+/**
+ * routeOptimizer.ts
+ *
+ * Orders door-knocking stops into a short route: a nearest-neighbour tour from
+ * the start location, improved with 2-opt until no swap shortens it. Routes are
+ * open paths (they don't return to the start) and distances are great-circle miles.
+ */
+
+import { GeoPoint, haversineMiles } from './geo';
+
+// Largest number of stops optimized in one route; 2-opt is O(n²) per pass
+export const MAX_ROUTE_STOPS = 100;
+
+// Stop 2-opt after this many improving passes
+const MAX_TWO_OPT_PASSES = 50;
+
+/**
+ * A place to visit
+ */
+export interface RouteStop {
+  id: string;
+  label: string;
+  location: GeoPoint;
+}
+
+/**
+ * An ordered route with the distance of each leg
+ * legMiles[i] is the distance from the previous point (or the start) to stops[i].
+ */
+export interface OptimizedRoute {
+  start: GeoPoint | null;
+  stops: RouteStop[];
+  legMiles: number[];
+  totalMiles: number;
+}
+
+/**
+ * Total length of a path through the given points
+ */
+function pathLength(points: GeoPoint[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += haversineMiles(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+/**
+ * Greedy tour: always visit the closest unvisited stop next
+ */
+function nearestNeighbourOrder(stops: RouteStop[], start: GeoPoint): RouteStop[] {
+  const remaining = [...stops];
+  const ordered: RouteStop[] = [];
+  let current = start;
+
+  while (remaining.length > 0) {
+    let nearestIndex = 0;
+    let nearestDistance = Infinity;
+
+    remaining.forEach((stop, index) => {
+      const distance = haversineMiles(current, stop.location);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearestIndex = index;
+      }
+    });
+
+    const [next] = remaining.splice(nearestIndex, 1);
+    ordered.push(next);
+    current = next.location;
+  }
+
+  return ordered;
+}
+
+/**
+ * Improve an open path with 2-opt: reverse any segment whose reversal makes the path shorter
+ * The first point (the start) stays fixed.
+ */
+function twoOpt(stops: RouteStop[], start: GeoPoint): RouteStop[] {
+  const route = [...stops];
+  const pointAt = (index: number): GeoPoint => index < 0 ? start : route[index].location;
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+
+    // Reverse route[i..j]; edges (i-1, i) and (j, j+1) are replaced
+    for (let i = 0; i < route.length - 1; i++) {
+      for (let j = i + 1; j < route.length; j++) {
+        const before = pointAt(i - 1);
+        const first = pointAt(i);
+        const last = pointAt(j);
+        const after = j + 1 < route.length ? pointAt(j + 1) : null;
+
+        const currentLength = haversineMiles(before, first) + (after ? haversineMiles(last, after) : 0);
+        const swappedLength = haversineMiles(before, last) + (after ? haversineMiles(first, after) : 0);
+
+        if (swappedLength < currentLength - 1e-9) {
+          const reversed = route.slice(i, j + 1).reverse();
+          route.splice(i, reversed.length, ...reversed);
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return route;
+}
+
+/**
+ * Order stops into a short route
+ * @param stops Places to visit (only the first MAX_ROUTE_STOPS are used)
+ * @param start Where the rep starts; when null the route starts at the first stop
+ */
+export function optimizeRoute(stops: RouteStop[], start: GeoPoint | null): OptimizedRoute {
+  const targets = stops.slice(0, MAX_ROUTE_STOPS);
+  if (targets.length === 0) {
+    return { start, stops: [], legMiles: [], totalMiles: 0 };
+  }
+
+  const origin = start || targets[0].location;
+  const ordered = twoOpt(nearestNeighbourOrder(targets, origin), origin);
+
+  const legMiles = ordered.map((stop, index) =>
+    haversineMiles(index === 0 ? origin : ordered[index - 1].location, stop.location)
+  );
+
+  return {
+    start,
+    stops: ordered,
+    legMiles,
+    totalMiles: pathLength([origin, ...ordered.map(stop => stop.location)])
+  };
+}
+
+/**
+ * Coordinates of a route as [lng, lat] pairs, for drawing it as a GeoJSON line
+ */
+export function routeToCoordinates(route: OptimizedRoute): [number, number][] {
+  const points = route.start ? [route.start, ...route.stops.map(stop => stop.location)]
+    : route.stops.map(stop => stop.location);
+  return points.map(point => [point.longitude, point.latitude]);
+}
@@ -0,0 +1,166 @@
+/**
+ * savedViews.ts
+ *
+ * Reads and writes a user's saved filter views: named snapshots of the active
+ * filters, sort, search, my-projects toggle and view mode. Row level security
+ * limits views to their owner, plus any view the owner has shared by link
+ * (see 20261026_saved_filter_views.sql).
+ */
+
+import { supabase } from './supabaseClient';
+import { FilterState, ProjectFilter } from './types';
+
+/**
+ * Everything a saved view restores
+ */
+export interface SavedViewState {
+  filters: ProjectFilter[];
+  sortOptions: FilterState['sortOptions'];
+  searchTerms: string;
+  showOnlyMyProjects: boolean;
+  viewMode?: 'map' | 'list' | 'projects';
+  entityViewMode?: 'projects' | 'entities';
+}
+
+/**
+ * A named, stored view
+ */
+export interface SavedView {
+  id: string;
+  user_id: string;
+  name: string;
+  state: SavedViewState;
+  is_default: boolean;
+  is_shared: boolean;
+  created_at: string;
+  updated_at: string | null;
+}
+
+const TABLE = 'saved_filter_views';
+const VIEW_COLUMNS = 'id, user_id, name, state, is_default, is_shared, created_at, updated_at';
+
+/**
+ * Fetch every view saved by a user, most recently created first
+ */
+export async function fetchSavedViews(userId: string): Promise<SavedView[]> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select(VIEW_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Error fetching saved views: ${error.message}`);
+  }
+
+  return (data || []) as SavedView[];
+}
+
+/**
+ * Fetch a single view: one of the user's own, or one shared with them
+ * @returns The view, or null when it doesn't exist or isn't shared
+ */
+export async function fetchSavedView(viewId: string): Promise<SavedView | null> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select(VIEW_COLUMNS)
+    .eq('id', viewId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error fetching saved view: ${error.message}`);
+  }
+
+  return (data as SavedView) || null;
+}
+
+/**
+ * Fetch the view a user loads by default, if they have one
+ */
+export async function fetchDefaultSavedView(userId: string): Promise<SavedView | null> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select(VIEW_COLUMNS)
+    .eq('user_id', userId)
+    .eq('is_default', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error fetching default view: ${error.message}`);
+  }
+
+  return (data as SavedView) || null;
+}
+
+/**
+ * Save the current state as a new view
+ */
+export async function createSavedView(userId: string, name: string, state: SavedViewState): Promise<SavedView> {
+  // Filter ids are regenerated when a view is applied, so they aren't stored
+  const filters = state.filters.map(filter => ({ ...filter, id: undefined }));
+
+  const { data, error } = await supabase
+    .from(TABLE)
+    .insert({ user_id: userId, name, state: { ...state, filters } })
+    .select(VIEW_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Error saving view: ${error.message}`);
+  }
+
+  return data as SavedView;
+}
+
+/**
+ * Delete a saved view
+ */
+export async function deleteSavedView(viewId: string): Promise<void> {
+  const { error } = await supabase
+    .from(TABLE)
+    .delete()
+    .eq('id', viewId);
+
+  if (error) {
+    throw new Error(`Error deleting saved view: ${error.message}`);
+  }
+}
+
+/**
+ * Make a view the user's default, or clear the default when viewId is null
+ * The old default is cleared and the new one set in one transaction
+ * (see 20261028_set_default_saved_view.sql).
+ */
+export async function setDefaultSavedView(userId: string, viewId: string | null): Promise<void> {
+  const { error } = await supabase.rpc('set_default_saved_view', {
+    p_user_id: userId,
+    p_view_id: viewId
+  });
+
+  if (error) {
+    throw new Error(`Error setting default view: ${error.message}`);
+  }
+}
+
+/**
+ * Make a view readable by teammates and return its link
+ */
+export async function shareSavedView(viewId: string): Promise<string> {
+  const { error } = await supabase
+    .from(TABLE)
+    .update({ is_shared: true, updated_at: new Date().toISOString() })
+    .eq('id', viewId);
+
+  if (error) {
+    throw new Error(`Error sharing view: ${error.message}`);
+  }
+
+  return getSavedViewLink(viewId);
+}
+
+/**
+ * Link that opens the home page with a saved view applied
+ */
+export function getSavedViewLink(viewId: string): string {
+  return `${window.location.origin}/?view=${encodeURIComponent(viewId)}`;
+}
@@ -0,0 +1,271 @@
+/**
+ * territoryBrief.ts
+ *
+ * Builds a printable "territory brief" for an AHJ or utility: its class, the
+ * entities it works with, project counts and 45-day rate, a static map of its
+ * projects and the most recent installs, rendered to a downloadable PDF.
+ *
+ * Masked projects are counted but never listed or placed on the map.
+ */
+
+import { Project } from './types';
+import { NormalizedEntity } from './projectNormalization';
+import { formatClassification } from './classificationColors';
+import { isQualified } from './qualificationStatus';
+import { isPastMilestone } from './milestones';
+import { getMapboxToken } from './mapbox';
+
+export type BriefEntityType = 'ahj' | 'utility';
+
+// Number of recent installs listed in the brief
+const RECENT_INSTALL_LIMIT = 10;
+
+// Most pins drawn on the static map (keeps the request URL well under Mapbox's limit)
+const MAX_MAP_PINS = 40;
+
+// Milestone a project must reach to count as installed
+const INSTALL_MILESTONE = 'Install';
+
+// Static map size in pixels (requested at @2x for print)
+const MAP_WIDTH = 600;
+const MAP_HEIGHT = 300;
+
+/**
+ * A recently installed project listed in the brief
+ */
+export interface BriefInstall {
+  address: string;
+  milestone: string;
+  contractDate: string;
+}
+
+/**
+ * Everything shown in a territory brief
+ */
+export interface TerritoryBrief {
+  entityType: BriefEntityType;
+  entity: NormalizedEntity;
+  relatedEntities: NormalizedEntity[];
+  projectCount: number;
+  installedCount: number;
+  qualified45DayCount: number;
+  qualified45DayRate: number;
+  recentInstalls: BriefInstall[];
+  mapPins: [number, number][];
+}
+
+/**
+ * Collect the brief data for an entity
+ * @param projects Every project visible to the user (masked projects included)
+ * @param relatedEntities Entities of the other type that share projects with this one
+ */
+export function buildTerritoryBrief(
+  entityType: BriefEntityType,
+  entity: NormalizedEntity,
+  projects: Project[],
+  relatedEntities: NormalizedEntity[]
+): TerritoryBrief {
+  const entityProjects = projects.filter(project =>
+    (entityType === 'ahj' ? project.ahj?.id : project.utility?.id) === entity.id
+  );
+
+  const installed = entityProjects.filter(project => isPastMilestone(project, INSTALL_MILESTONE));
+  const qualified45DayCount = entityProjects.filter(project => isQualified(project)).length;
+
+  const recentInstalls = installed
+    .filter(project => !project.isMasked)
+    .sort((a, b) => String(b.contract_signed_date || '').localeCompare(String(a.contract_signed_date || '')))
+    .slice(0, RECENT_INSTALL_LIMIT)
+    .map(project => ({
+      address: project.address || 'No address',
+      milestone: project.milestone || project.status || '',
+      contractDate: project.contract_signed_date ? project.contract_signed_date.slice(0, 10) : ''
+    }));
+
+  const mapPins = entityProjects
+    .filter(project => !project.isMasked && project.latitude && project.longitude)
+    .slice(0, MAX_MAP_PINS)
+    .map(project => [project.longitude!, project.latitude!] as [number, number]);
+
+  return {
+    entityType,
+    entity,
+    relatedEntities: [...relatedEntities].sort((a, b) => a.name.localeCompare(b.name)),
+    projectCount: entityProjects.length,
+    installedCount: installed.length,
+    qualified45DayCount,
+    qualified45DayRate: entityProjects.length > 0 ? qualified45DayCount / entityProjects.length : 0,
+    recentInstalls,
+    mapPins
+  };
+}
+
+/**
+ * Mapbox Static Images URL showing the entity and its projects
+ * @returns null when there is nothing to place on the map
+ */
+export function getBriefStaticMapUrl(brief: TerritoryBrief): string | null {
+  const overlays = brief.mapPins.map(([lng, lat]) =>
+    `pin-s+3b82f6(${lng.toFixed(5)},${lat.toFixed(5)})`
+  );
+
+  const { latitude, longitude } = brief.entity;
+  if (brief.entity.coordStatus === 'valid' && latitude !== undefined && longitude !== undefined) {
+    overlays.push(`pin-l+f97316(${longitude.toFixed(5)},${latitude.toFixed(5)})`);
+  }
+
+  if (overlays.length === 0) return null;
+
+  // A single pin is framed at a fixed zoom; "auto" would zoom all the way in
+  const position = overlays.length === 1 && brief.mapPins.length === 0
+    ? `${longitude!.toFixed(5)},${latitude!.toFixed(5)},10`
+    : 'auto';
+
+  return `https://api.mapbox.com/styles/v1/mapbox/streets-v12/static/${overlays.join(',')}/${position}/${MAP_WIDTH}x${MAP_HEIGHT}@2x?padding=40&access_token=${getMapboxToken()}`;
+}
+
+/**
+ * Download an image as a data URL so it can be embedded in the PDF
+ */
+async function fetchImageDataUrl(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Static map request failed with status ${response.status}`);
+  }
+
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * File name for a brief, e.g. territory-brief-salt-lake-city.pdf
+ */
+export function getBriefFileName(brief: TerritoryBrief): string {
+  const slug = brief.entity.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `territory-brief-${slug || brief.entity.id}.pdf`;
+}
+
+/**
+ * Render a territory brief to a PDF and download it
+ * jsPDF is loaded on demand since it is only needed here. The brief is still
+ * generated without the map if the static map can't be fetched.
+ */
+export async function downloadTerritoryBrief(brief: TerritoryBrief): Promise<void> {
+  const { jsPDF } = await import('jspdf');
+
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 48;
+  const contentWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  // Start a new page when the next block won't fit
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(28);
+    y += 10;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.text(text, margin, y);
+    y += 18;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+  };
+
+  const entityLabel = brief.entityType === 'ahj' ? 'AHJ' : 'Utility';
+  const relatedLabel = brief.entityType === 'ahj' ? 'Utilities' : 'AHJs';
+
+  // Title
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text(brief.entity.name, margin, y);
+  y += 22;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.text(
+    `${entityLabel} territory brief · Class ${formatClassification(brief.entity.classification)} · ${new Date().toLocaleDateString()}`,
+    margin,
+    y
+  );
+  y += 12;
+
+  // Summary numbers
+  heading('Summary');
+  const summary: [string, string][] = [
+    ['Projects', String(brief.projectCount)],
+    ['Installed', String(brief.installedCount)],
+    ['45-day qualified', `${brief.qualified45DayCount} (${Math.round(brief.qualified45DayRate * 100)}%)`],
+    [`Related ${relatedLabel.toLowerCase()}`, String(brief.relatedEntities.length)]
+  ];
+  summary.forEach(([label, value]) => {
+    doc.text(label, margin, y);
+    doc.text(value, margin + 160, y);
+    y += 14;
+  });
+
+  // Static map
+  const mapUrl = getBriefStaticMapUrl(brief);
+  if (mapUrl) {
+    try {
+      const image = await fetchImageDataUrl(mapUrl);
+      const mapHeight = contentWidth * (MAP_HEIGHT / MAP_WIDTH);
+      heading('Map');
+      ensureSpace(mapHeight);
+      doc.addImage(image, 'PNG', margin, y, contentWidth, mapHeight);
+      y += mapHeight + 6;
+    } catch (error) {
+      console.error('[TerritoryBrief] Could not load the static map:', error);
+    }
+  }
+
+  // Related entities with their classes
+  heading(`${relatedLabel} worked with`);
+  if (brief.relatedEntities.length === 0) {
+    doc.text('None on record', margin, y);
+    y += 14;
+  } else {
+    brief.relatedEntities.forEach(related => {
+      ensureSpace(14);
+      doc.text(`${formatClassification(related.classification)}  ${related.name}`, margin, y);
+      y += 14;
+    });
+  }
+
+  // Recent installs
+  heading('Recent installs');
+  if (brief.recentInstalls.length === 0) {
+    doc.text('No visible installs on record', margin, y);
+    y += 14;
+  } else {
+    doc.setFont('helvetica', 'bold');
+    doc.text('Address', margin, y);
+    doc.text('Milestone', margin + 300, y);
+    doc.text('Contract signed', margin + 400, y);
+    doc.setFont('helvetica', 'normal');
+    y += 14;
+
+    brief.recentInstalls.forEach(install => {
+      ensureSpace(14);
+      const [address] = doc.splitTextToSize(install.address, 290) as string[];
+      doc.text(address, margin, y);
+      doc.text(install.milestone, margin + 300, y);
+      doc.text(install.contractDate, margin + 400, y);
+      y += 14;
+    });
+  }
+
+  doc.save(getBriefFileName(brief));
+  console.log(`[TerritoryBrief] Generated brief for ${entityLabel} ${brief.entity.name}`);
+}
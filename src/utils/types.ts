@@ -52,11 +52,16 @@ export interface Project {
   milestone?: string;
   qualifies45Day?: string | boolean;
   isMasked?: boolean;
+  /** Coarse location used to place masked projects on the map */
+  approximateLocation?: { latitude: number; longitude: number };
   rep_id?: string | null;
   contract_signed_date?: string;
+  /** Date (YYYY-MM-DD) each milestone was reached, keyed by pipeline milestone name */
+  milestone_dates?: Record<string, string>;
   customer_name?: string;
   ahj_item_id: string;
-  utility_company_item_id: string
+  utility_company_item_id: string;
+  financier_id?: string;
 }
 
 /**
@@ -72,8 +77,9 @@ export type FilterSource = 'manual' | 'entity-selection' | 'search';
  * This allows us to distinguish between regular filters and those created from entity selections
  */
 export interface ProjectFilter {
-  /** The type of filter (e.g., 'ahj', 'utility', 'financier', '45day', 'search', 'myprojects', 'class') */
-  type: 'ahj' | 'utility' | 'financier' | '45day' | 'search' | 'myprojects' | 'class';
+  /** The type of filter (e.g., 'ahj', 'utility', 'financier', '45day', 'search', 'myprojects', 'class', 'contractDate', 'state') */
+  type: 'ahj' | 'utility' | 'financier' | '45day' | 'search' | 'myprojects' | 'class' | 'contractDate'
+    | 'state' | 'county' | 'city' | 'zip';
   
   /** The display value of the filter (e.g., entity name, state name) */
   value: string;
@@ -113,7 +119,19 @@ export interface ProjectFilter {
    * Specifies the entity type for entity filters
    * Used to determine which entity list the filter applies to
    */
-  entityType?: 'ahj' | 'utility';
+  entityType?: 'ahj' | 'utility' | 'financier';
+  
+  /**
+   * Excludes projects matching the filter instead of keeping them
+   * Negated filters are always applied as exclusions, never ORed
+   */
+  negate?: boolean;
+  
+  /**
+   * Filters sharing a group are ORed together; groups are ANDed
+   * Defaults to the filter type, so filters of the same type are ORed
+   */
+  group?: string;
 }
 
 /**
@@ -138,6 +156,7 @@ export interface ImprovedFilterPanelProps {
   filters: FilterState;
   addFilter: (filter: ProjectFilter) => void;
   removeFilter: (filterId: string, isEntityFilter?: boolean) => void;
+  updateFilter?: (filterId: string, changes: Partial<ProjectFilter>) => void;
   clearFilters: () => void;
   onSearch?: (terms: string) => void;
   searchTerms?: string;
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import { ProjectFilter } from './types';
+import { getFilterLabel } from './filterExpressions';
+import { GEO_FILTER_TYPES } from './geoFilters';
+import { UrlState, parseUrlState, serializeUrlState } from './urlState';
+
+// Serialize and parse back through a real URL query string
+const roundTrip = (state: UrlState): UrlState =>
+  parseUrlState(new URLSearchParams(serializeUrlState(state).toString()));
+
+const FILTERS: ProjectFilter[] = [
+  { type: 'ahj', value: 'A' },
+  { type: 'ahj', value: 'B' },
+  { type: 'utility', value: 'SRP: Salt River, AZ', entityId: 'util-1', entityType: 'utility', filterSource: 'entity-selection' },
+  { type: 'class', value: 'C', entityType: 'financier', group: 'shared-1' },
+  { type: '45day', value: 'true', group: 'shared-1' },
+  { type: 'financier', value: 'C', negate: true },
+  { type: 'search', value: 'mesa', label: 'Custom label' },
+  { type: 'ahj', value: 'Phoenix', entityId: 'ahj-9', metadata: { latitude: 33.45, longitude: -112.07 } },
+  { type: 'contractDate', value: '2024-01-01..2024-03-31' },
+  { type: 'state', value: 'AZ' },
+  { type: 'county', value: 'Maricopa', negate: true }
+];
+
+const FULL_STATE: UrlState = {
+  filters: FILTERS,
+  sortOptions: { field: 'payload:install:date', direction: 'desc' },
+  searchTerms: 'main st, mesa',
+  showOnlyMyProjects: true,
+  viewMode: 'list',
+  entityViewMode: 'entities',
+  selectedProjectId: 'p-1001',
+  map: { latitude: 33.41523456789, longitude: -111.831512345, zoom: 11.25 }
+};
+
+describe('urlState', () => {
+  it('round-trips a parsed state unchanged', () => {
+    const parsed = roundTrip(FULL_STATE);
+    expect(roundTrip(parsed)).toEqual(parsed);
+    expect(serializeUrlState(parsed).toString()).toBe(serializeUrlState(FULL_STATE).toString());
+  });
+
+  it('keeps filter fields, OR groups and negation', () => {
+    const { filters } = roundTrip(FULL_STATE);
+
+    expect(filters).toHaveLength(FILTERS.length);
+    filters.forEach((filter, index) => {
+      // Labels are filled in from the defaults when not set
+      const { label, ...rest } = filter;
+      const { label: originalLabel, ...original } = FILTERS[index];
+      expect(rest).toEqual(original);
+      expect(label).toBe(originalLabel || getFilterLabel(filter));
+    });
+    expect(filters[6].label).toBe('Custom label');
+    expect(filters[5].negate).toBe(true);
+    expect(filters[3].group).toBe('shared-1');
+  });
+
+  it('keeps sort fields containing colons', () => {
+    expect(roundTrip(FULL_STATE).sortOptions).toEqual({ field: 'payload:install:date', direction: 'desc' });
+  });
+
+  it('keeps the map camera at full precision', () => {
+    expect(roundTrip(FULL_STATE).map).toEqual(FULL_STATE.map);
+  });
+
+  it('keeps search, view modes and the selected project', () => {
+    expect(roundTrip(FULL_STATE)).toMatchObject({
+      searchTerms: 'main st, mesa',
+      showOnlyMyProjects: true,
+      viewMode: 'list',
+      entityViewMode: 'entities',
+      selectedProjectId: 'p-1001'
+    });
+  });
+
+  it('leaves defaults out of the URL', () => {
+    const state: UrlState = {
+      filters: [],
+      sortOptions: { field: 'name', direction: 'asc' },
+      searchTerms: '',
+      showOnlyMyProjects: false
+    };
+    expect(serializeUrlState(state).toString()).toBe('v=1');
+    expect(roundTrip(state)).toEqual(state);
+  });
+
+  it('drops a malformed sort and map camera', () => {
+    const state = parseUrlState(new URLSearchParams('v=1&sort=name:sideways&map=91,0,3'));
+    expect(state.sortOptions).toEqual({ field: 'name', direction: 'asc' });
+    expect(state.map).toBeUndefined();
+  });
+});
+
+// Every filter type, and text that collides with the filter and URL separators
+const FILTER_TYPES: ProjectFilter['type'][] = [
+  'ahj', 'utility', 'financier', '45day', 'search', 'myprojects', 'class', 'contractDate', ...GEO_FILTER_TYPES
+];
+const ENTITY_TYPES = ['ahj', 'utility', 'financier'] as const;
+const FILTER_SOURCES = ['manual', 'entity-selection', 'search'] as const;
+const SORT_FIELDS = [
+  'name', 'id', 'address', 'city', 'zip', 'ahj', 'utility', 'financier', 'status', 'milestone', '45day',
+  'contract_signed_date', 'payload:install:date'
+];
+const TEXTS = [
+  'Mesa', 'SRP: Salt River, AZ', '100%', '%25', 'a:b,c', ',', ':', '!negated', 'Café & Co', '2024-01-01..2024-03-31', 'last-90'
+];
+
+/**
+ * Small seeded generator, so a failing state can be reproduced from its seed
+ */
+const createRandom = (seed: number) => {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+  const pick = <T>(values: readonly T[]): T => values[Math.floor(next() * values.length)];
+  const chance = (probability: number) => next() < probability;
+  const number = (min: number, max: number) => min + next() * (max - min);
+  return { pick, chance, number };
+};
+
+const generateFilter = (random: ReturnType<typeof createRandom>): ProjectFilter => {
+  const filter: ProjectFilter = { type: random.pick(FILTER_TYPES), value: random.pick(TEXTS) };
+  if (random.chance(0.3)) filter.entityId = random.pick(TEXTS);
+  if (random.chance(0.3)) filter.entityType = random.pick(ENTITY_TYPES);
+  if (random.chance(0.3)) filter.filterSource = random.pick(FILTER_SOURCES);
+  if (random.chance(0.3)) filter.group = random.pick(['shared-1', 'shared:2', '%group,3']);
+  if (random.chance(0.3)) filter.negate = true;
+  if (random.chance(0.3)) filter.label = random.pick(TEXTS);
+  if (random.chance(0.3)) {
+    filter.metadata = {
+      latitude: random.number(-90, 90),
+      note: random.pick(TEXTS),
+      nested: { ids: [random.pick(TEXTS)], pinned: random.chance(0.5) }
+    };
+  }
+  return filter;
+};
+
+const generateState = (seed: number): UrlState => {
+  const random = createRandom(seed);
+  const state: UrlState = {
+    filters: Array.from({ length: Math.floor(random.number(0, 6)) }, () => generateFilter(random)),
+    sortOptions: { field: random.pick(SORT_FIELDS), direction: random.pick(['asc', 'desc'] as const) },
+    searchTerms: random.chance(0.5) ? random.pick(TEXTS) : '',
+    showOnlyMyProjects: random.chance(0.5)
+  };
+  if (random.chance(0.5)) state.viewMode = random.pick(['map', 'list', 'projects'] as const);
+  if (random.chance(0.5)) state.entityViewMode = random.pick(['projects', 'entities'] as const);
+  if (random.chance(0.5)) state.selectedProjectId = random.pick(TEXTS);
+  if (random.chance(0.5)) {
+    state.map = { latitude: random.number(-90, 90), longitude: random.number(-180, 180), zoom: random.number(0, 22) };
+  }
+  return state;
+};
+
+describe('urlState round trip (generated states)', () => {
+  const seeds = Array.from({ length: 200 }, (_, index) => index + 1);
+
+  it.each(seeds)('keeps every field of generated state %i', seed => {
+    const state = generateState(seed);
+
+    // Only the filter labels change: unset labels are filled in with the defaults
+    expect(roundTrip(state)).toEqual({
+      ...state,
+      filters: state.filters.map(filter => ({ ...filter, label: filter.label || getFilterLabel(filter) }))
+    });
+  });
+
+  it('covers every filter type, sort field and direction', () => {
+    const states = seeds.map(generateState);
+    const filters = states.flatMap(state => state.filters);
+
+    expect(new Set(filters.map(filter => filter.type))).toEqual(new Set(FILTER_TYPES));
+    expect(new Set(states.map(state => state.sortOptions.field))).toEqual(new Set(SORT_FIELDS));
+    expect(new Set(states.map(state => state.sortOptions.direction))).toEqual(new Set(['asc', 'desc']));
+    expect(filters.some(filter => filter.negate && filter.group && filter.metadata)).toBe(true);
+  });
+});
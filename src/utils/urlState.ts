@@ -0,0 +1,255 @@
+/**
+ * urlState.ts
+ *
+ * Versioned codec between the home page state and its URL, so a shared link
+ * reproduces what the sender saw: every filter (with its entity, source, OR
+ * group and negation), sort, search text, my-projects toggle, view modes, the
+ * selected project and the map camera. Selected AHJs, utilities and financiers
+ * travel as their entity-selection filters.
+ *
+ * Version 1 parameters:
+ *   v        codec version
+ *   filters  encoded filter list (see encodeFilterExpression)
+ *   sort     `field:direction`, omitted for the default sort
+ *   q        search box text
+ *   mine     `1` when only the user's projects are shown
+ *   mode     view mode (map, list or projects)
+ *   list     desktop list mode (entities or projects)
+ *   project  selected project ID
+ *   map      `latitude,longitude,zoom`
+ *
+ * For any state as produced by parseUrlState, parsing the serialized form
+ * gives the same state back. Links without `v` predate the codec and are read
+ * with the older single-value parameters.
+ */
+
+import { FilterState, ProjectFilter } from './types';
+import { decodeFilterExpression, encodeFilterExpression } from './filterExpressions';
+import { getDateRangeLabel } from './dateRangeFilter';
+import { GEO_FILTER_LABELS, GEO_FILTER_TYPES, parseGeoValues } from './geoFilters';
+
+export const URL_STATE_VERSION = 1;
+
+export const DEFAULT_SORT_OPTIONS: FilterState['sortOptions'] = { field: 'name', direction: 'asc' };
+
+const VIEW_MODES = ['map', 'list', 'projects'] as const;
+const ENTITY_VIEW_MODES = ['projects', 'entities'] as const;
+
+/**
+ * Map center and zoom
+ */
+export interface MapCamera {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+}
+
+/**
+ * Everything the home page URL carries
+ */
+export interface UrlState {
+  filters: ProjectFilter[];
+  sortOptions: FilterState['sortOptions'];
+  searchTerms: string;
+  showOnlyMyProjects: boolean;
+  viewMode?: typeof VIEW_MODES[number];
+  entityViewMode?: typeof ENTITY_VIEW_MODES[number];
+  selectedProjectId?: string;
+  map?: MapCamera;
+}
+
+// Next.js page props give a plain object; the browser gives URLSearchParams
+type SearchParamsInput = URLSearchParams | Record<string, string | string[] | undefined>;
+
+const readParam = (params: SearchParamsInput, key: string): string | undefined => {
+  if (params instanceof URLSearchParams) {
+    return params.get(key) ?? undefined;
+  }
+  const value = params[key];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const isOneOf = <T extends string>(values: readonly T[], value: string | undefined): value is T =>
+  value !== undefined && (values as readonly string[]).includes(value);
+
+/**
+ * Serialize the state into URL parameters; defaults are left out
+ */
+export function serializeUrlState(state: UrlState): URLSearchParams {
+  const params = new URLSearchParams();
+  params.set('v', String(URL_STATE_VERSION));
+
+  if (state.filters.length > 0) {
+    params.set('filters', encodeFilterExpression(state.filters));
+  }
+
+  const { field, direction } = state.sortOptions;
+  if (field !== DEFAULT_SORT_OPTIONS.field || direction !== DEFAULT_SORT_OPTIONS.direction) {
+    params.set('sort', `${field}:${direction}`);
+  }
+
+  if (state.searchTerms) params.set('q', state.searchTerms);
+  if (state.showOnlyMyProjects) params.set('mine', '1');
+  if (state.viewMode) params.set('mode', state.viewMode);
+  if (state.entityViewMode) params.set('list', state.entityViewMode);
+  if (state.selectedProjectId) params.set('project', state.selectedProjectId);
+
+  if (state.map) {
+    // String() keeps full precision, so the camera parses back exactly
+    const { latitude, longitude, zoom } = state.map;
+    params.set('map', [latitude, longitude, zoom].map(String).join(','));
+  }
+
+  return params;
+}
+
+/**
+ * Parse URL parameters into state; anything missing or malformed falls back to its default
+ */
+export function parseUrlState(params: SearchParamsInput): UrlState {
+  const version = Number(readParam(params, 'v'));
+  if (!version) {
+    return parseLegacyUrlState(params);
+  }
+  if (version > URL_STATE_VERSION) {
+    console.warn(`[urlState] Link uses URL state version ${version}; reading it as version ${URL_STATE_VERSION}`);
+  }
+
+  const state: UrlState = {
+    filters: decodeFilterExpression(readParam(params, 'filters')),
+    sortOptions: parseSort(readParam(params, 'sort')),
+    searchTerms: readParam(params, 'q') || '',
+    showOnlyMyProjects: readParam(params, 'mine') === '1'
+  };
+
+  const viewMode = readParam(params, 'mode');
+  if (isOneOf(VIEW_MODES, viewMode)) state.viewMode = viewMode;
+
+  const entityViewMode = readParam(params, 'list');
+  if (isOneOf(ENTITY_VIEW_MODES, entityViewMode)) state.entityViewMode = entityViewMode;
+
+  const selectedProjectId = readParam(params, 'project');
+  if (selectedProjectId) state.selectedProjectId = selectedProjectId;
+
+  const map = parseMapCamera(readParam(params, 'map'));
+  if (map) state.map = map;
+
+  return state;
+}
+
+/**
+ * Whether the parameters hold any home page state (a bare `?view=` link doesn't)
+ */
+export function hasUrlState(params: SearchParamsInput): boolean {
+  const keys = params instanceof URLSearchParams ? Array.from(params.keys()) : Object.keys(params);
+  return keys.some(key => key !== 'view');
+}
+
+const parseSort = (value: string | undefined): FilterState['sortOptions'] => {
+  if (!value) return { ...DEFAULT_SORT_OPTIONS };
+
+  // The field may itself contain colons, the direction never does
+  const separator = value.lastIndexOf(':');
+  const field = value.slice(0, separator);
+  const direction = value.slice(separator + 1);
+  if (separator <= 0 || (direction !== 'asc' && direction !== 'desc')) {
+    return { ...DEFAULT_SORT_OPTIONS };
+  }
+
+  return { field, direction };
+};
+
+const parseMapCamera = (value: string | undefined): MapCamera | undefined => {
+  if (!value) return undefined;
+
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 3 || !parts.every(Number.isFinite)) return undefined;
+
+  const [latitude, longitude, zoom] = parts;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180 || zoom < 0) return undefined;
+
+  return { latitude, longitude, zoom };
+};
+
+/**
+ * Read links from before the codec: an encoded `filters` list, or one
+ * parameter per filter type
+ */
+const parseLegacyUrlState = (params: SearchParamsInput): UrlState => {
+  const encoded = readParam(params, 'filters');
+  const filters = encoded ? decodeFilterExpression(encoded) : parseLegacyFilterParams(params);
+  const search = filters.find(filter => filter.type === 'search');
+
+  return {
+    filters,
+    sortOptions: { ...DEFAULT_SORT_OPTIONS },
+    searchTerms: search?.value || '',
+    showOnlyMyProjects: filters.some(filter => filter.type === 'myprojects')
+  };
+};
+
+const parseLegacyFilterParams = (params: SearchParamsInput): ProjectFilter[] => {
+  const filters: ProjectFilter[] = [];
+
+  // Parse search filter
+  const search = readParam(params, 'search');
+  if (search) {
+    filters.push({ type: 'search', value: search, label: `Search: ${search}` });
+  }
+
+  // Parse AHJ filter
+  const ahj = readParam(params, 'ahj');
+  if (ahj) {
+    filters.push({ type: 'ahj', value: ahj, label: `AHJ: ${ahj}` });
+  }
+
+  // Parse Utility filter
+  const utility = readParam(params, 'utility');
+  if (utility) {
+    filters.push({ type: 'utility', value: utility, label: `Utility: ${utility}` });
+  }
+
+  // Parse Financier filter
+  const financier = readParam(params, 'financier');
+  if (financier) {
+    filters.push({ type: 'financier', value: financier, label: `Financier: ${financier}` });
+  }
+
+  // Parse Classification filter
+  const classification = readParam(params, 'classification');
+  const entityType = readParam(params, 'entityType');
+  if (classification && (entityType === 'ahj' || entityType === 'utility' || entityType === 'financier')) {
+    filters.push({
+      type: 'class',
+      value: classification,
+      entityType,
+      label: `${entityType.toUpperCase()} Class: ${classification}`
+    });
+  }
+
+  // Parse 45-day qualification filter
+  if (readParam(params, 'qualified45Day') === 'true') {
+    filters.push({ type: '45day', value: 'true', label: '45-Day Qualified' });
+  }
+
+  // Parse My Projects filter
+  const myProjects = readParam(params, 'myProjects');
+  if (myProjects) {
+    filters.push({ type: 'myprojects', value: myProjects, label: 'My Projects' });
+  }
+
+  // Parse contract signed date filter
+  const contractDate = readParam(params, 'contractDate');
+  if (contractDate) {
+    filters.push({ type: 'contractDate', value: contractDate, label: `Contract Signed: ${getDateRangeLabel(contractDate)}` });
+  }
+
+  // Parse location filters (comma-separated values)
+  GEO_FILTER_TYPES.forEach(type => {
+    parseGeoValues(readParam(params, type)).forEach(value => {
+      filters.push({ type, value, label: `${GEO_FILTER_LABELS[type]}: ${value}` });
+    });
+  });
+
+  return filters;
+};
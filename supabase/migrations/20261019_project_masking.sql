@@ -0,0 +1,109 @@
+-- Enforce project masking in the database
+--
+-- Reps may only see full project details when the project has reached the
+-- "Scope of Work" milestone (or is complete), or when they are the assigned rep.
+-- Admins can see everything. This mirrors canViewProjectDetails in
+-- src/utils/projectMasking.ts - keep the two in sync.
+
+-- Helper: the rep ID of the signed-in user
+CREATE OR REPLACE FUNCTION public.current_user_rep_id()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NULLIF(TRIM(rep_id), '') FROM public.users WHERE id = auth.uid();
+$$;
+
+-- Helper: whether the signed-in user is an admin
+CREATE OR REPLACE FUNCTION public.current_user_is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+-- Visibility rule for a single project
+CREATE OR REPLACE FUNCTION public.can_view_project_details(
+  p_milestone TEXT,
+  p_status TEXT,
+  p_rep_id TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    public.current_user_is_admin()
+    OR LOWER(COALESCE(p_status, '')) LIKE '%complete%'
+    OR LOWER(TRIM(COALESCE(p_milestone, ''))) = 'scope of work'
+    OR (
+      public.current_user_rep_id() IS NOT NULL
+      AND TRIM(COALESCE(p_rep_id, '')) = public.current_user_rep_id()
+    );
+$$;
+
+-- Lock down the raw table: no anonymous access, and signed-in users only read
+-- rows they are allowed to see in full. The app server reads podio_data with the
+-- service role key and masks restricted rows itself.
+ALTER TABLE public.podio_data ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.podio_data FROM anon;
+
+DROP POLICY IF EXISTS "Users can read permitted projects" ON public.podio_data;
+
+CREATE POLICY "Users can read permitted projects"
+  ON public.podio_data
+  FOR SELECT
+  TO authenticated
+  USING (public.can_view_project_details(milestone, status, rep_id::TEXT));
+
+-- Masked view of every project for signed-in users
+-- Restricted rows keep only their location summary (city/state/zip/county),
+-- milestone, entity IDs and 45-day status. The view runs with its owner's
+-- privileges so it can list restricted rows, but it never exposes their
+-- address, coordinates, customer name, rep ID or raw payload.
+CREATE OR REPLACE VIEW public.masked_projects AS
+SELECT
+  p.project_id,
+  p.ahj_item_id,
+  p.utility_company_item_id,
+  p.fin_id,
+  p.milestone,
+  p.qualifies_45_day,
+  p.contract_signed_date,
+  COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'city' AS city,
+  COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'state' AS state,
+  COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'zip' AS zip,
+  COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'county' AS county,
+  CASE WHEN v.visible THEN p.status ELSE 'Restricted' END AS status,
+  CASE WHEN v.visible
+    THEN COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'address'
+    ELSE 'Project details restricted'
+  END AS address,
+  CASE WHEN v.visible
+    THEN COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'latitude'
+  END AS latitude,
+  CASE WHEN v.visible
+    THEN COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'longitude'
+  END AS longitude,
+  CASE WHEN v.visible
+    THEN COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'customer_name'
+  END AS customer_name,
+  CASE WHEN v.visible THEN p.rep_id::TEXT END AS rep_id,
+  NOT v.visible AS "isMasked"
+FROM public.podio_data p
+CROSS JOIN LATERAL (
+  SELECT public.can_view_project_details(p.milestone, p.status, p.rep_id::TEXT) AS visible
+) v;
+
+REVOKE ALL ON public.masked_projects FROM anon;
+GRANT SELECT ON public.masked_projects TO authenticated;
@@ -0,0 +1,122 @@
+-- Ordered milestone pipeline for milestone-based project masking
+--
+-- Projects are visible to every rep once they reach the "Scope of Work" milestone.
+-- Milestones are compared by rank, so the rule covers every later stage too.
+-- The pipeline mirrors MILESTONE_PIPELINE in src/utils/milestones.ts -
+-- keep the two in sync.
+
+CREATE TABLE IF NOT EXISTS public.milestone_pipeline (
+  name TEXT PRIMARY KEY,
+  rank INTEGER NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.milestone_pipeline ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read the milestone pipeline" ON public.milestone_pipeline;
+
+CREATE POLICY "Authenticated users can read the milestone pipeline"
+  ON public.milestone_pipeline
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO public.milestone_pipeline (name, rank) VALUES
+  ('Contract Signed', 0),
+  ('Welcome Call', 1),
+  ('Site Survey', 2),
+  ('Scope of Work', 3),
+  ('Design', 4),
+  ('Permitting', 5),
+  ('Install', 6),
+  ('Inspection', 7),
+  ('PTO', 8),
+  ('Complete', 9)
+ON CONFLICT (name) DO NOTHING;
+
+-- Rank of a project's milestone; completed projects without a known milestone
+-- are placed at the end of the pipeline, unknown milestones get -1
+CREATE OR REPLACE FUNCTION public.project_milestone_rank(p_milestone TEXT, p_status TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT rank FROM public.milestone_pipeline
+      WHERE LOWER(name) = LOWER(REGEXP_REPLACE(TRIM(COALESCE(p_milestone, '')), '\s+', ' ', 'g'))),
+    CASE WHEN LOWER(COALESCE(p_status, '')) LIKE '%complete%'
+      THEN (SELECT MAX(rank) FROM public.milestone_pipeline)
+    END,
+    -1
+  );
+$$;
+
+-- Visibility rule for a single project, now based on the milestone rank
+CREATE OR REPLACE FUNCTION public.can_view_project_details(
+  p_milestone TEXT,
+  p_status TEXT,
+  p_rep_id TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    public.current_user_is_admin()
+    OR public.project_milestone_rank(p_milestone, p_status) >= (
+      SELECT rank FROM public.milestone_pipeline WHERE name = 'Scope of Work'
+    )
+    OR (
+      public.current_user_rep_id() IS NOT NULL
+      AND TRIM(COALESCE(p_rep_id, '')) = public.current_user_rep_id()
+    );
+$$;
+
+-- Add the coarse location used for greyed-out pins of masked projects
+-- (snapped to a 0.05 degree grid, matching getApproximateLocation in projectMasking.ts)
+CREATE OR REPLACE VIEW public.masked_projects AS
+SELECT
+  p.project_id,
+  p.ahj_item_id,
+  p.utility_company_item_id,
+  p.fin_id,
+  p.milestone,
+  p.qualifies_45_day,
+  p.contract_signed_date,
+  COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'city' AS city,
+  COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'state' AS state,
+  COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'zip' AS zip,
+  COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'county' AS county,
+  CASE WHEN v.visible THEN p.status ELSE 'Restricted' END AS status,
+  CASE WHEN v.visible
+    THEN COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'address'
+    ELSE 'Project details restricted'
+  END AS address,
+  CASE WHEN v.visible
+    THEN COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'latitude'
+  END AS latitude,
+  CASE WHEN v.visible
+    THEN COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'longitude'
+  END AS longitude,
+  CASE WHEN v.visible
+    THEN COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'customer_name'
+  END AS customer_name,
+  CASE WHEN v.visible THEN p.rep_id::TEXT END AS rep_id,
+  NOT v.visible AS "isMasked",
+  CASE WHEN NOT v.visible
+    THEN ROUND(ROUND(NULLIF(COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'latitude', '')::NUMERIC / 0.05) * 0.05, 2)
+  END AS approximate_latitude,
+  CASE WHEN NOT v.visible
+    THEN ROUND(ROUND(NULLIF(COALESCE(p.raw_payload->'raw_payload', p.raw_payload)->>'longitude', '')::NUMERIC / 0.05) * 0.05, 2)
+  END AS approximate_longitude
+FROM public.podio_data p
+CROSS JOIN LATERAL (
+  SELECT public.can_view_project_details(p.milestone, p.status, p.rep_id::TEXT) AS visible
+) v;
+
+REVOKE ALL ON public.masked_projects FROM anon;
+GRANT SELECT ON public.masked_projects TO authenticated;
@@ -0,0 +1,109 @@
+-- Flattened, query-friendly view of projects for the /api/projects route
+--
+-- Joins each project with its AHJ, utility and financier so filtering, sorting and
+-- classification totals can run in SQL instead of in memory. Sortable columns are
+-- never NULL so they can be used for keyset (cursor) pagination.
+--
+-- The view exposes unmasked data and is only readable with the service role key;
+-- the API route masks restricted projects before responding.
+
+-- Normalize a classification value to 'A', 'B', 'C' or 'Unknown'
+-- Mirrors extractClassification in src/utils/dataProcessing.ts
+CREATE OR REPLACE FUNCTION public.normalize_classification(p_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE UPPER(TRIM(COALESCE(p_value, '')))
+    WHEN 'A' THEN 'A' WHEN 'CLASS A' THEN 'A' WHEN 'CLASSA' THEN 'A' WHEN 'A CLASS' THEN 'A'
+    WHEN 'B' THEN 'B' WHEN 'CLASS B' THEN 'B' WHEN 'CLASSB' THEN 'B' WHEN 'B CLASS' THEN 'B'
+    WHEN 'C' THEN 'C' WHEN 'CLASS C' THEN 'C' WHEN 'CLASSC' THEN 'C' WHEN 'C CLASS' THEN 'C'
+    ELSE 'Unknown'
+  END;
+$$;
+
+CREATE OR REPLACE VIEW public.project_index AS
+WITH projects AS (
+  SELECT
+    p.*,
+    COALESCE(p.raw_payload->'raw_payload', p.raw_payload) AS payload
+  FROM public.podio_data p
+),
+ahjs AS (
+  SELECT
+    a.ahj_item_id::TEXT AS id,
+    COALESCE(
+      to_jsonb(a)->>'name',
+      a.raw_payload->>'name',
+      a.raw_payload->'raw_payload'->>'name'
+    ) AS name,
+    public.normalize_classification(COALESCE(
+      to_jsonb(a)->>'classification',
+      to_jsonb(a)->>'eligible-for-classification',
+      a.raw_payload->>'classification'
+    )) AS classification
+  FROM public.ahj a
+),
+utilities AS (
+  SELECT
+    u.utility_company_item_id::TEXT AS id,
+    COALESCE(
+      to_jsonb(u)->>'company_name',
+      to_jsonb(u)->>'name',
+      u.raw_payload->>'company_name',
+      u.raw_payload->'raw_payload'->>'company_name'
+    ) AS name,
+    public.normalize_classification(COALESCE(
+      to_jsonb(u)->>'classification',
+      to_jsonb(u)->>'eligible-for-classification',
+      u.raw_payload->>'classification'
+    )) AS classification
+  FROM public.utility u
+),
+financiers AS (
+  SELECT
+    f.fin_id::TEXT AS id,
+    COALESCE(to_jsonb(f)->>'company_name', to_jsonb(f)->>'name') AS name,
+    public.normalize_classification(COALESCE(
+      to_jsonb(f)->>'classification',
+      to_jsonb(f)->>'eligible-for-classification'
+    )) AS classification
+  FROM public.financier f
+)
+SELECT
+  p.project_id::TEXT AS project_id,
+  p.ahj_item_id::TEXT AS ahj_item_id,
+  p.utility_company_item_id::TEXT AS utility_company_item_id,
+  p.fin_id::TEXT AS fin_id,
+  p.raw_payload,
+  p.qualifies_45_day,
+  NULLIF(TRIM(p.rep_id::TEXT), '') AS rep_id,
+  COALESCE(p.status, '') AS status,
+  COALESCE(p.milestone, '') AS milestone,
+  public.project_milestone_rank(p.milestone, p.status) AS milestone_rank,
+  COALESCE(p.contract_signed_date::TEXT, '') AS contract_signed_date,
+  COALESCE(p.payload->>'address', '') AS address,
+  COALESCE(p.payload->>'city', '') AS city,
+  COALESCE(p.payload->>'state', '') AS state,
+  COALESCE(p.payload->>'zip', '') AS zip,
+  COALESCE(p.payload->>'county', '') AS county,
+  LOWER(TRIM(COALESCE(p.qualifies_45_day::TEXT, ''))) IN ('eligible', 'true') AS qualifies_45_day_flag,
+  COALESCE(a.name, 'Unknown AHJ') AS ahj_name,
+  COALESCE(a.classification, 'Unknown') AS ahj_classification,
+  COALESCE(u.name, 'Unknown Utility') AS utility_name,
+  COALESCE(u.classification, 'Unknown') AS utility_classification,
+  COALESCE(f.name, 'Unknown Financier') AS financier_name,
+  COALESCE(f.classification, 'Unknown') AS financier_classification
+FROM projects p
+LEFT JOIN ahjs a ON a.id = p.ahj_item_id::TEXT
+LEFT JOIN utilities u ON u.id = p.utility_company_item_id::TEXT
+LEFT JOIN financiers f ON f.id = p.fin_id::TEXT;
+
+REVOKE ALL ON public.project_index FROM anon, authenticated;
+GRANT SELECT ON public.project_index TO service_role;
+
+-- Indexes backing the most common filters and sorts
+CREATE INDEX IF NOT EXISTS podio_data_ahj_item_id_idx ON public.podio_data (ahj_item_id);
+CREATE INDEX IF NOT EXISTS podio_data_utility_company_item_id_idx ON public.podio_data (utility_company_item_id);
+CREATE INDEX IF NOT EXISTS podio_data_fin_id_idx ON public.podio_data (fin_id);
+CREATE INDEX IF NOT EXISTS podio_data_rep_id_idx ON public.podio_data (rep_id);
@@ -0,0 +1,97 @@
+-- Add coordinates to the project_index view for map-area (bounding box and radius) queries
+--
+-- `latitude`/`longitude` are the exact project coordinates. Restricted projects must
+-- only ever be matched by `approximate_latitude`/`approximate_longitude` (snapped to a
+-- 0.05 degree grid, matching getApproximateLocation in src/utils/projectMasking.ts),
+-- otherwise repeated area queries could reveal their exact location.
+
+CREATE OR REPLACE VIEW public.project_index AS
+WITH projects AS (
+  SELECT
+    p.*,
+    COALESCE(p.raw_payload->'raw_payload', p.raw_payload) AS payload
+  FROM public.podio_data p
+),
+located AS (
+  SELECT
+    projects.*,
+    NULLIF(payload->>'latitude', '')::NUMERIC AS latitude,
+    NULLIF(payload->>'longitude', '')::NUMERIC AS longitude
+  FROM projects
+),
+ahjs AS (
+  SELECT
+    a.ahj_item_id::TEXT AS id,
+    COALESCE(
+      to_jsonb(a)->>'name',
+      a.raw_payload->>'name',
+      a.raw_payload->'raw_payload'->>'name'
+    ) AS name,
+    public.normalize_classification(COALESCE(
+      to_jsonb(a)->>'classification',
+      to_jsonb(a)->>'eligible-for-classification',
+      a.raw_payload->>'classification'
+    )) AS classification
+  FROM public.ahj a
+),
+utilities AS (
+  SELECT
+    u.utility_company_item_id::TEXT AS id,
+    COALESCE(
+      to_jsonb(u)->>'company_name',
+      to_jsonb(u)->>'name',
+      u.raw_payload->>'company_name',
+      u.raw_payload->'raw_payload'->>'company_name'
+    ) AS name,
+    public.normalize_classification(COALESCE(
+      to_jsonb(u)->>'classification',
+      to_jsonb(u)->>'eligible-for-classification',
+      u.raw_payload->>'classification'
+    )) AS classification
+  FROM public.utility u
+),
+financiers AS (
+  SELECT
+    f.fin_id::TEXT AS id,
+    COALESCE(to_jsonb(f)->>'company_name', to_jsonb(f)->>'name') AS name,
+    public.normalize_classification(COALESCE(
+      to_jsonb(f)->>'classification',
+      to_jsonb(f)->>'eligible-for-classification'
+    )) AS classification
+  FROM public.financier f
+)
+SELECT
+  p.project_id::TEXT AS project_id,
+  p.ahj_item_id::TEXT AS ahj_item_id,
+  p.utility_company_item_id::TEXT AS utility_company_item_id,
+  p.fin_id::TEXT AS fin_id,
+  p.raw_payload,
+  p.qualifies_45_day,
+  NULLIF(TRIM(p.rep_id::TEXT), '') AS rep_id,
+  COALESCE(p.status, '') AS status,
+  COALESCE(p.milestone, '') AS milestone,
+  public.project_milestone_rank(p.milestone, p.status) AS milestone_rank,
+  COALESCE(p.contract_signed_date::TEXT, '') AS contract_signed_date,
+  COALESCE(p.payload->>'address', '') AS address,
+  COALESCE(p.payload->>'city', '') AS city,
+  COALESCE(p.payload->>'state', '') AS state,
+  COALESCE(p.payload->>'zip', '') AS zip,
+  COALESCE(p.payload->>'county', '') AS county,
+  LOWER(TRIM(COALESCE(p.qualifies_45_day::TEXT, ''))) IN ('eligible', 'true') AS qualifies_45_day_flag,
+  COALESCE(a.name, 'Unknown AHJ') AS ahj_name,
+  COALESCE(a.classification, 'Unknown') AS ahj_classification,
+  COALESCE(u.name, 'Unknown Utility') AS utility_name,
+  COALESCE(u.classification, 'Unknown') AS utility_classification,
+  COALESCE(f.name, 'Unknown Financier') AS financier_name,
+  COALESCE(f.classification, 'Unknown') AS financier_classification,
+  p.latitude,
+  p.longitude,
+  ROUND(ROUND(p.latitude / 0.05) * 0.05, 2) AS approximate_latitude,
+  ROUND(ROUND(p.longitude / 0.05) * 0.05, 2) AS approximate_longitude
+FROM located p
+LEFT JOIN ahjs a ON a.id = p.ahj_item_id::TEXT
+LEFT JOIN utilities u ON u.id = p.utility_company_item_id::TEXT
+LEFT JOIN financiers f ON f.id = p.fin_id::TEXT;
+
+REVOKE ALL ON public.project_index FROM anon, authenticated;
+GRANT SELECT ON public.project_index TO service_role;
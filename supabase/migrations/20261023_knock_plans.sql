@@ -0,0 +1,79 @@
+-- Knock plans: rep-owned lists of AHJs and map areas to canvass
+--
+-- The original knock_plans / knock_plan_items tables referenced the legacy
+-- `ahjs` table by UUID and were readable by anyone. Items now point at AHJs by
+-- their Podio item id (the `ahj` table), can also be a map area, and both
+-- tables are scoped to the signed-in rep.
+
+-- Plans belong to a rep
+ALTER TABLE public.knock_plans
+  ADD COLUMN IF NOT EXISTS rep_id TEXT DEFAULT public.current_user_rep_id(),
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS knock_plans_rep_id_idx ON public.knock_plans (rep_id);
+
+-- Items are either an AHJ or a map area (bounding box or radius, stored as JSON)
+ALTER TABLE public.knock_plan_items
+  DROP CONSTRAINT IF EXISTS knock_plan_items_ahj_id_fkey,
+  DROP CONSTRAINT IF EXISTS knock_plan_items_knock_plan_id_ahj_id_key;
+
+ALTER TABLE public.knock_plan_items
+  ALTER COLUMN ahj_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS item_type TEXT NOT NULL DEFAULT 'ahj',
+  ADD COLUMN IF NOT EXISTS ahj_item_id TEXT,
+  ADD COLUMN IF NOT EXISTS area JSONB,
+  ADD COLUMN IF NOT EXISTS label TEXT NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+ALTER TABLE public.knock_plan_items
+  DROP CONSTRAINT IF EXISTS knock_plan_items_target_check;
+
+ALTER TABLE public.knock_plan_items
+  ADD CONSTRAINT knock_plan_items_target_check CHECK (
+    (item_type = 'ahj' AND ahj_item_id IS NOT NULL)
+    OR (item_type = 'area' AND area IS NOT NULL)
+  ) NOT VALID;
+
+-- An AHJ appears at most once per plan
+CREATE UNIQUE INDEX IF NOT EXISTS knock_plan_items_plan_ahj_idx
+  ON public.knock_plan_items (knock_plan_id, ahj_item_id)
+  WHERE item_type = 'ahj';
+
+-- Replace the anonymous policies with rep-scoped ones
+DROP POLICY IF EXISTS "Allow anonymous read access to knock_plans" ON public.knock_plans;
+DROP POLICY IF EXISTS "Allow anonymous insert access to knock_plans" ON public.knock_plans;
+DROP POLICY IF EXISTS "Allow anonymous read access to knock_plan_items" ON public.knock_plan_items;
+DROP POLICY IF EXISTS "Allow anonymous insert access to knock_plan_items" ON public.knock_plan_items;
+
+REVOKE ALL ON public.knock_plans FROM anon;
+REVOKE ALL ON public.knock_plan_items FROM anon;
+
+DROP POLICY IF EXISTS "Reps manage their own knock plans" ON public.knock_plans;
+CREATE POLICY "Reps manage their own knock plans"
+  ON public.knock_plans
+  FOR ALL
+  TO authenticated
+  USING (rep_id IS NOT NULL AND rep_id = public.current_user_rep_id())
+  WITH CHECK (rep_id IS NOT NULL AND rep_id = public.current_user_rep_id());
+
+DROP POLICY IF EXISTS "Reps manage items in their own knock plans" ON public.knock_plan_items;
+CREATE POLICY "Reps manage items in their own knock plans"
+  ON public.knock_plan_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.knock_plans kp
+      WHERE kp.id = knock_plan_id
+        AND kp.rep_id IS NOT NULL
+        AND kp.rep_id = public.current_user_rep_id()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.knock_plans kp
+      WHERE kp.id = knock_plan_id
+        AND kp.rep_id IS NOT NULL
+        AND kp.rep_id = public.current_user_rep_id()
+    )
+  );
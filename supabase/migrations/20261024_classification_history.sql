@@ -0,0 +1,44 @@
+-- Admin classification overrides with an audit trail
+--
+-- Classifications normally come from the Podio sync or the Excel import script.
+-- Admins can now correct an AHJ, utility or financier class from the app; the
+-- new value is written to the entity's `classification` column (which takes
+-- precedence over the Podio payload, see normalize_classification callers) and
+-- every change is recorded in entity_classification_history with its reason.
+--
+-- Changes are made by /api/classifications with the service role, so only
+-- reads are granted to signed-in users.
+
+-- Make sure each entity table has a classification column to override
+ALTER TABLE public.ahj ADD COLUMN IF NOT EXISTS classification TEXT;
+ALTER TABLE public.utility ADD COLUMN IF NOT EXISTS classification TEXT;
+ALTER TABLE public.financier ADD COLUMN IF NOT EXISTS classification TEXT;
+
+CREATE TABLE IF NOT EXISTS public.entity_classification_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('ahj', 'utility', 'financier')),
+  -- Podio item id of the AHJ, utility or financier
+  entity_id TEXT NOT NULL,
+  entity_name TEXT,
+  previous_classification TEXT,
+  new_classification TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  changed_by UUID REFERENCES auth.users (id) ON DELETE SET NULL,
+  changed_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS entity_classification_history_entity_idx
+  ON public.entity_classification_history (entity_type, entity_id, created_at DESC);
+
+ALTER TABLE public.entity_classification_history ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.entity_classification_history FROM anon;
+GRANT SELECT ON public.entity_classification_history TO authenticated;
+
+DROP POLICY IF EXISTS "Signed-in users read classification history" ON public.entity_classification_history;
+CREATE POLICY "Signed-in users read classification history"
+  ON public.entity_classification_history
+  FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,55 @@
+-- Classification change notifications for reps
+--
+-- /api/notifications compares the current AHJ and utility classifications with
+-- the last snapshot it took, and for every change notifies each rep with
+-- projects in that AHJ or utility. Classifications can change through the
+-- Podio sync, the Excel import script or the admin editor; all are caught the
+-- same way because detection works on the data itself.
+
+-- Last classification seen for each entity (written by the server only)
+CREATE TABLE IF NOT EXISTS public.entity_classification_snapshots (
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('ahj', 'utility')),
+  entity_id TEXT NOT NULL,
+  classification TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+ALTER TABLE public.entity_classification_snapshots ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.entity_classification_snapshots FROM anon, authenticated;
+
+-- One row per rep per detected change
+CREATE TABLE IF NOT EXISTS public.classification_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rep_id TEXT NOT NULL,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('ahj', 'utility')),
+  entity_id TEXT NOT NULL,
+  entity_name TEXT,
+  previous_classification TEXT,
+  new_classification TEXT NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS classification_notifications_rep_idx
+  ON public.classification_notifications (rep_id, created_at DESC);
+
+ALTER TABLE public.classification_notifications ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.classification_notifications FROM anon;
+GRANT SELECT, UPDATE (read_at) ON public.classification_notifications TO authenticated;
+
+DROP POLICY IF EXISTS "Reps read their own notifications" ON public.classification_notifications;
+CREATE POLICY "Reps read their own notifications"
+  ON public.classification_notifications
+  FOR SELECT
+  TO authenticated
+  USING (rep_id IS NOT NULL AND rep_id = public.current_user_rep_id());
+
+DROP POLICY IF EXISTS "Reps mark their own notifications read" ON public.classification_notifications;
+CREATE POLICY "Reps mark their own notifications read"
+  ON public.classification_notifications
+  FOR UPDATE
+  TO authenticated
+  USING (rep_id IS NOT NULL AND rep_id = public.current_user_rep_id())
+  WITH CHECK (rep_id IS NOT NULL AND rep_id = public.current_user_rep_id());
@@ -0,0 +1,46 @@
+-- Saved filter views: named snapshots of a user's filters, sort, search and
+-- view mode
+--
+-- Views belong to the user who saved them. One view per user can be the
+-- default, loaded when the home page opens without filters in the URL. A view
+-- is shared by link (/?view=<id>); sharing marks it readable by every signed-in
+-- user, but only the owner can change or delete it.
+
+CREATE TABLE IF NOT EXISTS public.saved_filter_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  state JSONB NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS saved_filter_views_user_idx
+  ON public.saved_filter_views (user_id, created_at DESC);
+
+-- At most one default view per user
+CREATE UNIQUE INDEX IF NOT EXISTS saved_filter_views_default_idx
+  ON public.saved_filter_views (user_id)
+  WHERE is_default;
+
+ALTER TABLE public.saved_filter_views ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.saved_filter_views FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.saved_filter_views TO authenticated;
+
+DROP POLICY IF EXISTS "Users manage their own saved views" ON public.saved_filter_views;
+CREATE POLICY "Users manage their own saved views"
+  ON public.saved_filter_views
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users read shared views" ON public.saved_filter_views;
+CREATE POLICY "Users read shared views"
+  ON public.saved_filter_views
+  FOR SELECT
+  TO authenticated
+  USING (is_shared);
@@ -0,0 +1,75 @@
+-- Atomic admin classification changes
+--
+-- /api/classifications used to update the entity's classification and insert
+-- the entity_classification_history row in two separate requests, so a failed
+-- insert left a changed class with no audit row. change_entity_classification
+-- does both in one transaction: either the class changes and the change is
+-- logged, or nothing changes.
+--
+-- The previous class and entity name are passed in by the app, which resolves
+-- them from the Podio payload the same way the rest of the app does
+-- (normalizeEntity in src/utils/projectNormalization.ts).
+
+CREATE OR REPLACE FUNCTION public.change_entity_classification(
+  p_entity_type TEXT,
+  p_entity_id TEXT,
+  p_entity_name TEXT,
+  p_previous_classification TEXT,
+  p_new_classification TEXT,
+  p_reason TEXT,
+  p_changed_by UUID,
+  p_changed_by_email TEXT
+)
+RETURNS SETOF public.entity_classification_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  IF p_entity_type = 'ahj' THEN
+    UPDATE public.ahj SET classification = p_new_classification WHERE ahj_item_id::TEXT = p_entity_id;
+  ELSIF p_entity_type = 'utility' THEN
+    UPDATE public.utility SET classification = p_new_classification WHERE utility_company_item_id::TEXT = p_entity_id;
+  ELSIF p_entity_type = 'financier' THEN
+    UPDATE public.financier SET classification = p_new_classification WHERE fin_id::TEXT = p_entity_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown entity type %', p_entity_type;
+  END IF;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  -- No entity with that id: nothing to log
+  IF updated_count = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.entity_classification_history (
+    entity_type,
+    entity_id,
+    entity_name,
+    previous_classification,
+    new_classification,
+    reason,
+    changed_by,
+    changed_by_email
+  )
+  VALUES (
+    p_entity_type,
+    p_entity_id,
+    p_entity_name,
+    p_previous_classification,
+    p_new_classification,
+    p_reason,
+    p_changed_by,
+    p_changed_by_email
+  )
+  RETURNING *;
+END;
+$$;
+
+-- Only the app server (service role) changes classifications
+REVOKE ALL ON FUNCTION public.change_entity_classification(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.change_entity_classification(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, UUID, TEXT) TO service_role;
@@ -0,0 +1,44 @@
+-- Atomic default saved view changes
+--
+-- The app used to clear a user's default view and mark the new one in two
+-- separate requests, so a failure in between left the user with no default.
+-- set_default_saved_view does both in one transaction. The partial unique
+-- index saved_filter_views_default_idx (20261026_saved_filter_views.sql)
+-- still guarantees at most one default per user.
+--
+-- The function runs with the caller's rights, so row level security keeps
+-- users to their own views.
+
+CREATE OR REPLACE FUNCTION public.set_default_saved_view(
+  p_user_id UUID,
+  p_view_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialize concurrent changes for the same user
+  PERFORM 1 FROM public.saved_filter_views WHERE user_id = p_user_id FOR UPDATE;
+
+  -- Clear the current default first; the unique index is checked row by row
+  UPDATE public.saved_filter_views
+  SET is_default = false, updated_at = now()
+  WHERE user_id = p_user_id
+    AND is_default
+    AND id IS DISTINCT FROM p_view_id;
+
+  -- A null view id only clears the default
+  IF p_view_id IS NOT NULL THEN
+    UPDATE public.saved_filter_views
+    SET is_default = true, updated_at = now()
+    WHERE id = p_view_id
+      AND user_id = p_user_id
+      AND NOT is_default;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_default_saved_view(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_default_saved_view(UUID, UUID) TO authenticated;